@@ -6,6 +6,12 @@ import { ChainsModule } from './chains/chains.module';
 import { QuotesAndRoutesModule } from './quotes-and-routes/quotes-and-routes.module';
 import { IntentsModule } from './intents/intents.module';
 import { AppModule as CompleteAppModule } from './app/app.module';
+import { HealthModule } from './health/health.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { SplitPaymentsModule } from './split-payments/split-payments.module';
+import { IntentBatchesModule } from './intent-batches/intent-batches.module';
+import { SchedulesModule } from './schedules/schedules.module';
+import { InvoicesModule } from './invoices/invoices.module';
 
 @Module({
   imports: [
@@ -17,6 +23,12 @@ import { AppModule as CompleteAppModule } from './app/app.module';
     QuotesAndRoutesModule,
     IntentsModule,
     CompleteAppModule,
+    HealthModule,
+    NotificationsModule,
+    SplitPaymentsModule,
+    IntentBatchesModule,
+    SchedulesModule,
+    InvoicesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,36 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+
+/**
+ * Shared app setup used by main.ts and the e2e tests, so both run with the
+ * same validation rules.
+ *
+ * - ValidationPipe: every controller input is checked against its DTO class
+ *   (see the dto/ folders). Bad input gets a 400 listing each failing field
+ *   before any request reaches Chainrails. Unknown fields are stripped and
+ *   path/query params are converted to the types the DTO declares.
+ * - Swagger: the same DTOs describe the API, served at /docs (UI) and
+ *   /docs-json (OpenAPI document).
+ */
+export function configureApp(app: INestApplication): INestApplication {
+  app.useGlobalPipes(
+    new ValidationPipe({
+      transform: true,
+      whitelist: true,
+    }),
+  );
+
+  const config = new DocumentBuilder()
+    .setTitle('Chainrails Demo API')
+    .setDescription(
+      'Sample endpoints for chains, quotes, intents and a complete transfer flow built on Chainrails',
+    )
+    .setVersion('1.0')
+    .build();
+  const document = SwaggerModule.createDocument(app, config);
+  SwaggerModule.setup('docs', app, document, {
+    jsonDocumentUrl: 'docs-json',
+  });
+
+  return app;
+}
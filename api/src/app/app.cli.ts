@@ -3,7 +3,17 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from '../app.module';
 import { AppService } from './app.service';
+import {
+  TransferStatus,
+  TransferStatusStreamService,
+  isFinished,
+} from './transfer-status-stream.service';
 import * as readline from 'readline';
+import { formatAmount, tokenDecimals } from '../utils/amounts';
+import {
+  isEvmAddress,
+  isStarknetAddress,
+} from '../common/validation/address.validator';
 
 /**
  * CHAINRAILS INTERACTIVE DEMO CLI - YOU DO NOT NEED TO MODIFY/STUDY THIS FILE
@@ -13,7 +23,7 @@ import * as readline from 'readline';
  * 2. Select your preferred source chain and payment token
  * 3. Create the transfer intent
  * 4. Display funding instructions
- * 5. Wait for webhook events and show status updates
+ * 5. Stream status updates (webhook events + status changes) until done
  * 
  * Run with: npm run app:demo
  */
@@ -31,9 +41,14 @@ interface UserInput {
 class ChainrailsCLI {
   private rl: readline.Interface;
   private appService: AppService;
+  private statusStream: TransferStatusStreamService;
 
-  constructor(appService: AppService) {
+  constructor(
+    appService: AppService,
+    statusStream: TransferStatusStreamService,
+  ) {
     this.appService = appService;
+    this.statusStream = statusStream;
     this.rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
@@ -171,6 +186,11 @@ class ChainrailsCLI {
       amount: input.amount,
       tokenOut: input.tokenOut,
       recipient: input.recipient,
+      // Balances are checked only where RPC_URL_<CHAIN> is configured
+      senders:
+        isStarknetAddress(input.sender) && !isEvmAddress(input.sender)
+          ? { starknet: input.sender }
+          : { evm: input.sender },
     });
 
     console.log(`✅ Found ${options.totalOptions} transfer option(s):\n`);
@@ -178,12 +198,19 @@ class ChainrailsCLI {
     // Display options in a table format
     options.options.forEach((option) => {
       const prefix = option.recommended ? '⭐' : '  ';
-      const tag = option.recommended ? ' (CHEAP)' : '';
+      const tag = option.recommended ? ` (BEST: ${options.strategy})` : '';
       console.log(`${prefix} ${option.index}. ${option.sourceChain} - ${option.token}${tag}`);
       console.log(`     Type: ${option.type}`);
       console.log(`     Fee: ${option.feeFormatted} USDC`);
       console.log(`     Bridge: ${option.bridge}`);
-      console.log(`     Deposit: ${option.depositAmountFormatted} ${option.token}`);
+      console.log(
+        `     Deposit: ${option.depositAmountFormatted ?? `${option.depositAmount} (smallest units)`} ${option.token}`,
+      );
+      if (option.funding?.status === 'insufficient') {
+        console.log(
+          `     ⚠️  Not enough ${option.token} in your wallet (short by ${option.funding.shortfall} smallest units)`,
+        );
+      }
       console.log('');
     });
 
@@ -221,7 +248,9 @@ class ChainrailsCLI {
     // This already includes fees and slippage
     const amountSymbol = selectedOption.token || 'USDC';
 
+    // The quoteId makes the server hold us to the option it quoted
     const transfer = await this.appService.createTransfer({
+      quoteId: selectedOption.quoteId,
       sourceChain: selectedOption.sourceChain,
       destinationChain: input.destinationChain,
       amount: selectedOption.depositAmount,
@@ -252,10 +281,19 @@ class ChainrailsCLI {
     console.log(boxEnd);
     console.log('');
     const amountSmallestUnit = String(transfer.fundingInstructions.amount ?? '0');
-
-    console.log(
-      `📍 Send exactly ${amountSmallestUnit} in smallest units to:`
-    );
+    const symbol = transfer.intent.asset_token_symbol;
+    const decimals =
+      transfer.intent.asset_token_decimals ?? tokenDecimals(symbol);
+
+    if (decimals === undefined) {
+      console.log(
+        `📍 Send exactly ${amountSmallestUnit} in smallest units to:`,
+      );
+    } else {
+      console.log(
+        `📍 Send exactly ${formatAmount(amountSmallestUnit, decimals, symbol)} (${amountSmallestUnit} in smallest units) to:`,
+      );
+    }
     console.log(`   ${transfer.fundingInstructions.address}`);
     console.log('');
     console.log(`🌐 Network: ${transfer.fundingInstructions.network}`);
@@ -270,58 +308,60 @@ class ChainrailsCLI {
   }
 
   /**
-   * Monitors transfer status with periodic checks
+   * Follows the transfer status stream until the transfer finishes
    */
-  private async monitorTransferStatus(intentId: number) {
+  private monitorTransferStatus(intentId: number): Promise<void> {
     console.log('🔄 Monitoring transfer status...');
-    console.log('   (In production, webhook events will notify you automatically)\n');
+    console.log('   (Updates arrive as soon as the status changes)\n');
 
-    let isComplete = false;
-    let attempts = 0;
-    const maxAttempts = 15; // 3:45 mins max (15 seconds * 15)
+    const maxWaitMs = 30 * 60 * 1000; // stop watching after 30 mins
 
-    while (!isComplete && attempts < maxAttempts) {
-      attempts++;
-
-      try {
-        const status = await this.appService.getTransferStatus(intentId);
-
-        // Display status update
-        console.log(`[${new Date().toLocaleTimeString()}] Status: ${status.statusMessage}`);
+    return new Promise((resolve) => {
+      let lastStatus: TransferStatus | undefined;
 
-        // Display webhook events if any
-        if (status.webhookEvents.length > 0) {
-          const latestEvent = status.webhookEvents[status.webhookEvents.length - 1];
-          console.log(`   📨 Latest event: ${latestEvent.type}`);
-        }
+      const finish = () => {
+        clearTimeout(timer);
 
-        // Check if complete
-        if (status.isComplete) {
+        if (lastStatus?.isComplete) {
           console.log('\n🎉 Transfer completed successfully!');
-          if (status.intent.tx_hash) {
-            console.log(`📝 Transaction hash: ${status.intent.tx_hash}`);
+          if (lastStatus.intent.tx_hash) {
+            console.log(`📝 Transaction hash: ${lastStatus.intent.tx_hash}`);
           }
-          isComplete = true;
-        } else if (status.isFailed) {
-          console.log(`\n❌ Transfer failed: ${status.statusMessage}`);
-          isComplete = true;
+        } else if (lastStatus && isFinished(lastStatus)) {
+          console.log(`\n❌ Transfer failed: ${lastStatus.statusMessage}`);
         } else {
-          // Wait 15 seconds before next check
-          await new Promise((resolve) => setTimeout(resolve, 15000));
+          console.log('\n⏰ Status monitoring stopped.');
+          console.log('\n🔎 You can keep following this intent with:');
+          console.log(
+            `curl -N http://localhost:3000/app/status/${intentId}/stream`,
+          );
         }
-      } catch (error) {
-        console.log(`   ⚠️  Error checking status: ${error.message}`);
-        await new Promise((resolve) => setTimeout(resolve, 15000));
-      }
-    }
-
-    if (!isComplete) {
-      console.log('\n⏰ Status monitoring timed out.');
-      console.log('💡 In production, webhooks will notify you when the transfer completes.');
+        resolve();
+      };
+
+      const subscription = this.statusStream.stream(intentId).subscribe({
+        next: (message) => {
+          if (message.type === 'webhook') {
+            console.log(`   📨 Webhook event: ${(message.data as any).type}`);
+          } else if (message.type === 'status') {
+            lastStatus = message.data as TransferStatus;
+            console.log(
+              `[${new Date().toLocaleTimeString()}] Status: ${lastStatus.statusMessage}`,
+            );
+          }
+        },
+        error: (error) => {
+          console.log(`   ⚠️  Error checking status: ${error.message}`);
+          finish();
+        },
+        complete: () => finish(),
+      });
 
-      console.log('\n🔎 You can continue checking this intent status though with:');
-      console.log(`curl http://localhost:3000/app/status/${intentId}`);
-    }
+      const timer = setTimeout(() => {
+        subscription.unsubscribe();
+        finish();
+      }, maxWaitMs);
+    });
   }
 }
 
@@ -334,7 +374,10 @@ async function bootstrap() {
   });
 
   const appService = app.get(AppService);
-  const cli = new ChainrailsCLI(appService);
+  const cli = new ChainrailsCLI(
+    appService,
+    app.get(TransferStatusStreamService),
+  );
 
   await cli.run();
   await app.close();
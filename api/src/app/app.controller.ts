@@ -1,5 +1,29 @@
-import { Controller, Get, Post, Body, Param, Headers, Query } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Headers,
+  HttpCode,
+  MessageEvent,
+  RawBodyRequest,
+  Req,
+  Sse,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ApiTags } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
 import { AppService } from './app.service';
+import { TransferStatusStreamService } from './transfer-status-stream.service';
+import { TransferOptionsDto } from './dto/transfer-options.dto';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { IntentIdParamsDto } from '../intents/dto/intent-query.dto';
+import { OptionRankingService } from '../option-ranking/option-ranking.service';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  Idempotent,
+} from '../idempotency/idempotency.interceptor';
 
 /**
  * COMPLETE TRANSFER APP CONTROLLER
@@ -9,13 +33,20 @@ import { AppService } from './app.service';
  * 
  * Endpoints:
  * - POST /app/options - Get multi-source transfer options
+ * - GET /app/options/strategies - List option ranking strategies
  * - POST /app/transfer - Create a transfer intent
  * - GET /app/status/:id - Get transfer status
+ * - GET /app/status/:id/stream - Live transfer status (Server-Sent Events)
  * - POST /app/webhook - Receive webhook events
  */
+@ApiTags('app')
 @Controller('app')
 export class AppController {
-  constructor(private readonly appService: AppService) {}
+  constructor(
+    private readonly appService: AppService,
+    private readonly statusStream: TransferStatusStreamService,
+    private readonly ranking: OptionRankingService,
+  ) {}
 
   /**
    * POST /app/options
@@ -26,20 +57,21 @@ export class AppController {
    * - amount: Amount to transfer (human-readable, e.g., "10" for 10 USDC)
    * - tokenOut: Token address on destination
    * - recipient: (Optional) Recipient address
+   * - strategy: (Optional) How to pick the recommended option
+   * - preferredBridges, preferredTokens, weights: (Optional) Strategy inputs
    */
   @Post('options')
-  async getTransferOptions(
-    @Body('destinationChain') destinationChain: string,
-    @Body('amount') amount: string,
-    @Body('tokenOut') tokenOut: string,
-    @Body('recipient') recipient?: string,
-  ) {
-    return this.appService.getTransferOptions({
-      destinationChain,
-      amount,
-      tokenOut,
-      recipient,
-    });
+  async getTransferOptions(@Body() body: TransferOptionsDto) {
+    return this.appService.getTransferOptions(body);
+  }
+
+  /**
+   * GET /app/options/strategies
+   * List the strategies POST /app/options can rank options with
+   */
+  @Get('options/strategies')
+  getRankingStrategies() {
+    return this.ranking.describe();
   }
 
   /**
@@ -55,30 +87,17 @@ export class AppController {
    * - sender: (Optional) Sender address
    * - refundAddress: (Optional) Refund address
    * - metadata: (Optional) Custom metadata
+   *
+   * Headers:
+   * - Idempotency-Key: (Optional) Retries with the same key get the same transfer back
    */
   @Post('transfer')
+  @Idempotent()
   async createTransfer(
-    @Body('sourceChain') sourceChain: string,
-    @Body('destinationChain') destinationChain: string,
-    @Body('amount') amount: string,
-    @Body('amountSymbol') amountSymbol: string,
-    @Body('tokenIn') tokenIn: string,
-    @Body('recipient') recipient: string,
-    @Body('sender') sender: string,
-    @Body('refundAddress') refundAddress: string,
-    @Body('metadata') metadata?: Record<string, any>,
+    @Body() body: CreateTransferDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
   ) {
-    return this.appService.createTransfer({
-      sourceChain,
-      destinationChain,
-      amount,
-      amountSymbol,
-      tokenIn,
-      recipient,
-      sender,
-      refundAddress,
-      metadata,
-    });
+    return this.appService.createTransfer({ ...body, idempotencyKey });
   }
 
   /**
@@ -89,8 +108,28 @@ export class AppController {
    * - id: Intent ID
    */
   @Get('status/:id')
-  async getTransferStatus(@Param('id') id: string) {
-    return this.appService.getTransferStatus(parseInt(id, 10));
+  async getTransferStatus(@Param() params: IntentIdParamsDto) {
+    return this.appService.getTransferStatus(params.id);
+  }
+
+  /**
+   * GET /app/status/:id/stream
+   * Live status of a transfer as Server-Sent Events
+   *
+   * Events:
+   * - status: the same body as GET /app/status/:id, sent on connect and on every change
+   * - webhook: a webhook event for this intent just arrived
+   * - heartbeat: keep-alive
+   *
+   * The stream closes after a terminal status (COMPLETED, EXPIRED, REFUNDED).
+   *
+   * Try it: curl -N http://localhost:3000/app/status/1/stream
+   */
+  @Sse('status/:id/stream')
+  streamTransferStatus(
+    @Param() params: IntentIdParamsDto,
+  ): Observable<MessageEvent> {
+    return this.statusStream.stream(params.id);
   }
 
   /**
@@ -98,17 +137,23 @@ export class AppController {
    * Receive webhook events from Chainrails
    * 
    * This is where Chainrails will send real-time updates.
-   * In production, you should verify the HMAC signature!
+   * The HMAC signature is checked against the raw request body, so the
+   * app must be created with { rawBody: true } (see main.ts).
    * 
    * Headers:
    * - X-Chainrails-Signature: HMAC signature
    * - X-Chainrails-Event-Type: Event type
    * - X-Chainrails-Event-ID: Event ID
    * - X-Chainrails-Timestamp: Unix timestamp
+   *
+   * Retried deliveries of an event we already have are acknowledged
+   * with `replayed: true` and don't show up twice in /app/status/:id.
    */
   @Post('webhook')
+  @HttpCode(200)
   async handleWebhook(
     @Body() payload: any,
+    @Req() req: RawBodyRequest<Request>,
     @Headers('x-chainrails-signature') signature: string,
     @Headers('x-chainrails-timestamp') timestamp: string,
     @Headers('x-chainrails-event-type') eventType?: string,
@@ -116,14 +161,13 @@ export class AppController {
   ) {
     console.log(`Received webhook event: ${eventType} (ID: ${eventId}) at ${timestamp}`);
     console.log('Payload:', JSON.stringify(payload, null, 2));
-    
-    // Convert timestamp string to number
-    const timestampNumber = parseInt(timestamp, 10);
 
-    const result = this.appService.handleWebhookEvent(
+    const result = await this.appService.handleWebhookEvent(
       payload,
+      req.rawBody,
       signature,
-      timestampNumber,
+      timestamp,
+      eventId,
     );
     
     // Always return 200 OK to acknowledge receipt
@@ -131,6 +175,9 @@ export class AppController {
       received: true,
       eventId: result.eventId,
       eventType: result.eventType,
+      replayed: result.replayed,
+      deliveryAttempts: result.deliveryAttempts,
+      transition: result.transition,
     };
   }
 }
\ No newline at end of file
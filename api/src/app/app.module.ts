@@ -1,18 +1,33 @@
 import { Module } from '@nestjs/common';
 import { AppService } from './app.service';
 import { AppController } from './app.controller';
+import { TransferStatusStreamService } from './transfer-status-stream.service';
 import { ChainsModule } from '../chains/chains.module';
 import { QuotesAndRoutesModule } from '../quotes-and-routes/quotes-and-routes.module';
 import { IntentsModule } from '../intents/intents.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { LifecycleModule } from '../lifecycle/lifecycle.module';
+import { ReconciliationModule } from '../reconciliation/reconciliation.module';
+import { QuoteLocksModule } from '../quote-locks/quote-locks.module';
+import { OptionRankingModule } from '../option-ranking/option-ranking.module';
+import { BalancesModule } from '../balances/balances.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
   imports: [
     ChainsModule,
     QuotesAndRoutesModule,
     IntentsModule,
+    WebhooksModule,
+    LifecycleModule,
+    ReconciliationModule,
+    QuoteLocksModule,
+    OptionRankingModule,
+    BalancesModule,
+    IdempotencyModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
-  exports: [AppService],
+  providers: [AppService, TransferStatusStreamService],
+  exports: [AppService, TransferStatusStreamService],
 })
 export class AppModule {}
@@ -1,9 +1,35 @@
-import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { createHmac } from 'crypto';
 import { ChainsService } from '../chains/chains.service';
 import { QuotesAndRoutesService } from '../quotes-and-routes/quotes-and-routes.service';
 import { IntentsService } from '../intents/intents.service';
+import {
+  WEBHOOK_EVENT_STORE,
+  WebhookEventStore,
+} from '../webhooks/webhook-event.store';
+import { toWebhookEvent } from '../webhooks/webhook-event.model';
+import { WebhookSignatureService } from '../webhooks/webhook-signature.service';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { IntentLifecycleService } from '../lifecycle/intent-lifecycle.service';
+import { INTENT_STAGE_DESCRIPTIONS } from '../lifecycle/intent-state-machine';
+import { IntentReconcilerService } from '../reconciliation/intent-reconciler.service';
+import { QuoteLockService } from '../quote-locks/quote-lock.service';
+import { LockedQuote } from '../quote-locks/quote-lock.store';
+import { OptionRankingService } from '../option-ranking/option-ranking.service';
+import { RankingPreferences } from '../option-ranking/ranking-strategy';
+import { BalancesService, SenderAddresses } from '../balances/balances.service';
+import {
+  compareAmounts,
+  formatAmount,
+  formatUnits,
+  toBaseUnits,
+  tokenDecimals,
+} from '../utils/amounts';
 
 /**
  * COMPLETE TRANSFER APP SERVICE
@@ -25,16 +51,30 @@ import { IntentsService } from '../intents/intents.service';
 @Injectable()
 export class AppService {
   private readonly logger = new Logger(AppService.name);
-  
-  // In-memory storage for webhook events (demo purposes only)
-  private webhookEvents = new Map<string, any[]>();
+  private readonly webhookRetentionMs: number;
 
   constructor(
     private readonly chainsService: ChainsService,
     private readonly quotesService: QuotesAndRoutesService,
     private readonly intentsService: IntentsService,
     private readonly configService: ConfigService,
-  ) {}
+    @Inject(WEBHOOK_EVENT_STORE)
+    private readonly webhookEvents: WebhookEventStore,
+    private readonly webhookSignatures: WebhookSignatureService,
+    private readonly webhookBus: WebhookEventBus,
+    private readonly lifecycle: IntentLifecycleService,
+    private readonly reconciler: IntentReconcilerService,
+    private readonly quoteLocks: QuoteLockService,
+    private readonly ranking: OptionRankingService,
+    private readonly balances: BalancesService,
+  ) {
+    // Chainrails stops retrying a delivery after ~31 hours, so remember
+    // delivered event ids for longer than that
+    this.webhookRetentionMs =
+      Number(
+        this.configService.get('WEBHOOK_DEDUP_RETENTION_HOURS') ?? 72,
+      ) * 60 * 60 * 1000;
+  }
 
   /**
    * Example 1: Get Transfer Options (Multi-Source Quotes)
@@ -45,17 +85,28 @@ export class AppService {
    * Flow:
    * 1. Call multi-source quotes API
    * 2. Format results for user presentation
-   * 3. Highlight cheapest option
+   * 3. With sender addresses, check their balances and drop or sort last
+   *    the options they can't pay for (see BalancesService)
+   * 4. Score every option with a ranking strategy and recommend the best
+   *    (cheapest by default, see OptionRankingService)
+   * 5. Lock every option under a signed, expiring quoteId (see QuoteLockService)
    * 
    * Use case: User wants to send USDC to Arbitrum, you show them
-   * which of their wallets (Base, Starknet, etc.) is cheapest
+   * which of their wallets (Base, Starknet, etc.) is cheapest - or
+   * fastest, or pays with a token they already hold
    */
-  async getTransferOptions(params: {
-    destinationChain: string;
-    amount: string;
-    tokenOut: string;
-    recipient?: string;
-  }) {
+  async getTransferOptions(
+    params: {
+      destinationChain: string;
+      amount: string;
+      tokenOut: string;
+      recipient?: string;
+      /** Sender wallets: mark each option fundable or insufficient */
+      senders?: SenderAddresses;
+      /** What to do with options the sender can't pay for (default: last) */
+      unfundable?: 'drop' | 'last';
+    } & RankingPreferences,
+  ) {
     const multiSourceQuotes = await this.quotesService.getMultiSourceQuotes({
       destinationChain: params.destinationChain,
       amount: params.amount,
@@ -65,58 +116,125 @@ export class AppService {
 
     // Flatten options: each quote can have multiple payment options
     // Create a separate option for each chain+token combination
-    const options = [];
-    let optionIndex = 1;
-    let cheapestOption = null;
-    let lowestFee = Infinity;
+    let options = [];
+
+    // Fees are in the destination token's smallest units
+    const feeDecimals = await this.chainsService.getTokenDecimals(
+      params.destinationChain,
+      params.tokenOut,
+    );
 
-    multiSourceQuotes.quotes.forEach((quote) => {
+    for (const quote of multiSourceQuotes.quotes) {
       const isSameChain = quote.sourceChain === params.destinationChain;
       const bridgeType = isSameChain ? 'None (same chain)' : quote.bridge || 'Auto-selected';
+      // Amounts are compared as bigints: fees in base units don't survive floats
+      const fee = toBaseUnits(quote.totalFee || '0');
 
       // Each payment option becomes a selectable choice
-      quote.paymentOptions.forEach((paymentOption) => {
-        const feeNum = parseFloat(quote.totalFee || '0');
-        const isCurrentCheapest = feeNum < lowestFee;
-        
-        if (isCurrentCheapest) {
-          lowestFee = feeNum;
-        }
-
-        const option = {
-          index: optionIndex++,
+      for (const paymentOption of quote.paymentOptions) {
+        const depositDecimals = await this.chainsService.getTokenDecimals(
+          quote.sourceChain,
+          paymentOption.tokenAddress,
+          paymentOption.token,
+        );
+
+        options.push({
+          index: options.length + 1,
           sourceChain: quote.sourceChain,
           type: isSameChain ? 'same-chain' : 'cross-chain',
-          fee: quote.totalFee || '0',
-          feeFormatted: quote.totalFeeFormatted || '0',
+          fee: fee.toString(),
+          feeFormatted:
+            quote.totalFeeFormatted ??
+            (feeDecimals === undefined
+              ? fee.toString()
+              : formatUnits(fee, feeDecimals)),
           bridge: bridgeType,
           token: paymentOption.token,
           tokenAddress: paymentOption.tokenAddress,
           depositAmount: paymentOption.depositAmount,
-          depositAmountFormatted: paymentOption.depositAmountFormatted,
+          depositAmountFormatted:
+            paymentOption.depositAmountFormatted ??
+            (depositDecimals === undefined
+              ? undefined
+              : formatUnits(paymentOption.depositAmount, depositDecimals)),
           slippage: paymentOption.slippage,
           recommended: false,
-        };
+        });
+      }
+    }
 
-        options.push(option);
+    // Check which options the sender's wallets can pay for
+    if (params.senders) {
+      const checks = await this.balances.checkFunding(options, params.senders);
+      options.forEach((opt, i) => (opt.funding = checks[i]));
 
-        if (isCurrentCheapest) {
-          cheapestOption = option;
-        }
-      });
+      const isPayable = (opt) => opt.funding.status !== 'insufficient';
+      options =
+        params.unfundable === 'drop'
+          ? options.filter(isPayable)
+          : [
+              ...options.filter(isPayable),
+              ...options.filter((opt) => !isPayable(opt)),
+            ];
+      options.forEach((opt, i) => (opt.index = i + 1));
+    }
+
+    // Options the sender can't pay for are never recommended
+    const payable = options.filter(
+      (opt) => opt.funding?.status !== 'insufficient',
+    );
+    const cheapestOption = payable.reduce(
+      (cheapest, opt) =>
+        !cheapest || compareAmounts(opt.fee, cheapest.fee) < 0 ? opt : cheapest,
+      null,
+    );
+
+    // Score every option, and recommend the best one(s)
+    const ranking = this.ranking.rank(options, {
+      strategy: params.strategy,
+      preferredBridges: params.preferredBridges,
+      preferredTokens: params.preferredTokens,
+      weights: params.weights,
+    });
+    options.forEach((opt, i) => {
+      const { score, rank, components } = ranking.scores[i];
+      opt.score = score;
+      opt.rank = rank;
+      opt.scoreBreakdown = components;
     });
 
-    // Mark the cheapest option(s)
-    options.forEach((opt) => {
-      if (parseFloat(opt.fee) === lowestFee) {
-        opt.recommended = true;
-      }
+    const bestScore = Math.max(...payable.map((opt) => opt.score));
+    payable.forEach((opt) => (opt.recommended = opt.score === bestScore));
+    const recommendedOption = payable.reduce(
+      (best, opt) => (!best || opt.rank < best.rank ? opt : best),
+      null,
+    );
+
+    // Remember exactly what was offered, so /app/transfer can be held to it
+    const tickets = await this.quoteLocks.issue(
+      options.map((opt) => ({
+        destinationChain: params.destinationChain,
+        tokenOut: params.tokenOut,
+        requestedAmount: params.amount,
+        recipient: params.recipient,
+        sourceChain: opt.sourceChain,
+        tokenIn: opt.tokenAddress,
+        tokenSymbol: opt.token,
+        depositAmount: opt.depositAmount,
+        fee: opt.fee,
+      })),
+    );
+    options.forEach((opt, i) => {
+      opt.quoteId = tickets[i].quoteId;
+      opt.quoteExpiresAt = tickets[i].expiresAt;
     });
 
     return {
       destinationChain: params.destinationChain,
       amount: params.amount,
+      strategy: ranking.strategy,
       options,
+      recommendedOption,
       cheapestOption,
       totalOptions: options.length,
     };
@@ -127,25 +245,45 @@ export class AppService {
    * 
    * After user selects their preferred source chain, create the intent.
    * This reuses the intents service to create the transfer.
+   *
+   * Pass the option's quoteId and the source chain, token and amount are
+   * taken from the quote we issued instead of trusted from the request.
+   * Set QUOTE_LOCK_REQUIRED=true to refuse transfers without one.
    * 
    * Flow:
-   * 1. Create intent using intents service
-   * 2. Initialize webhook tracking
-   * 3. Return funding instructions
+   * 1. Redeem the quoteId, if given (rejects tampered or expired quotes)
+   * 2. Create intent using intents service
+   * 3. Track the intent, so the reconciler can catch up if webhooks get lost
+   * 4. Return funding instructions
    * 
    * Use case: User selected "Base → Arbitrum" and wants to proceed
    */
   async createTransfer(params: {
-    sourceChain: string;
-    destinationChain: string;
-    amount: string;
-    amountSymbol: string;
-    tokenIn: string;
-    recipient: string;
-    sender: string;
-    refundAddress: string;
+    quoteId?: string;
+    feeToleranceBps?: number;
+    sourceChain?: string;
+    destinationChain?: string;
+    amount?: string;
+    amountSymbol?: string;
+    tokenIn?: string;
+    recipient?: string;
+    sender?: string;
+    refundAddress?: string;
     metadata?: Record<string, any>;
+    idempotencyKey?: string;
   }) {
+    let quote: LockedQuote | undefined;
+    if (params.quoteId) {
+      quote = await this.quoteLocks.redeem(params.quoteId, {
+        feeToleranceBps: params.feeToleranceBps,
+      });
+      params = applyLockedQuote(params, quote);
+    } else if (this.quoteLocks.required) {
+      throw new BadRequestException(
+        'quoteId is required. Get one from POST /app/options.',
+      );
+    }
+
     const intent = await this.intentsService.createIntent({
       sender: params.sender,
       amount: params.amount,
@@ -157,18 +295,24 @@ export class AppService {
       refundAddress: params.refundAddress,
       metadata: {
         ...params.metadata,
+        ...(quote && { quoteId: quote.id }),
         createdVia: 'complete-demo-app',
       },
+      idempotencyKey: params.idempotencyKey,
     });
 
-    // Initialize webhook event storage for this intent
-    this.webhookEvents.set(intent.intent_address, []);
+    await this.reconciler.track(intent);
 
     return {
       intent,
       fundingInstructions: {
         address: intent.intent_address,
         amount: intent.total_amount_in_asset_token,
+        amountFormatted: this.formatIntentAmount(
+          intent.total_amount_in_asset_token,
+          intent.asset_token_decimals,
+          intent.asset_token_symbol ?? params.amountSymbol,
+        ),
         network: params.sourceChain,
         deadline: intent.expires_at,
       },
@@ -176,6 +320,12 @@ export class AppService {
         intentId: intent.id,
         intentAddress: intent.intent_address
       },
+      quote: quote && {
+        quoteId: params.quoteId,
+        fee: quote.fee,
+        depositAmount: quote.depositAmount,
+        expiresAt: quote.expiresAt,
+      },
     };
   }
 
@@ -183,33 +333,29 @@ export class AppService {
    * Example 3: Get Transfer Status
    * 
    * Track the progress of a transfer in real-time.
-   * Shows current status and any webhook events received.
+   * Shows current status, any webhook events received and the
+   * timeline of stages the transfer went through.
    * 
    * Flow:
    * 1. Get intent status from API
-   * 2. Get webhook events from memory
-   * 3. Combine into comprehensive status
+   * 2. Get webhook events from the event store
+   * 3. Replay them through the intent state machine (see LifecycleModule)
+   * 4. Combine into comprehensive status
    * 
    * Use case: User wants to check if their transfer completed
    */
   async getTransferStatus(intentId: number) {
     const intent = await this.intentsService.getIntentStatus(intentId);
-    const webhookEvents = this.webhookEvents.get(intent.intent_address) || [];
-
-    const stages = {
-      PENDING: 'Waiting for funding',
-      FUNDED: 'Funded, processing starting...',
-      INITIATED: 'Transfer in progress',
-      COMPLETED: 'Transfer completed!',
-      EXPIRED: 'Intent expired',
-      REFUNDED: 'Transfer refunded',
-    };
+    const { events: webhookEvents, timeline } =
+      await this.lifecycle.getTimeline(intent);
 
-    const statusMessage = stages[intent.intent_status] || intent.intent_status;
+    const statusMessage =
+      INTENT_STAGE_DESCRIPTIONS[intent.intent_status] || intent.intent_status;
 
     return {
       intent,
       webhookEvents,
+      timeline,
       statusMessage,
       isComplete: intent.intent_status === 'COMPLETED',
       isFailed: ['EXPIRED', 'REFUNDED'].includes(intent.intent_status),
@@ -221,78 +367,135 @@ export class AppService {
    * 
    * This is called when Chainrails sends a webhook event.
    * Stores the event and makes it available for status queries.
+   *
+   * Chainrails retries deliveries it doesn't see acknowledged, so the same
+   * event can arrive more than once. Deliveries are de-duplicated by event id
+   * (payload.id, or the X-Chainrails-Event-ID header): a repeat is counted and
+   * acknowledged with `replayed: true`, but doesn't add a second event.
+   *
+   * Each event's status is checked against the intent's history. Impossible
+   * transitions (e.g. FUNDED after COMPLETED) are still acknowledged and
+   * stored, but flagged with `transition.valid: false` and left out of the
+   * status timeline.
    * 
    * In production, you should:
-   * - Verify the HMAC signature (shown below)
+   * - Verify the HMAC signature (see WebhookSignatureService)
    * - Store in database
-   * - Trigger notifications to users
+   * - Trigger notifications to users (see NotificationsModule, which
+   *   listens on the WebhookEventBus)
    * - Update your app's state
    * 
    * NB: You must register your webhook URL in the Chainrails dashboard!
    */
-  handleWebhookEvent(
+  async handleWebhookEvent(
     payload: any,
+    rawBody: Buffer | undefined,
     signature: string,
-    timestamp: number,
+    timestamp: string,
+    eventIdHeader?: string,
   ) {
-    // Verify HMAC signature to ensure webhook is from Chainrails
-    const isValid = this.verifyWebhookSignature(payload, signature, timestamp);
-    if (!isValid) {
-      throw new UnauthorizedException('Invalid webhook signature');
+    // Verify HMAC signature (over the raw body) to ensure webhook is from Chainrails
+    this.webhookSignatures.verify(rawBody, signature, timestamp);
+
+    const eventId = payload?.id ?? eventIdHeader;
+    if (!eventId) {
+      throw new BadRequestException('Webhook event has no id');
     }
 
-    const intentAddress = payload.data?.intent_address;
-    if (intentAddress) {
-      const events = this.webhookEvents.get(intentAddress) || [];
-      events.push({
-        id: payload.id,
-        type: payload.type,
-        created_at: payload.created_at,
-        data: payload.data,
-        receivedAt: new Date().toISOString(),
-      });
-      this.webhookEvents.set(intentAddress, events);
+    const now = Date.now();
+    const delivery = await this.webhookEvents.recordDelivery(
+      String(eventId),
+      new Date(now).toISOString(),
+      new Date(now - this.webhookRetentionMs).toISOString(),
+    );
+    const replayed = delivery.attempts > 1;
+    if (replayed) {
+      this.logger.log(
+        `Webhook event ${eventId} delivered again (attempt ${delivery.attempts})`,
+      );
+    }
+
+    // Saving is keyed on the event id and stamped with the first delivery
+    // time, so a replay overwrites the stored event with the same content
+    // (and fills it in if storing the first delivery failed)
+    const event = toWebhookEvent(
+      { ...payload, id: eventId },
+      new Date(delivery.firstDeliveredAt),
+    );
+    const transition = await this.lifecycle.checkTransition(event);
+    if (transition && !transition.valid) {
+      this.logger.warn(
+        `Webhook event ${event.id} reports an impossible transition ${transition.from} → ${transition.to}`,
+      );
+    }
+    await this.webhookEvents.save(event);
+    if (transition?.valid) {
+      await this.reconciler.updateFromWebhook(event, transition.to);
+    }
+
+    // Let open status streams know (replays were already announced)
+    if (!replayed) {
+      this.webhookBus.publish(event);
     }
 
     return {
       received: true,
-      eventId: payload.id,
-      eventType: payload.type,
-      intentAddress,
+      eventId: event.id,
+      eventType: event.type,
+      intentAddress: event.intentAddress,
+      replayed,
+      deliveryAttempts: delivery.attempts,
+      transition,
     };
   }
 
-  /**
-   * Verify Webhook HMAC Signature
-   * 
-   * This ensures webhooks are actually from Chainrails and haven't been tampered with.
-   */
-  private verifyWebhookSignature(
-    payload: any,
-    signature: string,
-    timestamp: number,
-  ): boolean {
-    const webhookSecret = this.configService.get<string>('CHAINRAILS_WEBHOOK_SECRET');
-    
-    if (!webhookSecret) {
-      this.logger.warn('CHAINRAILS_WEBHOOK_SECRET not set. Skipping verification (OK for development, but not recommended).');
-      return true;
+  private formatIntentAmount(
+    amount: string | undefined,
+    decimals: number | undefined,
+    symbol: string | undefined,
+  ): string | undefined {
+    const tokenDecimalsOrKnown = decimals ?? tokenDecimals(symbol);
+    if (amount === undefined || tokenDecimalsOrKnown === undefined) {
+      return undefined;
     }
+    return formatAmount(amount, tokenDecimalsOrKnown, symbol);
+  }
+}
 
-    // Check timestamp (prevent replay attacks)
-    const now = Math.floor(Date.now() / 1000);
-    if (Math.abs(now - timestamp) > 300) { // 5 minutes
-      return false;
-    }
+/**
+ * Take the transfer details from a locked quote. Details the client sent
+ * anyway must agree with it.
+ */
+function applyLockedQuote<T extends Record<string, any>>(
+  params: T,
+  quote: LockedQuote,
+): T {
+  const fromQuote = {
+    sourceChain: quote.sourceChain,
+    destinationChain: quote.destinationChain,
+    tokenIn: quote.tokenIn,
+    amount: quote.depositAmount,
+    amountSymbol: quote.tokenSymbol,
+    recipient: quote.recipient,
+  };
 
-    // Compute signature
-    const body = JSON.stringify(payload);
-    const message = `${timestamp}.${body}`;
-    const hmac = createHmac('sha256', webhookSecret);
-    hmac.update(message);
-    const computed = `sha256=${hmac.digest('hex')}`;
+  for (const [field, quoted] of Object.entries(fromQuote)) {
+    const sent = params[field];
+    if (
+      quoted !== undefined &&
+      sent !== undefined &&
+      String(sent).toLowerCase() !== quoted.toLowerCase()
+    ) {
+      throw new BadRequestException(
+        `${field} does not match the quote (${quoted})`,
+      );
+    }
+  }
 
-    // Compare
-    return computed === signature;
+  const recipient = quote.recipient ?? params.recipient;
+  if (!recipient) {
+    throw new BadRequestException('recipient is required');
   }
+
+  return { ...params, ...fromQuote, recipient };
 }
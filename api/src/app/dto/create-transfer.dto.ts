@@ -0,0 +1,107 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import { IsBaseUnitAmount } from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+
+/**
+ * With a quoteId the transfer details come from the quote, so they may be
+ * left out (and are checked against the quote when sent anyway)
+ */
+const UnlessQuoted = () =>
+  ValidateIf(
+    (dto: CreateTransferDto, value) => !dto.quoteId || value !== undefined,
+  );
+
+export class CreateTransferDto {
+  @ApiPropertyOptional({
+    description:
+      'quoteId of the selected option from POST /app/options. Source chain, token and amount are then taken from the quote.',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  quoteId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Re-quote and refuse the transfer if the fee rose by more than this many basis points since the quote',
+    example: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  feeToleranceBps?: number;
+
+  @ApiProperty({
+    enum: SUPPORTED_CHAINS,
+    description: 'Selected source chain',
+    example: 'BASE_TESTNET',
+  })
+  @UnlessQuoted()
+  @IsSupportedChain()
+  sourceChain?: SupportedChain;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_TESTNET' })
+  @UnlessQuoted()
+  @IsSupportedChain()
+  destinationChain?: SupportedChain;
+
+  @ApiProperty({
+    description: 'Amount in smallest units (1000000 = 1 USDC)',
+    example: '1000000',
+  })
+  @UnlessQuoted()
+  @IsBaseUnitAmount()
+  amount?: string;
+
+  @ApiProperty({ description: 'Denomination of the amount', example: 'USDC' })
+  @UnlessQuoted()
+  @IsString()
+  @IsNotEmpty()
+  amountSymbol?: string;
+
+  @ApiProperty({
+    description: 'Token address on the source chain',
+    example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  })
+  @UnlessQuoted()
+  @IsChainAddress('sourceChain')
+  tokenIn?: string;
+
+  @ApiProperty({ description: 'Recipient on the destination chain' })
+  @UnlessQuoted()
+  @IsChainAddress('destinationChain')
+  recipient?: string;
+
+  @ApiPropertyOptional({ description: 'Sender address on the source chain' })
+  @IsOptional()
+  @IsChainAddress('sourceChain')
+  sender?: string;
+
+  @ApiPropertyOptional({ description: 'Refund address on the source chain' })
+  @IsOptional()
+  @IsChainAddress('sourceChain')
+  refundAddress?: string;
+
+  @ApiPropertyOptional({ description: 'Custom metadata object' })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
@@ -0,0 +1,168 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import {
+  IsChainAddress,
+  IsFamilyAddress,
+} from '../../common/validation/address.validator';
+import { IsDecimalAmount } from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+import { RankingWeights } from '../../option-ranking/ranking-strategy';
+import { SenderAddresses } from '../../balances/balances.service';
+
+const Weight = () =>
+  applyDecorators(
+    ApiPropertyOptional({ minimum: 0 }),
+    IsOptional(),
+    IsNumber(),
+    Min(0),
+  );
+
+/**
+ * The sender's wallet on each chain family, for balance checks
+ */
+export class SenderAddressesDto implements SenderAddresses {
+  @ApiPropertyOptional({
+    description: 'Sender address on EVM chains',
+    example: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+  })
+  @IsOptional()
+  @IsFamilyAddress('evm')
+  evm?: string;
+
+  @ApiPropertyOptional({ description: 'Sender address on Starknet' })
+  @IsOptional()
+  @IsFamilyAddress('starknet')
+  starknet?: string;
+}
+
+/**
+ * Weights of the `weighted` strategy. Only their ratio matters
+ */
+export class RankingWeightsDto implements RankingWeights {
+  @Weight()
+  fee?: number;
+
+  @Weight()
+  speed?: number;
+
+  @Weight()
+  slippage?: number;
+
+  @Weight()
+  hops?: number;
+
+  @Weight()
+  bridge?: number;
+
+  @Weight()
+  token?: number;
+}
+
+export class TransferOptionsDto {
+  @ApiProperty({
+    enum: SUPPORTED_CHAINS,
+    description: 'Where tokens are going',
+    example: 'ARBITRUM_TESTNET',
+  })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Amount to transfer, human-readable ("10" for 10 USDC)',
+    example: '10',
+  })
+  @IsDecimalAmount()
+  amount: string;
+
+  @ApiProperty({
+    description: 'Token address on the destination chain',
+    example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+  })
+  @IsChainAddress('destinationChain')
+  tokenOut: string;
+
+  @ApiPropertyOptional({ description: 'Recipient on the destination chain' })
+  @IsOptional()
+  @IsChainAddress('destinationChain')
+  recipient?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'How to pick the recommended option: cheapest (default), fastest, lowest-slippage, preferred-bridge or weighted. GET /app/options/strategies lists them all',
+    example: 'fastest',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  strategy?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description:
+      'Bridges to favour, for the preferred-bridge and weighted strategies',
+    example: ['CCTP'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  preferredBridges?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description:
+      'Tokens the user already holds (symbols or addresses), for the weighted strategy',
+    example: ['USDC'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  preferredTokens?: string[];
+
+  @ApiPropertyOptional({
+    type: RankingWeightsDto,
+    description:
+      'Weights of the weighted strategy, e.g. { "fee": 2, "speed": 1 }',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RankingWeightsDto)
+  weights?: RankingWeightsDto;
+
+  @ApiPropertyOptional({
+    type: SenderAddressesDto,
+    description:
+      "Sender wallets per chain family. Each option is then checked against the wallet's token balance on its source chain",
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SenderAddressesDto)
+  senders?: SenderAddressesDto;
+
+  @ApiPropertyOptional({
+    enum: ['last', 'drop'],
+    default: 'last',
+    description:
+      'What to do with options the senders can not pay for: sort them last, or drop them',
+  })
+  @IsOptional()
+  @IsIn(['last', 'drop'])
+  unfundable?: 'last' | 'drop';
+}
@@ -0,0 +1,126 @@
+import { MessageEvent } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { toWebhookEvent } from '../webhooks/webhook-event.model';
+import { AppService } from './app.service';
+import {
+  TransferStatus,
+  TransferStatusStreamService,
+} from './transfer-status-stream.service';
+
+function statusOf(intentStatus: string): TransferStatus {
+  const terminal = ['COMPLETED', 'EXPIRED', 'REFUNDED'].includes(intentStatus);
+  return {
+    intent: { id: 1, intent_address: '0xAbC', intent_status: intentStatus },
+    webhookEvents: [],
+    timeline: { currentStatus: intentStatus, isTerminal: terminal },
+    statusMessage: intentStatus,
+    isComplete: intentStatus === 'COMPLETED',
+    isFailed: ['EXPIRED', 'REFUNDED'].includes(intentStatus),
+  } as unknown as TransferStatus;
+}
+
+describe('TransferStatusStreamService', () => {
+  let currentStatus: string;
+  let bus: WebhookEventBus;
+  let service: TransferStatusStreamService;
+  let messages: MessageEvent[];
+  let completed: boolean;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    currentStatus = 'PENDING';
+    bus = new WebhookEventBus();
+    const appService = {
+      getTransferStatus: jest.fn(async () => statusOf(currentStatus)),
+    } as unknown as AppService;
+
+    service = new TransferStatusStreamService(
+      appService,
+      bus,
+      new ConfigService({
+        STATUS_STREAM_POLL_MS: 1000,
+        STATUS_STREAM_HEARTBEAT_MS: 400,
+      }),
+    );
+
+    messages = [];
+    completed = false;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function subscribe() {
+    return service.stream(1).subscribe({
+      next: (message) => messages.push(message),
+      complete: () => (completed = true),
+    });
+  }
+
+  const types = () => messages.map((message) => message.type);
+
+  it('sends the current status, then heartbeats while nothing changes', async () => {
+    const subscription = subscribe();
+    await jest.advanceTimersByTimeAsync(900);
+
+    expect(types()).toEqual(['status', 'heartbeat', 'heartbeat']);
+    subscription.unsubscribe();
+  });
+
+  it('pushes webhook events for the intent and the status change they cause', async () => {
+    const subscription = subscribe();
+    await jest.advanceTimersByTimeAsync(0);
+
+    currentStatus = 'FUNDED';
+    bus.publish(
+      toWebhookEvent({
+        id: 'evt_other',
+        type: 'intent.funded',
+        data: { intent_id: 2 },
+      }),
+    );
+    bus.publish(
+      toWebhookEvent({
+        id: 'evt_1',
+        type: 'intent.funded',
+        data: { intent_address: '0xabc', status: 'FUNDED' },
+      }),
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(types()).toEqual(['status', 'webhook', 'status']);
+    expect(messages[1].data).toMatchObject({ id: 'evt_1' });
+    expect(messages[2].data).toMatchObject({ statusMessage: 'FUNDED' });
+    subscription.unsubscribe();
+  });
+
+  it('picks up changes by polling and closes on a terminal status', async () => {
+    subscribe();
+    await jest.advanceTimersByTimeAsync(0);
+
+    currentStatus = 'COMPLETED';
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(types().filter((type) => type === 'status')).toHaveLength(2);
+    expect(messages[messages.length - 1].data).toMatchObject({
+      isComplete: true,
+    });
+    expect(completed).toBe(true);
+
+    // No heartbeats after the stream closed
+    const sent = messages.length;
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(messages).toHaveLength(sent);
+  });
+
+  it('closes right away when the transfer already finished', async () => {
+    currentStatus = 'REFUNDED';
+    subscribe();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(types()).toEqual(['status']);
+    expect(completed).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  EMPTY,
+  Observable,
+  ReplaySubject,
+  catchError,
+  defer,
+  distinctUntilChanged,
+  exhaustMap,
+  filter,
+  finalize,
+  interval,
+  map,
+  merge,
+  share,
+  startWith,
+  switchMap,
+  takeUntil,
+  takeWhile,
+} from 'rxjs';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { AppService } from './app.service';
+
+export type TransferStatus = Awaited<
+  ReturnType<AppService['getTransferStatus']>
+>;
+
+/**
+ * TRANSFER STATUS STREAM SERVICE
+ *
+ * Purpose: Push transfer status updates instead of making clients poll
+ *
+ * A stream for one intent emits:
+ * - `status`    right away, then whenever the status changes
+ * - `webhook`   whenever a webhook event for the intent arrives
+ * - `heartbeat` every STATUS_STREAM_HEARTBEAT_MS (default 15s), so proxies
+ *               don't close an idle connection
+ *
+ * Status changes are picked up from webhooks as they arrive and from a
+ * background poll every STATUS_STREAM_POLL_MS (default 15s), in case a
+ * webhook never comes. The stream completes after sending a terminal status
+ * (COMPLETED, EXPIRED, REFUNDED).
+ */
+@Injectable()
+export class TransferStatusStreamService {
+  private readonly logger = new Logger(TransferStatusStreamService.name);
+  private readonly pollIntervalMs: number;
+  private readonly heartbeatIntervalMs: number;
+
+  constructor(
+    private readonly appService: AppService,
+    private readonly webhookBus: WebhookEventBus,
+    private configService: ConfigService,
+  ) {
+    this.pollIntervalMs = Number(
+      this.configService.get('STATUS_STREAM_POLL_MS') ?? 15000,
+    );
+    this.heartbeatIntervalMs = Number(
+      this.configService.get('STATUS_STREAM_HEARTBEAT_MS') ?? 15000,
+    );
+  }
+
+  /**
+   * Stream status updates for an intent as SSE messages.
+   * Fails right away if the intent can't be loaded.
+   */
+  stream(intentId: number): Observable<MessageEvent> {
+    return defer(() => this.appService.getTransferStatus(intentId)).pipe(
+      switchMap((initial) => this.follow(intentId, initial)),
+    );
+  }
+
+  private follow(
+    intentId: number,
+    initial: TransferStatus,
+  ): Observable<MessageEvent> {
+    const intentAddress = initial.intent.intent_address?.toLowerCase();
+    // Replays, so streams subscribed after a terminal status still stop
+    const done$ = new ReplaySubject<void>(1);
+
+    const webhooks$ = this.webhookBus.events$.pipe(
+      filter(
+        (event: WebhookEvent) =>
+          event.intentId === intentId ||
+          (!!intentAddress &&
+            event.intentAddress?.toLowerCase() === intentAddress),
+      ),
+    );
+
+    const statuses$ = merge(webhooks$, interval(this.pollIntervalMs)).pipe(
+      // Skip triggers while a refresh is still running
+      exhaustMap(() =>
+        defer(() => this.appService.getTransferStatus(intentId)).pipe(
+          catchError((error) => {
+            this.logger.warn(
+              `Refreshing status of intent ${intentId} failed: ${error.message}`,
+            );
+            return EMPTY;
+          }),
+        ),
+      ),
+      startWith(initial),
+      distinctUntilChanged(
+        (a, b) =>
+          a.intent.intent_status === b.intent.intent_status &&
+          a.timeline.currentStatus === b.timeline.currentStatus,
+      ),
+      takeWhile((status) => !isFinished(status), true),
+      finalize(() => done$.next()),
+      share(),
+    );
+
+    return merge(
+      statuses$.pipe(map((status) => ({ type: 'status', data: status }))),
+      webhooks$.pipe(
+        takeUntil(done$),
+        map((event) => ({ type: 'webhook', data: event })),
+      ),
+      interval(this.heartbeatIntervalMs).pipe(
+        takeUntil(done$),
+        map(() => ({
+          type: 'heartbeat',
+          data: { at: new Date().toISOString() },
+        })),
+      ),
+    );
+  }
+}
+
+export function isFinished(status: TransferStatus): boolean {
+  return status.isComplete || status.isFailed || status.timeline.isTerminal;
+}
@@ -0,0 +1,29 @@
+/**
+ * Injection token for the configured BalanceProvider
+ */
+export const BALANCE_PROVIDER = Symbol('BALANCE_PROVIDER');
+
+export interface BalanceQuery {
+  chain: string;
+  tokenAddress: string;
+  owner: string;
+}
+
+/**
+ * Reads token balances on chain.
+ *
+ * The default implementation (RpcBalanceProvider) calls the chain's JSON-RPC
+ * endpoint. Tests can swap in a fake chain, or point the RPC URLs at a
+ * local anvil / starknet-devnet node.
+ */
+export interface BalanceProvider {
+  /**
+   * Whether balances on this chain can be looked up at all
+   */
+  supports(chain: string): boolean;
+
+  /**
+   * Balance in the token's smallest units
+   */
+  getBalance(query: BalanceQuery): Promise<bigint>;
+}
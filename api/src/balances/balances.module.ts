@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { BALANCE_PROVIDER } from './balance-provider';
+import { BalancesService } from './balances.service';
+import { RpcBalanceProvider } from './rpc-balance.provider';
+
+/**
+ * Provides BalancesService, reading balances through the BalanceProvider
+ * (RpcBalanceProvider, configured with RPC_URL_<CHAIN>). Override
+ * BALANCE_PROVIDER to use a fake chain in tests.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    BalancesService,
+    { provide: BALANCE_PROVIDER, useClass: RpcBalanceProvider },
+  ],
+  exports: [BalancesService, BALANCE_PROVIDER],
+})
+export class BalancesModule {}
@@ -0,0 +1,156 @@
+import { ConfigService } from '@nestjs/config';
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { BalancesService } from './balances.service';
+import { RpcBalanceProvider } from './rpc-balance.provider';
+
+const USDC_BASE = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const USDC_STARKNET =
+  '0x053b40a647cedfca6ca84f542a0fe36736031905a9639a7f19a3c1e66bfd5080';
+const EVM_SENDER = '0xda3ecb2e5362295e2b802669dd47127a61d9ce54';
+const STARKNET_SENDER =
+  '0x01a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f708192a3b4c5d6e7f80';
+
+/**
+ * A fake chain node: answers eth_call balanceOf (EVM) and starknet_call
+ * balanceOf from a table of balances, like anvil or starknet-devnet would
+ */
+async function startFakeNode(balances: Record<string, bigint>) {
+  const calls: { method: string; params: any[] }[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      calls.push({ method, params });
+
+      let result: unknown;
+      if (method === 'eth_call') {
+        const owner = `0x${params[0].data.slice(-40)}`;
+        const balance = balances[`${params[0].to}:${owner}`.toLowerCase()];
+        result = `0x${(balance ?? 0n).toString(16).padStart(64, '0')}`;
+      } else if (method === 'starknet_call') {
+        const { contract_address, calldata } = params[0];
+        const balance =
+          balances[`${contract_address}:${calldata[0]}`.toLowerCase()] ?? 0n;
+        const low = balance & ((1n << 128n) - 1n);
+        result = [
+          `0x${low.toString(16)}`,
+          `0x${(balance >> 128n).toString(16)}`,
+        ];
+      }
+
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify(
+          result === undefined
+            ? { jsonrpc: '2.0', id, error: { code: -32601, message: 'nope' } }
+            : { jsonrpc: '2.0', id, result },
+        ),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, calls, url: `http://127.0.0.1:${port}` };
+}
+
+function option(sourceChain: string, tokenAddress: string, amount: string) {
+  return { sourceChain, tokenAddress, depositAmount: amount };
+}
+
+describe('BalancesService', () => {
+  let node: Awaited<ReturnType<typeof startFakeNode>>;
+  let balances: BalancesService;
+
+  beforeEach(async () => {
+    node = await startFakeNode({
+      [`${USDC_BASE}:${EVM_SENDER}`.toLowerCase()]: 5000000n,
+      // Past 2^128, so the high half of the u256 counts
+      [`${USDC_STARKNET}:${STARKNET_SENDER}`.toLowerCase()]: (1n << 130n) + 7n,
+    });
+
+    balances = new BalancesService(
+      new RpcBalanceProvider(
+        new ConfigService({
+          RPC_URL_BASE_TESTNET: node.url,
+          RPC_URL_STARKNET_TESTNET: node.url,
+        }),
+      ),
+    );
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => node.server.close(resolve));
+  });
+
+  it('marks options fundable or insufficient from on-chain balances', async () => {
+    const checks = await balances.checkFunding(
+      [
+        option('BASE_TESTNET', USDC_BASE, '5000000'),
+        option('BASE_TESTNET', USDC_BASE, '5000001'),
+        option('STARKNET_TESTNET', USDC_STARKNET, String(1n << 130n)),
+      ],
+      { evm: EVM_SENDER, starknet: STARKNET_SENDER },
+    );
+
+    expect(checks).toEqual([
+      {
+        status: 'fundable',
+        owner: EVM_SENDER,
+        balance: '5000000',
+        required: '5000000',
+      },
+      {
+        status: 'insufficient',
+        owner: EVM_SENDER,
+        balance: '5000000',
+        required: '5000001',
+        shortfall: '1',
+      },
+      {
+        status: 'fundable',
+        owner: STARKNET_SENDER,
+        balance: String((1n << 130n) + 7n),
+        required: String(1n << 130n),
+      },
+    ]);
+
+    // Same chain, token and owner: looked up once
+    expect(node.calls.map((call) => call.method)).toEqual([
+      'eth_call',
+      'starknet_call',
+    ]);
+    expect(node.calls[0].params[0].data).toBe(
+      `0x70a08231000000000000000000000000${EVM_SENDER.slice(2)}`,
+    );
+  });
+
+  it('reports unknown when a balance cannot be checked', async () => {
+    node.server.close();
+
+    const checks = await balances.checkFunding(
+      [
+        option('BASE_TESTNET', USDC_BASE, '1'),
+        option('STARKNET_TESTNET', USDC_STARKNET, '1'),
+        option('ARBITRUM_TESTNET', USDC_BASE, '1'),
+      ],
+      { evm: EVM_SENDER },
+    );
+
+    expect(checks).toEqual([
+      expect.objectContaining({
+        status: 'unknown',
+        reason: 'Balance lookup failed',
+      }),
+      expect.objectContaining({
+        status: 'unknown',
+        reason: 'No starknet sender address given',
+      }),
+      expect.objectContaining({
+        status: 'unknown',
+        reason: "Balances on ARBITRUM_TESTNET can't be looked up",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { getChainFamily } from '../chainrails/models/chain.model';
+import { compareAmounts, subAmounts } from '../utils/amounts';
+import { BALANCE_PROVIDER, BalanceProvider } from './balance-provider';
+
+export const FUNDING_STATUSES = [
+  'fundable',
+  'insufficient',
+  'unknown',
+] as const;
+
+export type FundingStatus = (typeof FUNDING_STATUSES)[number];
+
+/**
+ * The sender's wallet address per chain family
+ */
+export interface SenderAddresses {
+  evm?: string;
+  starknet?: string;
+}
+
+/**
+ * The parts of a transfer option needed to check it can be paid for
+ */
+export interface PayableOption {
+  sourceChain: string;
+  tokenAddress: string;
+  depositAmount: string;
+}
+
+export interface FundingCheck {
+  status: FundingStatus;
+  /** The address whose balance was checked */
+  owner?: string;
+  /** Balance in the token's smallest units */
+  balance?: string;
+  required: string;
+  /** How much is missing, when insufficient */
+  shortfall?: string;
+  /** Why the status is unknown */
+  reason?: string;
+}
+
+/**
+ * BALANCES SERVICE
+ *
+ * Checks whether the sender can actually pay for each transfer option,
+ * by reading their token balance on the source chain.
+ *
+ * What you'll learn:
+ * - How to check a wallet can fund a transfer before suggesting it
+ * - How to read ERC-20 and Starknet balances (see RpcBalanceProvider)
+ *
+ * A failed lookup doesn't fail the request: the option is just "unknown".
+ */
+@Injectable()
+export class BalancesService {
+  private readonly logger = new Logger(BalancesService.name);
+
+  constructor(
+    @Inject(BALANCE_PROVIDER)
+    private readonly balances: BalanceProvider,
+  ) {}
+
+  /**
+   * Example 1: Check Options Against Wallet Balances
+   *
+   * Returns one check per option, in the same order. Each balance is only
+   * looked up once, however many options share it.
+   */
+  async checkFunding(
+    options: PayableOption[],
+    senders: SenderAddresses,
+  ): Promise<FundingCheck[]> {
+    const lookups = new Map<string, Promise<bigint>>();
+
+    const checks = await Promise.all(
+      options.map(async (option): Promise<FundingCheck> => {
+        const required = option.depositAmount;
+        const family = getChainFamily(option.sourceChain);
+        const owner = family === 'other' ? undefined : senders[family];
+
+        if (!owner) {
+          return {
+            status: 'unknown',
+            required,
+            reason: `No ${family} sender address given`,
+          };
+        }
+        if (!this.balances.supports(option.sourceChain)) {
+          return {
+            status: 'unknown',
+            owner,
+            required,
+            reason: `Balances on ${option.sourceChain} can't be looked up`,
+          };
+        }
+
+        const key = [option.sourceChain, option.tokenAddress, owner]
+          .join(':')
+          .toLowerCase();
+        if (!lookups.has(key)) {
+          lookups.set(
+            key,
+            this.balances.getBalance({
+              chain: option.sourceChain,
+              tokenAddress: option.tokenAddress,
+              owner,
+            }),
+          );
+        }
+
+        try {
+          const balance = await lookups.get(key);
+          const fundable = compareAmounts(balance, required) >= 0;
+          return {
+            status: fundable ? 'fundable' : 'insufficient',
+            owner,
+            balance: balance.toString(),
+            required,
+            ...(!fundable && {
+              shortfall: subAmounts(required, balance).toString(),
+            }),
+          };
+        } catch (error) {
+          this.logger.warn(
+            `❌ Could not read the ${option.tokenAddress} balance of ${owner} on ${option.sourceChain}: ${error.message}`,
+          );
+          return {
+            status: 'unknown',
+            owner,
+            required,
+            reason: 'Balance lookup failed',
+          };
+        }
+      }),
+    );
+
+    const fundable = checks.filter((c) => c.status === 'fundable').length;
+    this.logger.log(
+      `✅ Checked ${checks.length} option(s) against wallet balances: ${fundable} fundable`,
+    );
+    return checks;
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getChainFamily } from '../chainrails/models/chain.model';
+import { BalanceProvider, BalanceQuery } from './balance-provider';
+
+// keccak256("balanceOf(address)"), first 4 bytes
+const ERC20_BALANCE_OF = '0x70a08231';
+
+// starknet_keccak("balanceOf"): keccak256 of the name, truncated to 250 bits
+const STARKNET_BALANCE_OF =
+  '0x2e4263afad30923c891518314c3c95dbe830a16874e8abc5777a9a20b54c76e';
+
+/**
+ * Reads ERC-20 and Starknet token balances over JSON-RPC.
+ *
+ * Each chain needs an endpoint in RPC_URL_<CHAIN>, e.g.
+ * RPC_URL_BASE_TESTNET=https://sepolia.base.org. Chains without one are
+ * not supported, and their options are reported as "unknown".
+ */
+@Injectable()
+export class RpcBalanceProvider implements BalanceProvider {
+  private readonly timeoutMs: number;
+  private requestId = 0;
+
+  constructor(private configService: ConfigService) {
+    this.timeoutMs = Number(
+      this.configService.get('BALANCE_RPC_TIMEOUT_MS') ?? 5000,
+    );
+  }
+
+  supports(chain: string): boolean {
+    return getChainFamily(chain) !== 'other' && Boolean(this.rpcUrl(chain));
+  }
+
+  async getBalance({
+    chain,
+    tokenAddress,
+    owner,
+  }: BalanceQuery): Promise<bigint> {
+    const url = this.rpcUrl(chain);
+    if (!url) {
+      throw new Error(`No RPC endpoint configured for ${chain}`);
+    }
+
+    switch (getChainFamily(chain)) {
+      case 'evm': {
+        // balanceOf(owner): the address left-padded to 32 bytes
+        const data =
+          ERC20_BALANCE_OF + owner.toLowerCase().slice(2).padStart(64, '0');
+        const result = await this.call<string>(url, 'eth_call', [
+          { to: tokenAddress, data },
+          'latest',
+        ]);
+        // No return data: there is no contract at tokenAddress (or it isn't
+        // an ERC-20), which says nothing about the balance
+        if (result === '0x') {
+          throw new Error(
+            `balanceOf returned no data for ${tokenAddress} on ${chain}`,
+          );
+        }
+        return BigInt(result);
+      }
+      case 'starknet': {
+        // Returns a u256 as two felts: [low, high]
+        const [low, high = '0x0'] = await this.call<string[]>(
+          url,
+          'starknet_call',
+          [
+            {
+              contract_address: tokenAddress,
+              entry_point_selector: STARKNET_BALANCE_OF,
+              calldata: [owner],
+            },
+            'latest',
+          ],
+        );
+        return BigInt(low) + (BigInt(high) << 128n);
+      }
+      default:
+        throw new Error(`Balances on ${chain} are not supported`);
+    }
+  }
+
+  private rpcUrl(chain: string): string | undefined {
+    return this.configService.get<string>(`RPC_URL_${chain}`) || undefined;
+  }
+
+  private async call<T>(url: string, method: string, params: unknown[]) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method,
+        params,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${method} responded with ${response.status}`);
+    }
+
+    const body = await response.json();
+    if (body.error) {
+      throw new Error(`${method} failed: ${body.error.message}`);
+    }
+    return body.result as T;
+  }
+}
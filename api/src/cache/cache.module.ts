@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CacheRegistry } from './cache.registry';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [CacheRegistry],
+  exports: [CacheRegistry],
+})
+export class CacheModule {}
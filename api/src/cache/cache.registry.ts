@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TtlCache, TtlCacheOptions, TtlCacheSnapshot } from './ttl-cache';
+
+/**
+ * Keeps every TtlCache in the app, so /health can report their metrics.
+ *
+ * Set CACHE_ENABLED=false to make every entry expire immediately. Identical
+ * concurrent requests still share one upstream call.
+ */
+@Injectable()
+export class CacheRegistry {
+  private readonly caches = new Map<string, TtlCache<any>>();
+  private readonly enabled: boolean;
+
+  constructor(private configService: ConfigService) {
+    this.enabled =
+      String(
+        this.configService.get('CACHE_ENABLED') ?? 'true',
+      ).toLowerCase() !== 'false';
+  }
+
+  /**
+   * Get the cache with this name, creating it with these options
+   * the first time
+   */
+  get<T>(name: string, options: TtlCacheOptions): TtlCache<T> {
+    let cache = this.caches.get(name);
+    if (!cache) {
+      cache = new TtlCache<T>(
+        name,
+        this.enabled ? options : { ...options, ttlMs: 0, staleMs: 0 },
+      );
+      this.caches.set(name, cache);
+    }
+    return cache;
+  }
+
+  snapshot(): TtlCacheSnapshot[] {
+    return [...this.caches.values()].map((cache) => cache.snapshot());
+  }
+}
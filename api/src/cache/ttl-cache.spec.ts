@@ -0,0 +1,131 @@
+import { TtlCache, cacheKey } from './ttl-cache';
+
+function deferred<T>() {
+  let resolve: (value: T) => void;
+  let reject: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('TtlCache', () => {
+  let now: number;
+  let cache: TtlCache<string>;
+
+  beforeEach(() => {
+    now = 0;
+    cache = new TtlCache('test', { ttlMs: 1000, staleMs: 5000 }, () => now);
+  });
+
+  it('serves fresh entries without calling the loader again', async () => {
+    const loader = jest.fn(async () => 'v1');
+
+    await expect(cache.getOrLoad('a', loader)).resolves.toBe('v1');
+    now = 999;
+    await expect(cache.getOrLoad('a', loader)).resolves.toBe('v1');
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(cache.snapshot()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+  });
+
+  it('shares one in-flight load between concurrent callers', async () => {
+    const upstream = deferred<string>();
+    const loader = jest.fn(() => upstream.promise);
+
+    const calls = [1, 2, 3].map(() => cache.getOrLoad('a', loader));
+    upstream.resolve('v1');
+
+    await expect(Promise.all(calls)).resolves.toEqual(['v1', 'v1', 'v1']);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(cache.snapshot()).toMatchObject({ misses: 1, coalesced: 2 });
+  });
+
+  it('passes errors to every waiting caller and does not cache them', async () => {
+    const upstream = deferred<string>();
+    const first = cache.getOrLoad('a', () => upstream.promise);
+    const second = cache.getOrLoad('a', () => upstream.promise);
+    upstream.reject(new Error('upstream down'));
+
+    await expect(first).rejects.toThrow('upstream down');
+    await expect(second).rejects.toThrow('upstream down');
+    await expect(cache.getOrLoad('a', async () => 'v2')).resolves.toBe('v2');
+  });
+
+  it('serves stale entries while refreshing them in the background', async () => {
+    await cache.getOrLoad('a', async () => 'v1');
+    now = 2000;
+
+    const refresh = deferred<string>();
+    const loader = jest.fn(() => refresh.promise);
+    await expect(cache.getOrLoad('a', loader)).resolves.toBe('v1');
+    await expect(cache.getOrLoad('a', loader)).resolves.toBe('v1');
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    refresh.resolve('v2');
+    await refresh.promise;
+    await expect(cache.getOrLoad('a', loader)).resolves.toBe('v2');
+    expect(cache.snapshot()).toMatchObject({ staleHits: 2, hits: 1 });
+  });
+
+  it('keeps the stale entry when a background refresh fails', async () => {
+    await cache.getOrLoad('a', async () => 'v1');
+    now = 2000;
+
+    await expect(
+      cache.getOrLoad('a', async () => {
+        throw new Error('upstream down');
+      }),
+    ).resolves.toBe('v1');
+    await new Promise(process.nextTick);
+
+    await expect(cache.getOrLoad('a', async () => 'v2')).resolves.toBe('v1');
+    expect(cache.snapshot().refreshFailures).toBe(1);
+  });
+
+  it('loads again once an entry is past its stale window', async () => {
+    await cache.getOrLoad('a', async () => 'v1');
+    now = 6000;
+
+    await expect(cache.getOrLoad('a', async () => 'v2')).resolves.toBe('v2');
+    expect(cache.snapshot()).toMatchObject({ misses: 2, staleHits: 0 });
+  });
+
+  it('drops the least recently used entries beyond maxEntries', async () => {
+    cache = new TtlCache('test', { ttlMs: 1000, maxEntries: 2 }, () => now);
+    await cache.getOrLoad('a', async () => 'a');
+    await cache.getOrLoad('b', async () => 'b');
+    await cache.getOrLoad('a', async () => 'a');
+    await cache.getOrLoad('c', async () => 'c');
+
+    const loader = jest.fn(async () => 'b2');
+    await cache.getOrLoad('b', loader);
+    expect(loader).toHaveBeenCalled();
+    expect(cache.snapshot().size).toBe(2);
+  });
+});
+
+describe('cacheKey', () => {
+  it('gives equivalent params the same key', () => {
+    expect(
+      cacheKey({
+        tokenOut: '0xABCDEF',
+        amount: ' 100 ',
+        recipient: undefined,
+        bridges: ['CCTP', 'ACROSS'],
+      }),
+    ).toBe(
+      cacheKey({
+        bridges: ['ACROSS', 'CCTP'],
+        amount: '100',
+        tokenOut: '0xabcdef',
+        recipient: '',
+      }),
+    );
+  });
+
+  it('keeps different params apart', () => {
+    expect(cacheKey({ amount: '100' })).not.toBe(cacheKey({ amount: '101' }));
+  });
+});
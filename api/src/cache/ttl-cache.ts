@@ -0,0 +1,180 @@
+/**
+ * - ttlMs: How long a loaded value is fresh and served without calling upstream
+ * - staleMs: How long after that it may still be served while a background
+ *   refresh runs (stale-while-revalidate). 0 disables it.
+ * - maxEntries: Oldest-used entries are dropped beyond this
+ */
+export interface TtlCacheOptions {
+  ttlMs: number;
+  staleMs?: number;
+  maxEntries?: number;
+}
+
+export interface TtlCacheSnapshot {
+  name: string;
+  ttlMs: number;
+  staleMs: number;
+  size: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  coalesced: number;
+  refreshFailures: number;
+  hitRate: number;
+}
+
+interface Entry<T> {
+  value: T;
+  loadedAt: number;
+}
+
+/**
+ * TTL CACHE
+ *
+ * Caches the results of an async loader by key.
+ *
+ * - Fresh entries (younger than ttlMs) are returned straight away
+ * - Stale entries (within staleMs after that) are returned straight away too,
+ *   while one background load refreshes them
+ * - Otherwise the loader runs. Concurrent calls for the same key share that
+ *   one in-flight load instead of each calling upstream ("request coalescing")
+ *
+ * Failed loads are never cached: the error goes to every waiting caller and
+ * the next call tries again. A failed background refresh keeps serving the
+ * stale value until it expires.
+ *
+ * Cached values are shared between callers - treat them as read-only.
+ */
+export class TtlCache<T> {
+  private readonly entries = new Map<string, Entry<T>>();
+  private readonly inFlight = new Map<string, Promise<T>>();
+  private readonly staleMs: number;
+  private readonly maxEntries: number;
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private coalesced = 0;
+  private refreshFailures = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly options: TtlCacheOptions,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.staleMs = options.staleMs ?? 0;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    const age = entry ? this.now() - entry.loadedAt : Infinity;
+
+    if (age < this.options.ttlMs) {
+      this.hits++;
+      this.touch(key, entry);
+      return entry.value;
+    }
+
+    if (age < this.options.ttlMs + this.staleMs) {
+      this.staleHits++;
+      this.touch(key, entry);
+      if (!this.inFlight.has(key)) {
+        this.load(key, loader).catch(() => this.refreshFailures++);
+      }
+      return entry.value;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.coalesced++;
+      return pending;
+    }
+
+    this.misses++;
+    return this.load(key, loader);
+  }
+
+  /**
+   * Forget one key, or everything
+   */
+  invalidate(key?: string) {
+    if (key === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(key);
+    }
+  }
+
+  snapshot(): TtlCacheSnapshot {
+    const lookups = this.hits + this.staleHits + this.misses + this.coalesced;
+    return {
+      name: this.name,
+      ttlMs: this.options.ttlMs,
+      staleMs: this.staleMs,
+      size: this.entries.size,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      refreshFailures: this.refreshFailures,
+      hitRate: lookups ? (this.hits + this.staleHits) / lookups : 0,
+    };
+  }
+
+  private load(key: string, loader: () => Promise<T>): Promise<T> {
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        this.touch(key, { value, loadedAt: this.now() });
+        this.evict();
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  // Maps iterate in insertion order, so re-inserting keeps the
+  // least recently used entry first
+  private touch(key: string, entry: Entry<T>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private evict() {
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+}
+
+/**
+ * Build a cache key from request params, so equivalent requests share an
+ * entry: keys are sorted, empty values dropped, strings trimmed, hex
+ * addresses lowercased and lists sorted.
+ */
+export function cacheKey(params: Record<string, unknown>): string {
+  const normalized = Object.keys(params)
+    .sort()
+    .filter(
+      (key) =>
+        params[key] !== undefined && params[key] !== null && params[key] !== '',
+    )
+    .map((key) => [key, normalizeValue(params[key])]);
+
+  return JSON.stringify(normalized);
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue).sort();
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return /^0x[0-9a-fA-F]+$/.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+  }
+  return value;
+}
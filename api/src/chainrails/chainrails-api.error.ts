@@ -0,0 +1,172 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { SchemaViolation } from './models/schema';
+
+/**
+ * Details of the upstream request that produced a ChainrailsApiError.
+ */
+export interface ChainrailsRequestInfo {
+  method: string;
+  path: string;
+  url: string;
+}
+
+/**
+ * CHAINRAILS API ERROR
+ *
+ * Thrown by the ChainrailsClient whenever the Chainrails API answers with a
+ * non-2xx status, or cannot be reached at all.
+ *
+ * - upstreamStatus: HTTP status returned by Chainrails (0 when the request never got a response)
+ * - code: Machine-readable error code from the response body, if any
+ * - details: The parsed response body, kept as-is for debugging
+ * - request: Which upstream call failed
+ *
+ * Client errors (4xx) are passed through to our own callers with the same status,
+ * everything else is reported as 502 Bad Gateway.
+ */
+export class ChainrailsApiError extends HttpException {
+  readonly upstreamStatus: number;
+  readonly code: string;
+  readonly details: unknown;
+  readonly request: ChainrailsRequestInfo;
+
+  constructor(params: {
+    status: number;
+    message: string;
+    code?: string;
+    details?: unknown;
+    request: ChainrailsRequestInfo;
+    httpStatus?: number;
+  }) {
+    const httpStatus =
+      params.httpStatus ??
+      (params.status >= 400 && params.status < 500
+        ? params.status
+        : HttpStatus.BAD_GATEWAY);
+    const code = params.code ?? ChainrailsApiError.defaultCode(params.status);
+
+    super(
+      {
+        statusCode: httpStatus,
+        error: 'ChainrailsApiError',
+        message: params.message,
+        code,
+        upstreamStatus: params.status,
+        request: { method: params.request.method, path: params.request.path },
+      },
+      httpStatus,
+    );
+
+    this.name = 'ChainrailsApiError';
+    this.upstreamStatus = params.status;
+    this.code = code;
+    this.details = params.details;
+    this.request = params.request;
+  }
+
+  /**
+   * Build an error from a failed upstream response, reading the JSON (or text)
+   * body so the reason the request was rejected isn't lost.
+   */
+  static async fromResponse(
+    response: Response,
+    request: ChainrailsRequestInfo,
+  ): Promise<ChainrailsApiError> {
+    const text = await response.text().catch(() => '');
+
+    let details: unknown = text || undefined;
+    try {
+      details = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON, keep the raw text
+    }
+
+    const body =
+      details && typeof details === 'object'
+        ? (details as Record<string, any>)
+        : {};
+    const bodyMessage = Array.isArray(body.message)
+      ? body.message.join(', ')
+      : body.message || body.error_description || body.error;
+
+    return new ChainrailsApiError({
+      status: response.status,
+      message: `Chainrails API Error: ${response.status} ${response.statusText}${
+        bodyMessage ? ` - ${bodyMessage}` : ''
+      }`,
+      code: typeof body.code === 'string' ? body.code : undefined,
+      details,
+      request,
+    });
+  }
+
+  /**
+   * Build an error for a request that failed before any response came back
+   * (DNS failure, connection refused, aborted...).
+   */
+  static fromNetworkError(
+    error: Error,
+    request: ChainrailsRequestInfo,
+  ): ChainrailsApiError {
+    return new ChainrailsApiError({
+      status: 0,
+      message: `Chainrails API unreachable: ${error.message}`,
+      code: 'NETWORK_ERROR',
+      details: { cause: error.message },
+      request,
+    });
+  }
+
+  /**
+   * Build the error for a successful response whose body doesn't match the
+   * expected schema, so upstream API changes fail loudly instead of leaking
+   * undefined fields into the app.
+   */
+  static schemaMismatch(
+    status: number,
+    violation: SchemaViolation,
+    request: ChainrailsRequestInfo,
+  ): ChainrailsApiError {
+    return new ChainrailsApiError({
+      status,
+      message: `Unexpected Chainrails API response: ${violation.message}`,
+      code: 'SCHEMA_MISMATCH',
+      details: {
+        path: violation.path,
+        expected: violation.expected,
+        received: violation.received,
+      },
+      request,
+      httpStatus: HttpStatus.BAD_GATEWAY,
+    });
+  }
+
+  /**
+   * Build the error returned while the circuit breaker for an endpoint is open.
+   * No request was sent, so callers get 503 and a hint of when to try again.
+   */
+  static circuitOpen(
+    request: ChainrailsRequestInfo,
+    retryAt: number | null,
+  ): ChainrailsApiError {
+    return new ChainrailsApiError({
+      status: 0,
+      message: `Chainrails API temporarily unavailable (circuit open for ${request.method} ${request.path})`,
+      code: 'CIRCUIT_OPEN',
+      details: {
+        retryAt: retryAt ? new Date(retryAt).toISOString() : null,
+      },
+      request,
+      httpStatus: HttpStatus.SERVICE_UNAVAILABLE,
+    });
+  }
+
+  private static defaultCode(status: number): string {
+    if (status === 0) return 'NETWORK_ERROR';
+    if (status === 401 || status === 403) return 'UNAUTHORIZED';
+    if (status === 404) return 'NOT_FOUND';
+    if (status === 429) return 'RATE_LIMITED';
+    if (status >= 500) return 'UPSTREAM_ERROR';
+    return 'BAD_REQUEST';
+  }
+}
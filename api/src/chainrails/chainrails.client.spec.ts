@@ -0,0 +1,161 @@
+import { ConfigService } from '@nestjs/config';
+import { AddressInfo } from 'net';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { ChainrailsApiError } from './chainrails-api.error';
+import { ChainrailsClient } from './chainrails.client';
+import { CircuitBreakerRegistry } from './circuit-breaker.registry';
+import { computeBackoffDelay, parseRetryAfter } from './retry-policy';
+
+type StubHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+describe('ChainrailsClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: StubHandler;
+  let requests: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  function createClient(config: Record<string, any> = {}) {
+    const configService = new ConfigService({
+      CHAINRAILS_API_KEY: 'cr_test_key',
+      CHAINRAILS_API_URL: baseUrl,
+      CHAINRAILS_RETRY_MAX_ATTEMPTS: 3,
+      CHAINRAILS_RETRY_BASE_DELAY_MS: 1,
+      CHAINRAILS_RETRY_MAX_DELAY_MS: 20,
+      ...config,
+    });
+    const registry = new CircuitBreakerRegistry(configService);
+    return { client: new ChainrailsClient(configService, registry), registry };
+  }
+
+  function respondInSequence(
+    ...responses: Array<[number, unknown, Record<string, string>?]>
+  ) {
+    let call = 0;
+    handler = (req, res) => {
+      const [status, body, headers] =
+        responses[Math.min(call++, responses.length - 1)];
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+  }
+
+  it('retries idempotent GETs on 5xx until they succeed', async () => {
+    respondInSequence([503, { message: 'busy' }], [200, [{ name: 'BASE' }]]);
+    const { client } = createClient();
+
+    await expect(client.get('/chains')).resolves.toEqual([{ name: 'BASE' }]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not retry client errors and keeps the response body', async () => {
+    respondInSequence([400, { message: 'amount is required', code: 'BAD' }]);
+    const { client } = createClient();
+
+    const error: ChainrailsApiError = await client
+      .get<never>('/quotes/single')
+      .catch((e: ChainrailsApiError) => e);
+
+    expect(error).toBeInstanceOf(ChainrailsApiError);
+    expect(error.upstreamStatus).toBe(400);
+    expect(error.code).toBe('BAD');
+    expect(error.getStatus()).toBe(400);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('only retries POSTs that carry an idempotency key', async () => {
+    respondInSequence([502, {}], [201, { id: 1 }]);
+    const { client } = createClient();
+
+    await expect(client.post('/intents', {})).rejects.toThrow(
+      ChainrailsApiError,
+    );
+    expect(requests).toHaveLength(1);
+
+    requests = [];
+    respondInSequence([502, {}], [201, { id: 1 }]);
+    await expect(
+      client.post('/intents', {}, { idempotencyKey: 'key-1' }),
+    ).resolves.toEqual({ id: 1 });
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers['idempotency-key']).toBe('key-1');
+  });
+
+  it('gives up when Retry-After asks for a longer wait than allowed', async () => {
+    respondInSequence([429, {}, { 'Retry-After': '60' }], [200, []]);
+    const { client } = createClient();
+
+    await expect(client.get('/chains')).rejects.toMatchObject({
+      upstreamStatus: 429,
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('opens the circuit after repeated failures and fails fast', async () => {
+    respondInSequence([500, {}]);
+    const { client, registry } = createClient({
+      CHAINRAILS_RETRY_MAX_ATTEMPTS: 1,
+      CHAINRAILS_CIRCUIT_FAILURE_THRESHOLD: 2,
+      CHAINRAILS_CIRCUIT_RESET_TIMEOUT_MS: 60000,
+    });
+
+    await client.get('/intents/1').catch(() => undefined);
+    await client.get('/intents/2').catch(() => undefined);
+
+    const error: ChainrailsApiError = await client
+      .get<never>('/intents/3')
+      .catch((e: ChainrailsApiError) => e);
+
+    expect(error.code).toBe('CIRCUIT_OPEN');
+    expect(error.getStatus()).toBe(503);
+    expect(requests).toHaveLength(2);
+    expect(registry.snapshot()).toEqual([
+      expect.objectContaining({
+        endpoint: 'GET /intents/:param',
+        state: 'OPEN',
+      }),
+    ]);
+
+    // Other endpoints are not affected
+    respondInSequence([200, []]);
+    await expect(client.get('/chains')).resolves.toEqual([]);
+  });
+});
+
+describe('retry policy', () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it('grows the jittered delay exponentially up to the cap', () => {
+    const noJitter = () => 0.999;
+    expect(computeBackoffDelay(1, policy, undefined, noJitter)).toBe(99);
+    expect(computeBackoffDelay(3, policy, undefined, noJitter)).toBe(399);
+    expect(computeBackoffDelay(10, policy, undefined, noJitter)).toBe(999);
+  });
+
+  it('never waits less than Retry-After', () => {
+    expect(computeBackoffDelay(1, policy, 500, () => 0)).toBe(500);
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,244 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ChainrailsApiError,
+  ChainrailsRequestInfo,
+} from './chainrails-api.error';
+import { CircuitBreakerRegistry } from './circuit-breaker.registry';
+import { Schema, SchemaViolation } from './models/schema';
+import {
+  RetryPolicy,
+  computeBackoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+} from './retry-policy';
+
+export type ChainrailsQuery = Record<
+  string,
+  string | number | boolean | undefined | null
+>;
+
+/**
+ * CHAINRAILS CLIENT
+ *
+ * Purpose: The single place where this app talks HTTP to the Chainrails API
+ *
+ * Every feature service (chains, quotes, intents...) goes through this client
+ * instead of calling fetch directly, so they all share:
+ * - The base URL and API key from ConfigService
+ * - The Bearer authorization header
+ * - Error handling: any non-2xx response becomes a ChainrailsApiError
+ *   carrying the status, error code and response body
+ * - Resilience: retries with jittered exponential backoff (honoring Retry-After)
+ *   and a per-endpoint circuit breaker that fails fast while upstream is down
+ */
+@Injectable()
+export class ChainrailsClient {
+  private readonly logger = new Logger(ChainrailsClient.name);
+  private readonly apiBaseUrl: string;
+  private readonly apiKey: string;
+  private readonly retryPolicy: RetryPolicy;
+
+  constructor(
+    private configService: ConfigService,
+    private readonly circuitBreakers: CircuitBreakerRegistry,
+  ) {
+    this.apiBaseUrl = (
+      this.configService.get<string>('CHAINRAILS_API_URL') ||
+      'https://api.chainrails.io/api/v1'
+    ).replace(/\/+$/, '');
+    this.apiKey = this.configService.get<string>('CHAINRAILS_API_KEY');
+
+    if (!this.apiKey) {
+      throw new Error(
+        'CHAINRAILS_API_KEY is required. Get one from your Chainrails dashboard.',
+      );
+    }
+
+    this.retryPolicy = {
+      maxAttempts: Number(
+        this.configService.get('CHAINRAILS_RETRY_MAX_ATTEMPTS') ?? 3,
+      ),
+      baseDelayMs: Number(
+        this.configService.get('CHAINRAILS_RETRY_BASE_DELAY_MS') ?? 250,
+      ),
+      maxDelayMs: Number(
+        this.configService.get('CHAINRAILS_RETRY_MAX_DELAY_MS') ?? 5000,
+      ),
+    };
+  }
+
+  /**
+   * GET a Chainrails resource.
+   * Query values that are undefined or null are left out of the URL.
+   *
+   * GETs are idempotent, so they are retried on network errors, 429 and 5xx.
+   * Pass a schema (see ./models) to validate and type the response.
+   */
+  async get<T>(
+    path: string,
+    query?: ChainrailsQuery,
+    options: { schema?: Schema<T> } = {},
+  ): Promise<T> {
+    return this.request<T>('GET', path, {
+      query,
+      schema: options.schema,
+      retryable: true,
+    });
+  }
+
+  /**
+   * POST a JSON body to a Chainrails resource.
+   *
+   * POSTs are only retried when an idempotency key is given: it is sent as the
+   * Idempotency-Key header so Chainrails can recognise the repeated request
+   * instead of e.g. creating a second intent.
+   */
+  async post<T>(
+    path: string,
+    body?: unknown,
+    options: { idempotencyKey?: string; schema?: Schema<T> } = {},
+  ): Promise<T> {
+    return this.request<T>('POST', path, {
+      body,
+      schema: options.schema,
+      idempotencyKey: options.idempotencyKey,
+      retryable: Boolean(options.idempotencyKey),
+    });
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    options: {
+      query?: ChainrailsQuery;
+      body?: unknown;
+      schema?: Schema<T>;
+      idempotencyKey?: string;
+      retryable: boolean;
+    },
+  ): Promise<T> {
+    const url = this.buildUrl(path, options.query);
+    const requestInfo: ChainrailsRequestInfo = { method, path, url };
+    const breaker = this.circuitBreakers.get(method, path);
+    const maxAttempts = options.retryable ? this.retryPolicy.maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (!breaker.tryAcquire()) {
+        throw ChainrailsApiError.circuitOpen(requestInfo, breaker.retryAt());
+      }
+
+      let retryAfterMs: number | undefined;
+      try {
+        const response = await this.send(url, method, options);
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        const result = await this.readResponse<T>(
+          response,
+          requestInfo,
+          options.schema,
+        );
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        // fetch only throws when no response came back at all
+        const apiError =
+          error instanceof ChainrailsApiError
+            ? error
+            : ChainrailsApiError.fromNetworkError(error, requestInfo);
+
+        // Only outages count against the breaker, not our own bad requests
+        if (apiError.upstreamStatus === 0 || apiError.upstreamStatus >= 500) {
+          breaker.recordFailure(apiError.message);
+        } else {
+          breaker.recordSuccess();
+        }
+
+        const delay = computeBackoffDelay(
+          attempt,
+          this.retryPolicy,
+          retryAfterMs,
+        );
+        const shouldRetry =
+          attempt < maxAttempts &&
+          isRetryableError(apiError) &&
+          delay <= this.retryPolicy.maxDelayMs;
+
+        if (!shouldRetry) {
+          this.logger.warn(`${method} ${path} failed: ${apiError.message}`);
+          throw apiError;
+        }
+
+        this.logger.warn(
+          `${method} ${path} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms: ${apiError.message}`,
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private send(
+    url: string,
+    method: string,
+    options: { body?: unknown; idempotencyKey?: string },
+  ): Promise<Response> {
+    return fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+        ...(options.idempotencyKey && {
+          'Idempotency-Key': options.idempotencyKey,
+        }),
+      },
+      ...(options.body !== undefined && {
+        body: JSON.stringify(options.body),
+      }),
+    });
+  }
+
+  private async readResponse<T>(
+    response: Response,
+    requestInfo: ChainrailsRequestInfo,
+    schema?: Schema<T>,
+  ): Promise<T> {
+    if (!response.ok) {
+      throw await ChainrailsApiError.fromResponse(response, requestInfo);
+    }
+
+    const body = response.status === 204 ? undefined : await response.json();
+    if (!schema) {
+      return body as T;
+    }
+
+    try {
+      return schema(body, 'response');
+    } catch (error) {
+      if (error instanceof SchemaViolation) {
+        throw ChainrailsApiError.schemaMismatch(
+          response.status,
+          error,
+          requestInfo,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private buildUrl(path: string, query?: ChainrailsQuery): string {
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    const queryParams = new URLSearchParams();
+
+    Object.entries(query || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams.append(key, String(value));
+      }
+    });
+
+    const queryString = queryParams.toString();
+    return `${this.apiBaseUrl}${normalizedPath}${queryString ? `?${queryString}` : ''}`;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ChainrailsClient } from './chainrails.client';
+import { CircuitBreakerRegistry } from './circuit-breaker.registry';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [ChainrailsClient, CircuitBreakerRegistry],
+  exports: [ChainrailsClient, CircuitBreakerRegistry],
+})
+export class ChainrailsModule {}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitBreakerSnapshot,
+} from './circuit-breaker';
+
+/**
+ * Keeps one CircuitBreaker per upstream endpoint, so an outage of
+ * e.g. the quotes API doesn't block intent status lookups.
+ *
+ * Endpoints are keyed by method and path, with ids and addresses replaced
+ * by ":param" (GET /intents/42 and GET /intents/43 share a breaker).
+ */
+@Injectable()
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly options: CircuitBreakerOptions;
+
+  constructor(private configService: ConfigService) {
+    this.options = {
+      failureThreshold: Number(
+        this.configService.get('CHAINRAILS_CIRCUIT_FAILURE_THRESHOLD') ?? 5,
+      ),
+      resetTimeoutMs: Number(
+        this.configService.get('CHAINRAILS_CIRCUIT_RESET_TIMEOUT_MS') ?? 30000,
+      ),
+    };
+  }
+
+  static endpointKey(method: string, path: string): string {
+    const normalizedPath = path
+      .split('?')[0]
+      .split('/')
+      .map((segment) =>
+        /^\d+$/.test(segment) || /^0x[0-9a-fA-F]+$/.test(segment)
+          ? ':param'
+          : segment,
+      )
+      .join('/');
+
+    return `${method.toUpperCase()} ${normalizedPath}`;
+  }
+
+  get(method: string, path: string): CircuitBreaker {
+    const endpoint = CircuitBreakerRegistry.endpointKey(method, path);
+
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, this.options);
+      this.breakers.set(endpoint, breaker);
+    }
+
+    return breaker;
+  }
+
+  snapshot(): CircuitBreakerSnapshot[] {
+    return [...this.breakers.values()].map((breaker) => breaker.snapshot());
+  }
+}
@@ -0,0 +1,102 @@
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  endpoint: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastFailure: string | null;
+}
+
+/**
+ * CIRCUIT BREAKER
+ *
+ * Tracks the health of a single upstream endpoint.
+ *
+ * - CLOSED: Requests flow normally, consecutive failures are counted
+ * - OPEN: Too many failures in a row, requests fail fast without calling upstream
+ * - HALF_OPEN: The reset timeout elapsed, one trial request is let through.
+ *   Success closes the circuit again, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastFailure: string | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly endpoint: string,
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Whether a request may be sent right now.
+   * Moves an expired OPEN circuit to HALF_OPEN and reserves the trial request.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'OPEN') {
+      if (this.now() - this.openedAt < this.options.resetTimeoutMs) {
+        return false;
+      }
+      this.state = 'HALF_OPEN';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'HALF_OPEN') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess() {
+    this.state = 'CLOSED';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(reason: string) {
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    this.trialInFlight = false;
+
+    if (
+      this.state === 'HALF_OPEN' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'OPEN';
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * When the circuit will let a trial request through again (OPEN only).
+   */
+  retryAt(): number | null {
+    return this.state === 'OPEN'
+      ? this.openedAt + this.options.resetTimeoutMs
+      : null;
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    const retryAt = this.retryAt();
+    return {
+      endpoint: this.endpoint,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: retryAt ? new Date(retryAt).toISOString() : null,
+      lastFailure: this.lastFailure,
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  Schema,
+  arrayOf,
+  boolean,
+  nonEmptyString,
+  number,
+  object,
+  optional,
+  SchemaViolation,
+  string,
+} from './schema';
+
+/**
+ * A chain identifier as used across the Chainrails API, e.g. "BASE_TESTNET".
+ * GET /chains returns a list of these.
+ */
+export type Chain = string;
+
+/**
+ * Chains Chainrails can route between.
+ * Mirrors the Chain enum in contracts/solidity/utils/Types.sol.
+ */
+export const SUPPORTED_CHAINS = [
+  'ARBITRUM_MAINNET',
+  'ARBITRUM_TESTNET',
+  'BASE_MAINNET',
+  'BASE_TESTNET',
+  'STARKNET_MAINNET',
+  'STARKNET_TESTNET',
+  'AVALANCHE_MAINNET',
+  'AVALANCHE_TESTNET',
+  'ETHEREUM_MAINNET',
+  'ETHEREUM_TESTNET',
+  'POLYGON_MAINNET',
+  'POLYGON_TESTNET',
+  'OPTIMISM_MAINNET',
+  'OPTIMISM_TESTNET',
+  'UNICHAIN_MAINNET',
+  'UNICHAIN_TESTNET',
+  'HYPEREVM_MAINNET',
+  'HYPEREVM_TESTNET',
+  'BSC_TESTNET',
+  'BSC_MAINNET',
+  'LISK_MAINNET',
+  'LISK_TESTNET',
+  'SOLANA_TESTNET',
+  'SOLANA_MAINNET',
+  'TRON_TESTNET',
+  'TRON_MAINNET',
+  'CELO_TESTNET',
+  'CELO_MAINNET',
+  'ZKSYNC_MAINNET',
+  'ZKSYNC_TESTNET',
+  'SCROLL_MAINNET',
+  'SCROLL_TESTNET',
+  'WORLD_CHAIN_MAINNET',
+  'WORLD_CHAIN_TESTNET',
+  'LINEA_MAINNET',
+  'LINEA_TESTNET',
+  'SEI_MAINNET',
+  'SEI_TESTNET',
+  'SONIEUM_MAINNET',
+  'SONIEUM_TESTNET',
+  'BLAST_MAINNET',
+  'BLAST_TESTNET',
+  'MODE_MAINNET',
+  'MODE_TESTNET',
+  'XDC_MAINNET',
+  'XDC_TESTNET',
+  'INK_MAINNET',
+  'INK_TESTNET',
+  'PLUME_MAINNET',
+  'PLUME_TESTNET',
+  'LENS_MAINNET',
+  'LENS_TESTNET',
+  'ZORA_MAINNET',
+  'ZORA_TESTNET',
+  'SUI_MAINNET',
+  'SUI_TESTNET',
+  'NEAR_MAINNET',
+  'NEAR_TESTNET',
+  'APTOS_MAINNET',
+  'APTOS_TESTNET',
+  'STELLAR_MAINNET',
+  'STELLAR_TESTNET',
+  'MONAD_MAINNET',
+  'MONAD_TESTNET',
+] as const;
+
+export type SupportedChain = (typeof SUPPORTED_CHAINS)[number];
+
+/**
+ * Chains sharing an address format.
+ * - evm: 20-byte hex addresses (0x + 40 hex chars)
+ * - starknet: felt252 addresses (0x + up to 64 hex chars, below the field prime)
+ * - other: non-EVM chains with their own formats (Solana, Tron, Sui...)
+ */
+export type ChainFamily = 'evm' | 'starknet' | 'other';
+
+const NON_EVM_PREFIXES = [
+  'SOLANA_',
+  'TRON_',
+  'SUI_',
+  'NEAR_',
+  'APTOS_',
+  'STELLAR_',
+];
+
+export function getChainFamily(chain: string): ChainFamily {
+  if (chain.startsWith('STARKNET_')) return 'starknet';
+  if (NON_EVM_PREFIXES.some((prefix) => chain.startsWith(prefix))) {
+    return 'other';
+  }
+  return 'evm';
+}
+
+/**
+ * A token supported on a chain, from GET /chains/:chainName/tokens
+ */
+export interface Token {
+  address: string;
+  symbol: string;
+  decimals: number;
+  name?: string;
+  logoURI?: string;
+  nativeToken?: boolean;
+}
+
+export const chainSchema: Schema<Chain> = (value, path) => {
+  const chain = nonEmptyString(value, path);
+  if (!/^[A-Z0-9_]+$/.test(chain)) {
+    throw new SchemaViolation(path, 'chain name like BASE_TESTNET', value);
+  }
+  return chain;
+};
+
+export const chainArraySchema: Schema<Chain[]> = arrayOf(chainSchema);
+
+export const tokenSchema: Schema<Token> = object<Token>({
+  address: nonEmptyString,
+  symbol: nonEmptyString,
+  decimals: number,
+  name: optional(string),
+  logoURI: optional(string),
+  nativeToken: optional(boolean),
+});
+
+export const tokenArraySchema: Schema<Token[]> = arrayOf(tokenSchema);
@@ -0,0 +1,104 @@
+import {
+  Schema,
+  amount,
+  arrayOf,
+  nonEmptyString,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  unknownRecord,
+} from './schema';
+
+/**
+ * Intent Lifecycle: PENDING → FUNDED → INITIATED → COMPLETED
+ * Alternative outcomes: EXPIRED (never funded), REFUNDED (transfer failed)
+ */
+export const INTENT_STATUSES = [
+  'PENDING',
+  'FUNDED',
+  'INITIATED',
+  'COMPLETED',
+  'EXPIRED',
+  'REFUNDED',
+] as const;
+
+export type IntentStatus = (typeof INTENT_STATUSES)[number];
+
+export const TERMINAL_INTENT_STATUSES: readonly IntentStatus[] = [
+  'COMPLETED',
+  'EXPIRED',
+  'REFUNDED',
+];
+
+/**
+ * A transfer intent as returned by the Chainrails API.
+ * Only the fields this app relies on are listed; everything else is passed through.
+ */
+export interface Intent {
+  id: number;
+  intent_address: string;
+  intent_status: IntentStatus;
+  sender?: string;
+  recipient?: string;
+  refund_address?: string;
+  source_chain?: string;
+  destination_chain?: string;
+  tokenIn?: string;
+  tokenOut?: string;
+  initialAmount?: string;
+  total_amount_in_asset_token?: string;
+  fees_in_asset_token?: string;
+  asset_token_symbol?: string;
+  asset_token_decimals?: number;
+  tx_hash?: string | null;
+  expires_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A page of intents from GET /intents
+ */
+export interface IntentList {
+  intents: Intent[];
+  total?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const intentStatusSchema: Schema<IntentStatus> = oneOf(INTENT_STATUSES);
+
+export const intentSchema: Schema<Intent> = object<Intent>({
+  id: number,
+  intent_address: nonEmptyString,
+  intent_status: intentStatusSchema,
+  sender: optional(string),
+  recipient: optional(string),
+  refund_address: optional(string),
+  source_chain: optional(string),
+  destination_chain: optional(string),
+  tokenIn: optional(string),
+  tokenOut: optional(string),
+  initialAmount: optional(amount),
+  total_amount_in_asset_token: optional(amount),
+  fees_in_asset_token: optional(amount),
+  asset_token_symbol: optional(string),
+  asset_token_decimals: optional(number),
+  tx_hash: optional(string),
+  expires_at: optional(string),
+  created_at: optional(string),
+  updated_at: optional(string),
+  metadata: optional(unknownRecord),
+});
+
+export const intentArraySchema: Schema<Intent[]> = arrayOf(intentSchema);
+
+export const intentListSchema: Schema<IntentList> = object<IntentList>({
+  intents: intentArraySchema,
+  total: optional(amount),
+  limit: optional(number),
+  offset: optional(number),
+});
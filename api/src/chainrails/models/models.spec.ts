@@ -0,0 +1,100 @@
+import { intentSchema } from './intent.model';
+import { multiSourceQuoteResultSchema } from './quote.model';
+import { chainArraySchema, tokenSchema } from './chain.model';
+import { SchemaViolation } from './schema';
+
+describe('Chainrails models', () => {
+  const intent = {
+    id: 42,
+    intent_address: '0x1234',
+    intent_status: 'PENDING',
+    total_amount_in_asset_token: 1002500,
+    tx_hash: null,
+    client_id: 'kept-as-is',
+  };
+
+  it('accepts a valid intent, keeping unknown fields', () => {
+    expect(intentSchema(intent, 'Intent')).toEqual({
+      ...intent,
+      total_amount_in_asset_token: '1002500',
+    });
+  });
+
+  it('reports the exact field that drifted', () => {
+    expect(() =>
+      intentSchema({ ...intent, intent_status: 'DONE' }, 'Intent'),
+    ).toThrow(
+      new SchemaViolation(
+        'Intent.intent_status',
+        'one of PENDING, FUNDED, INITIATED, COMPLETED, EXPIRED, REFUNDED',
+        'DONE',
+      ),
+    );
+    expect(() =>
+      intentSchema({ ...intent, intent_address: undefined }, 'Intent'),
+    ).toThrow('Intent.intent_address: expected non-empty string');
+  });
+
+  it('validates nested payment options in multi-source quotes', () => {
+    const result = {
+      destinationChain: 'ARBITRUM_TESTNET',
+      quotes: [
+        {
+          sourceChain: 'BASE_TESTNET',
+          totalFee: '2500',
+          paymentOptions: [
+            { token: 'USDC', tokenAddress: '0x036C', depositAmount: '1002500' },
+          ],
+        },
+      ],
+    };
+
+    expect(multiSourceQuoteResultSchema(result, 'Result').quotes).toHaveLength(
+      1,
+    );
+
+    delete result.quotes[0].paymentOptions[0].tokenAddress;
+    expect(() => multiSourceQuoteResultSchema(result, 'Result')).toThrow(
+      'Result.quotes[0].paymentOptions[0].tokenAddress',
+    );
+  });
+
+  it('only accepts quote fees and deposits in base units', () => {
+    const quote = (totalFee: unknown, depositAmount: unknown = '1002500') => ({
+      quotes: [
+        {
+          sourceChain: 'BASE_TESTNET',
+          totalFee,
+          paymentOptions: [
+            { token: 'USDC', tokenAddress: '0x036C', depositAmount },
+          ],
+        },
+      ],
+    });
+
+    expect(
+      multiSourceQuoteResultSchema(quote(2500), 'Result').quotes[0].totalFee,
+    ).toBe('2500');
+    expect(() => multiSourceQuoteResultSchema(quote('1.5'), 'Result')).toThrow(
+      'Result.quotes[0].totalFee: expected amount in base units, received "1.5"',
+    );
+    expect(() => multiSourceQuoteResultSchema(quote(-1), 'Result')).toThrow(
+      'Result.quotes[0].totalFee',
+    );
+    expect(() =>
+      multiSourceQuoteResultSchema(quote('2500', '1.0025'), 'Result'),
+    ).toThrow('Result.quotes[0].paymentOptions[0].depositAmount');
+  });
+
+  it('validates chains and tokens', () => {
+    expect(chainArraySchema(['BASE_TESTNET'], 'Chains')).toEqual([
+      'BASE_TESTNET',
+    ]);
+    expect(() => chainArraySchema([{ name: 'BASE' }], 'Chains')).toThrow(
+      'Chains[0]',
+    );
+    expect(() =>
+      tokenSchema({ address: '0x1', symbol: 'USDC', decimals: '6' }, 'Token'),
+    ).toThrow('Token.decimals: expected number');
+  });
+});
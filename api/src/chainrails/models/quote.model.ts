@@ -0,0 +1,89 @@
+import {
+  Schema,
+  amount,
+  arrayOf,
+  baseUnitAmount,
+  nonEmptyString,
+  number,
+  object,
+  optional,
+  string,
+} from './schema';
+import { Chain, chainSchema } from './chain.model';
+
+/**
+ * Bridges Chainrails can route a cross-chain transfer through.
+ */
+export const BRIDGES = ['ACROSS', 'CCTP', 'GATEWAY', 'RHINOFI'] as const;
+
+export type Bridge = (typeof BRIDGES)[number];
+
+/**
+ * One way to pay for a quote: which token to deposit on the source chain and how much.
+ * depositAmount is in the smallest units of that token.
+ */
+export interface PaymentOption {
+  token: string;
+  tokenAddress: string;
+  depositAmount: string;
+  depositAmountFormatted?: string;
+  fee?: string;
+  feeFormatted?: string;
+  slippage?: number;
+}
+
+/**
+ * A quote for reaching the destination from one source chain.
+ * totalFee is in the smallest units of the destination token.
+ */
+export interface Quote {
+  sourceChain: Chain;
+  destinationChain?: Chain;
+  totalFee: string;
+  totalFeeFormatted?: string;
+  bridge?: string;
+  paymentOptions: PaymentOption[];
+}
+
+/**
+ * Response of GET /quotes/multi-source: one quote per possible source chain.
+ */
+export interface MultiSourceQuoteResult {
+  destinationChain?: Chain;
+  quotes: Quote[];
+  cheapestOption?: Quote;
+}
+
+/**
+ * Slippage arrives as a number, but some responses send it as a numeric string.
+ */
+const slippage: Schema<number> = (value, path) =>
+  typeof value === 'string' ? number(Number(value), path) : number(value, path);
+
+export const paymentOptionSchema: Schema<PaymentOption> = object<PaymentOption>(
+  {
+    token: nonEmptyString,
+    tokenAddress: nonEmptyString,
+    depositAmount: baseUnitAmount,
+    depositAmountFormatted: optional(amount),
+    fee: optional(amount),
+    feeFormatted: optional(amount),
+    slippage: optional(slippage),
+  },
+);
+
+export const quoteSchema: Schema<Quote> = object<Quote>({
+  sourceChain: chainSchema,
+  destinationChain: optional(chainSchema),
+  totalFee: baseUnitAmount,
+  totalFeeFormatted: optional(amount),
+  bridge: optional(string),
+  paymentOptions: arrayOf(paymentOptionSchema),
+});
+
+export const multiSourceQuoteResultSchema: Schema<MultiSourceQuoteResult> =
+  object<MultiSourceQuoteResult>({
+    destinationChain: optional(chainSchema),
+    quotes: arrayOf(quoteSchema),
+    cheapestOption: optional(quoteSchema),
+  });
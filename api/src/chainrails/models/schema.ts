@@ -0,0 +1,135 @@
+/**
+ * Minimal runtime schemas for Chainrails API responses.
+ *
+ * A Schema<T> checks an unknown value and returns it typed as T, or throws a
+ * SchemaViolation pointing at the first field that doesn't match. Object
+ * schemas keep fields they don't know about, so new upstream fields pass
+ * through untouched while missing or mistyped ones fail loudly.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class SchemaViolation extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown,
+  ) {
+    super(`${path}: expected ${expected}, received ${describe(received)}`);
+    this.name = 'SchemaViolation';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value;
+}
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new SchemaViolation(path, 'string', value);
+  }
+  return value;
+};
+
+export const nonEmptyString: Schema<string> = (value, path) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new SchemaViolation(path, 'non-empty string', value);
+  }
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SchemaViolation(path, 'number', value);
+  }
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new SchemaViolation(path, 'boolean', value);
+  }
+  return value;
+};
+
+/**
+ * A token amount. Chainrails sends these as strings, but numbers are accepted
+ * and normalized to strings so callers only ever deal with one type.
+ */
+export const amount: Schema<string> = (value, path) => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value !== 'string' || !/^-?\d+(\.\d+)?$/.test(value.trim())) {
+    throw new SchemaViolation(path, 'numeric string', value);
+  }
+  return value.trim();
+};
+
+/**
+ * An amount in a token's smallest units, e.g. a fee of "50500" for 0.0505
+ * USDC. Only non-negative integers pass: a decimal like "1.5" here means the
+ * response isn't in the units we are about to do bigint math with.
+ */
+export const baseUnitAmount: Schema<string> = (value, path) => {
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return String(value);
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value.trim())) {
+    throw new SchemaViolation(path, 'amount in base units', value);
+  }
+  return value.trim();
+};
+
+export const unknownRecord: Schema<Record<string, any>> = (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaViolation(path, 'object', value);
+  }
+  return value as Record<string, any>;
+};
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new SchemaViolation(path, `one of ${values.join(', ')}`, value);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * Accepts the value, undefined or null.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) =>
+    value === undefined || value === null ? undefined : schema(value, path);
+}
+
+export function arrayOf<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaViolation(path, 'array', value);
+    }
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+}
+
+export function object<T>(shape: {
+  [K in keyof T]-?: Schema<T[K]>;
+}): Schema<T> {
+  return (value, path) => {
+    const input = unknownRecord(value, path);
+    const result: Record<string, any> = { ...input };
+
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key as keyof T](input[key], `${path}.${key}`);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+
+    return result as T;
+  };
+}
@@ -0,0 +1,19 @@
+import { Schema, nonEmptyString, object, optional, string } from './schema';
+
+/**
+ * A payment modal session from POST /modal/sessions.
+ *
+ * The sessionToken lets the Chainrails payment modal (see modal/) collect one
+ * amount for one recipient from the browser, without exposing the API key.
+ */
+export interface ModalSession {
+  sessionToken: string;
+  sessionId?: string;
+  expiresAt?: string;
+}
+
+export const modalSessionSchema: Schema<ModalSession> = object<ModalSession>({
+  sessionToken: nonEmptyString,
+  sessionId: optional(string),
+  expiresAt: optional(string),
+});
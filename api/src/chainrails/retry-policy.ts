@@ -0,0 +1,79 @@
+import { ChainrailsApiError } from './chainrails-api.error';
+
+/**
+ * How the ChainrailsClient retries failed requests.
+ *
+ * - maxAttempts: Total attempts, including the first one (1 disables retries)
+ * - baseDelayMs: Delay cap for the first retry, doubled on every attempt
+ * - maxDelayMs: Upper bound for any single wait, including Retry-After
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Network errors, timeouts, rate limits and 5xx responses are worth retrying.
+ * Other 4xx responses will fail the same way every time.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ChainrailsApiError)) return false;
+  if (error.code === 'CIRCUIT_OPEN') return false;
+  return (
+    error.upstreamStatus === 0 ||
+    RETRYABLE_STATUSES.includes(error.upstreamStatus)
+  );
+}
+
+/**
+ * Parse a Retry-After header, which is either a number of seconds
+ * or an HTTP date. Returns the wait in milliseconds, or undefined.
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with "full jitter": wait a random time between 0 and
+ * baseDelayMs * 2^(attempt - 1), capped at maxDelayMs. The jitter keeps many
+ * clients from retrying in lockstep after an outage.
+ *
+ * If the server sent Retry-After we never retry sooner than it asked.
+ *
+ * @param attempt - The attempt that just failed (1 for the first request)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jittered = Math.floor(
+    random() * Math.min(policy.maxDelayMs, exponential),
+  );
+
+  if (retryAfterMs !== undefined) {
+    return Math.max(jittered, retryAfterMs);
+  }
+
+  return jittered;
+}
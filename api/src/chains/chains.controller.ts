@@ -1,5 +1,10 @@
 import { Controller, Get, Param } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
 import { ChainsService } from './chains.service';
+import {
+  ChainEnvironmentParamsDto,
+  ChainNameParamsDto,
+} from './dto/chain-params.dto';
 
 /**
  * CHAINS CONTROLLER
@@ -12,6 +17,7 @@ import { ChainsService } from './chains.service';
  * - GET http://localhost:3000/chains/environment/testnet
  * - GET http://localhost:3000/chains/ETHEREUM_MAINNET/tokens
  */
+@ApiTags('chains')
 @Controller('chains')
 export class ChainsController {
   constructor(private readonly chainsService: ChainsService) {}
@@ -34,8 +40,8 @@ export class ChainsController {
    * - /chains/environment/mainnet
    */
   @Get('environment/:env')
-  async getChainsByEnvironment(@Param('env') env: 'testnet' | 'mainnet') {
-    return this.chainsService.getChainsByEnvironment(env);
+  async getChainsByEnvironment(@Param() params: ChainEnvironmentParamsDto) {
+    return this.chainsService.getChainsByEnvironment(params.env);
   }
 
   /**
@@ -54,7 +60,7 @@ export class ChainsController {
    * Example: /chains/ETHEREUM_MAINNET/tokens
    */
   @Get(':chainName/tokens')
-  async getSupportedTokens(@Param('chainName') chainName: string) {
-    return this.chainsService.getSupportedTokens(chainName);
+  async getSupportedTokens(@Param() params: ChainNameParamsDto) {
+    return this.chainsService.getSupportedTokens(params.chainName);
   }
 }
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { CacheModule } from '../cache/cache.module';
+import { ChainrailsModule } from '../chainrails/chainrails.module';
 import { ChainsService } from './chains.service';
 import { ChainsController } from './chains.controller';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, ChainrailsModule, CacheModule],
   controllers: [ChainsController],
   providers: [ChainsService],
   exports: [ChainsService],
@@ -1,5 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { CacheRegistry } from '../cache/cache.registry';
+import { TtlCache } from '../cache/ttl-cache';
+import { ChainrailsClient } from '../chainrails/chainrails.client';
+import { tokenDecimals } from '../utils/amounts';
+import {
+  Chain,
+  Token,
+  chainArraySchema,
+  tokenArraySchema,
+} from '../chainrails/models/chain.model';
 
 /**
  * CHAINS SERVICE
@@ -10,24 +20,34 @@ import { ConfigService } from '@nestjs/config';
  * - Get list of all supported chains
  * - Filter chains by environment (testnet/mainnet)
  * - Get supported tokens for a specific chain
+ * - Cache data that barely changes (see CacheModule)
+ *
+ * Chains and tokens are cached for CHAINS_CACHE_TTL_MS (default 1 hour).
+ * For CHAINS_CACHE_STALE_MS after that (default 24 hours) the cached list is
+ * still returned immediately while it is refreshed in the background.
  */
 @Injectable()
 export class ChainsService {
   private readonly logger = new Logger(ChainsService.name);
-  private readonly apiBaseUrl: string;
-  private readonly apiKey: string;
-
-  constructor(private configService: ConfigService) {
-    this.apiBaseUrl =
-      this.configService.get<string>('CHAINRAILS_API_URL') ||
-      'https://api.chainrails.io/api/v1';
-    this.apiKey = this.configService.get<string>('CHAINRAILS_API_KEY');
-
-    if (!this.apiKey) {
-      throw new Error(
-        'CHAINRAILS_API_KEY is required. Get one from your Chainrails dashboard.',
-      );
-    }
+
+  private readonly chainsCache: TtlCache<Chain[]>;
+  private readonly tokensCache: TtlCache<Token[]>;
+
+  constructor(
+    private readonly chainrails: ChainrailsClient,
+    private configService: ConfigService,
+    caches: CacheRegistry,
+  ) {
+    const options = {
+      ttlMs: Number(
+        this.configService.get('CHAINS_CACHE_TTL_MS') ?? 60 * 60 * 1000,
+      ),
+      staleMs: Number(
+        this.configService.get('CHAINS_CACHE_STALE_MS') ?? 24 * 60 * 60 * 1000,
+      ),
+    };
+    this.chainsCache = caches.get('chains', options);
+    this.tokensCache = caches.get('tokens', options);
   }
 
   /**
@@ -38,23 +58,15 @@ export class ChainsService {
    * 
    * Returns: Array of chain objects
    */
-  async getAllChains() {
+  async getAllChains(): Promise<Chain[]> {
     this.logger.log('Fetching all supported chains...');
 
     try {
-      const response = await fetch(`${this.apiBaseUrl}/chains`, {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const chains = await response.json();
+      const chains = await this.chainsCache.getOrLoad('all', () =>
+        this.chainrails.get('/chains', undefined, {
+          schema: chainArraySchema,
+        }),
+      );
 
       this.logger.log(`✅ Found ${chains.length} supported chains`);
 
@@ -78,28 +90,21 @@ export class ChainsService {
    * Testnet chains: Use for development/testing (free, no real money)
    * Mainnet chains: Use for production (real funds)
    */
-  async getChainsByEnvironment(environment: 'testnet' | 'mainnet') {
+  async getChainsByEnvironment(
+    environment: 'testnet' | 'mainnet',
+  ): Promise<Chain[]> {
     this.logger.log(`Fetching ${environment} chains...`);
 
     try {
       // Use the network query parameter to filter on the API side
-      const response = await fetch(
-        `${this.apiBaseUrl}/chains?network=${environment}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        },
+      const chains = await this.chainsCache.getOrLoad(environment, () =>
+        this.chainrails.get(
+          '/chains',
+          { network: environment },
+          { schema: chainArraySchema },
+        ),
       );
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const chains = await response.json();
-
       this.logger.log(`✅ Found ${chains.length} ${environment} chains`);
 
       return chains;
@@ -119,27 +124,18 @@ export class ChainsService {
    * 
    * @param chainName - The chain to query (e.g., 'ETHEREUM_MAINNET')
    */
-  async getSupportedTokens(chainName: string) {
+  async getSupportedTokens(chainName: string): Promise<Token[]> {
     this.logger.log(`Fetching supported tokens for ${chainName}...`);
 
     try {
-      const response = await fetch(
-        `${this.apiBaseUrl}/chains/${chainName}/tokens`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        },
+      const tokens = await this.tokensCache.getOrLoad(chainName, () =>
+        this.chainrails.get(
+          `/chains/${encodeURIComponent(chainName)}/tokens`,
+          undefined,
+          { schema: tokenArraySchema },
+        ),
       );
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const tokens = await response.json();
-
       this.logger.log(
         `✅ Found ${tokens.length} supported tokens on ${chainName}`,
       );
@@ -158,6 +154,32 @@ export class ChainsService {
     }
   }
 
+  /**
+   * Decimals of a token: known symbols first (see utils/amounts), then the
+   * chain's token list. undefined if neither knows, or the list can't be
+   * fetched - callers fall back to smallest units.
+   */
+  async getTokenDecimals(
+    chainName: string,
+    tokenAddress: string,
+    symbol?: string,
+  ): Promise<number | undefined> {
+    const known = tokenDecimals(symbol);
+    if (known !== undefined) return known;
+
+    try {
+      const tokens = await this.getSupportedTokens(chainName);
+      return tokens.find(
+        (token) => token.address.toLowerCase() === tokenAddress.toLowerCase(),
+      )?.decimals;
+    } catch (error) {
+      this.logger.warn(
+        `Could not look up token decimals on ${chainName}: ${error.message}`,
+      );
+      return undefined;
+    }
+  }
+
   /**
    * PRACTICAL EXAMPLE: Build a Chain Selector UI
    * 
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn } from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+
+export class ChainEnvironmentParamsDto {
+  @ApiProperty({ enum: ['testnet', 'mainnet'], example: 'testnet' })
+  @IsIn(['testnet', 'mainnet'])
+  env: 'testnet' | 'mainnet';
+}
+
+export class ChainNameParamsDto {
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'BASE_MAINNET' })
+  @IsSupportedChain()
+  chainName: SupportedChain;
+}
@@ -0,0 +1,126 @@
+import {
+  ValidationArguments,
+  ValidationOptions,
+  registerDecorator,
+} from 'class-validator';
+import {
+  ChainFamily,
+  SUPPORTED_CHAINS,
+  getChainFamily,
+} from '../../chainrails/models/chain.model';
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const FELT_HEX = /^0x[0-9a-fA-F]{1,64}$/;
+
+// Starknet field prime: 2^251 + 17 * 2^192 + 1. Addresses are felts, so must be below it.
+const STARKNET_FIELD_PRIME = 2n ** 251n + 17n * 2n ** 192n + 1n;
+
+export function isEvmAddress(value: unknown): boolean {
+  return typeof value === 'string' && EVM_ADDRESS.test(value);
+}
+
+export function isStarknetAddress(value: unknown): boolean {
+  return (
+    typeof value === 'string' &&
+    FELT_HEX.test(value) &&
+    BigInt(value) < STARKNET_FIELD_PRIME
+  );
+}
+
+export function isAddressForFamily(
+  value: unknown,
+  family: ChainFamily,
+): boolean {
+  switch (family) {
+    case 'evm':
+      return isEvmAddress(value);
+    case 'starknet':
+      return isStarknetAddress(value);
+    default:
+      // Other chain families use formats we don't check here (base58, account names...)
+      return typeof value === 'string' && value.trim().length > 0;
+  }
+}
+
+/**
+ * Checks that a property is a valid address for the chain named by another
+ * property of the same object, e.g. a Starknet felt when sourceChain is
+ * STARKNET_TESTNET and a 20-byte hex address when it is BASE_TESTNET.
+ *
+ * If the chain is missing or unknown (reported by its own validator), any
+ * EVM or Starknet address is accepted.
+ *
+ * @param chainProperty - Name of the sibling property holding the chain
+ */
+export function IsChainAddress(
+  chainProperty?: string,
+  validationOptions?: ValidationOptions,
+) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isChainAddress',
+      target: object.constructor,
+      propertyName,
+      constraints: [chainProperty],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown, args: ValidationArguments) {
+          const chain = chainProperty
+            ? (args.object as Record<string, any>)[chainProperty]
+            : undefined;
+
+          if (SUPPORTED_CHAINS.includes(chain)) {
+            return isAddressForFamily(value, getChainFamily(chain));
+          }
+          return isEvmAddress(value) || isStarknetAddress(value);
+        },
+        defaultMessage(args: ValidationArguments) {
+          const chain = chainProperty
+            ? (args.object as Record<string, any>)[chainProperty]
+            : undefined;
+
+          if (SUPPORTED_CHAINS.includes(chain)) {
+            const family = getChainFamily(chain);
+            const format =
+              family === 'starknet'
+                ? 'a Starknet address (0x-prefixed felt)'
+                : family === 'evm'
+                  ? 'an EVM address (0x + 40 hex characters)'
+                  : 'an address';
+            return `${args.property} must be ${format} on ${chain}`;
+          }
+          return `${args.property} must be an EVM or Starknet address`;
+        },
+      },
+    });
+  };
+}
+
+/**
+ * Checks that a property is a valid address for a fixed chain family, e.g.
+ * a wallet given per family rather than per chain
+ */
+export function IsFamilyAddress(
+  family: Exclude<ChainFamily, 'other'>,
+  validationOptions?: ValidationOptions,
+) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isFamilyAddress',
+      target: object.constructor,
+      propertyName,
+      constraints: [family],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          return isAddressForFamily(value, family);
+        },
+        defaultMessage(args: ValidationArguments) {
+          return family === 'starknet'
+            ? `${args.property} must be a Starknet address (0x-prefixed felt)`
+            : `${args.property} must be an EVM address (0x + 40 hex characters)`;
+        },
+      },
+    });
+  };
+}
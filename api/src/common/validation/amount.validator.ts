@@ -0,0 +1,57 @@
+import { ValidationOptions, registerDecorator } from 'class-validator';
+
+const BASE_UNIT_AMOUNT = /^\d+$/;
+const DECIMAL_AMOUNT = /^\d+(\.\d+)?$/;
+
+/**
+ * A positive whole number of the token's smallest units, as a string
+ * (e.g. "1000000" for 1 USDC). Strings avoid float precision loss.
+ */
+export function IsBaseUnitAmount(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isBaseUnitAmount',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must be a positive integer string in the token's smallest units (e.g. "1000000" for 1 USDC)`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown) {
+          return (
+            typeof value === 'string' &&
+            BASE_UNIT_AMOUNT.test(value) &&
+            BigInt(value) > 0n
+          );
+        },
+      },
+    });
+  };
+}
+
+/**
+ * A positive human-readable amount, as a string (e.g. "10" or "9.89").
+ */
+export function IsDecimalAmount(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isDecimalAmount',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must be a positive decimal string (e.g. "10" or "9.89")`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown) {
+          return (
+            typeof value === 'string' &&
+            DECIMAL_AMOUNT.test(value) &&
+            /[1-9]/.test(value)
+          );
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,13 @@
+import { ValidationOptions, IsIn } from 'class-validator';
+import { SUPPORTED_CHAINS } from '../../chainrails/models/chain.model';
+
+/**
+ * One of the chains Chainrails supports, e.g. BASE_TESTNET.
+ */
+export function IsSupportedChain(validationOptions?: ValidationOptions) {
+  return IsIn(SUPPORTED_CHAINS as readonly string[] as string[], {
+    message: ({ property, value }) =>
+      `${property} must be a supported chain (e.g. BASE_TESTNET, STARKNET_MAINNET), received "${value}"`,
+    ...validationOptions,
+  });
+}
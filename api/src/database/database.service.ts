@@ -0,0 +1,48 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * DATABASE SERVICE
+ *
+ * Purpose: One shared SQLite connection for everything this app persists
+ *
+ * The file lives at DATABASE_PATH (default: data/chainrails-demo.sqlite) so
+ * state survives restarts and several API processes on the same host can share
+ * it. Use ':memory:' for a throwaway database, e.g. in tests.
+ *
+ * The connection is opened on first use, so modules configured for in-memory
+ * storage never create the file.
+ */
+@Injectable()
+export class DatabaseService implements OnModuleDestroy {
+  private readonly logger = new Logger(DatabaseService.name);
+  private readonly path: string;
+  private db?: Database.Database;
+
+  constructor(private configService: ConfigService) {
+    this.path =
+      this.configService.get<string>('DATABASE_PATH') ||
+      'data/chainrails-demo.sqlite';
+  }
+
+  get connection(): Database.Database {
+    if (!this.db) {
+      if (this.path !== ':memory:') {
+        mkdirSync(dirname(this.path), { recursive: true });
+      }
+      this.db = new Database(this.path);
+      // WAL lets readers in other processes work while one process writes
+      this.db.pragma('journal_mode = WAL');
+      this.logger.log(`✅ Opened SQLite database at ${this.path}`);
+    }
+    return this.db;
+  }
+
+  onModuleDestroy() {
+    this.db?.close();
+    this.db = undefined;
+  }
+}
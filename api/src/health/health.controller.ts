@@ -0,0 +1,40 @@
+import { Controller, Get } from '@nestjs/common';
+import { CacheRegistry } from '../cache/cache.registry';
+import { CircuitBreakerRegistry } from '../chainrails/circuit-breaker.registry';
+
+/**
+ * HEALTH CONTROLLER
+ *
+ * Lets load balancers and dashboards see whether this app can reach Chainrails.
+ *
+ * Try it:
+ * - GET http://localhost:3000/health
+ */
+@Controller('health')
+export class HealthController {
+  constructor(
+    private readonly circuitBreakers: CircuitBreakerRegistry,
+    private readonly caches: CacheRegistry,
+  ) {}
+
+  /**
+   * GET /health
+   * Returns "degraded" while any upstream circuit breaker is open,
+   * along with the state of every endpoint called so far and the
+   * hit/miss counts of the response caches.
+   */
+  @Get()
+  getHealth() {
+    const circuits = this.circuitBreakers.snapshot();
+    const degraded = circuits.some((circuit) => circuit.state !== 'CLOSED');
+
+    return {
+      status: degraded ? 'degraded' : 'ok',
+      timestamp: new Date().toISOString(),
+      upstream: {
+        circuits,
+      },
+      caches: this.caches.snapshot(),
+    };
+  }
+}
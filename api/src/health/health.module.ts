@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CacheModule } from '../cache/cache.module';
+import { ChainrailsModule } from '../chainrails/chainrails.module';
+import { HealthController } from './health.controller';
+
+@Module({
+  imports: [ChainrailsModule, CacheModule],
+  controllers: [HealthController],
+})
+export class HealthModule {}
@@ -0,0 +1,84 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  UseInterceptors,
+  applyDecorators,
+} from '@nestjs/common';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { ApiHeader } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { Observable, catchError, from, mergeMap, of, throwError } from 'rxjs';
+import { IdempotencyService } from './idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Runs a route at most once per Idempotency-Key (see IdempotencyService).
+ * Requests without the header pass straight through.
+ *
+ * Replayed responses carry an `Idempotent-Replayed: true` header, and the
+ * route's status: its `@HttpCode`, or Nest's default (201 for POST, 200
+ * otherwise). `response.statusCode` isn't set yet when the handler returns.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly idempotency: IdempotencyService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+    if (key === undefined) return next.handle();
+
+    const scope = `${request.method} ${request.originalUrl.split('?')[0]}`;
+    const outcome = await this.idempotency.begin(scope, key, request.body);
+
+    if (outcome.replay) {
+      response.status(outcome.statusCode);
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(outcome.body);
+    }
+
+    const statusCode =
+      this.reflector.get<number>(HTTP_CODE_METADATA, context.getHandler()) ??
+      (request.method === 'POST' ? 201 : 200);
+
+    return next.handle().pipe(
+      mergeMap(async (body) => {
+        await this.idempotency.complete(scope, key, statusCode, body);
+        return body;
+      }),
+      catchError((error) =>
+        from(this.idempotency.release(scope, key)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+}
+
+/**
+ * Accept an Idempotency-Key header on this route. The module must import
+ * IdempotencyModule.
+ */
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      required: false,
+      description:
+        'Unique key for this request. Retries with the same key and body get the first response back instead of running again',
+    }),
+  );
@@ -0,0 +1,49 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { InMemoryIdempotencyStore } from './in-memory-idempotency.store';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+import { IDEMPOTENCY_STORE, IdempotencyStore } from './idempotency.store';
+import { SqliteIdempotencyStore } from './sqlite-idempotency.store';
+
+/**
+ * Provides IdempotencyService, the interceptor behind @Idempotent(), and
+ * the IdempotencyStore picked by IDEMPOTENCY_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ */
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  providers: [
+    IdempotencyService,
+    IdempotencyInterceptor,
+    {
+      provide: IDEMPOTENCY_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): IdempotencyStore => {
+        const kind = configService.get<string>('IDEMPOTENCY_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(IdempotencyModule.name).warn(
+              'Idempotency keys are kept in memory: retries after a restart, or sent to another instance, run again.',
+            );
+            return new InMemoryIdempotencyStore();
+          case 'sqlite':
+            return new SqliteIdempotencyStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown IDEMPOTENCY_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [IdempotencyService, IdempotencyInterceptor, IDEMPOTENCY_STORE],
+})
+export class IdempotencyModule {}
@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  HttpCode,
+  INestApplication,
+  Post,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { InMemoryIdempotencyStore } from './in-memory-idempotency.store';
+import { IdempotencyInterceptor, Idempotent } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+import { IDEMPOTENCY_STORE } from './idempotency.store';
+
+describe('IdempotencyService', () => {
+  const now = Date.parse('2025-12-05T14:00:00.000Z');
+  const scope = 'POST /intents';
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    service = new IdempotencyService(
+      new InMemoryIdempotencyStore(),
+      new ConfigService({
+        IDEMPOTENCY_KEY_TTL_MS: 3600000,
+        IDEMPOTENCY_LOCK_TIMEOUT_MS: 60000,
+      }),
+    );
+  });
+
+  it('replays the stored response for an exact retry', async () => {
+    const body = { amount: '1000000', recipient: '0xabc' };
+
+    await expect(service.begin(scope, 'key-1', body, now)).resolves.toEqual({
+      replay: false,
+    });
+    await service.complete(scope, 'key-1', 201, { id: 7 }, now);
+
+    // Field order doesn't make it a different request
+    await expect(
+      service.begin(
+        scope,
+        'key-1',
+        { recipient: '0xabc', amount: '1000000' },
+        now + 1000,
+      ),
+    ).resolves.toEqual({ replay: true, statusCode: 201, body: { id: 7 } });
+  });
+
+  it('refuses a key reused with another body, or while it is running', async () => {
+    await service.begin(scope, 'key-1', { amount: '1' }, now);
+
+    await expect(
+      service.begin(scope, 'key-1', { amount: '1' }, now + 1000),
+    ).rejects.toThrow(/still in progress/);
+    await expect(
+      service.begin(scope, 'key-1', { amount: '2' }, now + 1000),
+    ).rejects.toThrow(ConflictException);
+
+    // Keys are per route
+    await expect(
+      service.begin('POST /app/transfer', 'key-1', { amount: '2' }, now),
+    ).resolves.toEqual({ replay: false });
+  });
+
+  it('frees keys that failed, were abandoned or expired', async () => {
+    await service.begin(scope, 'failed', {}, now);
+    await service.release(scope, 'failed');
+    await expect(service.begin(scope, 'failed', {}, now)).resolves.toEqual({
+      replay: false,
+    });
+
+    await service.begin(scope, 'abandoned', {}, now);
+    await expect(
+      service.begin(scope, 'abandoned', {}, now + 60000),
+    ).resolves.toEqual({ replay: false });
+
+    await service.complete(scope, 'abandoned', 201, {}, now + 60000);
+    await expect(
+      service.begin(scope, 'abandoned', { other: true }, now + 60000 + 3600000),
+    ).resolves.toEqual({ replay: false });
+
+    await expect(service.begin(scope, '', {}, now)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+describe('IdempotencyInterceptor', () => {
+  let app: INestApplication;
+  let store: InMemoryIdempotencyStore;
+  let created: number;
+
+  @Controller('things')
+  class ThingsController {
+    @Post()
+    @Idempotent()
+    create(@Body() body: { name: string }) {
+      if (body.name === 'bad') throw new BadRequestException('bad name');
+      return { id: ++created, name: body.name };
+    }
+
+    @Post('rename')
+    @HttpCode(200)
+    @Idempotent()
+    rename(@Body() body: { name: string }) {
+      return { name: body.name };
+    }
+  }
+
+  beforeEach(async () => {
+    created = 0;
+    store = new InMemoryIdempotencyStore();
+    const moduleRef = await Test.createTestingModule({
+      controllers: [ThingsController],
+      providers: [
+        IdempotencyService,
+        IdempotencyInterceptor,
+        {
+          provide: IDEMPOTENCY_STORE,
+          useValue: store,
+        },
+        { provide: ConfigService, useValue: new ConfigService() },
+      ],
+    }).compile();
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(() => app.close());
+
+  it('runs a route once per key and replays it for retries', async () => {
+    const send = (key: string, name: string) =>
+      request(app.getHttpServer())
+        .post('/things')
+        .set('Idempotency-Key', key)
+        .send({ name });
+
+    const first = await send('k1', 'a').expect(201);
+    const retry = await send('k1', 'a').expect(201);
+
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(created).toBe(1);
+
+    await send('k1', 'b').expect(409);
+    await send('k2', 'bad').expect(400);
+    await send('k2', 'bad').expect(400);
+
+    // No header, no idempotency
+    await request(app.getHttpServer()).post('/things').send({ name: 'a' });
+    expect(created).toBe(2);
+  });
+
+  it("stores the route's status code for replays", async () => {
+    const complete = jest.spyOn(store, 'complete');
+    const send = (path: string) =>
+      request(app.getHttpServer())
+        .post(path)
+        .set('Idempotency-Key', path)
+        .send({ name: 'a' });
+
+    await send('/things').expect(201);
+    await send('/things/rename').expect(200);
+
+    expect(complete.mock.calls.map(([, { statusCode }]) => statusCode)).toEqual(
+      [201, 200],
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { IDEMPOTENCY_STORE, IdempotencyStore } from './idempotency.store';
+
+/**
+ * What to do with a request that carries an Idempotency-Key
+ */
+export type IdempotencyOutcome =
+  | { replay: false }
+  | { replay: true; statusCode: number; body: unknown };
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * IDEMPOTENCY SERVICE
+ *
+ * Purpose: Make retried POSTs safe
+ *
+ * A client that times out on POST /intents can't tell whether the intent
+ * was created. If it retries, the user may end up with two funding
+ * addresses. With an Idempotency-Key header, the retry gets the first
+ * response back instead of creating a second intent.
+ *
+ * What you'll learn:
+ * - How to store a response against a key and a hash of the request body
+ * - How to tell an exact retry from a key reused for something else (409)
+ * - How to keep two concurrent requests with one key from both running
+ *
+ * Keys are scoped to their route and expire after IDEMPOTENCY_KEY_TTL_MS.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlMs: number;
+  private readonly lockTimeoutMs: number;
+
+  constructor(
+    @Inject(IDEMPOTENCY_STORE)
+    private readonly store: IdempotencyStore,
+    configService: ConfigService,
+  ) {
+    this.ttlMs = Number(
+      configService.get('IDEMPOTENCY_KEY_TTL_MS') ?? 24 * 60 * 60 * 1000,
+    );
+    this.lockTimeoutMs = Number(
+      configService.get('IDEMPOTENCY_LOCK_TIMEOUT_MS') ?? 60000,
+    );
+  }
+
+  /**
+   * Example 1: Start a Request
+   *
+   * - New key: claim it (for IDEMPOTENCY_LOCK_TIMEOUT_MS) and let the
+   *   request run
+   * - Same key, same body, finished: replay the stored response
+   * - Same key, same body, still running: 409, try again shortly
+   * - Same key, different body: 409, the key belongs to another request
+   */
+  async begin(
+    scope: string,
+    key: string,
+    body: unknown,
+    now: number = Date.now(),
+  ): Promise<IdempotencyOutcome> {
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const requestHash = hashBody(body);
+    const existing = await this.store.claim({
+      key: `${scope}:${key}`,
+      requestHash,
+      status: 'in_progress',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.lockTimeoutMs).toISOString(),
+    });
+
+    if (!existing) return { replay: false };
+
+    if (existing.requestHash !== requestHash) {
+      throw new ConflictException(
+        'This Idempotency-Key was already used with a different request body',
+      );
+    }
+    if (existing.status === 'in_progress') {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still in progress. Retry it shortly',
+      );
+    }
+
+    this.logger.log(`Replaying the response for ${scope} (${key})`);
+    return {
+      replay: true,
+      statusCode: existing.statusCode,
+      body: existing.body === undefined ? undefined : JSON.parse(existing.body),
+    };
+  }
+
+  /**
+   * Example 2: Remember the Response
+   *
+   * Only successful responses are stored. A failed request releases its
+   * key, so the client can retry it with the same key.
+   */
+  async complete(
+    scope: string,
+    key: string,
+    statusCode: number,
+    body: unknown,
+    now: number = Date.now(),
+  ): Promise<void> {
+    await this.store.complete(`${scope}:${key}`, {
+      statusCode,
+      body: JSON.stringify(body ?? null),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+    });
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    await this.store.release(`${scope}:${key}`);
+  }
+}
+
+/**
+ * sha256 of the body with object keys sorted, so the same request sent
+ * with its fields in another order still counts as the same request
+ */
+function hashBody(body: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(body ?? null, (_key, value) => sortKeys(value)))
+    .digest('hex');
+}
+
+function sortKeys(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Injection token for the configured IdempotencyStore
+ */
+export const IDEMPOTENCY_STORE = Symbol('IDEMPOTENCY_STORE');
+
+/**
+ * One Idempotency-Key as we've seen it.
+ *
+ * While the first request runs the record is `in_progress`; once it
+ * succeeded it holds the response, which exact retries get back.
+ */
+export interface IdempotencyRecord {
+  /** Route plus the client's key, e.g. "POST /intents:8f14e45f" */
+  key: string;
+  /** sha256 of the request body */
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  statusCode?: number;
+  /** The response body, as JSON */
+  body?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Where Idempotency-Keys and their responses are kept.
+ *
+ * Implementations:
+ * - SqliteIdempotencyStore: persisted in the shared DATABASE_PATH file
+ * - InMemoryIdempotencyStore: lost on restart, handy for tests
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim a key for a new request. Saves the record and returns undefined,
+   * unless an unexpired record for the key exists: then that one is
+   * returned and nothing is saved.
+   */
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined>;
+
+  /**
+   * Store the response of a claimed key, keeping it until expiresAt
+   */
+  complete(
+    key: string,
+    response: { statusCode: number; body: string; expiresAt: string },
+  ): Promise<void>;
+
+  /**
+   * Forget a claimed key, so the request can be tried again
+   */
+  release(key: string): Promise<void>;
+}
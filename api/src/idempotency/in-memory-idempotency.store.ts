@@ -0,0 +1,41 @@
+import { IdempotencyRecord, IdempotencyStore } from './idempotency.store';
+
+/**
+ * Keeps Idempotency-Keys in a Map. Nothing survives a restart, and each
+ * process has its own - use it for tests and local experiments only.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  async claim(
+    record: IdempotencyRecord,
+  ): Promise<IdempotencyRecord | undefined> {
+    this.deleteExpired(record.createdAt);
+
+    const existing = this.records.get(record.key);
+    if (existing) return { ...existing };
+
+    this.records.set(record.key, { ...record });
+    return undefined;
+  }
+
+  async complete(
+    key: string,
+    response: { statusCode: number; body: string; expiresAt: string },
+  ): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      this.records.set(key, { ...record, ...response, status: 'completed' });
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  private deleteExpired(now: string) {
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) this.records.delete(key);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import type { Database } from 'better-sqlite3';
+import { IdempotencyRecord, IdempotencyStore } from './idempotency.store';
+
+interface IdempotencyRow {
+  key: string;
+  request_hash: string;
+  status: IdempotencyRecord['status'];
+  status_code: number | null;
+  body: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * Keeps Idempotency-Keys in a SQLite table
+ */
+export class SqliteIdempotencyStore implements IdempotencyStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key TEXT PRIMARY KEY,
+        request_hash TEXT NOT NULL,
+        status TEXT NOT NULL,
+        status_code INTEGER,
+        body TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at
+        ON idempotency_keys (expires_at);
+    `);
+  }
+
+  async claim(
+    record: IdempotencyRecord,
+  ): Promise<IdempotencyRecord | undefined> {
+    // One transaction, so two processes sharing the file can't both claim it
+    return this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?')
+        .run(record.createdAt);
+
+      const existing = this.db
+        .prepare('SELECT * FROM idempotency_keys WHERE key = ?')
+        .get(record.key) as IdempotencyRow | undefined;
+      if (existing) return toRecord(existing);
+
+      this.db
+        .prepare(
+          `INSERT INTO idempotency_keys
+            (key, request_hash, status, created_at, expires_at)
+           VALUES (@key, @request_hash, @status, @created_at, @expires_at)`,
+        )
+        .run({
+          key: record.key,
+          request_hash: record.requestHash,
+          status: record.status,
+          created_at: record.createdAt,
+          expires_at: record.expiresAt,
+        });
+      return undefined;
+    })();
+  }
+
+  async complete(
+    key: string,
+    response: { statusCode: number; body: string; expiresAt: string },
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE idempotency_keys
+         SET status = 'completed', status_code = ?, body = ?, expires_at = ?
+         WHERE key = ?`,
+      )
+      .run(response.statusCode, response.body, response.expiresAt, key);
+  }
+
+  async release(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM idempotency_keys WHERE key = ?').run(key);
+  }
+}
+
+function toRecord(row: IdempotencyRow): IdempotencyRecord {
+  return {
+    key: row.key,
+    requestHash: row.request_hash,
+    status: row.status,
+    statusCode: row.status_code ?? undefined,
+    body: row.body ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
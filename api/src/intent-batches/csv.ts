@@ -0,0 +1,75 @@
+/**
+ * Minimal CSV reader for payout uploads (RFC 4180: quoted fields, "" for a
+ * quote inside them, CRLF or LF line endings).
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no row
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Turn CSV rows into objects keyed by the header line. Header names are
+ * matched without case, spaces or underscores, so "Destination Chain",
+ * "destination_chain" and "destinationChain" all work.
+ */
+export function csvToRecords(
+  text: string,
+  columns: readonly string[],
+): Record<string, string>[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return [];
+
+  const normalize = (name: string) => name.toLowerCase().replace(/[\s_-]/g, '');
+  const keys = header.map(
+    (name) =>
+      columns.find((column) => normalize(column) === normalize(name.trim())) ??
+      name.trim(),
+  );
+
+  return lines.map((values) =>
+    Object.fromEntries(
+      keys.map((key, i) => [key, (values[i] ?? '').trim()] as const),
+    ),
+  );
+}
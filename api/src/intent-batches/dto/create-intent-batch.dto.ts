@@ -0,0 +1,118 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import { IsBaseUnitAmount } from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+import { PayoutRow } from '../intent-batch.model';
+
+/**
+ * One row of a batch. Rows are validated one by one by
+ * IntentBatchesService, so a bad row is reported instead of failing the
+ * whole request.
+ */
+export class PayoutRowDto implements PayoutRow {
+  @ApiProperty({
+    description: 'Recipient address on the destination chain',
+    example: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+  })
+  @IsChainAddress('destinationChain')
+  recipient: string;
+
+  @ApiProperty({
+    description: 'Amount in smallest token units',
+    example: '25000000',
+  })
+  @IsBaseUnitAmount()
+  amount: string;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_TESTNET' })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiPropertyOptional({
+    description: 'Your own ID for this payout, unique within the batch',
+    example: 'INV-2025-0042',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  reference?: string;
+}
+
+/**
+ * Send as JSON with `rows`, or as multipart/form-data with these fields
+ * and a CSV `file` (columns: recipient, amount, destinationChain,
+ * reference).
+ */
+export class CreateIntentBatchDto {
+  @ApiProperty({
+    description: "Paying wallet's address on the source chain",
+    example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  })
+  @IsChainAddress('sourceChain')
+  sender: string;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'BASE_TESTNET' })
+  @IsSupportedChain()
+  sourceChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Source token address',
+    example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  })
+  @IsChainAddress('sourceChain')
+  tokenIn: string;
+
+  @ApiProperty({ description: 'Denomination of the amounts', example: 'USDC' })
+  @IsString()
+  @IsNotEmpty()
+  amountSymbol: string;
+
+  @ApiPropertyOptional({
+    description: 'Address on the source chain for refunds. Defaults to sender',
+  })
+  @IsOptional()
+  @IsChainAddress('sourceChain')
+  refundAddress?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Send the same key again to get the same batch back instead of paying twice',
+    example: 'payroll-2025-12',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  idempotencyKey?: string;
+
+  @ApiPropertyOptional({
+    type: [PayoutRowDto],
+    description: 'The payouts, when not uploading a CSV file',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsObject({ each: true })
+  rows?: Record<string, any>[];
+}
+
+export class IntentBatchIdParamsDto {
+  @ApiProperty({ description: 'Batch ID' })
+  @IsUUID()
+  id: string;
+}
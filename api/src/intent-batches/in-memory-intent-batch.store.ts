@@ -0,0 +1,26 @@
+import { IntentBatch } from './intent-batch.model';
+import { IntentBatchStore } from './intent-batch.store';
+
+/**
+ * Keeps intent batches in a Map. Nothing survives a restart - use it for
+ * tests and local experiments only.
+ */
+export class InMemoryIntentBatchStore implements IntentBatchStore {
+  private readonly batches = new Map<string, IntentBatch>();
+
+  async save(batch: IntentBatch): Promise<void> {
+    this.batches.set(batch.id, structuredClone(batch));
+  }
+
+  async get(id: string): Promise<IntentBatch | undefined> {
+    const batch = this.batches.get(id);
+    return batch && structuredClone(batch);
+  }
+
+  async findByIdempotencyKey(key: string): Promise<IntentBatch | undefined> {
+    for (const batch of this.batches.values()) {
+      if (batch.idempotencyKey === key) return structuredClone(batch);
+    }
+    return undefined;
+  }
+}
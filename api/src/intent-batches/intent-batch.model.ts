@@ -0,0 +1,106 @@
+import { IntentStatus } from '../chainrails/models/intent.model';
+import { isTerminalStatus } from '../lifecycle/intent-state-machine';
+
+/**
+ * What happened to one row of a batch:
+ * - invalid: failed validation, no intent was created
+ * - queued: valid, intent not created yet
+ * - created: the intent exists (see intentStatus)
+ * - failed: Chainrails refused it (see error)
+ */
+export const BATCH_ROW_STATUSES = [
+  'invalid',
+  'queued',
+  'created',
+  'failed',
+] as const;
+export type BatchRowStatus = (typeof BATCH_ROW_STATUSES)[number];
+
+/**
+ * The status of a batch, rolled up from its rows and their intents
+ */
+export const INTENT_BATCH_STATUSES = [
+  'creating',
+  'awaiting_funding',
+  'in_progress',
+  'completed',
+  'partially_completed',
+  'failed',
+] as const;
+export type IntentBatchStatus = (typeof INTENT_BATCH_STATUSES)[number];
+
+/**
+ * One payout: a recipient, an amount and where it's going
+ */
+export interface PayoutRow {
+  recipient: string;
+  /** In the token's smallest units */
+  amount: string;
+  destinationChain: string;
+  /** Your own ID for the payout, e.g. an invoice number */
+  reference?: string;
+}
+
+export interface IntentBatchRow extends Partial<PayoutRow> {
+  /** 1-based position in the request (or line in the CSV, after the header) */
+  row: number;
+  status: BatchRowStatus;
+  /** Validation errors, when invalid */
+  errors?: string[];
+  /** Why Chainrails refused it, when failed */
+  error?: string;
+  /** Sent with the create request, so retries can't create it twice */
+  idempotencyKey?: string;
+  intentId?: number;
+  intentAddress?: string;
+  intentStatus?: IntentStatus;
+}
+
+/**
+ * Funding details shared by every row of a batch
+ */
+export interface IntentBatchSource {
+  sender: string;
+  sourceChain: string;
+  tokenIn: string;
+  amountSymbol: string;
+  refundAddress: string;
+}
+
+export interface IntentBatch extends IntentBatchSource {
+  id: string;
+  /** Sending the same key again returns this batch instead of a new one */
+  idempotencyKey?: string;
+  /** Hash of the request, to spot a key reused for a different batch */
+  fingerprint: string;
+  status: IntentBatchStatus;
+  /** Sum of the valid rows, in the token's smallest units */
+  totalAmount: string;
+  rows: IntentBatchRow[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Roll the rows up into one status. Invalid and failed rows don't hold the
+ * batch open: it's finished once every created intent is.
+ */
+export function deriveBatchStatus(rows: IntentBatchRow[]): IntentBatchStatus {
+  if (rows.some((row) => row.status === 'queued')) return 'creating';
+
+  const intents = rows
+    .filter((row) => row.status === 'created')
+    .map((row) => row.intentStatus);
+  const completed = intents.filter((status) => status === 'COMPLETED');
+
+  if (intents.every((status) => isTerminalStatus(status))) {
+    if (completed.length === rows.length) return 'completed';
+    return completed.length ? 'partially_completed' : 'failed';
+  }
+  if (
+    intents.every((status) => status === 'PENDING' || isTerminalStatus(status))
+  ) {
+    return 'awaiting_funding';
+  }
+  return 'in_progress';
+}
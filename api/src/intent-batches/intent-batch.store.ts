@@ -0,0 +1,19 @@
+import { IntentBatch } from './intent-batch.model';
+
+/**
+ * Injection token for the configured IntentBatchStore
+ */
+export const INTENT_BATCH_STORE = Symbol('INTENT_BATCH_STORE');
+
+/**
+ * Where intent batches and their per-row results are kept
+ */
+export interface IntentBatchStore {
+  save(batch: IntentBatch): Promise<void>;
+  get(id: string): Promise<IntentBatch | undefined>;
+
+  /**
+   * The batch created with this idempotency key, if any
+   */
+  findByIdempotencyKey(key: string): Promise<IntentBatch | undefined>;
+}
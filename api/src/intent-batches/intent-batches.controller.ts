@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { IntentBatchesService } from './intent-batches.service';
+import {
+  CreateIntentBatchDto,
+  IntentBatchIdParamsDto,
+} from './dto/create-intent-batch.dto';
+
+/**
+ * The part of a multer upload we use
+ */
+interface UploadedCsv {
+  buffer: Buffer;
+  originalname: string;
+}
+
+/**
+ * INTENT BATCHES CONTROLLER
+ *
+ * HTTP endpoints for creating many intents at once (payouts).
+ *
+ * Endpoints:
+ * - POST /intents/batch - Create one intent per row (JSON rows or CSV upload)
+ * - GET /intents/batch/:id - Per-row results and the rolled-up batch status
+ */
+@ApiTags('intents')
+@Controller('intents/batch')
+export class IntentBatchesController {
+  constructor(private readonly batches: IntentBatchesService) {}
+
+  /**
+   * POST /intents/batch
+   *
+   * Body params (JSON, or multipart/form-data fields):
+   * - sender, sourceChain, tokenIn, amountSymbol: Shared by every payout
+   * - refundAddress: (Optional) Defaults to sender
+   * - idempotencyKey: (Optional) Send it again to get the same batch back
+   * - rows: [{ recipient, amount, destinationChain, reference? }], or
+   * - file: A CSV with the same columns (multipart/form-data)
+   *
+   * Try it:
+   * curl -F sender=0x... -F sourceChain=BASE_TESTNET -F tokenIn=0x... \
+   *   -F amountSymbol=USDC -F file=@payouts.csv http://localhost:3000/intents/batch
+   */
+  @Post()
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 1024 * 1024 } }),
+  )
+  async createBatch(
+    @Body() body: CreateIntentBatchDto,
+    @UploadedFile() file?: UploadedCsv,
+  ) {
+    const rows = file
+      ? this.batches.parseCsv(file.buffer.toString('utf8'))
+      : body.rows;
+    return this.batches.create({ ...body, rows });
+  }
+
+  @Get(':id')
+  async getBatch(@Param() params: IntentBatchIdParamsDto) {
+    return this.batches.get(params.id);
+  }
+}
@@ -0,0 +1,51 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { IntentsModule } from '../intents/intents.module';
+import { InMemoryIntentBatchStore } from './in-memory-intent-batch.store';
+import { IntentBatchesController } from './intent-batches.controller';
+import { IntentBatchesService } from './intent-batches.service';
+import { INTENT_BATCH_STORE, IntentBatchStore } from './intent-batch.store';
+import { SqliteIntentBatchStore } from './sqlite-intent-batch.store';
+
+/**
+ * Provides IntentBatchesService and the IntentBatchStore picked by
+ * INTENT_BATCH_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ */
+@Module({
+  imports: [ConfigModule, DatabaseModule, IntentsModule],
+  controllers: [IntentBatchesController],
+  providers: [
+    IntentBatchesService,
+    {
+      provide: INTENT_BATCH_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): IntentBatchStore => {
+        const kind =
+          configService.get<string>('INTENT_BATCH_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(IntentBatchesModule.name).warn(
+              'Intent batches are kept in memory and will be lost on restart.',
+            );
+            return new InMemoryIntentBatchStore();
+          case 'sqlite':
+            return new SqliteIntentBatchStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown INTENT_BATCH_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [IntentBatchesService, INTENT_BATCH_STORE],
+})
+export class IntentBatchesModule {}
@@ -0,0 +1,182 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IntentsService } from '../intents/intents.service';
+import { csvToRecords } from './csv';
+import { InMemoryIntentBatchStore } from './in-memory-intent-batch.store';
+import {
+  CreateIntentBatchRequest,
+  IntentBatchesService,
+  PAYOUT_COLUMNS,
+} from './intent-batches.service';
+
+const RECIPIENT = '0xda3ecb2e5362295e2b802669dd47127a61d9ce54';
+
+const source = {
+  sender: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  sourceChain: 'BASE_TESTNET',
+  tokenIn: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  amountSymbol: 'USDC',
+};
+
+function payout(reference: string, amount = '1000000') {
+  return {
+    recipient: RECIPIENT,
+    amount,
+    destinationChain: 'ARBITRUM_TESTNET',
+    reference,
+  };
+}
+
+describe('csvToRecords', () => {
+  it('reads quoted fields and matches headers loosely', () => {
+    const csv =
+      '\uFEFFRecipient,Amount,destination_chain,Reference\r\n' +
+      `${RECIPIENT},1000000,ARBITRUM_TESTNET,"INV ""42"", Dec"\r\n` +
+      '\r\n' +
+      `${RECIPIENT},2000000,BASE_TESTNET,\n`;
+
+    expect(csvToRecords(csv, PAYOUT_COLUMNS)).toEqual([
+      payout('INV "42", Dec'),
+      { ...payout(''), amount: '2000000', destinationChain: 'BASE_TESTNET' },
+    ]);
+  });
+});
+
+describe('IntentBatchesService', () => {
+  let store: InMemoryIntentBatchStore;
+  let createIntent: jest.Mock;
+  let getIntentStatus: jest.Mock;
+  let service: IntentBatchesService;
+  let nextId: number;
+
+  function request(
+    rows: Record<string, any>[],
+    idempotencyKey?: string,
+  ): CreateIntentBatchRequest {
+    return { ...source, rows, idempotencyKey };
+  }
+
+  beforeEach(() => {
+    nextId = 100;
+    store = new InMemoryIntentBatchStore();
+    createIntent = jest.fn(async () => {
+      const id = nextId++;
+      return {
+        id,
+        intent_address: `0x${String(id).padStart(40, '0')}`,
+        intent_status: 'PENDING',
+      };
+    });
+    getIntentStatus = jest.fn();
+    service = new IntentBatchesService(
+      store,
+      { createIntent, getIntentStatus } as unknown as IntentsService,
+      new ConfigService({ INTENT_BATCH_CONCURRENCY: 2 }),
+    );
+  });
+
+  it('validates every row and creates intents for the valid ones only', async () => {
+    const batch = await service.create(
+      request([
+        payout('A'),
+        { ...payout('B'), recipient: '0x1234', amount: '1.5' },
+        payout('A'),
+        payout('C', '2500000'),
+      ]),
+    );
+
+    expect(batch.rows.map((row) => row.status)).toEqual([
+      'created',
+      'invalid',
+      'invalid',
+      'created',
+    ]);
+    expect(batch.rows[1].errors).toHaveLength(2);
+    expect(batch.rows[2].errors).toEqual([
+      'reference A is already used by row 1',
+    ]);
+    expect(batch).toMatchObject({
+      status: 'awaiting_funding',
+      totalAmount: '3500000',
+      refundAddress: source.sender,
+      summary: {
+        rows: 4,
+        byRowStatus: { created: 2, invalid: 2 },
+        byIntentStatus: { PENDING: 2 },
+      },
+    });
+    expect(createIntent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipient: RECIPIENT,
+        amount: '2500000',
+        idempotencyKey: `${batch.id}:C`,
+        metadata: { batchId: batch.id, batchRow: 4, reference: 'C' },
+      }),
+    );
+  });
+
+  it('keeps at most INTENT_BATCH_CONCURRENCY requests in flight', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    createIntent.mockImplementation(async () => {
+      mostInFlight = Math.max(mostInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return { id: nextId++, intent_status: 'PENDING' };
+    });
+
+    const batch = await service.create(
+      request(Array.from({ length: 7 }, (_, i) => payout(`P${i}`))),
+    );
+
+    expect(batch.summary.byRowStatus).toEqual({ created: 7 });
+    expect(mostInFlight).toBe(2);
+  });
+
+  it('reports failed rows and replays a batch sent again with its key', async () => {
+    createIntent
+      .mockRejectedValueOnce(new Error('Insufficient liquidity'))
+      .mockImplementation(async () => ({
+        id: nextId++,
+        intent_status: 'PENDING',
+      }));
+    const rows = [payout('A'), payout('B')];
+
+    const first = await service.create(request(rows, 'payroll-12'));
+    expect(first.rows.map((row) => [row.status, row.error])).toEqual([
+      ['failed', 'Insufficient liquidity'],
+      ['created', undefined],
+    ]);
+    expect(first.rows[0].idempotencyKey).toBe('payroll-12:A');
+
+    const replay = await service.create(request(rows, 'payroll-12'));
+    expect(replay.id).toBe(first.id);
+    expect(createIntent).toHaveBeenCalledTimes(2);
+
+    await expect(
+      service.create(request([payout('A', '9000000')], 'payroll-12')),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('rolls the statuses of the child intents up into the batch', async () => {
+    const batch = await service.create(
+      request([payout('A'), payout('B'), payout('C')]),
+    );
+    getIntentStatus.mockImplementation(async (id: number) => ({
+      id,
+      intent_status: id === 102 ? 'EXPIRED' : 'COMPLETED',
+    }));
+
+    const tracked = await service.get(batch.id);
+
+    expect(getIntentStatus).toHaveBeenCalledTimes(3);
+    expect(tracked).toMatchObject({
+      status: 'partially_completed',
+      summary: { byIntentStatus: { COMPLETED: 2, EXPIRED: 1 } },
+    });
+
+    // Finished intents aren't asked about again
+    await service.get(batch.id);
+    expect(getIntentStatus).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,353 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validate } from 'class-validator';
+import { createHash, randomUUID } from 'crypto';
+import { IntentStatus } from '../chainrails/models/intent.model';
+import { IntentsService } from '../intents/intents.service';
+import { isTerminalStatus } from '../lifecycle/intent-state-machine';
+import { addAmounts } from '../utils/amounts';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { csvToRecords } from './csv';
+import { PayoutRowDto } from './dto/create-intent-batch.dto';
+import {
+  BatchRowStatus,
+  IntentBatch,
+  IntentBatchRow,
+  IntentBatchSource,
+  deriveBatchStatus,
+} from './intent-batch.model';
+import { INTENT_BATCH_STORE, IntentBatchStore } from './intent-batch.store';
+
+/** CSV columns, in the order the README documents them */
+export const PAYOUT_COLUMNS = [
+  'recipient',
+  'amount',
+  'destinationChain',
+  'reference',
+] as const;
+
+export interface CreateIntentBatchRequest extends Omit<
+  IntentBatchSource,
+  'refundAddress'
+> {
+  refundAddress?: string;
+  idempotencyKey?: string;
+  /** Unvalidated rows, from JSON or parsed from CSV */
+  rows: Record<string, any>[];
+}
+
+/**
+ * A batch as returned by the API: rows plus counts
+ */
+export interface IntentBatchReport extends Omit<IntentBatch, 'fingerprint'> {
+  summary: {
+    rows: number;
+    byRowStatus: Partial<Record<BatchRowStatus, number>>;
+    byIntentStatus: Partial<Record<IntentStatus, number>>;
+  };
+}
+
+/**
+ * INTENT BATCHES SERVICE
+ *
+ * Purpose: Pay out to many recipients in one request
+ *
+ * What you'll learn:
+ * - How to validate a list (or CSV) of payouts row by row
+ * - How to create many intents without flooding the API (bounded concurrency)
+ * - How idempotency keys make a batch safe to send again
+ * - How to roll the statuses of many intents up into one
+ */
+@Injectable()
+export class IntentBatchesService {
+  private readonly logger = new Logger(IntentBatchesService.name);
+  private readonly concurrency: number;
+  private readonly maxRows: number;
+
+  constructor(
+    @Inject(INTENT_BATCH_STORE)
+    private readonly store: IntentBatchStore,
+    private readonly intentsService: IntentsService,
+    configService: ConfigService,
+  ) {
+    this.concurrency = Number(
+      configService.get('INTENT_BATCH_CONCURRENCY') ?? 5,
+    );
+    this.maxRows = Number(configService.get('INTENT_BATCH_MAX_ROWS') ?? 500);
+  }
+
+  /**
+   * Read payout rows from an uploaded CSV file
+   */
+  parseCsv(csv: string): Record<string, string>[] {
+    const rows = csvToRecords(csv, PAYOUT_COLUMNS);
+    if (!rows.length) {
+      throw new BadRequestException(
+        `The CSV has no rows. Expected a header line with ${PAYOUT_COLUMNS.join(', ')}`,
+      );
+    }
+    return rows;
+  }
+
+  /**
+   * Example 1: Create a Batch
+   *
+   * Flow:
+   * 1. Validate every row. Invalid rows are reported, the rest go ahead
+   * 2. Save the batch, so an interrupted batch can be picked up again
+   * 3. Create the intents, INTENT_BATCH_CONCURRENCY at a time, each with
+   *    its own idempotency key
+   * 4. Return a result for every row
+   *
+   * Sending the same idempotencyKey again returns the existing batch (and
+   * finishes any rows that were never sent); nobody gets paid twice.
+   */
+  async create(
+    request: CreateIntentBatchRequest,
+    now = new Date(),
+  ): Promise<IntentBatchReport> {
+    if (!request.rows?.length) {
+      throw new BadRequestException(
+        'The batch has no rows. Send rows, or upload a CSV file',
+      );
+    }
+    if (request.rows.length > this.maxRows) {
+      throw new BadRequestException(
+        `The batch has ${request.rows.length} rows, more than the ${this.maxRows} allowed`,
+      );
+    }
+
+    const fingerprint = fingerprintOf(request);
+    if (request.idempotencyKey) {
+      const existing = await this.store.findByIdempotencyKey(
+        request.idempotencyKey,
+      );
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          throw new ConflictException(
+            `Idempotency key ${request.idempotencyKey} was already used for a different batch`,
+          );
+        }
+        this.logger.log(
+          `Batch ${existing.id} replayed for idempotency key ${request.idempotencyKey}`,
+        );
+        return this.createIntents(existing, now);
+      }
+    }
+
+    const id = randomUUID();
+    const rows = await this.validateRows(
+      request.rows,
+      request.idempotencyKey ?? id,
+    );
+    const batch: IntentBatch = {
+      id,
+      idempotencyKey: request.idempotencyKey,
+      fingerprint,
+      sender: request.sender,
+      sourceChain: request.sourceChain,
+      tokenIn: request.tokenIn,
+      amountSymbol: request.amountSymbol,
+      refundAddress: request.refundAddress ?? request.sender,
+      status: 'creating',
+      totalAmount: addAmounts(
+        ...rows
+          .filter((row) => row.status === 'queued')
+          .map((row) => row.amount),
+      ).toString(),
+      rows,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await this.store.save(batch);
+
+    return this.createIntents(batch, now);
+  }
+
+  /**
+   * Example 2: Track a Batch
+   *
+   * Refreshes every intent that isn't finished yet (a few at a time) and
+   * rolls their statuses up into the batch status.
+   */
+  async get(id: string): Promise<IntentBatchReport> {
+    const batch = await this.store.get(id);
+    if (!batch) {
+      throw new NotFoundException(`Batch ${id} not found`);
+    }
+
+    const open = batch.rows.filter(
+      (row) => row.status === 'created' && !isTerminalStatus(row.intentStatus),
+    );
+    await mapWithConcurrency(open, this.concurrency, async (row) => {
+      try {
+        const intent = await this.intentsService.getIntentStatus(row.intentId);
+        row.intentStatus = intent.intent_status;
+      } catch (error) {
+        this.logger.warn(
+          `Could not refresh intent #${row.intentId} of batch ${id}: ${error.message}`,
+        );
+      }
+    });
+
+    return this.toReport(await this.save(batch));
+  }
+
+  private async createIntents(
+    batch: IntentBatch,
+    now: Date,
+  ): Promise<IntentBatchReport> {
+    const queued = batch.rows.filter((row) => row.status === 'queued');
+
+    await mapWithConcurrency(queued, this.concurrency, async (row) => {
+      try {
+        const intent = await this.intentsService.createIntent({
+          sender: batch.sender,
+          amount: row.amount,
+          amountSymbol: batch.amountSymbol,
+          tokenIn: batch.tokenIn,
+          sourceChain: batch.sourceChain,
+          destinationChain: row.destinationChain,
+          recipient: row.recipient,
+          refundAddress: batch.refundAddress,
+          metadata: {
+            batchId: batch.id,
+            batchRow: row.row,
+            ...(row.reference && { reference: row.reference }),
+          },
+          idempotencyKey: row.idempotencyKey,
+        });
+        row.status = 'created';
+        row.intentId = intent.id;
+        row.intentAddress = intent.intent_address;
+        row.intentStatus = intent.intent_status;
+      } catch (error) {
+        row.status = 'failed';
+        row.error = error.message;
+      }
+    });
+
+    const saved = await this.save(batch, now);
+    const failed = queued.filter((row) => row.status === 'failed').length;
+    if (failed) {
+      this.logger.warn(
+        `Batch ${batch.id}: ${queued.length - failed} intent(s) created, ${failed} failed`,
+      );
+    } else {
+      this.logger.log(
+        `✅ Batch ${batch.id}: ${queued.length} intent(s) created`,
+      );
+    }
+    return this.toReport(saved);
+  }
+
+  /**
+   * Check every row against PayoutRowDto, and give each valid row an
+   * idempotency key derived from the batch and its reference (or position)
+   */
+  private async validateRows(
+    rows: Record<string, any>[],
+    batchKey: string,
+  ): Promise<IntentBatchRow[]> {
+    const references = new Map<string, number>();
+
+    return Promise.all(
+      rows.map(async (raw, i) => {
+        // Empty CSV cells mean "not given"
+        const given = Object.entries(raw ?? {}).filter(
+          ([, value]) => value !== '' && value !== null,
+        );
+        const row = plainToInstance(PayoutRowDto, Object.fromEntries(given));
+        const position = i + 1;
+        const fields = {
+          row: position,
+          recipient: row.recipient,
+          amount: row.amount,
+          destinationChain: row.destinationChain,
+          reference: row.reference,
+        };
+
+        const errors = flattenErrors(
+          await validate(row, { whitelist: true, forbidUnknownValues: false }),
+        );
+        if (fields.reference !== undefined) {
+          const first = references.get(fields.reference);
+          if (first !== undefined) {
+            errors.push(
+              `reference ${fields.reference} is already used by row ${first}`,
+            );
+          } else {
+            references.set(fields.reference, position);
+          }
+        }
+
+        return errors.length
+          ? { ...fields, status: 'invalid' as const, errors }
+          : {
+              ...fields,
+              status: 'queued' as const,
+              idempotencyKey: `${batchKey}:${fields.reference ?? position}`,
+            };
+      }),
+    );
+  }
+
+  private async save(batch: IntentBatch, now = new Date()) {
+    batch.status = deriveBatchStatus(batch.rows);
+    batch.updatedAt = now.toISOString();
+    await this.store.save(batch);
+    return batch;
+  }
+
+  private toReport(batch: IntentBatch): IntentBatchReport {
+    const report = { ...batch };
+    delete report.fingerprint;
+    const count = <K extends string>(keys: K[]) =>
+      keys.reduce<Partial<Record<K, number>>>(
+        (counts, key) => ({ ...counts, [key]: (counts[key] ?? 0) + 1 }),
+        {},
+      );
+
+    return {
+      ...report,
+      summary: {
+        rows: batch.rows.length,
+        byRowStatus: count(batch.rows.map((row) => row.status)),
+        byIntentStatus: count(
+          batch.rows
+            .filter((row) => row.intentStatus !== undefined)
+            .map((row) => row.intentStatus),
+        ),
+      },
+    };
+  }
+}
+
+function flattenErrors(errors: ValidationError[]): string[] {
+  return errors.flatMap((error) => Object.values(error.constraints ?? {}));
+}
+
+function fingerprintOf(request: CreateIntentBatchRequest): string {
+  const { sender, sourceChain, tokenIn, amountSymbol, refundAddress, rows } =
+    request;
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        sender,
+        sourceChain,
+        tokenIn,
+        amountSymbol,
+        refundAddress ?? null,
+        rows,
+      ]),
+    )
+    .digest('hex');
+}
@@ -0,0 +1,57 @@
+import type { Database } from 'better-sqlite3';
+import { IntentBatch } from './intent-batch.model';
+import { IntentBatchStore } from './intent-batch.store';
+
+interface IntentBatchRow {
+  batch: string;
+}
+
+/**
+ * Keeps intent batches in SQLite, each as JSON with its status and
+ * idempotency key alongside for lookups
+ */
+export class SqliteIntentBatchStore implements IntentBatchStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS intent_batches (
+        id TEXT PRIMARY KEY,
+        idempotency_key TEXT UNIQUE,
+        status TEXT NOT NULL,
+        batch TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  async save(batch: IntentBatch): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO intent_batches
+          (id, idempotency_key, status, batch, created_at, updated_at)
+         VALUES (@id, @idempotency_key, @status, @batch, @created_at, @updated_at)`,
+      )
+      .run({
+        id: batch.id,
+        idempotency_key: batch.idempotencyKey ?? null,
+        status: batch.status,
+        batch: JSON.stringify(batch),
+        created_at: batch.createdAt,
+        updated_at: batch.updatedAt,
+      });
+  }
+
+  async get(id: string): Promise<IntentBatch | undefined> {
+    const row = this.db
+      .prepare('SELECT batch FROM intent_batches WHERE id = ?')
+      .get(id) as IntentBatchRow | undefined;
+    return row && JSON.parse(row.batch);
+  }
+
+  async findByIdempotencyKey(key: string): Promise<IntentBatch | undefined> {
+    const row = this.db
+      .prepare('SELECT batch FROM intent_batches WHERE idempotency_key = ?')
+      .get(key) as IntentBatchRow | undefined;
+    return row && JSON.parse(row.batch);
+  }
+}
@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsObject, IsOptional, IsString, IsNotEmpty } from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import { IsBaseUnitAmount } from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+
+export class CreateIntentDto {
+  @ApiProperty({
+    description: "User's wallet address on the source chain",
+    example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  })
+  @IsChainAddress('sourceChain')
+  sender: string;
+
+  @ApiProperty({
+    description: 'Amount to transfer in smallest token units',
+    example: '1000000',
+  })
+  @IsBaseUnitAmount()
+  amount: string;
+
+  @ApiProperty({ description: 'Denomination of the amount', example: 'USDC' })
+  @IsString()
+  @IsNotEmpty()
+  amountSymbol: string;
+
+  @ApiProperty({
+    description: 'Source token address',
+    example: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  })
+  @IsChainAddress('sourceChain')
+  tokenIn: string;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'BASE_MAINNET' })
+  @IsSupportedChain()
+  sourceChain: SupportedChain;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_MAINNET' })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Recipient address on the destination chain',
+    example: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+  })
+  @IsChainAddress('destinationChain')
+  recipient: string;
+
+  @ApiProperty({
+    description:
+      'Address on the source chain for refunds if the transfer fails',
+    example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  })
+  @IsChainAddress('sourceChain')
+  refundAddress: string;
+
+  @ApiPropertyOptional({ description: 'Custom metadata object' })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
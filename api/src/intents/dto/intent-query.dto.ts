@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { INTENT_STATUSES } from '../../chainrails/models/intent.model';
+import { IsChainAddress } from '../../common/validation/address.validator';
+
+const STATUS_FILTERS = [
+  ...INTENT_STATUSES,
+  ...INTENT_STATUSES.map((status) => status.toLowerCase()),
+];
+
+export class IntentIdParamsDto {
+  @ApiProperty({ description: 'Intent ID', example: 1 })
+  @Type(() => Number)
+  @IsInt({ message: 'id must be a whole number' })
+  @Min(1)
+  id: number;
+}
+
+export class UserAddressParamsDto {
+  @ApiProperty({
+    description: "User's wallet address (EVM or Starknet)",
+    example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  })
+  @IsChainAddress()
+  address: string;
+}
+
+export class ListIntentsQueryDto {
+  @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ minimum: 0, default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @ApiPropertyOptional({ enum: STATUS_FILTERS, example: 'completed' })
+  @IsOptional()
+  @IsIn(STATUS_FILTERS)
+  status?: string;
+}
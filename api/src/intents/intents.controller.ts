@@ -1,5 +1,24 @@
-import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Headers,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
 import { IntentsService } from './intents.service';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  Idempotent,
+} from '../idempotency/idempotency.interceptor';
+import { CreateIntentDto } from './dto/create-intent.dto';
+import {
+  IntentIdParamsDto,
+  ListIntentsQueryDto,
+  UserAddressParamsDto,
+} from './dto/intent-query.dto';
 
 /**
  * INTENTS CONTROLLER
@@ -11,6 +30,7 @@ import { IntentsService } from './intents.service';
  * - GET http://localhost:3000/intents/:id - Get intent status
  * - GET http://localhost:3000/intents/user/:address - Get user's intents
  */
+@ApiTags('intents')
 @Controller('intents')
 export class IntentsController {
   constructor(private readonly intentsService: IntentsService) {}
@@ -30,30 +50,17 @@ export class IntentsController {
    * 
    * Optional body params:
    * - metadata: Custom metadata object
+   *
+   * Optional headers:
+   * - Idempotency-Key: Retries with the same key get the same intent back
    */
   @Post()
+  @Idempotent()
   async createIntent(
-    @Body('sender') sender: string,
-    @Body('amount') amount: string,
-    @Body('amountSymbol') amountSymbol: string,
-    @Body('tokenIn') tokenIn: string,
-    @Body('sourceChain') sourceChain: string,
-    @Body('destinationChain') destinationChain: string,
-    @Body('recipient') recipient: string,
-    @Body('refundAddress') refundAddress: string,
-    @Body('metadata') metadata?: Record<string, any>,
+    @Body() body: CreateIntentDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
   ) {
-    return this.intentsService.createIntent({
-      sender,
-      amount,
-      amountSymbol,
-      tokenIn,
-      sourceChain,
-      destinationChain,
-      recipient,
-      refundAddress,
-      metadata,
-    });
+    return this.intentsService.createIntent({ ...body, idempotencyKey });
   }
 
   /**
@@ -64,8 +71,8 @@ export class IntentsController {
    * - id: Intent ID (number)
    */
   @Get(':id')
-  async getIntentStatus(@Param('id') id: string) {
-    return this.intentsService.getIntentStatus(parseInt(id, 10));
+  async getIntentStatus(@Param() params: IntentIdParamsDto) {
+    return this.intentsService.getIntentStatus(params.id);
   }
 
   /**
@@ -76,8 +83,8 @@ export class IntentsController {
    * - address: User's wallet address
    */
   @Get('user/:address')
-  async getUserIntents(@Param('address') address: string) {
-    return this.intentsService.getUserIntents(address);
+  async getUserIntents(@Param() params: UserAddressParamsDto) {
+    return this.intentsService.getUserIntents(params.address);
   }
 
   /**
@@ -90,15 +97,7 @@ export class IntentsController {
    * - status: Filter by status (pending, funded, initiated, completed, etc.)
    */
   @Get()
-  async getAllIntents(
-    @Query('limit') limit?: string,
-    @Query('offset') offset?: string,
-    @Query('status') status?: string,
-  ) {
-    return this.intentsService.getAllIntents({
-      limit: limit ? parseInt(limit, 10) : undefined,
-      offset: offset ? parseInt(offset, 10) : undefined,
-      status,
-    });
+  async getAllIntents(@Query() query: ListIntentsQueryDto) {
+    return this.intentsService.getAllIntents(query);
   }
 }
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ChainrailsModule } from '../chainrails/chainrails.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 import { IntentsService } from './intents.service';
 import { IntentsController } from './intents.controller';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, ChainrailsModule, IdempotencyModule],
   controllers: [IntentsController],
   providers: [IntentsService],
   exports: [IntentsService],
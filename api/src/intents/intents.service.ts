@@ -1,5 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { ChainrailsClient } from '../chainrails/chainrails.client';
+import {
+  Intent,
+  IntentList,
+  intentArraySchema,
+  intentListSchema,
+  intentSchema,
+} from '../chainrails/models/intent.model';
 
 /**
  * INTENTS SERVICE
@@ -21,19 +28,8 @@ import { ConfigService } from '@nestjs/config';
 @Injectable()
 export class IntentsService {
   private readonly logger = new Logger(IntentsService.name);
-  private readonly apiBaseUrl: string;
-  private readonly apiKey: string;
 
-  constructor(private configService: ConfigService) {
-    this.apiBaseUrl =
-      this.configService.get<string>('CHAINRAILS_API_URL') ||
-      'https://api.chainrails.io/api/v1';
-    this.apiKey = this.configService.get<string>('CHAINRAILS_API_KEY');
-
-    if (!this.apiKey) {
-      throw new Error('CHAINRAILS_API_KEY is required');
-    }
-  }
+  constructor(private readonly chainrails: ChainrailsClient) {}
 
   /**
    * Example 1: Create a Cross-Chain Transfer Intent
@@ -48,18 +44,22 @@ export class IntentsService {
    * 4. Tokens arrive at destination
    * 
    * Use case: User wants to transfer USDC from Base to Arbitrum
+   *
+   * Pass an idempotencyKey if you want failed requests to be retried
+   * without risking a duplicate intent.
    */
   async createIntent(params: {
-    sender: string;
+    sender?: string;
     amount: string;
     amountSymbol: string;
     tokenIn: string;
     sourceChain: string;
     destinationChain: string;
     recipient: string;
-    refundAddress: string;
+    refundAddress?: string;
     metadata?: Record<string, any>;
-  }) {
+    idempotencyKey?: string;
+  }): Promise<Intent> {
     this.logger.log(
       `Creating cross-chain transfer intent...`,
     );
@@ -78,24 +78,12 @@ export class IntentsService {
         metadata: params.metadata || {},
       };
 
-      const response = await fetch(`${this.apiBaseUrl}/intents`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+      // With an idempotency key the client may safely retry this POST
+      const intent = await this.chainrails.post('/intents', requestBody, {
+        idempotencyKey: params.idempotencyKey,
+        schema: intentSchema,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `API Error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`,
-        );
-      }
-
-      const intent = await response.json();
-
       return intent;
     } catch (error) {
       this.logger.error(`❌ Failed to create intent:`, error.message);
@@ -118,23 +106,15 @@ export class IntentsService {
    * 
    * Use case: Display/Track transfer progress
    */
-  async getIntentStatus(intentId: number) {
+  async getIntentStatus(intentId: number): Promise<Intent> {
     this.logger.log(`Checking status for intent #${intentId}...`);
 
     try {
-      const response = await fetch(`${this.apiBaseUrl}/intents/${intentId}`, {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const intent = await response.json();
+      const intent = await this.chainrails.get(
+        `/intents/${intentId}`,
+        undefined,
+        { schema: intentSchema },
+      );
 
       return intent;
     } catch (error) {
@@ -151,27 +131,16 @@ export class IntentsService {
    * 
    * Use case: Display user's transaction history
    */
-  async getUserIntents(userAddress: string) {
+  async getUserIntents(userAddress: string): Promise<Intent[]> {
     this.logger.log(`Fetching all intents for user: ${userAddress}...`);
 
     try {
-      const response = await fetch(
-        `${this.apiBaseUrl}/intents/user/${userAddress}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        },
+      const intents = await this.chainrails.get(
+        `/intents/user/${encodeURIComponent(userAddress)}`,
+        undefined,
+        { schema: intentArraySchema },
       );
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const intents = await response.json();
-
       this.logger.log(`✅ Found ${intents.length} intents for user`);
 
       return intents;
@@ -192,32 +161,20 @@ export class IntentsService {
     limit?: number;
     offset?: number;
     status?: string;
-  }) {
+  }): Promise<IntentList> {
     this.logger.log(`Fetching all intents...`);
 
     try {
-      const queryParams = new URLSearchParams();
-      if (params?.limit) queryParams.append('limit', params.limit.toString());
-      if (params?.offset) queryParams.append('offset', params.offset.toString());
-      if (params?.status) queryParams.append('status', params.status);
-
-      const response = await fetch(
-        `${this.apiBaseUrl}/intents?${queryParams}`,
+      const result = await this.chainrails.get(
+        '/intents',
         {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
+          limit: params?.limit || undefined,
+          offset: params?.offset || undefined,
+          status: params?.status,
         },
+        { schema: intentListSchema },
       );
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const result = await response.json();
-
       if (params?.status) {
         this.logger.log(`   Filtered by status: ${params.status}`);
       }
@@ -0,0 +1,150 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsISO8601,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import { IsDecimalAmount } from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+
+export class InvoiceLineItemDto {
+  @ApiProperty({ example: 'Pro plan, monthly' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  description: string;
+
+  @ApiProperty({ example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Price of one unit, human-readable, in the invoice currency',
+    example: '9.89',
+  })
+  @IsDecimalAmount()
+  unitPrice: string;
+}
+
+export class CreateInvoiceDto {
+  @ApiPropertyOptional({
+    description: 'Your own order or invoice number',
+    example: 'ORDER-1042',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @ApiPropertyOptional({ example: 'December subscription' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    enum: SUPPORTED_CHAINS,
+    description: 'Where the payment is received',
+    example: 'BASE_TESTNET',
+  })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Token address on the destination chain',
+    example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  })
+  @IsChainAddress('destinationChain')
+  tokenOut: string;
+
+  @ApiProperty({
+    description: 'Symbol of tokenOut: line items are priced in it',
+    example: 'USDC',
+  })
+  @IsString()
+  @IsNotEmpty()
+  currency: string;
+
+  @ApiProperty({ description: 'Merchant address on the destination chain' })
+  @IsChainAddress('destinationChain')
+  recipient: string;
+
+  @ApiProperty({ type: [InvoiceLineItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => InvoiceLineItemDto)
+  lineItems: InvoiceLineItemDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'When the invoice stops taking payments (ISO 8601). Defaults to INVOICE_DEFAULT_TTL_MS from now',
+  })
+  @IsOptional()
+  @IsISO8601()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ description: 'Custom metadata object' })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class PayInvoiceDto {
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_TESTNET' })
+  @IsSupportedChain()
+  sourceChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Token address on the source chain',
+    example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+  })
+  @IsChainAddress('sourceChain')
+  tokenIn: string;
+
+  @ApiPropertyOptional({ description: 'Payer address on the source chain' })
+  @IsOptional()
+  @IsChainAddress('sourceChain')
+  sender?: string;
+
+  @ApiPropertyOptional({ description: 'Refund address on the source chain' })
+  @IsOptional()
+  @IsChainAddress('sourceChain')
+  refundAddress?: string;
+}
+
+export class AttachInvoicePaymentDto {
+  @ApiProperty({
+    description: 'ID of the intent the payment modal created',
+    example: 42,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  intentId: number;
+}
+
+export class InvoiceIdParamsDto {
+  @ApiProperty({ description: 'Invoice ID' })
+  @IsUUID()
+  id: string;
+}
@@ -0,0 +1,28 @@
+import { Invoice } from './invoice.model';
+import { InvoiceStore } from './invoice.store';
+
+/**
+ * Keeps invoices in a Map. Nothing survives a restart - use it for tests
+ * and local experiments only.
+ */
+export class InMemoryInvoiceStore implements InvoiceStore {
+  private readonly invoices = new Map<string, Invoice>();
+
+  async save(invoice: Invoice): Promise<void> {
+    this.invoices.set(invoice.id, structuredClone(invoice));
+  }
+
+  async get(id: string): Promise<Invoice | undefined> {
+    const invoice = this.invoices.get(id);
+    return invoice && structuredClone(invoice);
+  }
+
+  async findByIntentId(intentId: number): Promise<Invoice | undefined> {
+    for (const invoice of this.invoices.values()) {
+      if (invoice.payments.some((payment) => payment.intentId === intentId)) {
+        return structuredClone(invoice);
+      }
+    }
+    return undefined;
+  }
+}
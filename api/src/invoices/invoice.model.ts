@@ -0,0 +1,159 @@
+import {
+  Intent,
+  IntentStatus,
+  TERMINAL_INTENT_STATUSES,
+} from '../chainrails/models/intent.model';
+import {
+  addAmounts,
+  compareAmounts,
+  formatUnits,
+  parseUnits,
+  subAmounts,
+} from '../utils/amounts';
+
+export const INVOICE_STATUSES = [
+  'open',
+  'partially_paid',
+  'paid',
+  'overpaid',
+  'expired',
+] as const;
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  /** Price of one unit, human-readable ("4.5" for 4.5 USDC) */
+  unitPrice: string;
+  /** quantity × unitPrice, in the token's smallest units */
+  amount: string;
+}
+
+/**
+ * How a payment got linked to its invoice:
+ * - api: created with POST /invoices/:id/pay
+ * - attached: an intent from the payment modal, sent to POST /invoices/:id/payments
+ * - webhook: a webhook for an intent with `metadata.invoiceId`
+ */
+export type InvoicePaymentSource = 'api' | 'attached' | 'webhook';
+
+/**
+ * One intent paying (part of) an invoice
+ */
+export interface InvoicePayment {
+  intentId: number;
+  intentAddress?: string;
+  status: IntentStatus;
+  /** What the intent delivers to the recipient, in the token's smallest units */
+  amount: string;
+  sourceChain?: string;
+  txHash?: string;
+  via: InvoicePaymentSource;
+  linkedAt: string;
+}
+
+export interface Invoice {
+  id: string;
+  /** The merchant's own order or invoice number */
+  reference?: string;
+  description?: string;
+  destinationChain: string;
+  tokenOut: string;
+  /** Symbol of tokenOut, the currency line items are priced in */
+  currency: string;
+  decimals: number;
+  recipient: string;
+  lineItems: InvoiceLineItem[];
+  /** Total due, in the token's smallest units */
+  amount: string;
+  status: InvoiceStatus;
+  payments: InvoicePayment[];
+  /** The latest payment modal session */
+  session?: {
+    sessionToken: string;
+    sessionId?: string;
+    /** What the session asks for, human-readable */
+    amount: string;
+    createdAt: string;
+  };
+  metadata?: Record<string, any>;
+  expiresAt: string;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function isTerminalPayment(payment: InvoicePayment): boolean {
+  return TERMINAL_INTENT_STATUSES.includes(payment.status);
+}
+
+/**
+ * What completed payments delivered, and what is still on its way
+ */
+export function invoiceTotals(invoice: Invoice): {
+  paid: bigint;
+  pending: bigint;
+} {
+  const sum = (statuses: IntentStatus[]) =>
+    addAmounts(
+      ...invoice.payments
+        .filter((payment) => statuses.includes(payment.status))
+        .map((payment) => payment.amount),
+    );
+  return {
+    paid: sum(['COMPLETED']),
+    pending: sum(['PENDING', 'FUNDED', 'INITIATED']),
+  };
+}
+
+/**
+ * The invoice status, from its completed payments.
+ *
+ * Money that arrived always counts, even after expiry: an invoice only
+ * becomes `expired` when nothing was paid by expiresAt.
+ */
+export function deriveInvoiceStatus(
+  invoice: Invoice,
+  now: Date,
+): InvoiceStatus {
+  const { paid } = invoiceTotals(invoice);
+  if (paid > 0n) {
+    const comparison = compareAmounts(paid, invoice.amount);
+    if (comparison > 0) return 'overpaid';
+    if (comparison === 0) return 'paid';
+    return 'partially_paid';
+  }
+  return Date.parse(invoice.expiresAt) <= now.getTime() ? 'expired' : 'open';
+}
+
+/**
+ * What an intent delivers to its recipient, in `decimals`: its total minus
+ * fees, converted from the intent's asset token decimals
+ */
+export function deliveredAmount(intent: Intent, decimals: number): string {
+  const total = intent.total_amount_in_asset_token;
+  if (total === undefined) {
+    return intent.initialAmount ?? '0';
+  }
+  const net = subAmounts(total, intent.fees_in_asset_token ?? '0');
+  return convertUnits(
+    net,
+    intent.asset_token_decimals ?? decimals,
+    decimals,
+  ).toString();
+}
+
+/**
+ * Re-express an amount in another token's decimals, rounding down
+ */
+export function convertUnits(
+  value: string | bigint,
+  fromDecimals: number,
+  toDecimals: number,
+): bigint {
+  return parseUnits(
+    formatUnits(value, fromDecimals, { maxFractionDigits: toDecimals }),
+    toDecimals,
+  );
+}
@@ -0,0 +1,19 @@
+import { Invoice } from './invoice.model';
+
+/**
+ * Injection token for the configured InvoiceStore
+ */
+export const INVOICE_STORE = Symbol('INVOICE_STORE');
+
+/**
+ * Where invoices and their payments are kept
+ */
+export interface InvoiceStore {
+  save(invoice: Invoice): Promise<void>;
+  get(id: string): Promise<Invoice | undefined>;
+
+  /**
+   * The invoice one of whose payments is this intent
+   */
+  findByIntentId(intentId: number): Promise<Invoice | undefined>;
+}
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  Idempotent,
+} from '../idempotency/idempotency.interceptor';
+import { InvoicesService } from './invoices.service';
+import {
+  AttachInvoicePaymentDto,
+  CreateInvoiceDto,
+  InvoiceIdParamsDto,
+  PayInvoiceDto,
+} from './dto/invoice.dto';
+
+/**
+ * INVOICES CONTROLLER
+ *
+ * HTTP endpoints for merchant invoices (payment requests).
+ *
+ * Endpoints:
+ * - POST /invoices - Create an invoice and its payment modal session
+ * - GET /invoices/:id - Invoice status, payments and what is outstanding
+ * - POST /invoices/:id/session - A fresh payment modal session
+ * - POST /invoices/:id/pay - Create an intent paying what is outstanding
+ * - POST /invoices/:id/payments - Link an intent from the payment modal
+ */
+@ApiTags('invoices')
+@Controller('invoices')
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  /**
+   * POST /invoices
+   *
+   * Body params:
+   * - destinationChain, tokenOut, currency, recipient: Where the payment goes
+   * - lineItems: [{ description, quantity, unitPrice }], priced in currency
+   * - reference, description, expiresAt, metadata: (Optional)
+   */
+  @Post()
+  async create(@Body() body: CreateInvoiceDto) {
+    return this.invoicesService.create(body);
+  }
+
+  @Get(':id')
+  async get(@Param() params: InvoiceIdParamsDto) {
+    return this.invoicesService.get(params.id);
+  }
+
+  @Post(':id/session')
+  @HttpCode(200)
+  async renewSession(@Param() params: InvoiceIdParamsDto) {
+    return this.invoicesService.renewSession(params.id);
+  }
+
+  /**
+   * POST /invoices/:id/pay
+   *
+   * Body params:
+   * - sourceChain, tokenIn: What the payer pays with
+   * - sender, refundAddress: (Optional)
+   */
+  @Post(':id/pay')
+  @Idempotent()
+  async pay(
+    @Param() params: InvoiceIdParamsDto,
+    @Body() body: PayInvoiceDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
+  ) {
+    return this.invoicesService.pay(params.id, { ...body, idempotencyKey });
+  }
+
+  @Post(':id/payments')
+  @HttpCode(200)
+  async attachPayment(
+    @Param() params: InvoiceIdParamsDto,
+    @Body() body: AttachInvoicePaymentDto,
+  ) {
+    return this.invoicesService.attachPayment(params.id, body.intentId);
+  }
+}
@@ -0,0 +1,63 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { AppModule } from '../app/app.module';
+import { ChainrailsModule } from '../chainrails/chainrails.module';
+import { ChainsModule } from '../chains/chains.module';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { IntentsModule } from '../intents/intents.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { InMemoryInvoiceStore } from './in-memory-invoice.store';
+import { INVOICE_STORE, InvoiceStore } from './invoice.store';
+import { InvoicesController } from './invoices.controller';
+import { InvoicesService } from './invoices.service';
+import { SqliteInvoiceStore } from './sqlite-invoice.store';
+
+/**
+ * Provides InvoicesService and the InvoiceStore picked by INVOICE_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    AppModule,
+    ChainrailsModule,
+    ChainsModule,
+    IdempotencyModule,
+    IntentsModule,
+    WebhooksModule,
+  ],
+  controllers: [InvoicesController],
+  providers: [
+    InvoicesService,
+    {
+      provide: INVOICE_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): InvoiceStore => {
+        const kind = configService.get<string>('INVOICE_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(InvoicesModule.name).warn(
+              'Invoices are kept in memory and will be lost on restart.',
+            );
+            return new InMemoryInvoiceStore();
+          case 'sqlite':
+            return new SqliteInvoiceStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown INVOICE_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [InvoicesService, INVOICE_STORE],
+})
+export class InvoicesModule {}
@@ -0,0 +1,304 @@
+import { ConfigService } from '@nestjs/config';
+import { Subject } from 'rxjs';
+import { AppService } from '../app/app.service';
+import { ChainrailsClient } from '../chainrails/chainrails.client';
+import { ChainsService } from '../chains/chains.service';
+import { IntentsService } from '../intents/intents.service';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { InMemoryInvoiceStore } from './in-memory-invoice.store';
+import { InvoicesService } from './invoices.service';
+
+const MERCHANT = '0xda3ecb2e5362295e2b802669dd47127a61d9ce54';
+const ARBITRUM_USDC = '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d';
+const ARBITRUM_WETH = '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73';
+
+const request = {
+  reference: 'ORDER-1042',
+  destinationChain: 'BASE_TESTNET',
+  tokenOut: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  currency: 'USDC',
+  recipient: MERCHANT,
+  lineItems: [
+    { description: 'Sticker', quantity: 3, unitPrice: '1.5' },
+    { description: 'Shipping', quantity: 1, unitPrice: '5.39' },
+  ],
+};
+
+describe('InvoicesService', () => {
+  const now = new Date('2025-12-05T14:00:00.000Z');
+  let store: InMemoryInvoiceStore;
+  let post: jest.Mock;
+  let createTransfer: jest.Mock;
+  let getIntentStatus: jest.Mock;
+  let events$: Subject<WebhookEvent>;
+  let service: InvoicesService;
+
+  /**
+   * An intent from the invoice's payment modal session, delivering `amount`
+   * USDC (smallest units) to the merchant
+   */
+  function intent(id: number, amount: string, extra: object = {}) {
+    return {
+      id,
+      intent_address: `0x${String(id).padStart(40, '0')}`,
+      intent_status: 'PENDING',
+      recipient: MERCHANT,
+      destination_chain: 'BASE_TESTNET',
+      tokenOut: request.tokenOut.toLowerCase(),
+      created_at: now.toISOString(),
+      metadata: { sessionId: 's_1' },
+      source_chain: 'ARBITRUM_TESTNET',
+      total_amount_in_asset_token: (BigInt(amount) + 1000n).toString(),
+      fees_in_asset_token: '1000',
+      asset_token_decimals: 6,
+      ...extra,
+    };
+  }
+
+  function webhook(intentId: number, status: string, data = {}): WebhookEvent {
+    return {
+      id: `evt_${intentId}_${status}`,
+      type: `intent.${status.toLowerCase()}`,
+      intentId,
+      createdAt: now.toISOString(),
+      receivedAt: now.toISOString(),
+      data: { intent_id: intentId, status, ...data },
+    };
+  }
+
+  beforeEach(() => {
+    store = new InMemoryInvoiceStore();
+    post = jest.fn(async () => ({ sessionToken: 'st_123', sessionId: 's_1' }));
+    createTransfer = jest.fn();
+    getIntentStatus = jest.fn();
+    events$ = new Subject();
+    service = new InvoicesService(
+      store,
+      { post } as unknown as ChainrailsClient,
+      {
+        getTokenDecimals: async () => 6,
+        getSupportedTokens: async () => [
+          { address: ARBITRUM_USDC, symbol: 'USDC', decimals: 6 },
+          { address: ARBITRUM_WETH, symbol: 'WETH', decimals: 18 },
+        ],
+      } as unknown as ChainsService,
+      { getIntentStatus } as unknown as IntentsService,
+      { createTransfer } as unknown as AppService,
+      { events$ } as unknown as WebhookEventBus,
+      new ConfigService({}),
+    );
+    service.onApplicationBootstrap();
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it('prices line items and creates a modal session for the total', async () => {
+    const invoice = await service.create(request, now);
+
+    expect(invoice).toMatchObject({
+      amount: '9890000',
+      status: 'open',
+      outstanding: '9890000',
+      expiresAt: '2025-12-06T14:00:00.000Z',
+      session: { sessionToken: 'st_123', sessionId: 's_1', amount: '9.89' },
+    });
+    expect(invoice.lineItems.map((item) => item.amount)).toEqual([
+      '4500000',
+      '5390000',
+    ]);
+    expect(post).toHaveBeenCalledWith(
+      '/modal/sessions',
+      {
+        recipient: MERCHANT,
+        tokenOut: request.tokenOut,
+        destinationChain: 'BASE_TESTNET',
+        amount: '9.89',
+      },
+      expect.anything(),
+    );
+  });
+
+  it('reconciles attached payments from webhooks: partially paid, then paid', async () => {
+    const { id } = await service.create(request, now);
+
+    getIntentStatus.mockResolvedValueOnce(intent(7, '4000000'));
+    await service.attachPayment(id, 7, now);
+    getIntentStatus.mockResolvedValueOnce(intent(8, '5890000'));
+    const attached = await service.attachPayment(id, 8, now);
+    expect(attached).toMatchObject({
+      status: 'open',
+      pending: '9890000',
+      payments: [
+        { intentId: 7, amount: '4000000', via: 'attached' },
+        { intentId: 8, amount: '5890000', via: 'attached' },
+      ],
+    });
+
+    await service.updateFromWebhook(webhook(7, 'COMPLETED'), now);
+    expect(await store.get(id)).toMatchObject({ status: 'partially_paid' });
+
+    // A late FUNDED webhook doesn't move the payment back
+    await service.updateFromWebhook(webhook(7, 'FUNDED'), now);
+    await service.updateFromWebhook(webhook(8, 'COMPLETED'), now);
+    expect(await store.get(id)).toMatchObject({
+      status: 'paid',
+      paidAt: now.toISOString(),
+      payments: [{ status: 'COMPLETED' }, { status: 'COMPLETED' }],
+    });
+  });
+
+  it('links intents whose metadata names the invoice, and flags overpayment', async () => {
+    const { id } = await service.create(request, now);
+    getIntentStatus.mockResolvedValue(
+      intent(9, '10000000', {
+        intent_status: 'COMPLETED',
+        metadata: { invoiceId: id },
+      }),
+    );
+
+    await service.updateFromWebhook(
+      webhook(9, 'COMPLETED', { metadata: { invoiceId: id } }),
+      now,
+    );
+
+    expect(await service.get(id, now)).toMatchObject({
+      status: 'overpaid',
+      paid: '10000000',
+      outstanding: '0',
+      payments: [{ intentId: 9, via: 'webhook' }],
+    });
+  });
+
+  it("refuses intents that don't pay the invoice's recipient", async () => {
+    const { id } = await service.create(request, now);
+    getIntentStatus.mockResolvedValueOnce(
+      intent(10, '9890000', {
+        recipient: '0x1111111111111111111111111111111111111111',
+      }),
+    );
+
+    await expect(service.attachPayment(id, 10, now)).rejects.toThrow(
+      "doesn't pay this invoice",
+    );
+  });
+
+  it.each([
+    [
+      'in another token',
+      { tokenOut: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d' },
+      'it delivers 0x75faf114',
+    ],
+    [
+      'created before the invoice',
+      { created_at: '2025-12-05T13:59:59.000Z' },
+      'before the invoice',
+    ],
+    [
+      'made for something else',
+      { metadata: { orderId: 'ORDER-7' } },
+      'names neither the invoice nor its payment session',
+    ],
+    [
+      'from an older payment session',
+      { metadata: { sessionId: 's_0' } },
+      'names neither the invoice nor its payment session',
+    ],
+  ])('refuses intents %s', async (_, extra, reason) => {
+    const { id } = await service.create(request, now);
+    getIntentStatus.mockResolvedValueOnce(intent(11, '9890000', extra));
+
+    await expect(service.attachPayment(id, 11, now)).rejects.toThrow(reason);
+    expect((await store.get(id)).payments).toEqual([]);
+  });
+
+  it("doesn't link intents from webhooks that only claim the invoice", async () => {
+    const { id } = await service.create(request, now);
+    getIntentStatus.mockResolvedValue(
+      intent(12, '9890000', { intent_status: 'COMPLETED', metadata: {} }),
+    );
+
+    await service.updateFromWebhook(
+      webhook(12, 'COMPLETED', { metadata: { invoiceId: id } }),
+      now,
+    );
+    expect((await store.get(id)).payments).toEqual([]);
+  });
+
+  it('pays what is outstanding from the API, until the invoice expires', async () => {
+    const { id } = await service.create(request, now);
+    createTransfer.mockResolvedValueOnce({
+      intent: intent(11, '9890000'),
+      fundingInstructions: { address: '0xabc' },
+    });
+
+    const paying = await service.pay(
+      id,
+      { sourceChain: 'ARBITRUM_TESTNET', tokenIn: ARBITRUM_USDC.toLowerCase() },
+      now,
+    );
+    expect(createTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: '9890000',
+        amountSymbol: 'USDC',
+        recipient: MERCHANT,
+        destinationChain: 'BASE_TESTNET',
+        metadata: { invoiceId: id, reference: 'ORDER-1042' },
+      }),
+    );
+    expect(paying).toMatchObject({
+      pending: '9890000',
+      fundingInstructions: { address: '0xabc' },
+    });
+
+    expect(paying.payments).toEqual([
+      expect.objectContaining({ intentId: 11, amount: '9890000', via: 'api' }),
+    ]);
+
+    // Its intent expires unfunded, and so does the invoice
+    getIntentStatus.mockResolvedValue(
+      intent(11, '9890000', { intent_status: 'EXPIRED' }),
+    );
+    const later = new Date('2025-12-06T14:00:00.000Z');
+    expect(await service.get(id, later)).toMatchObject({ status: 'expired' });
+    await expect(service.renewSession(id, later)).rejects.toThrow('expired');
+  });
+
+  it('only pays from the API in the invoice currency', async () => {
+    const { id } = await service.create(request, now);
+
+    await expect(
+      service.pay(
+        id,
+        { sourceChain: 'ARBITRUM_TESTNET', tokenIn: ARBITRUM_WETH },
+        now,
+      ),
+    ).rejects.toThrow("isn't USDC on ARBITRUM_TESTNET");
+    await expect(
+      service.pay(
+        id,
+        { sourceChain: 'ARBITRUM_TESTNET', tokenIn: '0xdead' },
+        now,
+      ),
+    ).rejects.toThrow("isn't USDC on ARBITRUM_TESTNET");
+    expect(createTransfer).not.toHaveBeenCalled();
+  });
+
+  it('records what the intent delivers, not what was asked for', async () => {
+    const { id } = await service.create(request, now);
+    createTransfer.mockResolvedValueOnce({
+      intent: intent(13, '9889999'),
+      fundingInstructions: { address: '0xabc' },
+    });
+
+    const paying = await service.pay(
+      id,
+      { sourceChain: 'ARBITRUM_TESTNET', tokenIn: ARBITRUM_USDC },
+      now,
+    );
+
+    expect(paying.payments).toEqual([
+      expect.objectContaining({ intentId: 13, amount: '9889999' }),
+    ]);
+  });
+});
@@ -0,0 +1,541 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Subscription } from 'rxjs';
+import { AppService } from '../app/app.service';
+import { ChainrailsClient } from '../chainrails/chainrails.client';
+import { Intent } from '../chainrails/models/intent.model';
+import { modalSessionSchema } from '../chainrails/models/session.model';
+import { ChainsService } from '../chains/chains.service';
+import { IntentsService } from '../intents/intents.service';
+import { toObservation } from '../lifecycle/intent-lifecycle.service';
+import { canTransition } from '../lifecycle/intent-state-machine';
+import { formatUnits, parseUnits, subAmounts } from '../utils/amounts';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import {
+  Invoice,
+  InvoicePayment,
+  InvoicePaymentSource,
+  convertUnits,
+  deliveredAmount,
+  deriveInvoiceStatus,
+  invoiceTotals,
+  isTerminalPayment,
+} from './invoice.model';
+import { INVOICE_STORE, InvoiceStore } from './invoice.store';
+
+export interface InvoiceRequest {
+  reference?: string;
+  description?: string;
+  destinationChain: string;
+  tokenOut: string;
+  /** Symbol of tokenOut, e.g. USDC */
+  currency: string;
+  recipient: string;
+  lineItems: { description: string; quantity: number; unitPrice: string }[];
+  expiresAt?: string;
+  metadata?: Record<string, any>;
+}
+
+type TransferResult = Awaited<ReturnType<AppService['createTransfer']>>;
+
+export interface InvoicePaymentRequest {
+  sourceChain: string;
+  tokenIn: string;
+  sender?: string;
+  refundAddress?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * An invoice with its payments summed up, all in the token's smallest units
+ */
+export interface InvoiceView extends Invoice {
+  /** Delivered by completed payments */
+  paid: string;
+  /** In payments that are still on their way */
+  pending: string;
+  /** Still to be paid (0 once paid or overpaid) */
+  outstanding: string;
+}
+
+/**
+ * INVOICES SERVICE
+ *
+ * Purpose: Ask for a payment, then find out when it's been paid
+ *
+ * An invoice is a payment request from a merchant: line items priced in a
+ * token (USDC), a recipient on a destination chain and an expiry. Its ID
+ * can be shared with the payer, and a payment modal session is created for
+ * it, so the Chainrails modal collects exactly the amount due.
+ *
+ * What you'll learn:
+ * - How to create payment modal sessions from the API (POST /modal/sessions)
+ * - How to tie intents back to the invoice they pay
+ * - How to reconcile open, paid, partially paid and overpaid invoices from webhooks
+ */
+@Injectable()
+export class InvoicesService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(InvoicesService.name);
+  private readonly defaultTtlMs: number;
+  private subscription?: Subscription;
+
+  constructor(
+    @Inject(INVOICE_STORE)
+    private readonly store: InvoiceStore,
+    private readonly chainrails: ChainrailsClient,
+    private readonly chainsService: ChainsService,
+    private readonly intentsService: IntentsService,
+    private readonly appService: AppService,
+    private readonly webhookBus: WebhookEventBus,
+    configService: ConfigService,
+  ) {
+    this.defaultTtlMs = Number(
+      configService.get('INVOICE_DEFAULT_TTL_MS') ?? 86400000,
+    );
+  }
+
+  onApplicationBootstrap() {
+    this.subscription = this.webhookBus.events$.subscribe((event) => {
+      this.updateFromWebhook(event).catch((error) =>
+        this.logger.error(
+          `❌ Updating invoice from event ${event.id} failed: ${error.message}`,
+        ),
+      );
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Example 1: Create an Invoice
+   *
+   * Flow:
+   * 1. Price every line item in the token's smallest units
+   * 2. Create a payment modal session for the total
+   * 3. Save the invoice: its ID is what you share with the payer
+   */
+  async create(
+    request: InvoiceRequest,
+    now = new Date(),
+  ): Promise<InvoiceView> {
+    const decimals = await this.chainsService.getTokenDecimals(
+      request.destinationChain,
+      request.tokenOut,
+      request.currency,
+    );
+    if (decimals === undefined) {
+      throw new BadRequestException(
+        `Unknown decimals for ${request.tokenOut} on ${request.destinationChain}`,
+      );
+    }
+
+    const lineItems = request.lineItems.map((item, i) => {
+      let unitPrice: bigint;
+      try {
+        unitPrice = parseUnits(item.unitPrice, decimals);
+      } catch (error) {
+        throw new BadRequestException(`lineItems[${i}]: ${error.message}`);
+      }
+      return {
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        amount: (unitPrice * BigInt(item.quantity)).toString(),
+      };
+    });
+    const amount = lineItems.reduce(
+      (sum, item) => sum + BigInt(item.amount),
+      0n,
+    );
+    if (amount <= 0n) {
+      throw new BadRequestException('The invoice total must be more than 0');
+    }
+
+    const expiresAt = request.expiresAt
+      ? new Date(request.expiresAt)
+      : new Date(now.getTime() + this.defaultTtlMs);
+    if (expiresAt <= now) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const invoice: Invoice = {
+      id: randomUUID(),
+      reference: request.reference,
+      description: request.description,
+      destinationChain: request.destinationChain,
+      tokenOut: request.tokenOut,
+      currency: request.currency,
+      decimals,
+      recipient: request.recipient,
+      lineItems,
+      amount: amount.toString(),
+      status: 'open',
+      payments: [],
+      metadata: request.metadata,
+      expiresAt: expiresAt.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    invoice.session = await this.createSession(invoice, amount, now);
+
+    await this.store.save(invoice);
+    this.logger.log(
+      `✅ Created invoice ${invoice.id} for ${formatUnits(amount, decimals)} ${invoice.currency}`,
+    );
+    return this.toView(invoice);
+  }
+
+  /**
+   * Example 2: Check an Invoice
+   *
+   * Payments follow webhook events as they arrive; unfinished ones are also
+   * refreshed from the API here, in case a webhook was missed.
+   */
+  async get(id: string, now = new Date()): Promise<InvoiceView> {
+    const invoice = await this.getInvoice(id);
+    let changed = false;
+
+    for (const payment of invoice.payments.filter(
+      (p) => !isTerminalPayment(p),
+    )) {
+      try {
+        const intent = await this.intentsService.getIntentStatus(
+          payment.intentId,
+        );
+        if (canTransition(payment.status, intent.intent_status)) {
+          payment.status = intent.intent_status;
+          payment.txHash = intent.tx_hash ?? payment.txHash;
+          changed = true;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Could not refresh intent ${payment.intentId} of invoice ${id}: ${error.message}`,
+        );
+      }
+    }
+
+    // Also catches an invoice that just expired
+    if (changed || deriveInvoiceStatus(invoice, now) !== invoice.status) {
+      await this.save(invoice, now);
+    }
+    return this.toView(invoice);
+  }
+
+  /**
+   * Example 3: A Fresh Payment Session
+   *
+   * Sessions are short-lived, so the payer's page asks for a new one when it
+   * opens. A partially paid invoice gets a session for what is outstanding.
+   */
+  async renewSession(id: string, now = new Date()): Promise<InvoiceView> {
+    const invoice = await this.getPayableInvoice(id, now);
+    const outstanding = this.outstanding(invoice);
+
+    invoice.session = await this.createSession(invoice, outstanding, now);
+    await this.save(invoice, now);
+    return this.toView(invoice);
+  }
+
+  /**
+   * Example 4: Pay from the API
+   *
+   * Creates an intent for what is outstanding, from the payer's chain and
+   * token, with the invoice ID in its metadata. The token must be the
+   * invoice's currency on that chain: the amount is converted with its
+   * decimals, and the intent is created for that symbol.
+   */
+  async pay(
+    id: string,
+    request: InvoicePaymentRequest,
+    now = new Date(),
+  ): Promise<InvoiceView & Pick<TransferResult, 'fundingInstructions'>> {
+    const invoice = await this.getPayableInvoice(id, now);
+    const tokenIn = (
+      await this.chainsService.getSupportedTokens(request.sourceChain)
+    ).find(
+      (token) => token.address.toLowerCase() === request.tokenIn.toLowerCase(),
+    );
+    if (tokenIn?.symbol.toUpperCase() !== invoice.currency.toUpperCase()) {
+      throw new BadRequestException(
+        `${request.tokenIn} isn't ${invoice.currency} on ${request.sourceChain}: pay the invoice in its own currency`,
+      );
+    }
+    const outstanding = this.outstanding(invoice);
+
+    const { intent, fundingInstructions } =
+      await this.appService.createTransfer({
+        sourceChain: request.sourceChain,
+        destinationChain: invoice.destinationChain,
+        amount: convertUnits(
+          outstanding,
+          invoice.decimals,
+          tokenIn.decimals,
+        ).toString(),
+        amountSymbol: invoice.currency,
+        tokenIn: request.tokenIn,
+        recipient: invoice.recipient,
+        sender: request.sender,
+        refundAddress: request.refundAddress,
+        metadata: { invoiceId: invoice.id, reference: invoice.reference },
+        idempotencyKey: request.idempotencyKey,
+      });
+
+    // What the intent delivers, not what was asked for: converting to the
+    // source token's decimals may have rounded it down
+    this.addPayment(invoice, intent, 'api', now);
+    await this.save(invoice, now);
+    return { ...this.toView(invoice), fundingInstructions };
+  }
+
+  /**
+   * Example 5: Link an Intent from the Payment Modal
+   *
+   * The modal creates its own intent. Send its ID here once the payer
+   * confirmed, and it counts towards the invoice after checking it pays the
+   * invoice's recipient on the invoice's chain and token, and was made for
+   * this invoice (see mismatch()).
+   */
+  async attachPayment(
+    id: string,
+    intentId: number,
+    now = new Date(),
+  ): Promise<InvoiceView> {
+    const invoice = await this.getInvoice(id);
+    if (invoice.payments.some((payment) => payment.intentId === intentId)) {
+      return this.toView(invoice);
+    }
+
+    const linked = await this.store.findByIntentId(intentId);
+    if (linked) {
+      throw new ConflictException(
+        `Intent ${intentId} already pays invoice ${linked.id}`,
+      );
+    }
+
+    const intent = await this.intentsService.getIntentStatus(intentId);
+    const mismatch = this.mismatch(invoice, intent);
+    if (mismatch) {
+      throw new BadRequestException(
+        `Intent ${intentId} doesn't pay this invoice: ${mismatch}`,
+      );
+    }
+
+    this.addPayment(invoice, intent, 'attached', now);
+    await this.save(invoice, now);
+    return this.toView(invoice);
+  }
+
+  /**
+   * Keep payments in sync with webhook events. An intent that isn't linked
+   * yet is picked up when its metadata names the invoice.
+   */
+  async updateFromWebhook(event: WebhookEvent, now = new Date()) {
+    if (event.intentId === undefined) return;
+    const observation = toObservation(event);
+    if (!observation) return;
+
+    let invoice = await this.store.findByIntentId(event.intentId);
+    let changed = false;
+    if (!invoice) {
+      invoice = await this.linkFromMetadata(event, now);
+      if (!invoice) return;
+      changed = true;
+    }
+
+    const payment = invoice.payments.find((p) => p.intentId === event.intentId);
+    // A late webhook for an earlier stage must not move the payment back
+    if (canTransition(payment.status, observation.status)) {
+      payment.status = observation.status;
+      payment.txHash = event.data?.tx_hash ?? payment.txHash;
+      changed = true;
+    }
+
+    if (changed) {
+      await this.save(invoice, now);
+    }
+  }
+
+  private async linkFromMetadata(
+    event: WebhookEvent,
+    now: Date,
+  ): Promise<Invoice | undefined> {
+    const invoiceId = event.data?.metadata?.invoiceId;
+    const invoice = invoiceId && (await this.store.get(String(invoiceId)));
+    if (!invoice) return undefined;
+
+    const intent = await this.intentsService.getIntentStatus(event.intentId);
+    const mismatch = this.mismatch(invoice, intent);
+    if (mismatch) {
+      this.logger.warn(
+        `❌ Intent ${intent.id} names invoice ${invoice.id} but ${mismatch}`,
+      );
+      return undefined;
+    }
+
+    this.addPayment(invoice, intent, 'webhook', now);
+    return invoice;
+  }
+
+  private addPayment(
+    invoice: Invoice,
+    intent: Intent,
+    via: InvoicePaymentSource,
+    now: Date,
+    amount = deliveredAmount(intent, invoice.decimals),
+  ) {
+    const payment: InvoicePayment = {
+      intentId: intent.id,
+      intentAddress: intent.intent_address,
+      status: intent.intent_status,
+      amount,
+      sourceChain: intent.source_chain,
+      txHash: intent.tx_hash ?? undefined,
+      via,
+      linkedAt: now.toISOString(),
+    };
+    invoice.payments.push(payment);
+    this.logger.log(
+      `✅ Intent ${intent.id} pays ${formatUnits(amount, invoice.decimals)} ${invoice.currency} of invoice ${invoice.id}`,
+    );
+  }
+
+  /**
+   * Why the intent doesn't pay this invoice, if it doesn't. Besides going to
+   * the right place in the right token, the intent must have been made for
+   * this invoice: created after it, and naming it in its metadata
+   * (`invoiceId`) or coming from its payment modal session (`sessionId`).
+   * Otherwise any earlier payment to the merchant could be attached.
+   */
+  private mismatch(invoice: Invoice, intent: Intent): string | undefined {
+    if (
+      intent.recipient &&
+      intent.recipient.toLowerCase() !== invoice.recipient.toLowerCase()
+    ) {
+      return `it pays ${intent.recipient}, not ${invoice.recipient}`;
+    }
+    if (
+      intent.destination_chain &&
+      intent.destination_chain !== invoice.destinationChain
+    ) {
+      return `it goes to ${intent.destination_chain}, not ${invoice.destinationChain}`;
+    }
+    if (intent.tokenOut?.toLowerCase() !== invoice.tokenOut.toLowerCase()) {
+      return `it delivers ${intent.tokenOut ?? 'an unknown token'}, not ${invoice.tokenOut}`;
+    }
+
+    const createdAt = Date.parse(intent.created_at ?? '');
+    if (Number.isNaN(createdAt) || createdAt < Date.parse(invoice.createdAt)) {
+      return `it was created at ${intent.created_at ?? 'an unknown time'}, before the invoice`;
+    }
+
+    const sessionId = invoice.session?.sessionId;
+    const forInvoice =
+      intent.metadata?.invoiceId === invoice.id ||
+      (sessionId !== undefined && intent.metadata?.sessionId === sessionId);
+    if (!forInvoice) {
+      return 'its metadata names neither the invoice nor its payment session';
+    }
+    return undefined;
+  }
+
+  private async createSession(
+    invoice: Invoice,
+    amount: bigint,
+    now: Date,
+  ): Promise<Invoice['session']> {
+    const formatted = formatUnits(amount, invoice.decimals);
+    const session = await this.chainrails.post(
+      '/modal/sessions',
+      {
+        recipient: invoice.recipient,
+        tokenOut: invoice.tokenOut,
+        destinationChain: invoice.destinationChain,
+        amount: formatted,
+      },
+      { schema: modalSessionSchema },
+    );
+    return {
+      sessionToken: session.sessionToken,
+      sessionId: session.sessionId,
+      amount: formatted,
+      createdAt: now.toISOString(),
+    };
+  }
+
+  private async getInvoice(id: string): Promise<Invoice> {
+    const invoice = await this.store.get(id);
+    if (!invoice) {
+      throw new NotFoundException(`Invoice ${id} not found`);
+    }
+    return invoice;
+  }
+
+  /**
+   * An invoice that can still take payments: not yet expired and not
+   * (over)paid
+   */
+  private async getPayableInvoice(id: string, now: Date): Promise<Invoice> {
+    const invoice = await this.getInvoice(id);
+    invoice.status = deriveInvoiceStatus(invoice, now);
+
+    if (Date.parse(invoice.expiresAt) <= now.getTime()) {
+      throw new ConflictException(
+        `Invoice ${id} expired at ${invoice.expiresAt}`,
+      );
+    }
+    if (invoice.status === 'paid' || invoice.status === 'overpaid') {
+      throw new ConflictException(`Invoice ${id} is already ${invoice.status}`);
+    }
+    return invoice;
+  }
+
+  private outstanding(invoice: Invoice): bigint {
+    const { paid, pending } = invoiceTotals(invoice);
+    const outstanding = subAmounts(invoice.amount, paid + pending);
+    if (outstanding <= 0n) {
+      throw new ConflictException(
+        `Payments on their way already cover invoice ${invoice.id}`,
+      );
+    }
+    return outstanding;
+  }
+
+  private async save(invoice: Invoice, now: Date) {
+    const status = deriveInvoiceStatus(invoice, now);
+    if (
+      status !== invoice.status &&
+      (status === 'paid' || status === 'overpaid')
+    ) {
+      invoice.paidAt = invoice.paidAt ?? now.toISOString();
+    }
+    invoice.status = status;
+    invoice.updatedAt = now.toISOString();
+    await this.store.save(invoice);
+  }
+
+  private toView(invoice: Invoice): InvoiceView {
+    const { paid, pending } = invoiceTotals(invoice);
+    const outstanding = subAmounts(invoice.amount, paid);
+    return {
+      ...invoice,
+      paid: paid.toString(),
+      pending: pending.toString(),
+      outstanding: (outstanding > 0n ? outstanding : 0n).toString(),
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import type { Database } from 'better-sqlite3';
+import { Invoice } from './invoice.model';
+import { InvoiceStore } from './invoice.store';
+
+interface InvoiceRow {
+  invoice: string;
+}
+
+/**
+ * Keeps invoices in SQLite: each invoice as JSON, plus a table mapping
+ * payment intents to their invoice for webhook lookups
+ */
+export class SqliteInvoiceStore implements InvoiceStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        invoice TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS invoice_payments (
+        intent_id INTEGER PRIMARY KEY,
+        invoice_id TEXT NOT NULL REFERENCES invoices (id)
+      );
+    `);
+  }
+
+  async save(invoice: Invoice): Promise<void> {
+    const upsertInvoice = this.db.prepare(
+      `INSERT OR REPLACE INTO invoices
+        (id, status, invoice, expires_at, created_at, updated_at)
+       VALUES (@id, @status, @invoice, @expires_at, @created_at, @updated_at)`,
+    );
+    const upsertPayment = this.db.prepare(
+      `INSERT OR REPLACE INTO invoice_payments (intent_id, invoice_id)
+       VALUES (?, ?)`,
+    );
+
+    this.db.transaction(() => {
+      upsertInvoice.run({
+        id: invoice.id,
+        status: invoice.status,
+        invoice: JSON.stringify(invoice),
+        expires_at: invoice.expiresAt,
+        created_at: invoice.createdAt,
+        updated_at: invoice.updatedAt,
+      });
+      invoice.payments.forEach((payment) =>
+        upsertPayment.run(payment.intentId, invoice.id),
+      );
+    })();
+  }
+
+  async get(id: string): Promise<Invoice | undefined> {
+    const row = this.db
+      .prepare('SELECT invoice FROM invoices WHERE id = ?')
+      .get(id) as InvoiceRow | undefined;
+    return row && JSON.parse(row.invoice);
+  }
+
+  async findByIntentId(intentId: number): Promise<Invoice | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT i.invoice FROM invoices i
+         JOIN invoice_payments p ON p.invoice_id = i.id
+         WHERE p.intent_id = ?`,
+      )
+      .get(intentId) as InvoiceRow | undefined;
+    return row && JSON.parse(row.invoice);
+  }
+}
@@ -0,0 +1,177 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Intent, IntentStatus } from '../chainrails/models/intent.model';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import {
+  WEBHOOK_EVENT_STORE,
+  WebhookEventStore,
+} from '../webhooks/webhook-event.store';
+import {
+  IntentTimeline,
+  StatusObservation,
+  buildIntentTimeline,
+  canTransition,
+  isIntentStatus,
+} from './intent-state-machine';
+
+/**
+ * The result of checking one webhook event against an intent's history
+ */
+export interface TransitionCheck {
+  from: IntentStatus;
+  to: IntentStatus;
+  valid: boolean;
+}
+
+/**
+ * INTENT LIFECYCLE SERVICE
+ *
+ * Purpose: Know where an intent is in its lifecycle, and how it got there
+ *
+ * The status history of an intent is rebuilt from its stored webhook events
+ * (see WebhooksModule) every time it is needed. Rebuilding instead of keeping
+ * a running "current status" means a webhook that arrives late still lands in
+ * the right place, because events are replayed in timestamp order.
+ *
+ * What you'll learn:
+ * - How to turn webhook events into a validated status timeline
+ * - How to spot impossible transitions (e.g. COMPLETED → FUNDED)
+ * - How long an intent spent in each stage
+ */
+@Injectable()
+export class IntentLifecycleService {
+  private readonly logger = new Logger(IntentLifecycleService.name);
+
+  constructor(
+    @Inject(WEBHOOK_EVENT_STORE)
+    private readonly webhookEvents: WebhookEventStore,
+  ) {}
+
+  /**
+   * All stored webhook events for an intent, oldest first.
+   * Later events don't always carry both the intent id and address, so both
+   * are looked up and merged.
+   */
+  async getEvents(intent: Pick<Intent, 'id' | 'intent_address'>) {
+    const [byAddress, byId] = await Promise.all([
+      intent.intent_address
+        ? this.webhookEvents.findByIntentAddress(intent.intent_address)
+        : [],
+      intent.id !== undefined
+        ? this.webhookEvents.findByIntentId(intent.id)
+        : [],
+    ]);
+
+    const events = new Map<string, WebhookEvent>();
+    [...byAddress, ...byId].forEach((event) => events.set(event.id, event));
+    return [...events.values()].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt),
+    );
+  }
+
+  /**
+   * Example 1: Build the Timeline of an Intent
+   *
+   * Starts at PENDING when the intent was created, replays every webhook
+   * event, then adds the status the API reports now (webhooks may have been
+   * missed entirely).
+   */
+  async getTimeline(intent: Intent, now: Date = new Date()) {
+    const events = await this.getEvents(intent);
+    const observations = events
+      .map(toObservation)
+      .filter((observation) => observation !== undefined);
+
+    const createdAt = normalizeTimestamp(intent.created_at);
+    const firstSeen = createdAt ?? observations[0]?.at ?? now.toISOString();
+
+    const timeline = buildIntentTimeline(
+      { status: 'PENDING', at: firstSeen },
+      [
+        ...observations,
+        {
+          status: intent.intent_status,
+          // Order the API status after every webhook we already have
+          at: maxTimestamp(
+            normalizeTimestamp(intent.updated_at) ?? now.toISOString(),
+            ...observations.map((observation) => observation.at),
+          ),
+          source: 'api',
+        },
+      ],
+      now,
+    );
+
+    timeline.rejected.forEach((rejection) =>
+      this.logger.warn(
+        `Intent ${intent.id}: ignored ${rejection.from} → ${rejection.to} (${rejection.reason})`,
+      ),
+    );
+
+    return { events, timeline };
+  }
+
+  /**
+   * Example 2: Check a New Webhook Event
+   *
+   * Compares the status carried by a new event with the status the intent
+   * had just before that event's timestamp. Returns undefined for events that
+   * carry no status or can't be tied to an intent.
+   */
+  async checkTransition(
+    event: WebhookEvent,
+  ): Promise<TransitionCheck | undefined> {
+    const observation = toObservation(event);
+    if (
+      !observation ||
+      (!event.intentAddress && event.intentId === undefined)
+    ) {
+      return undefined;
+    }
+
+    const earlier = (
+      await this.getEvents({
+        id: event.intentId,
+        intent_address: event.intentAddress,
+      })
+    )
+      .filter(
+        (other) => other.id !== event.id && other.createdAt <= event.createdAt,
+      )
+      .map(toObservation)
+      .filter((other) => other !== undefined);
+
+    const before: IntentTimeline = buildIntentTimeline(
+      { status: 'PENDING', at: earlier[0]?.at ?? observation.at },
+      earlier,
+    );
+
+    const from = before.currentStatus;
+    const to = observation.status;
+    return { from, to, valid: from === to || canTransition(from, to) };
+  }
+}
+
+/**
+ * The status an event reports: data.status, or the event type
+ * (intent.funded → FUNDED)
+ */
+export function toObservation(
+  event: WebhookEvent,
+): StatusObservation | undefined {
+  const status = String(
+    event.data?.status ?? event.type.split('.').pop(),
+  ).toUpperCase();
+  if (!isIntentStatus(status)) {
+    return undefined;
+  }
+  return { status, at: event.createdAt, source: 'webhook', eventId: event.id };
+}
+
+function normalizeTimestamp(value: string | undefined): string | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function maxTimestamp(...values: string[]): string {
+  return values.reduce((max, value) => (value > max ? value : max));
+}
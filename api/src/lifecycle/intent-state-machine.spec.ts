@@ -0,0 +1,103 @@
+import {
+  StatusObservation,
+  buildIntentTimeline,
+  canTransition,
+} from './intent-state-machine';
+
+function webhook(
+  status: StatusObservation['status'],
+  at: string,
+  eventId: string,
+): StatusObservation {
+  return { status, at, eventId, source: 'webhook' };
+}
+
+describe('intent state machine', () => {
+  const created = {
+    status: 'PENDING' as const,
+    at: '2025-12-05T14:00:00.000Z',
+  };
+  const now = new Date('2025-12-05T15:00:00.000Z');
+
+  it('allows the main path, skipped steps and the alternative outcomes', () => {
+    expect(canTransition('PENDING', 'FUNDED')).toBe(true);
+    expect(canTransition('PENDING', 'INITIATED')).toBe(true);
+    expect(canTransition('PENDING', 'EXPIRED')).toBe(true);
+    expect(canTransition('INITIATED', 'REFUNDED')).toBe(true);
+
+    expect(canTransition('FUNDED', 'PENDING')).toBe(false);
+    expect(canTransition('FUNDED', 'EXPIRED')).toBe(false);
+    expect(canTransition('COMPLETED', 'FUNDED')).toBe(false);
+  });
+
+  it('orders out-of-order webhooks by timestamp and times each stage', () => {
+    const timeline = buildIntentTimeline(
+      created,
+      [
+        webhook('COMPLETED', '2025-12-05T14:20:00.000Z', 'evt_3'),
+        webhook('FUNDED', '2025-12-05T14:05:00.000Z', 'evt_1'),
+        webhook('INITIATED', '2025-12-05T14:06:00.000Z', 'evt_2'),
+      ],
+      now,
+    );
+
+    expect(timeline.currentStatus).toBe('COMPLETED');
+    expect(timeline.isTerminal).toBe(true);
+    expect(timeline.rejected).toEqual([]);
+    expect(
+      timeline.stages.map(({ status, durationMs, eventId }) => ({
+        status,
+        durationMs,
+        eventId,
+      })),
+    ).toEqual([
+      { status: 'PENDING', durationMs: 5 * 60_000, eventId: undefined },
+      { status: 'FUNDED', durationMs: 60_000, eventId: 'evt_1' },
+      { status: 'INITIATED', durationMs: 14 * 60_000, eventId: 'evt_2' },
+      { status: 'COMPLETED', durationMs: undefined, eventId: 'evt_3' },
+    ]);
+  });
+
+  it('flags impossible transitions and leaves them out of the timeline', () => {
+    const timeline = buildIntentTimeline(
+      created,
+      [
+        webhook('FUNDED', '2025-12-05T14:05:00.000Z', 'evt_1'),
+        webhook('FUNDED', '2025-12-05T14:05:30.000Z', 'evt_1b'),
+        webhook('COMPLETED', '2025-12-05T14:20:00.000Z', 'evt_2'),
+        webhook('FUNDED', '2025-12-05T14:25:00.000Z', 'evt_3'),
+      ],
+      now,
+    );
+
+    expect(timeline.stages.map((stage) => stage.status)).toEqual([
+      'PENDING',
+      'FUNDED',
+      'COMPLETED',
+    ]);
+    expect(timeline.rejected).toEqual([
+      expect.objectContaining({
+        from: 'COMPLETED',
+        to: 'FUNDED',
+        eventId: 'evt_3',
+        reason: 'COMPLETED is terminal',
+      }),
+    ]);
+  });
+
+  it('counts time in the current stage up to now', () => {
+    const timeline = buildIntentTimeline(
+      created,
+      [webhook('FUNDED', '2025-12-05T14:30:00.000Z', 'evt_1')],
+      now,
+    );
+
+    expect(timeline.currentStatus).toBe('FUNDED');
+    expect(timeline.isTerminal).toBe(false);
+    expect(timeline.stages[1]).toMatchObject({
+      enteredAt: '2025-12-05T14:30:00.000Z',
+      durationMs: 30 * 60_000,
+    });
+    expect(timeline.stages[1].exitedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  INTENT_STATUSES,
+  IntentStatus,
+  TERMINAL_INTENT_STATUSES,
+} from '../chainrails/models/intent.model';
+
+/**
+ * Intent Lifecycle: PENDING → FUNDED → INITIATED → COMPLETED
+ * Alternative outcomes: EXPIRED (never funded), REFUNDED (transfer failed)
+ *
+ * Moving forward along the main path may skip steps (a webhook for FUNDED can
+ * get lost, the intent still ends up INITIATED), but nothing moves backwards
+ * and nothing leaves a terminal status.
+ */
+export const INTENT_TRANSITIONS: Record<IntentStatus, readonly IntentStatus[]> =
+  {
+    PENDING: ['FUNDED', 'INITIATED', 'COMPLETED', 'EXPIRED'],
+    FUNDED: ['INITIATED', 'COMPLETED', 'REFUNDED'],
+    INITIATED: ['COMPLETED', 'REFUNDED'],
+    COMPLETED: [],
+    EXPIRED: [],
+    REFUNDED: [],
+  };
+
+export const INTENT_STAGE_DESCRIPTIONS: Record<IntentStatus, string> = {
+  PENDING: 'Waiting for funding',
+  FUNDED: 'Funded, processing starting...',
+  INITIATED: 'Transfer in progress',
+  COMPLETED: 'Transfer completed!',
+  EXPIRED: 'Intent expired',
+  REFUNDED: 'Transfer refunded',
+};
+
+export function canTransition(from: IntentStatus, to: IntentStatus): boolean {
+  return INTENT_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminalStatus(status: IntentStatus): boolean {
+  return TERMINAL_INTENT_STATUSES.includes(status);
+}
+
+export function isIntentStatus(value: unknown): value is IntentStatus {
+  return INTENT_STATUSES.includes(value as IntentStatus);
+}
+
+/**
+ * One observed status of an intent: from a webhook event, or from the API
+ */
+export interface StatusObservation {
+  status: IntentStatus;
+  at: string;
+  source: 'webhook' | 'api';
+  eventId?: string;
+}
+
+/**
+ * A period the intent spent in one status
+ */
+export interface IntentStage {
+  status: IntentStatus;
+  description: string;
+  enteredAt: string;
+  exitedAt?: string;
+  // Time spent in this stage; for the current stage, time spent so far
+  durationMs?: number;
+  source: StatusObservation['source'] | 'initial';
+  eventId?: string;
+}
+
+/**
+ * An observation that would have been an impossible transition
+ */
+export interface RejectedTransition {
+  from: IntentStatus;
+  to: IntentStatus;
+  at: string;
+  source: StatusObservation['source'];
+  eventId?: string;
+  reason: string;
+}
+
+export interface IntentTimeline {
+  currentStatus: IntentStatus;
+  isTerminal: boolean;
+  stages: IntentStage[];
+  rejected: RejectedTransition[];
+}
+
+/**
+ * Replay status observations through the state machine.
+ *
+ * Observations are applied in timestamp order, not arrival order, so webhooks
+ * delivered out of order still build the right history. Repeats of the
+ * current status are ignored; impossible transitions (e.g. COMPLETED followed
+ * by FUNDED) are left out of the timeline and reported in `rejected`.
+ */
+export function buildIntentTimeline(
+  initial: { status: IntentStatus; at: string },
+  observations: StatusObservation[],
+  now: Date = new Date(),
+): IntentTimeline {
+  const stages: IntentStage[] = [
+    {
+      status: initial.status,
+      description: INTENT_STAGE_DESCRIPTIONS[initial.status],
+      enteredAt: initial.at,
+      source: 'initial',
+    },
+  ];
+  const rejected: RejectedTransition[] = [];
+
+  const ordered = [...observations].sort((a, b) => a.at.localeCompare(b.at));
+
+  for (const observation of ordered) {
+    const current = stages[stages.length - 1];
+    if (observation.status === current.status) {
+      continue;
+    }
+
+    if (!canTransition(current.status, observation.status)) {
+      rejected.push({
+        from: current.status,
+        to: observation.status,
+        at: observation.at,
+        source: observation.source,
+        eventId: observation.eventId,
+        reason: isTerminalStatus(current.status)
+          ? `${current.status} is terminal`
+          : `${current.status} cannot move to ${observation.status}`,
+      });
+      continue;
+    }
+
+    current.exitedAt = observation.at;
+    stages.push({
+      status: observation.status,
+      description: INTENT_STAGE_DESCRIPTIONS[observation.status],
+      enteredAt: observation.at,
+      source: observation.source,
+      eventId: observation.eventId,
+    });
+  }
+
+  const currentStatus = stages[stages.length - 1].status;
+  for (const stage of stages) {
+    if (stage.exitedAt) {
+      stage.durationMs =
+        Date.parse(stage.exitedAt) - Date.parse(stage.enteredAt);
+    } else if (!isTerminalStatus(stage.status)) {
+      stage.durationMs = now.getTime() - Date.parse(stage.enteredAt);
+    }
+  }
+
+  return {
+    currentStatus,
+    isTerminal: isTerminalStatus(currentStatus),
+    stages,
+    rejected,
+  };
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { IntentLifecycleService } from './intent-lifecycle.service';
+
+@Module({
+  imports: [WebhooksModule],
+  providers: [IntentLifecycleService],
+  exports: [IntentLifecycleService],
+})
+export class LifecycleModule {}
@@ -1,8 +1,11 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { configureApp } from './app.setup';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody: webhook signatures are verified over the exact bytes received
+  const app = await NestFactory.create(AppModule, { rawBody: true });
+  configureApp(app);
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
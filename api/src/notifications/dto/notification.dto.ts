@@ -0,0 +1,160 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ValidationArguments,
+  isEmail,
+  isURL,
+  registerDecorator,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MinLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import {
+  DELIVERY_STATUSES,
+  DeliveryStatus,
+  NOTIFICATION_CHANNELS,
+  NotificationChannelType,
+} from '../notification.model';
+
+/**
+ * Checks the target fits the subscription's channel: an http(s) URL for
+ * http, an email address for email. Sink names are checked by the service.
+ */
+function IsNotificationTarget() {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isNotificationTarget',
+      target: object.constructor,
+      propertyName,
+      validator: {
+        validate(value: unknown, args: ValidationArguments) {
+          switch ((args.object as CreateSubscriptionDto).channel) {
+            case 'http':
+              return isURL(String(value), {
+                protocols: ['http', 'https'],
+                require_protocol: true,
+                require_tld: false,
+              });
+            case 'email':
+              return isEmail(value);
+            default:
+              return true;
+          }
+        },
+        defaultMessage(args: ValidationArguments) {
+          return (args.object as CreateSubscriptionDto).channel === 'email'
+            ? 'target must be an email address for the email channel'
+            : 'target must be an http(s) URL for the http channel';
+        },
+      },
+    });
+  };
+}
+
+export class CreateSubscriptionDto {
+  @ApiProperty({ enum: NOTIFICATION_CHANNELS, example: 'http' })
+  @IsIn(NOTIFICATION_CHANNELS)
+  channel: NotificationChannelType;
+
+  @ApiProperty({
+    description:
+      'Callback URL (http), email address (email) or message sink name (sink)',
+    example: 'https://example.com/chainrails-notifications',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsNotificationTarget()
+  target: string;
+
+  @ApiPropertyOptional({
+    description: 'Webhook event types to notify about (default: all)',
+    example: ['intent.funded', 'intent.completed'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  eventTypes?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Notify about this intent (or use senderAddress)',
+    example: 1,
+  })
+  @ValidateIf(
+    (dto) => dto.senderAddress === undefined || dto.intentId !== undefined,
+  )
+  @Type(() => Number)
+  @IsInt({ message: 'intentId or senderAddress is required' })
+  @Min(1)
+  intentId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Notify about every intent sent from this address',
+    example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  })
+  @IsOptional()
+  @IsChainAddress()
+  senderAddress?: string;
+
+  @ApiPropertyOptional({
+    description: 'Signing secret (default: a random one is generated)',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+}
+
+export class SubscriptionIdParamsDto {
+  @ApiProperty({ description: 'Subscription ID' })
+  @IsUUID()
+  id: string;
+}
+
+export class DeliveryIdParamsDto {
+  @ApiProperty({ description: 'Delivery ID' })
+  @IsUUID()
+  id: string;
+}
+
+export class ListDeliveriesQueryDto {
+  @ApiPropertyOptional({ description: 'Only deliveries for this subscription' })
+  @IsOptional()
+  @IsUUID()
+  subscriptionId?: string;
+
+  @ApiPropertyOptional({ description: 'Only deliveries of this webhook event' })
+  @IsOptional()
+  @IsString()
+  eventId?: string;
+
+  @ApiPropertyOptional({ description: 'Only deliveries about this intent' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  intentId?: number;
+
+  @ApiPropertyOptional({ enum: DELIVERY_STATUSES })
+  @IsOptional()
+  @IsIn(DELIVERY_STATUSES)
+  status?: DeliveryStatus;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 500, default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
@@ -0,0 +1,65 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Transporter, createTransport } from 'nodemailer';
+import {
+  NotificationChannel,
+  SignedNotification,
+} from './notification-channel';
+
+/**
+ * Emails the notification through the SMTP server in SMTP_HOST/SMTP_PORT.
+ *
+ * The JSON body is the plain-text content and the signature headers are
+ * added to the email, so a mail-processing subscriber can verify it too.
+ * For local testing, point SMTP_HOST at an SMTP sink such as MailHog.
+ */
+@Injectable()
+export class EmailNotificationChannel
+  implements NotificationChannel, OnModuleDestroy
+{
+  readonly type = 'email' as const;
+  private transporter?: Transporter;
+
+  constructor(private configService: ConfigService) {}
+
+  async send(to: string, notification: SignedNotification): Promise<void> {
+    const message = JSON.parse(notification.body);
+    const event = message.event;
+    const intent = event.intentId ?? event.intentAddress;
+
+    await this.getTransporter().sendMail({
+      from:
+        this.configService.get<string>('NOTIFICATIONS_EMAIL_FROM') ||
+        'notifications@chainrails-demo.local',
+      to,
+      subject: `[Chainrails] ${event.type}${intent ? ` for intent ${intent}` : ''}`,
+      text: JSON.stringify(message, null, 2),
+      headers: notification.headers,
+    });
+  }
+
+  onModuleDestroy() {
+    this.transporter?.close();
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const host = this.configService.get<string>('SMTP_HOST');
+      if (!host) {
+        throw new Error('SMTP_HOST is not configured');
+      }
+
+      const user = this.configService.get<string>('SMTP_USER');
+      this.transporter = createTransport({
+        host,
+        port: Number(this.configService.get('SMTP_PORT') ?? 587),
+        secure:
+          String(this.configService.get('SMTP_SECURE') ?? 'false') === 'true',
+        ...(user && {
+          auth: { user, pass: this.configService.get<string>('SMTP_PASS') },
+        }),
+      });
+    }
+    return this.transporter;
+  }
+}
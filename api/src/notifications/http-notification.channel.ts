@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  NotificationChannel,
+  SignedNotification,
+} from './notification-channel';
+
+/**
+ * POSTs the notification as JSON to the subscriber's callback URL.
+ * Any non-2xx response (or no response within NOTIFICATIONS_HTTP_TIMEOUT_MS)
+ * is a failed attempt.
+ */
+@Injectable()
+export class HttpNotificationChannel implements NotificationChannel {
+  readonly type = 'http' as const;
+  private readonly timeoutMs: number;
+
+  constructor(private configService: ConfigService) {
+    this.timeoutMs = Number(
+      this.configService.get('NOTIFICATIONS_HTTP_TIMEOUT_MS') ?? 10000,
+    );
+  }
+
+  async send(url: string, notification: SignedNotification): Promise<void> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...notification.headers,
+      },
+      body: notification.body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+  }
+}
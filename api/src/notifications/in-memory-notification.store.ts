@@ -0,0 +1,78 @@
+import {
+  DeliveryQuery,
+  NotificationDelivery,
+  NotificationSubscription,
+} from './notification.model';
+import { NotificationStore } from './notification.store';
+
+/**
+ * Keeps subscriptions and deliveries in Maps. Nothing survives a restart -
+ * use it for tests and local experiments only.
+ */
+export class InMemoryNotificationStore implements NotificationStore {
+  private readonly subscriptions = new Map<string, NotificationSubscription>();
+  private readonly deliveries = new Map<string, NotificationDelivery>();
+
+  async saveSubscription(
+    subscription: NotificationSubscription,
+  ): Promise<void> {
+    this.subscriptions.set(subscription.id, structuredClone(subscription));
+  }
+
+  async getSubscription(
+    id: string,
+  ): Promise<NotificationSubscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    return subscription && structuredClone(subscription);
+  }
+
+  async listSubscriptions(): Promise<NotificationSubscription[]> {
+    return [...this.subscriptions.values()].map((s) => structuredClone(s));
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    return this.subscriptions.delete(id);
+  }
+
+  async findSubscriptionsFor(target: {
+    intentId?: number;
+    senderAddress?: string;
+  }): Promise<NotificationSubscription[]> {
+    const sender = target.senderAddress?.toLowerCase();
+    return [...this.subscriptions.values()]
+      .filter(
+        (subscription) =>
+          (target.intentId !== undefined &&
+            subscription.intentId === target.intentId) ||
+          (sender !== undefined &&
+            subscription.senderAddress?.toLowerCase() === sender),
+      )
+      .map((s) => structuredClone(s));
+  }
+
+  async saveDelivery(delivery: NotificationDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, structuredClone(delivery));
+  }
+
+  async getDelivery(id: string): Promise<NotificationDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    return delivery && structuredClone(delivery);
+  }
+
+  async findDeliveries(query: DeliveryQuery): Promise<NotificationDelivery[]> {
+    const matches = [...this.deliveries.values()]
+      .filter(
+        (delivery) =>
+          (query.subscriptionId === undefined ||
+            delivery.subscriptionId === query.subscriptionId) &&
+          (query.eventId === undefined || delivery.eventId === query.eventId) &&
+          (query.intentId === undefined ||
+            delivery.intentId === query.intentId) &&
+          (query.status === undefined || delivery.status === query.status),
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((d) => structuredClone(d));
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+}
@@ -0,0 +1,25 @@
+import { NotificationChannelType } from './notification.model';
+
+/**
+ * A notification ready to go out: the JSON body and the headers that sign it.
+ *
+ * Headers:
+ * - X-Notification-ID: the delivery id (the same on every retry)
+ * - X-Notification-Event-Type: the webhook event type
+ * - X-Notification-Timestamp: Unix timestamp of this attempt
+ * - X-Notification-Signature: sha256=HMAC(secret, `${timestamp}.${body}`)
+ */
+export interface SignedNotification {
+  body: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends signed notifications over one kind of channel.
+ * A rejected promise counts as a failed attempt and is retried.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+
+  send(target: string, notification: SignedNotification): Promise<void>;
+}
@@ -0,0 +1,317 @@
+import { ConfigService } from '@nestjs/config';
+import { AddressInfo, Server as NetServer, createServer } from 'net';
+import { IncomingHttpHeaders, Server, createServer as createHttp } from 'http';
+import { IntentsService } from '../intents/intents.service';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { signPayload } from '../webhooks/webhook-signature.service';
+import { EmailNotificationChannel } from './email-notification.channel';
+import { HttpNotificationChannel } from './http-notification.channel';
+import { InMemoryNotificationStore } from './in-memory-notification.store';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationSinkRegistry } from './notification-sink.registry';
+import { NotificationDelivery } from './notification.model';
+import { NotificationsService } from './notifications.service';
+
+function event(changes: Partial<WebhookEvent> = {}): WebhookEvent {
+  return {
+    id: 'evt_1',
+    type: 'intent.completed',
+    intentId: 1,
+    intentAddress: '0x0000000000000000000000000000000000000001',
+    createdAt: '2025-12-05T14:00:00.000Z',
+    receivedAt: '2025-12-05T14:00:00.000Z',
+    data: { intent_id: 1, status: 'COMPLETED' },
+    ...changes,
+  };
+}
+
+/**
+ * Callback endpoint that answers with the next queued status (200 when empty)
+ */
+async function startHttpStub() {
+  const requests: { headers: IncomingHttpHeaders; body: string }[] = [];
+  const statuses: number[] = [];
+  const server: Server = createHttp((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, requests, statuses, url: `http://127.0.0.1:${port}/hook` };
+}
+
+/**
+ * Just enough of an SMTP server to accept mail and keep the raw messages
+ */
+async function startSmtpSink() {
+  const messages: string[] = [];
+  const server: NetServer = createServer((socket) => {
+    let inData = false;
+    let buffer = '';
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 OK\r\n');
+      }
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const command = buffer.slice(0, newline).toUpperCase();
+        buffer = buffer.slice(newline + 2);
+        if (command.startsWith('DATA')) {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command.startsWith('QUIT')) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, messages, port };
+}
+
+async function waitFor<T>(
+  check: () => Promise<T | undefined>,
+  timeoutMs = 2000,
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('NotificationDispatcherService', () => {
+  let store: InMemoryNotificationStore;
+  let bus: WebhookEventBus;
+  let sinks: NotificationSinkRegistry;
+  let email: EmailNotificationChannel;
+  let dispatcher: NotificationDispatcherService;
+  let notifications: NotificationsService;
+  let getIntentStatus: jest.Mock;
+  let smtpPort: number;
+
+  function createDispatcher(config: Record<string, any> = {}) {
+    const configService = new ConfigService({
+      NOTIFICATIONS_MAX_ATTEMPTS: 3,
+      NOTIFICATIONS_RETRY_BASE_MS: 5,
+      NOTIFICATIONS_RETRY_MAX_MS: 20,
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: smtpPort,
+      ...config,
+    });
+    email = new EmailNotificationChannel(configService);
+    dispatcher = new NotificationDispatcherService(
+      store,
+      bus,
+      { getIntentStatus } as unknown as IntentsService,
+      configService,
+      new HttpNotificationChannel(configService),
+      email,
+      sinks,
+    );
+    notifications = new NotificationsService(store, dispatcher, sinks);
+  }
+
+  beforeEach(() => {
+    store = new InMemoryNotificationStore();
+    bus = new WebhookEventBus();
+    sinks = new NotificationSinkRegistry();
+    getIntentStatus = jest.fn(async (id: number) => ({
+      id,
+      intent_address: '0x0000000000000000000000000000000000000001',
+      intent_status: 'COMPLETED',
+      sender: '0xB79541bE080a59fDCE6c0B43219BA56c725eC65e',
+    }));
+    smtpPort = 0;
+    createDispatcher();
+  });
+
+  afterEach(() => {
+    dispatcher.onModuleDestroy();
+    email.onModuleDestroy();
+  });
+
+  it('POSTs signed notifications to HTTP subscribers', async () => {
+    const stub = await startHttpStub();
+    try {
+      const subscription = await notifications.subscribe({
+        channel: 'http',
+        target: stub.url,
+        intentId: 1,
+      });
+
+      const [delivery] = await dispatcher.dispatch(event());
+
+      expect(delivery).toMatchObject({
+        status: 'delivered',
+        attempts: 1,
+        eventId: 'evt_1',
+      });
+      expect(stub.requests).toHaveLength(1);
+      const { headers, body } = stub.requests[0];
+      expect(headers['x-notification-id']).toBe(delivery.id);
+      expect(headers['x-notification-signature']).toBe(
+        signPayload(
+          subscription.secret,
+          headers['x-notification-timestamp'] as string,
+          body,
+        ),
+      );
+      expect(JSON.parse(body)).toMatchObject({
+        deliveryId: delivery.id,
+        event: { id: 'evt_1', type: 'intent.completed' },
+      });
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('retries failed deliveries with backoff and logs every attempt', async () => {
+    const stub = await startHttpStub();
+    stub.statuses.push(500, 503);
+    try {
+      await notifications.subscribe({
+        channel: 'http',
+        target: stub.url,
+        intentId: 1,
+      });
+
+      const [first] = await dispatcher.dispatch(event());
+      expect(first).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        lastError: expect.stringContaining('500'),
+      });
+
+      const delivered = await waitFor(async () => {
+        const delivery = await store.getDelivery(first.id);
+        return delivery.status === 'delivered' ? delivery : undefined;
+      });
+      expect(delivered.attempts).toBe(3);
+      expect(stub.requests.map((r) => r.headers['x-notification-id'])).toEqual([
+        first.id,
+        first.id,
+        first.id,
+      ]);
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('marks a delivery failed after the last attempt', async () => {
+    await notifications.subscribe({
+      channel: 'http',
+      target: 'http://127.0.0.1:1/unreachable',
+      intentId: 1,
+    });
+
+    const [first] = await dispatcher.dispatch(event());
+    const failed = await waitFor(async () => {
+      const [delivery] = await notifications.findDeliveries({
+        status: 'failed',
+      });
+      return delivery;
+    });
+
+    expect(failed).toMatchObject({ id: first.id, attempts: 3 });
+    expect(failed.lastError).toBeDefined();
+    expect(failed.nextAttemptAt).toBeUndefined();
+  });
+
+  it('emails subscribers through SMTP', async () => {
+    const smtp = await startSmtpSink();
+    smtpPort = smtp.port;
+    createDispatcher();
+    try {
+      await notifications.subscribe({
+        channel: 'email',
+        target: 'alice@example.com',
+        intentId: 1,
+      });
+
+      const [delivery] = await dispatcher.dispatch(event());
+
+      expect(delivery.status).toBe('delivered');
+      expect(smtp.messages).toHaveLength(1);
+      expect(smtp.messages[0]).toContain('To: alice@example.com');
+      expect(smtp.messages[0]).toContain(
+        'Subject: [Chainrails] intent.completed for intent 1',
+      );
+      expect(smtp.messages[0]).toMatch(
+        /X-Notification-Signature:\s+sha256=[0-9a-f]{64}/,
+      );
+    } finally {
+      smtp.server.close();
+    }
+  });
+
+  it('only notifies about subscribed event types', async () => {
+    const received: NotificationDelivery['message'][] = [];
+    sinks.register('memory', (message) => {
+      received.push(message);
+    });
+    await notifications.subscribe({
+      channel: 'sink',
+      target: 'memory',
+      intentId: 1,
+      eventTypes: ['intent.funded'],
+    });
+
+    await dispatcher.dispatch(event());
+    await dispatcher.dispatch(
+      event({ id: 'evt_2', type: 'intent.funded', data: { status: 'FUNDED' } }),
+    );
+
+    expect(received.map((message) => message.event.id)).toEqual(['evt_2']);
+  });
+
+  it('matches sender subscriptions by looking up the intent', async () => {
+    const received: string[] = [];
+    sinks.register('memory', (message) => {
+      received.push(message.event.id);
+    });
+    await notifications.subscribe({
+      channel: 'sink',
+      target: 'memory',
+      senderAddress: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+    });
+
+    await dispatcher.onApplicationBootstrap();
+    bus.publish(event({ intentId: 42 }));
+
+    await waitFor(async () => received.length > 0);
+    expect(getIntentStatus).toHaveBeenCalledWith(42);
+    expect(received).toEqual(['evt_1']);
+  });
+
+  it('rejects subscriptions without an intent or sender, or to unknown sinks', async () => {
+    await expect(
+      notifications.subscribe({ channel: 'sink', target: 'log' }),
+    ).rejects.toThrow('intentId or a senderAddress');
+    await expect(
+      notifications.subscribe({
+        channel: 'sink',
+        target: 'nowhere',
+        intentId: 1,
+      }),
+    ).rejects.toThrow('Unknown message sink');
+  });
+});
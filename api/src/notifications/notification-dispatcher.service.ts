@@ -0,0 +1,317 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Subscription } from 'rxjs';
+import { RetryPolicy, computeBackoffDelay } from '../chainrails/retry-policy';
+import { IntentsService } from '../intents/intents.service';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { signPayload } from '../webhooks/webhook-signature.service';
+import { EmailNotificationChannel } from './email-notification.channel';
+import { HttpNotificationChannel } from './http-notification.channel';
+import {
+  NotificationChannel,
+  SignedNotification,
+} from './notification-channel';
+import { NotificationSinkRegistry } from './notification-sink.registry';
+import {
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationMessage,
+  NotificationSubscription,
+} from './notification.model';
+import { NOTIFICATION_STORE, NotificationStore } from './notification.store';
+
+/**
+ * NOTIFICATION DISPATCHER SERVICE
+ *
+ * Purpose: Tell subscribers about intent lifecycle events
+ *
+ * Every event on the WebhookEventBus (real webhooks and the reconciler's
+ * synthetic ones) is matched against the subscriptions for its intent and
+ * for the intent's sender. Each match becomes a delivery in the delivery log,
+ * which is then signed with the subscription's secret and sent.
+ *
+ * Failed attempts are retried with jittered exponential backoff
+ * (NOTIFICATIONS_RETRY_BASE_MS doubling up to NOTIFICATIONS_RETRY_MAX_MS)
+ * until NOTIFICATIONS_MAX_ATTEMPTS is reached, then the delivery is marked
+ * failed. Pending deliveries are picked up again after a restart.
+ */
+@Injectable()
+export class NotificationDispatcherService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+  private readonly retryPolicy: RetryPolicy;
+  private readonly channels: Record<
+    NotificationChannelType,
+    NotificationChannel
+  >;
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private subscription?: Subscription;
+
+  constructor(
+    @Inject(NOTIFICATION_STORE)
+    private readonly store: NotificationStore,
+    private readonly webhookBus: WebhookEventBus,
+    private readonly intentsService: IntentsService,
+    private configService: ConfigService,
+    httpChannel: HttpNotificationChannel,
+    emailChannel: EmailNotificationChannel,
+    sinks: NotificationSinkRegistry,
+  ) {
+    this.channels = { http: httpChannel, email: emailChannel, sink: sinks };
+    this.retryPolicy = {
+      maxAttempts: Number(
+        this.configService.get('NOTIFICATIONS_MAX_ATTEMPTS') ?? 5,
+      ),
+      baseDelayMs: Number(
+        this.configService.get('NOTIFICATIONS_RETRY_BASE_MS') ?? 5000,
+      ),
+      maxDelayMs: Number(
+        this.configService.get('NOTIFICATIONS_RETRY_MAX_MS') ?? 300000,
+      ),
+    };
+  }
+
+  async onApplicationBootstrap() {
+    this.subscription = this.webhookBus.events$.subscribe((event) => {
+      this.dispatch(event).catch((error) =>
+        this.logger.error(
+          `❌ Dispatching notifications for event ${event.id} failed: ${error.message}`,
+        ),
+      );
+    });
+
+    const pending = await this.store.findDeliveries({ status: 'pending' });
+    pending.forEach((delivery) =>
+      this.schedule(
+        delivery.id,
+        Date.parse(delivery.nextAttemptAt ?? delivery.updatedAt) - Date.now(),
+      ),
+    );
+    if (pending.length) {
+      this.logger.log(`✅ Resuming ${pending.length} pending notifications`);
+    }
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Create and send a delivery for every subscription interested in this event
+   *
+   * @returns the deliveries after their first attempt
+   */
+  async dispatch(event: WebhookEvent): Promise<NotificationDelivery[]> {
+    const subscriptions = (await this.findSubscriptions(event)).filter(
+      (subscription) => matchesEventType(subscription, event.type),
+    );
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const subscription of subscriptions) {
+      const delivery = this.createDelivery(subscription, event);
+      await this.store.saveDelivery(delivery);
+      deliveries.push(await this.attempt(delivery.id));
+    }
+    return deliveries;
+  }
+
+  /**
+   * Send a delivery once more, right now. A failed delivery gets a fresh
+   * set of attempts.
+   */
+  async redeliver(deliveryId: string): Promise<NotificationDelivery> {
+    const delivery = await this.store.getDelivery(deliveryId);
+    if (!delivery) {
+      return undefined;
+    }
+    if (delivery.status === 'failed') {
+      await this.store.saveDelivery({
+        ...delivery,
+        status: 'pending',
+        attempts: 0,
+      });
+    }
+    return this.attempt(deliveryId);
+  }
+
+  private async findSubscriptions(
+    event: WebhookEvent,
+  ): Promise<NotificationSubscription[]> {
+    let senderAddress: string | undefined = event.data?.sender;
+
+    // Webhook payloads don't always say who sent the intent, so look it up,
+    // but only if anyone subscribed by sender
+    if (!senderAddress && event.intentId !== undefined) {
+      const all = await this.store.listSubscriptions();
+      if (all.some((subscription) => subscription.senderAddress)) {
+        try {
+          const intent = await this.intentsService.getIntentStatus(
+            event.intentId,
+          );
+          senderAddress = intent.sender;
+        } catch (error) {
+          this.logger.warn(
+            `Could not look up the sender of intent ${event.intentId}: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    return this.store.findSubscriptionsFor({
+      intentId: event.intentId,
+      senderAddress,
+    });
+  }
+
+  private createDelivery(
+    subscription: NotificationSubscription,
+    event: WebhookEvent,
+  ): NotificationDelivery {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    const message: NotificationMessage = {
+      deliveryId: id,
+      subscriptionId: subscription.id,
+      event,
+    };
+
+    return {
+      id,
+      subscriptionId: subscription.id,
+      channel: subscription.channel,
+      target: subscription.target,
+      eventId: event.id,
+      eventType: event.type,
+      intentId: event.intentId,
+      status: 'pending',
+      attempts: 0,
+      message,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: now,
+    };
+  }
+
+  private async attempt(deliveryId: string): Promise<NotificationDelivery> {
+    this.timers.delete(deliveryId);
+    const delivery = await this.store.getDelivery(deliveryId);
+    if (!delivery || delivery.status !== 'pending') {
+      return delivery;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+    let updated: NotificationDelivery;
+
+    try {
+      const subscription = await this.store.getSubscription(
+        delivery.subscriptionId,
+      );
+      if (!subscription) {
+        throw new Error('Subscription was deleted');
+      }
+
+      await this.channels[delivery.channel].send(
+        delivery.target,
+        signNotification(delivery, subscription.secret, now),
+      );
+
+      updated = {
+        ...delivery,
+        status: 'delivered',
+        attempts,
+        lastError: undefined,
+        updatedAt: new Date(now).toISOString(),
+        deliveredAt: new Date(now).toISOString(),
+        nextAttemptAt: undefined,
+      };
+      this.logger.log(
+        `✅ Notified ${delivery.channel}:${delivery.target} of ${delivery.eventType} (attempt ${attempts})`,
+      );
+    } catch (error) {
+      const giveUp = attempts >= this.retryPolicy.maxAttempts;
+      const delay = computeBackoffDelay(attempts, this.retryPolicy);
+
+      updated = {
+        ...delivery,
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        lastError: error.message,
+        updatedAt: new Date(now).toISOString(),
+        nextAttemptAt: giveUp ? undefined : new Date(now + delay).toISOString(),
+      };
+      this.logger.warn(
+        giveUp
+          ? `❌ Notifying ${delivery.channel}:${delivery.target} failed after ${attempts} attempts: ${error.message}`
+          : `❌ Notifying ${delivery.channel}:${delivery.target} failed (attempt ${attempts}/${this.retryPolicy.maxAttempts}), retrying in ${delay}ms: ${error.message}`,
+      );
+      if (!giveUp) {
+        this.schedule(delivery.id, delay);
+      }
+    }
+
+    await this.store.saveDelivery(updated);
+    return updated;
+  }
+
+  private schedule(deliveryId: string, delayMs: number) {
+    clearTimeout(this.timers.get(deliveryId));
+    const timer = setTimeout(
+      () => {
+        this.attempt(deliveryId).catch((error) =>
+          this.logger.error(
+            `❌ Notification ${deliveryId} failed: ${error.message}`,
+          ),
+        );
+      },
+      Math.max(0, delayMs),
+    );
+    // Don't keep the process alive just for a retry
+    timer.unref?.();
+    this.timers.set(deliveryId, timer);
+  }
+}
+
+function matchesEventType(
+  subscription: NotificationSubscription,
+  type: string,
+): boolean {
+  return (
+    subscription.eventTypes.includes('*') ||
+    subscription.eventTypes.includes(type)
+  );
+}
+
+/**
+ * Serialize a delivery's message and sign it with the subscription's secret,
+ * the same way Chainrails signs its webhooks
+ */
+export function signNotification(
+  delivery: NotificationDelivery,
+  secret: string,
+  now = Date.now(),
+): SignedNotification {
+  const body = JSON.stringify(delivery.message);
+  const timestamp = String(Math.floor(now / 1000));
+
+  return {
+    body,
+    headers: {
+      'X-Notification-ID': delivery.id,
+      'X-Notification-Event-Type': delivery.eventType,
+      'X-Notification-Timestamp': timestamp,
+      'X-Notification-Signature': signPayload(secret, timestamp, body),
+    },
+  };
+}
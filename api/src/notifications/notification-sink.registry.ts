@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationMessage } from './notification.model';
+import {
+  NotificationChannel,
+  SignedNotification,
+} from './notification-channel';
+
+/**
+ * Receives notifications in-process, e.g. to push them onto a queue,
+ * a chat webhook or a test recorder
+ */
+export type MessageSink = (
+  message: NotificationMessage,
+  notification: SignedNotification,
+) => Promise<void> | void;
+
+/**
+ * The `sink` channel: subscriptions name a sink registered here.
+ *
+ * A `log` sink, which just logs each notification, is always available.
+ * Register your own from any provider:
+ *
+ * ```typescript
+ * constructor(sinks: NotificationSinkRegistry) {
+ *   sinks.register('queue', (message) => queue.add(message));
+ * }
+ * ```
+ */
+@Injectable()
+export class NotificationSinkRegistry implements NotificationChannel {
+  readonly type = 'sink' as const;
+  private readonly logger = new Logger(NotificationSinkRegistry.name);
+  private readonly sinks = new Map<string, MessageSink>();
+
+  constructor() {
+    this.register('log', (message) =>
+      this.logger.log(
+        `Notification ${message.deliveryId}: ${message.event.type} (event ${message.event.id})`,
+      ),
+    );
+  }
+
+  register(name: string, sink: MessageSink) {
+    this.sinks.set(name, sink);
+  }
+
+  unregister(name: string) {
+    this.sinks.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.sinks.has(name);
+  }
+
+  names(): string[] {
+    return [...this.sinks.keys()];
+  }
+
+  async send(name: string, notification: SignedNotification): Promise<void> {
+    const sink = this.sinks.get(name);
+    if (!sink) {
+      throw new Error(`No message sink named "${name}"`);
+    }
+    await sink(JSON.parse(notification.body), notification);
+  }
+}
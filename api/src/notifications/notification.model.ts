@@ -0,0 +1,77 @@
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+
+/**
+ * How a subscriber is notified:
+ * - http: POST to a callback URL
+ * - email: an email through the configured SMTP server
+ * - sink: handed to a message sink registered in code (see NotificationSinkRegistry)
+ */
+export const NOTIFICATION_CHANNELS = ['http', 'email', 'sink'] as const;
+
+export type NotificationChannelType = (typeof NOTIFICATION_CHANNELS)[number];
+
+/**
+ * Who wants to hear about which events.
+ *
+ * A subscription watches either one intent (intentId) or every intent sent
+ * from an address (senderAddress). `eventTypes` lists the webhook event types
+ * to notify about, or ['*'] for all of them.
+ */
+export interface NotificationSubscription {
+  id: string;
+  channel: NotificationChannelType;
+  // Callback URL, email address or sink name, depending on the channel
+  target: string;
+  eventTypes: string[];
+  intentId?: number;
+  senderAddress?: string;
+  // Signs every delivery, so the subscriber can check it came from us
+  secret: string;
+  createdAt: string;
+}
+
+export const DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+/**
+ * What a subscriber receives
+ */
+export interface NotificationMessage {
+  deliveryId: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+}
+
+/**
+ * One notification for one subscriber, and how sending it went
+ */
+export interface NotificationDelivery {
+  id: string;
+  subscriptionId: string;
+  channel: NotificationChannelType;
+  target: string;
+  eventId: string;
+  eventType: string;
+  intentId?: number;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  message: NotificationMessage;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+  // When a pending delivery is due for its next attempt
+  nextAttemptAt?: string;
+}
+
+/**
+ * Filters for the delivery log. All given filters must match.
+ */
+export interface DeliveryQuery {
+  subscriptionId?: string;
+  eventId?: string;
+  intentId?: number;
+  status?: DeliveryStatus;
+  limit?: number;
+}
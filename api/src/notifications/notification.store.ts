@@ -0,0 +1,51 @@
+import {
+  DeliveryQuery,
+  NotificationDelivery,
+  NotificationSubscription,
+} from './notification.model';
+
+/**
+ * Injection token for the configured NotificationStore
+ */
+export const NOTIFICATION_STORE = Symbol('NOTIFICATION_STORE');
+
+/**
+ * Where subscriptions and the delivery log are kept.
+ *
+ * Implementations:
+ * - SqliteNotificationStore: persisted in the shared DATABASE_PATH file
+ * - InMemoryNotificationStore: lost on restart, handy for tests
+ */
+export interface NotificationStore {
+  saveSubscription(subscription: NotificationSubscription): Promise<void>;
+
+  getSubscription(id: string): Promise<NotificationSubscription | undefined>;
+
+  listSubscriptions(): Promise<NotificationSubscription[]>;
+
+  /**
+   * @returns false if there was no such subscription
+   */
+  deleteSubscription(id: string): Promise<boolean>;
+
+  /**
+   * Subscriptions watching this intent or this sender address
+   * (event types are not filtered here)
+   */
+  findSubscriptionsFor(target: {
+    intentId?: number;
+    senderAddress?: string;
+  }): Promise<NotificationSubscription[]>;
+
+  /**
+   * Insert or replace a delivery
+   */
+  saveDelivery(delivery: NotificationDelivery): Promise<void>;
+
+  getDelivery(id: string): Promise<NotificationDelivery | undefined>;
+
+  /**
+   * Newest first
+   */
+  findDeliveries(query: DeliveryQuery): Promise<NotificationDelivery[]>;
+}
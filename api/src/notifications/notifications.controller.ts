@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import {
+  CreateSubscriptionDto,
+  DeliveryIdParamsDto,
+  ListDeliveriesQueryDto,
+  SubscriptionIdParamsDto,
+} from './dto/notification.dto';
+
+/**
+ * NOTIFICATIONS CONTROLLER
+ *
+ * HTTP endpoints for notification subscriptions and the delivery log.
+ *
+ * Endpoints:
+ * - POST /notifications/subscriptions - Subscribe to lifecycle events
+ * - GET /notifications/subscriptions - List subscriptions
+ * - GET /notifications/subscriptions/:id - Get a subscription
+ * - DELETE /notifications/subscriptions/:id - Unsubscribe
+ * - GET /notifications/deliveries - Query the delivery log
+ * - GET /notifications/deliveries/:id - Get a delivery
+ * - POST /notifications/deliveries/:id/retry - Send a delivery again
+ */
+@ApiTags('notifications')
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * POST /notifications/subscriptions
+   *
+   * Body params:
+   * - channel: http, email or sink
+   * - target: Callback URL, email address or sink name
+   * - eventTypes: (Optional) e.g. ["intent.completed"], default all
+   * - intentId or senderAddress: What to watch
+   * - secret: (Optional) Signing secret, generated if left out
+   *
+   * The response includes the signing secret. It isn't shown again.
+   */
+  @Post('subscriptions')
+  async subscribe(@Body() body: CreateSubscriptionDto) {
+    return this.notificationsService.subscribe(body);
+  }
+
+  @Get('subscriptions')
+  async listSubscriptions() {
+    return this.notificationsService.listSubscriptions();
+  }
+
+  @Get('subscriptions/:id')
+  async getSubscription(@Param() params: SubscriptionIdParamsDto) {
+    return this.notificationsService.getSubscription(params.id);
+  }
+
+  @Delete('subscriptions/:id')
+  @HttpCode(204)
+  async unsubscribe(@Param() params: SubscriptionIdParamsDto) {
+    await this.notificationsService.unsubscribe(params.id);
+  }
+
+  /**
+   * GET /notifications/deliveries
+   * Newest first
+   *
+   * Query params (all optional):
+   * - subscriptionId, eventId, intentId: Filter by what was notified
+   * - status: pending, delivered or failed
+   * - limit: Max results (default 100)
+   */
+  @Get('deliveries')
+  async findDeliveries(@Query() query: ListDeliveriesQueryDto) {
+    return this.notificationsService.findDeliveries(query);
+  }
+
+  @Get('deliveries/:id')
+  async getDelivery(@Param() params: DeliveryIdParamsDto) {
+    return this.notificationsService.getDelivery(params.id);
+  }
+
+  @Post('deliveries/:id/retry')
+  @HttpCode(200)
+  async redeliver(@Param() params: DeliveryIdParamsDto) {
+    return this.notificationsService.redeliver(params.id);
+  }
+}
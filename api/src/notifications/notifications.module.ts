@@ -0,0 +1,63 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { IntentsModule } from '../intents/intents.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { EmailNotificationChannel } from './email-notification.channel';
+import { HttpNotificationChannel } from './http-notification.channel';
+import { InMemoryNotificationStore } from './in-memory-notification.store';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationSinkRegistry } from './notification-sink.registry';
+import { NOTIFICATION_STORE, NotificationStore } from './notification.store';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+import { SqliteNotificationStore } from './sqlite-notification.store';
+
+/**
+ * Provides the notification dispatcher, its channels and the
+ * NotificationStore picked by NOTIFICATION_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ *
+ * NotificationSinkRegistry is exported so other modules can register
+ * their own message sinks.
+ */
+@Module({
+  imports: [ConfigModule, DatabaseModule, IntentsModule, WebhooksModule],
+  controllers: [NotificationsController],
+  providers: [
+    NotificationsService,
+    NotificationDispatcherService,
+    HttpNotificationChannel,
+    EmailNotificationChannel,
+    NotificationSinkRegistry,
+    {
+      provide: NOTIFICATION_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): NotificationStore => {
+        const kind =
+          configService.get<string>('NOTIFICATION_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(NotificationsModule.name).warn(
+              'Notification subscriptions are kept in memory and will be lost on restart.',
+            );
+            return new InMemoryNotificationStore();
+          case 'sqlite':
+            return new SqliteNotificationStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown NOTIFICATION_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [NotificationsService, NotificationSinkRegistry],
+})
+export class NotificationsModule {}
@@ -0,0 +1,161 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes, randomUUID } from 'crypto';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationSinkRegistry } from './notification-sink.registry';
+import {
+  DeliveryQuery,
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationSubscription,
+} from './notification.model';
+import { NOTIFICATION_STORE, NotificationStore } from './notification.store';
+
+/**
+ * A subscription as shown by the API: the secret is only returned once,
+ * when the subscription is created
+ */
+export type SubscriptionView = Omit<NotificationSubscription, 'secret'>;
+
+/**
+ * NOTIFICATIONS SERVICE
+ *
+ * Purpose: Manage notification subscriptions and read the delivery log
+ *
+ * What you'll learn:
+ * - How to let users subscribe to lifecycle events of an intent or sender
+ * - How to hand each subscriber a secret to verify notifications with
+ * - How to inspect and retry deliveries
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    @Inject(NOTIFICATION_STORE)
+    private readonly store: NotificationStore,
+    private readonly dispatcher: NotificationDispatcherService,
+    private readonly sinks: NotificationSinkRegistry,
+  ) {}
+
+  /**
+   * Example 1: Subscribe to Lifecycle Events
+   *
+   * Watch a single intent (intentId) or every intent from a wallet
+   * (senderAddress). Leave eventTypes out to hear about every event.
+   *
+   * The returned secret signs every notification (X-Notification-Signature),
+   * store it on your side - it isn't shown again.
+   */
+  async subscribe(params: {
+    channel: NotificationChannelType;
+    target: string;
+    eventTypes?: string[];
+    intentId?: number;
+    senderAddress?: string;
+    secret?: string;
+  }): Promise<NotificationSubscription> {
+    if (params.intentId === undefined && !params.senderAddress) {
+      throw new BadRequestException(
+        'Subscribe to an intentId or a senderAddress',
+      );
+    }
+    if (params.channel === 'sink' && !this.sinks.has(params.target)) {
+      throw new BadRequestException(
+        `Unknown message sink "${params.target}". Available: ${this.sinks.names().join(', ')}`,
+      );
+    }
+
+    const subscription: NotificationSubscription = {
+      id: randomUUID(),
+      channel: params.channel,
+      target: params.target,
+      eventTypes: params.eventTypes?.length ? params.eventTypes : ['*'],
+      intentId: params.intentId,
+      senderAddress: params.senderAddress,
+      secret: params.secret || randomBytes(32).toString('hex'),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.store.saveSubscription(subscription);
+    this.logger.log(
+      `✅ Subscribed ${subscription.channel}:${subscription.target} to ${
+        subscription.intentId !== undefined
+          ? `intent ${subscription.intentId}`
+          : `sender ${subscription.senderAddress}`
+      }`,
+    );
+    return subscription;
+  }
+
+  async listSubscriptions(): Promise<SubscriptionView[]> {
+    const subscriptions = await this.store.listSubscriptions();
+    return subscriptions.map(toView);
+  }
+
+  async getSubscription(id: string): Promise<SubscriptionView> {
+    const subscription = await this.store.getSubscription(id);
+    if (!subscription) {
+      throw new NotFoundException(`Subscription ${id} not found`);
+    }
+    return toView(subscription);
+  }
+
+  /**
+   * Pending deliveries of a deleted subscription fail on their next attempt
+   */
+  async unsubscribe(id: string): Promise<void> {
+    if (!(await this.store.deleteSubscription(id))) {
+      throw new NotFoundException(`Subscription ${id} not found`);
+    }
+  }
+
+  /**
+   * Example 2: Query the Delivery Log
+   *
+   * Every notification is recorded with its status (pending, delivered,
+   * failed), number of attempts and last error.
+   */
+  async findDeliveries(query: DeliveryQuery): Promise<NotificationDelivery[]> {
+    return this.store.findDeliveries({ limit: 100, ...query });
+  }
+
+  async getDelivery(id: string): Promise<NotificationDelivery> {
+    const delivery = await this.store.getDelivery(id);
+    if (!delivery) {
+      throw new NotFoundException(`Delivery ${id} not found`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Example 3: Retry a Delivery
+   *
+   * Sends the notification again right away, e.g. after the subscriber
+   * fixed their endpoint.
+   */
+  async redeliver(id: string): Promise<NotificationDelivery> {
+    const delivery = await this.dispatcher.redeliver(id);
+    if (!delivery) {
+      throw new NotFoundException(`Delivery ${id} not found`);
+    }
+    return delivery;
+  }
+}
+
+function toView(subscription: NotificationSubscription): SubscriptionView {
+  return {
+    id: subscription.id,
+    channel: subscription.channel,
+    target: subscription.target,
+    eventTypes: subscription.eventTypes,
+    intentId: subscription.intentId,
+    senderAddress: subscription.senderAddress,
+    createdAt: subscription.createdAt,
+  };
+}
@@ -0,0 +1,249 @@
+import type { Database } from 'better-sqlite3';
+import {
+  DeliveryQuery,
+  NotificationDelivery,
+  NotificationSubscription,
+} from './notification.model';
+import { NotificationStore } from './notification.store';
+
+interface SubscriptionRow {
+  id: string;
+  channel: NotificationSubscription['channel'];
+  target: string;
+  event_types: string;
+  intent_id: number | null;
+  sender_address: string | null;
+  secret: string;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  subscription_id: string;
+  channel: NotificationDelivery['channel'];
+  target: string;
+  event_id: string;
+  event_type: string;
+  intent_id: number | null;
+  status: NotificationDelivery['status'];
+  attempts: number;
+  last_error: string | null;
+  message: string;
+  created_at: string;
+  updated_at: string;
+  delivered_at: string | null;
+  next_attempt_at: string | null;
+}
+
+/**
+ * Keeps subscriptions and the delivery log in SQLite tables
+ */
+export class SqliteNotificationStore implements NotificationStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_subscriptions (
+        id TEXT PRIMARY KEY,
+        channel TEXT NOT NULL,
+        target TEXT NOT NULL,
+        event_types TEXT NOT NULL,
+        intent_id INTEGER,
+        sender_address TEXT,
+        secret TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS notification_subscriptions_intent_id
+        ON notification_subscriptions (intent_id);
+      CREATE INDEX IF NOT EXISTS notification_subscriptions_sender_address
+        ON notification_subscriptions (lower(sender_address));
+
+      CREATE TABLE IF NOT EXISTS notification_deliveries (
+        id TEXT PRIMARY KEY,
+        subscription_id TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        target TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        intent_id INTEGER,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        message TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        delivered_at TEXT,
+        next_attempt_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS notification_deliveries_subscription
+        ON notification_deliveries (subscription_id, created_at);
+      CREATE INDEX IF NOT EXISTS notification_deliveries_event
+        ON notification_deliveries (event_id);
+      CREATE INDEX IF NOT EXISTS notification_deliveries_status
+        ON notification_deliveries (status, next_attempt_at);
+    `);
+  }
+
+  async saveSubscription(
+    subscription: NotificationSubscription,
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO notification_subscriptions
+          (id, channel, target, event_types, intent_id, sender_address, secret, created_at)
+         VALUES
+          (@id, @channel, @target, @event_types, @intent_id, @sender_address, @secret, @created_at)`,
+      )
+      .run({
+        id: subscription.id,
+        channel: subscription.channel,
+        target: subscription.target,
+        event_types: JSON.stringify(subscription.eventTypes),
+        intent_id: subscription.intentId ?? null,
+        sender_address: subscription.senderAddress ?? null,
+        secret: subscription.secret,
+        created_at: subscription.createdAt,
+      });
+  }
+
+  async getSubscription(
+    id: string,
+  ): Promise<NotificationSubscription | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM notification_subscriptions WHERE id = ?')
+      .get(id) as SubscriptionRow | undefined;
+    return row && toSubscription(row);
+  }
+
+  async listSubscriptions(): Promise<NotificationSubscription[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM notification_subscriptions ORDER BY created_at')
+      .all() as SubscriptionRow[];
+    return rows.map(toSubscription);
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM notification_subscriptions WHERE id = ?')
+      .run(id);
+    return result.changes > 0;
+  }
+
+  async findSubscriptionsFor(target: {
+    intentId?: number;
+    senderAddress?: string;
+  }): Promise<NotificationSubscription[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM notification_subscriptions
+         WHERE intent_id = @intentId OR lower(sender_address) = @senderAddress
+         ORDER BY created_at`,
+      )
+      .all({
+        intentId: target.intentId ?? null,
+        senderAddress: target.senderAddress?.toLowerCase() ?? null,
+      }) as SubscriptionRow[];
+    return rows.map(toSubscription);
+  }
+
+  async saveDelivery(delivery: NotificationDelivery): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO notification_deliveries
+          (id, subscription_id, channel, target, event_id, event_type, intent_id,
+           status, attempts, last_error, message, created_at, updated_at,
+           delivered_at, next_attempt_at)
+         VALUES
+          (@id, @subscription_id, @channel, @target, @event_id, @event_type, @intent_id,
+           @status, @attempts, @last_error, @message, @created_at, @updated_at,
+           @delivered_at, @next_attempt_at)`,
+      )
+      .run({
+        id: delivery.id,
+        subscription_id: delivery.subscriptionId,
+        channel: delivery.channel,
+        target: delivery.target,
+        event_id: delivery.eventId,
+        event_type: delivery.eventType,
+        intent_id: delivery.intentId ?? null,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        last_error: delivery.lastError ?? null,
+        message: JSON.stringify(delivery.message),
+        created_at: delivery.createdAt,
+        updated_at: delivery.updatedAt,
+        delivered_at: delivery.deliveredAt ?? null,
+        next_attempt_at: delivery.nextAttemptAt ?? null,
+      });
+  }
+
+  async getDelivery(id: string): Promise<NotificationDelivery | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM notification_deliveries WHERE id = ?')
+      .get(id) as DeliveryRow | undefined;
+    return row && toDelivery(row);
+  }
+
+  async findDeliveries(query: DeliveryQuery): Promise<NotificationDelivery[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.subscriptionId !== undefined) {
+      conditions.push('subscription_id = @subscriptionId');
+      params.subscriptionId = query.subscriptionId;
+    }
+    if (query.eventId !== undefined) {
+      conditions.push('event_id = @eventId');
+      params.eventId = query.eventId;
+    }
+    if (query.intentId !== undefined) {
+      conditions.push('intent_id = @intentId');
+      params.intentId = query.intentId;
+    }
+    if (query.status !== undefined) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit ? `LIMIT ${Math.floor(query.limit)}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM notification_deliveries ${where}
+         ORDER BY created_at DESC ${limit}`,
+      )
+      .all(params) as DeliveryRow[];
+    return rows.map(toDelivery);
+  }
+}
+
+function toSubscription(row: SubscriptionRow): NotificationSubscription {
+  return {
+    id: row.id,
+    channel: row.channel,
+    target: row.target,
+    eventTypes: JSON.parse(row.event_types),
+    intentId: row.intent_id ?? undefined,
+    senderAddress: row.sender_address ?? undefined,
+    secret: row.secret,
+    createdAt: row.created_at,
+  };
+}
+
+function toDelivery(row: DeliveryRow): NotificationDelivery {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    channel: row.channel,
+    target: row.target,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    intentId: row.intent_id ?? undefined,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error ?? undefined,
+    message: JSON.parse(row.message),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deliveredAt: row.delivered_at ?? undefined,
+    nextAttemptAt: row.next_attempt_at ?? undefined,
+  };
+}
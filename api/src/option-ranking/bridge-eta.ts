@@ -0,0 +1,43 @@
+/**
+ * Rough time for a transfer to arrive through each bridge, in seconds.
+ *
+ * Chainrails quotes don't include an ETA, so these are typical figures for
+ * each bridge. Override them with BRIDGE_ETA_SECONDS (e.g.
+ * "CCTP=1200,ACROSS=60") when you know better for your routes.
+ */
+export const DEFAULT_BRIDGE_ETA_SECONDS: Readonly<Record<string, number>> = {
+  ACROSS: 120,
+  GATEWAY: 300,
+  RHINOFI: 600,
+  CCTP: 1200,
+};
+
+/** Same-chain transfers only wait for one block */
+export const SAME_CHAIN_ETA_SECONDS = 15;
+
+/** Used when the bridge is unknown or left to Chainrails to pick */
+export const UNKNOWN_BRIDGE_ETA_SECONDS = 900;
+
+/**
+ * Parse "CCTP=1200,ACROSS=60" into { CCTP: 1200, ACROSS: 60 }
+ */
+export function parseBridgeEtas(
+  value: string | undefined,
+): Record<string, number> {
+  const etas: Record<string, number> = {};
+
+  for (const entry of (value ?? '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const [bridge, seconds] = entry.split('=').map((part) => part.trim());
+    const parsed = Number(seconds);
+    if (!bridge || !Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(
+        `Invalid BRIDGE_ETA_SECONDS entry "${entry}". Use BRIDGE=seconds, e.g. CCTP=1200`,
+      );
+    }
+    etas[bridge.toUpperCase()] = parsed;
+  }
+
+  return etas;
+}
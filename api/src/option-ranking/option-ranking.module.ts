@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { OptionRankingService } from './option-ranking.service';
+
+/**
+ * Provides OptionRankingService, which decides the recommended option of
+ * POST /app/options
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [OptionRankingService],
+  exports: [OptionRankingService],
+})
+export class OptionRankingModule {}
@@ -0,0 +1,151 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OptionRankingService } from './option-ranking.service';
+import { RankableOption } from './ranking-strategy';
+
+function option(
+  index: number,
+  changes: Partial<RankableOption> = {},
+): RankableOption {
+  return {
+    index,
+    sourceChain: 'BASE_TESTNET',
+    type: 'cross-chain',
+    fee: '1000',
+    bridge: 'CCTP',
+    token: 'USDC',
+    tokenAddress: `0x${String(index).padStart(40, '0')}`,
+    depositAmount: '10001000',
+    slippage: 0.5,
+    ...changes,
+  };
+}
+
+describe('OptionRankingService', () => {
+  let ranking: OptionRankingService;
+
+  // Cheap but slow, pricey but fast, and a same-chain option in between
+  const options = [
+    option(1, { fee: '1000', bridge: 'CCTP', slippage: 0.1 }),
+    option(2, { fee: '9000', bridge: 'ACROSS', slippage: 0.3 }),
+    option(3, {
+      fee: '5000',
+      bridge: 'None (same chain)',
+      type: 'same-chain',
+      token: 'USDT',
+      slippage: undefined,
+    }),
+  ];
+
+  const ranks = (strategy: string, preferences = {}) =>
+    ranking
+      .rank(options, { strategy, ...preferences })
+      .scores.map((score) => score.rank);
+
+  beforeEach(() => {
+    ranking = new OptionRankingService(
+      new ConfigService({ BRIDGE_ETA_SECONDS: 'ACROSS=60' }),
+    );
+  });
+
+  it('recommends the cheapest option by default, scoring fees linearly', () => {
+    const result = ranking.rank(options);
+
+    expect(result.strategy).toBe('cheapest');
+    expect(result.scores.map((score) => score.score)).toEqual([1, 0, 0.5]);
+    expect(result.scores.map((score) => score.rank)).toEqual([1, 3, 2]);
+    expect(result.scores[1].components).toEqual([
+      {
+        criterion: 'fee',
+        value: '9000',
+        score: 0,
+        weight: 1,
+        detail: '8000 more than the lowest fee (smallest units)',
+      },
+    ]);
+  });
+
+  it('ranks by bridge ETA, slippage and preferred bridge', () => {
+    // Same chain 15s, ACROSS overridden to 60s, CCTP 1200s
+    expect(ranks('fastest')).toEqual([3, 2, 1]);
+    // Unreported slippage counts as the worst reported (0.3). Ties go to the lower fee
+    expect(ranks('lowest-slippage')).toEqual([1, 3, 2]);
+    // Same-chain needs no bridge, so it's as good as a preferred one
+    expect(ranks('preferred-bridge', { preferredBridges: ['across'] })).toEqual(
+      [3, 2, 1],
+    );
+  });
+
+  it('explains weighted scores component by component', () => {
+    const result = ranking.rank(options, {
+      strategy: 'weighted',
+      weights: { fee: 1, token: 1 },
+      preferredTokens: ['usdt'],
+    });
+
+    // Option 3: fee 0.5, holds the token 1
+    expect(result.scores[2].score).toBe(0.75);
+    expect(result.scores[2].rank).toBe(1);
+    expect(result.scores[2].components.map((c) => c.criterion)).toEqual([
+      'fee',
+      'token',
+    ]);
+    expect(result.scores[0].components[1].detail).toBe(
+      'Pays with USDC, not a preferred token',
+    );
+  });
+
+  it('breaks ties by fee, then by original order', () => {
+    const tied = [
+      option(1, { fee: '2000' }),
+      option(2, { fee: '1000' }),
+      option(3, { fee: '1000' }),
+    ];
+
+    const result = ranking.rank(tied, { strategy: 'fastest' });
+
+    expect(result.scores.map((score) => score.score)).toEqual([1, 1, 1]);
+    expect(result.scores.map((score) => score.rank)).toEqual([3, 1, 2]);
+  });
+
+  it('rejects unknown strategies and missing strategy inputs', () => {
+    expect(() => ranking.rank(options, { strategy: 'random' })).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      ranking.rank(options, { strategy: 'preferred-bridge' }),
+    ).toThrow('The preferred-bridge strategy needs preferredBridges');
+    expect(() =>
+      ranking.rank(options, { strategy: 'weighted', weights: { fee: 0 } }),
+    ).toThrow(BadRequestException);
+    expect(
+      () =>
+        new OptionRankingService(
+          new ConfigService({ RANKING_DEFAULT_STRATEGY: 'nope' }),
+        ),
+    ).toThrow(/Unknown RANKING_DEFAULT_STRATEGY/);
+  });
+
+  it('ranks with registered custom strategies', () => {
+    ranking.register({
+      name: 'same-chain-first',
+      description: 'No bridges',
+      score: (candidate) => [
+        {
+          criterion: 'chain',
+          value: candidate.type,
+          score: candidate.type === 'same-chain' ? 1 : 0,
+          weight: 1,
+          detail: candidate.type,
+        },
+      ],
+    });
+
+    expect(ranks('same-chain-first')).toEqual([2, 3, 1]);
+    expect(ranking.describe()).toContainEqual({
+      name: 'same-chain-first',
+      description: 'No bridges',
+      default: false,
+    });
+  });
+});
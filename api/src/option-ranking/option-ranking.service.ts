@@ -0,0 +1,158 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { compareAmounts } from '../utils/amounts';
+import {
+  DEFAULT_BRIDGE_ETA_SECONDS,
+  SAME_CHAIN_ETA_SECONDS,
+  UNKNOWN_BRIDGE_ETA_SECONDS,
+  parseBridgeEtas,
+} from './bridge-eta';
+import { BUILT_IN_STRATEGIES } from './ranking-strategies';
+import {
+  OptionScore,
+  RankableOption,
+  RankingContext,
+  RankingPreferences,
+  RankingStrategy,
+} from './ranking-strategy';
+
+export interface RankingResult {
+  strategy: string;
+  /** One score per option, in the same order as the options */
+  scores: OptionScore[];
+}
+
+/**
+ * OPTION RANKING SERVICE
+ *
+ * Picks which transfer option to recommend. Users don't all want the
+ * cheapest route: some want it fast, some want to pay with a token they
+ * already hold, some trust one bridge more than others.
+ *
+ * What you'll learn:
+ * - How to score options with a pluggable strategy
+ * - How to explain a recommendation with a score breakdown
+ *
+ * Built-in strategies: cheapest (default), fastest, lowest-slippage,
+ * preferred-bridge and weighted. Add your own from any provider:
+ *
+ * ```typescript
+ * constructor(ranking: OptionRankingService) {
+ *   ranking.register({
+ *     name: 'starknet-first',
+ *     description: 'Anything from Starknet',
+ *     score: (option) => [{ criterion: 'chain', ... }],
+ *   });
+ * }
+ * ```
+ */
+@Injectable()
+export class OptionRankingService {
+  private readonly logger = new Logger(OptionRankingService.name);
+  private readonly strategies = new Map<string, RankingStrategy>();
+  private readonly bridgeEtas: Record<string, number>;
+  readonly defaultStrategy: string;
+
+  constructor(configService: ConfigService) {
+    this.bridgeEtas = {
+      ...DEFAULT_BRIDGE_ETA_SECONDS,
+      ...parseBridgeEtas(configService.get<string>('BRIDGE_ETA_SECONDS')),
+    };
+    BUILT_IN_STRATEGIES.forEach((strategy) => this.register(strategy));
+
+    this.defaultStrategy =
+      configService.get<string>('RANKING_DEFAULT_STRATEGY') || 'cheapest';
+    if (!this.strategies.has(this.defaultStrategy)) {
+      throw new Error(
+        `Unknown RANKING_DEFAULT_STRATEGY "${this.defaultStrategy}". Use one of: ${this.names().join(', ')}`,
+      );
+    }
+  }
+
+  register(strategy: RankingStrategy) {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  names(): string[] {
+    return [...this.strategies.keys()];
+  }
+
+  /**
+   * Example 1: List Strategies
+   *
+   * Show these to users, so they can choose what "best" means to them
+   */
+  describe(): { name: string; description: string; default: boolean }[] {
+    return [...this.strategies.values()].map((strategy) => ({
+      name: strategy.name,
+      description: strategy.description,
+      default: strategy.name === this.defaultStrategy,
+    }));
+  }
+
+  /**
+   * Example 2: Rank Options
+   *
+   * Scores every option with the requested strategy (0 to 1, higher is
+   * better) and ranks them. Options with equal scores are ranked by fee,
+   * then by their original order.
+   */
+  rank(
+    options: RankableOption[],
+    preferences: RankingPreferences = {},
+  ): RankingResult {
+    const name = preferences.strategy || this.defaultStrategy;
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new BadRequestException(
+        `Unknown ranking strategy "${name}". Use one of: ${this.names().join(', ')}`,
+      );
+    }
+
+    const context: RankingContext = {
+      options,
+      preferences,
+      etaSeconds: (option) => this.etaSeconds(option),
+    };
+
+    const scored = options.map((option, position) => {
+      const components = strategy.score(option, context);
+      const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+      const score = totalWeight
+        ? components.reduce((sum, c) => sum + c.weight * c.score, 0) /
+          totalWeight
+        : 0;
+
+      return {
+        option,
+        position,
+        score: Math.round(score * 10000) / 10000,
+        components,
+      };
+    });
+
+    const ranked = [...scored].sort(
+      (a, b) =>
+        b.score - a.score ||
+        compareAmounts(a.option.fee, b.option.fee) ||
+        a.position - b.position,
+    );
+
+    const scores: OptionScore[] = new Array(options.length);
+    ranked.forEach(({ position, score, components }, i) => {
+      scores[position] = { score, rank: i + 1, components };
+    });
+
+    this.logger.log(
+      `✅ Ranked ${options.length} option(s) with the ${name} strategy`,
+    );
+    return { strategy: name, scores };
+  }
+
+  private etaSeconds(option: RankableOption): number {
+    if (option.type === 'same-chain') return SAME_CHAIN_ETA_SECONDS;
+    return (
+      this.bridgeEtas[option.bridge.toUpperCase()] ?? UNKNOWN_BRIDGE_ETA_SECONDS
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { subAmounts, toBaseUnits } from '../utils/amounts';
+import {
+  RankableOption,
+  RankingContext,
+  RankingCriterion,
+  ScoreComponent,
+} from './ranking-strategy';
+
+/**
+ * Scores one criterion of an option, with the given weight
+ */
+export type CriterionScorer = (
+  option: RankableOption,
+  context: RankingContext,
+  weight: number,
+) => ScoreComponent;
+
+// Scores are shown to users, 4 decimals is plenty
+const SCALE = 10000n;
+
+/**
+ * 1 for the lowest value among all options, 0 for the highest, linear in
+ * between. When every option has the same value they all score 1.
+ */
+function lowerIsBetter(value: bigint, all: bigint[]): number {
+  const min = all.reduce((a, b) => (b < a ? b : a));
+  const max = all.reduce((a, b) => (b > a ? b : a));
+  if (max === min) return 1;
+  return Number(((max - value) * SCALE) / (max - min)) / Number(SCALE);
+}
+
+function matchesAny(value: string, candidates: string[] = []): boolean {
+  return candidates.some(
+    (candidate) => candidate.toLowerCase() === value.toLowerCase(),
+  );
+}
+
+export const CRITERIA: Record<RankingCriterion, CriterionScorer> = {
+  fee: (option, context, weight) => {
+    const fees = context.options.map((other) => toBaseUnits(other.fee));
+    const cheapest = fees.reduce((a, b) => (b < a ? b : a));
+    const extra = subAmounts(option.fee, cheapest);
+
+    return {
+      criterion: 'fee',
+      value: option.fee,
+      score: lowerIsBetter(toBaseUnits(option.fee), fees),
+      weight,
+      detail:
+        extra === 0n
+          ? 'Lowest fee'
+          : `${extra} more than the lowest fee (smallest units)`,
+    };
+  },
+
+  speed: (option, context, weight) => {
+    const eta = context.etaSeconds(option);
+    const etas = context.options.map((other) =>
+      BigInt(Math.round(context.etaSeconds(other))),
+    );
+
+    return {
+      criterion: 'speed',
+      value: eta,
+      score: lowerIsBetter(BigInt(Math.round(eta)), etas),
+      weight,
+      detail: `About ${formatDuration(eta)} via ${option.bridge}`,
+    };
+  },
+
+  slippage: (option, context, weight) => {
+    // Unknown slippage counts as the worst reported
+    const reported = context.options
+      .map((other) => other.slippage)
+      .filter((slippage) => slippage !== undefined && slippage !== null);
+    const worst = reported.length ? Math.max(...reported) : 0;
+    const slippage = option.slippage ?? worst;
+    // Percentages to 4 decimals, as integers
+    const toUnits = (value: number) => BigInt(Math.round(value * 10000));
+
+    return {
+      criterion: 'slippage',
+      value: option.slippage ?? null,
+      score: lowerIsBetter(
+        toUnits(slippage),
+        context.options.map((other) => toUnits(other.slippage ?? worst)),
+      ),
+      weight,
+      detail:
+        option.slippage === undefined || option.slippage === null
+          ? 'Slippage not reported, counted as the worst'
+          : `${option.slippage}% slippage`,
+    };
+  },
+
+  hops: (option, _context, weight) => {
+    const sameChain = option.type === 'same-chain';
+    return {
+      criterion: 'hops',
+      value: sameChain ? 0 : 1,
+      score: sameChain ? 1 : 0,
+      weight,
+      detail: sameChain
+        ? 'No bridge needed'
+        : `One bridge hop (${option.bridge})`,
+    };
+  },
+
+  bridge: (option, context, weight) => {
+    const sameChain = option.type === 'same-chain';
+    const preferred =
+      sameChain ||
+      matchesAny(option.bridge, context.preferences.preferredBridges);
+    return {
+      criterion: 'bridge',
+      value: option.bridge,
+      score: preferred ? 1 : 0,
+      weight,
+      detail: sameChain
+        ? 'No bridge needed'
+        : preferred
+          ? `${option.bridge} is a preferred bridge`
+          : `${option.bridge} is not a preferred bridge`,
+    };
+  },
+
+  token: (option, context, weight) => {
+    const preferred = context.preferences.preferredTokens ?? [];
+    const held =
+      matchesAny(option.token, preferred) ||
+      matchesAny(option.tokenAddress, preferred);
+    return {
+      criterion: 'token',
+      value: option.token,
+      score: held ? 1 : 0,
+      weight,
+      detail: held
+        ? `Pays with ${option.token}, a preferred token`
+        : `Pays with ${option.token}, not a preferred token`,
+    };
+  },
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.round(minutes / 6) / 10} h`;
+}
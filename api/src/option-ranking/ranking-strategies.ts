@@ -0,0 +1,90 @@
+import { BadRequestException } from '@nestjs/common';
+import { CRITERIA } from './ranking-criteria';
+import {
+  RANKING_CRITERIA,
+  RankingPreferences,
+  RankingStrategy,
+  RankingWeights,
+} from './ranking-strategy';
+
+/**
+ * Used by `weighted` when the request doesn't send weights
+ */
+export const DEFAULT_WEIGHTS: RankingWeights = {
+  fee: 0.5,
+  speed: 0.3,
+  slippage: 0.2,
+};
+
+/**
+ * A strategy that scores the given criteria with fixed weights
+ */
+export function criteriaStrategy(
+  name: string,
+  description: string,
+  weights: (preferences: RankingPreferences) => RankingWeights,
+): RankingStrategy {
+  return {
+    name,
+    description,
+    score: (option, context) =>
+      Object.entries(weights(context.preferences))
+        .filter(([, weight]) => weight > 0)
+        .map(([criterion, weight]) =>
+          CRITERIA[criterion](option, context, weight),
+        ),
+  };
+}
+
+export const cheapestStrategy = criteriaStrategy(
+  'cheapest',
+  'Lowest total fee',
+  () => ({ fee: 1 }),
+);
+
+export const fastestStrategy = criteriaStrategy(
+  'fastest',
+  'Shortest estimated time through the bridge',
+  () => ({ speed: 1 }),
+);
+
+export const lowestSlippageStrategy = criteriaStrategy(
+  'lowest-slippage',
+  'Lowest slippage on the deposit',
+  () => ({ slippage: 1 }),
+);
+
+export const preferredBridgeStrategy = criteriaStrategy(
+  'preferred-bridge',
+  'Routes through one of preferredBridges (or need no bridge)',
+  (preferences) => {
+    if (!preferences.preferredBridges?.length) {
+      throw new BadRequestException(
+        'The preferred-bridge strategy needs preferredBridges',
+      );
+    }
+    return { bridge: 1 };
+  },
+);
+
+export const weightedStrategy = criteriaStrategy(
+  'weighted',
+  `Weighted mix of ${RANKING_CRITERIA.join(', ')} (default ${JSON.stringify(DEFAULT_WEIGHTS)})`,
+  (preferences) => {
+    const weights = preferences.weights ?? DEFAULT_WEIGHTS;
+    if (!Object.values(weights).some((weight) => weight > 0)) {
+      throw new BadRequestException(
+        'The weighted strategy needs at least one weight above 0',
+      );
+    }
+    return weights;
+  },
+);
+
+export const BUILT_IN_STRATEGIES: RankingStrategy[] = [
+  cheapestStrategy,
+  fastestStrategy,
+  lowestSlippageStrategy,
+  preferredBridgeStrategy,
+  weightedStrategy,
+];
@@ -0,0 +1,92 @@
+/**
+ * The parts of a transfer option (see AppService.getTransferOptions) a
+ * strategy can rank on
+ */
+export interface RankableOption {
+  index: number;
+  sourceChain: string;
+  type: 'same-chain' | 'cross-chain';
+  /** Total fee in the destination token's smallest units */
+  fee: string;
+  bridge: string;
+  token: string;
+  tokenAddress: string;
+  depositAmount: string;
+  slippage?: number;
+}
+
+/**
+ * Criteria the built-in strategies score on. Each scores an option from 0
+ * (worst) to 1 (best).
+ */
+export const RANKING_CRITERIA = [
+  'fee',
+  'speed',
+  'slippage',
+  'hops',
+  'bridge',
+  'token',
+] as const;
+
+export type RankingCriterion = (typeof RANKING_CRITERIA)[number];
+
+export type RankingWeights = Partial<Record<RankingCriterion, number>>;
+
+/**
+ * What the caller asked for on POST /app/options
+ */
+export interface RankingPreferences {
+  strategy?: string;
+  /** Bridges to favour, e.g. ['CCTP'] */
+  preferredBridges?: string[];
+  /** Tokens the user already holds, by symbol or address */
+  preferredTokens?: string[];
+  /** Weights for the `weighted` strategy */
+  weights?: RankingWeights;
+}
+
+/**
+ * Everything a strategy may look at besides the option itself
+ */
+export interface RankingContext {
+  /** All options being ranked, for scoring relative to the others */
+  options: RankableOption[];
+  preferences: RankingPreferences;
+  /** Estimated seconds until the transfer arrives */
+  etaSeconds(option: RankableOption): number;
+}
+
+/**
+ * One line of an option's score: what was measured and how it scored
+ */
+export interface ScoreComponent {
+  criterion: string;
+  /** The measured value, e.g. the fee or ETA */
+  value: string | number | boolean | null;
+  /** 0 (worst) to 1 (best) */
+  score: number;
+  /** How much this component counts towards the total */
+  weight: number;
+  detail: string;
+}
+
+export interface OptionScore {
+  /** Weighted average of the components, 0 to 1 */
+  score: number;
+  /** 1 is the best option. Equal scores are ordered by fee */
+  rank: number;
+  components: ScoreComponent[];
+}
+
+/**
+ * Decides which option to recommend.
+ *
+ * A strategy scores each option as a list of weighted components, and the
+ * option's score is their weighted average. Register your own with
+ * OptionRankingService.register().
+ */
+export interface RankingStrategy {
+  readonly name: string;
+  readonly description: string;
+  score(option: RankableOption, context: RankingContext): ScoreComponent[];
+}
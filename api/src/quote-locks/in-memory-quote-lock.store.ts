@@ -0,0 +1,26 @@
+import { LockedQuote, QuoteLockStore } from './quote-lock.store';
+
+/**
+ * Keeps issued quotes in a Map. Nothing survives a restart - use it for
+ * tests and local experiments only.
+ */
+export class InMemoryQuoteLockStore implements QuoteLockStore {
+  private readonly quotes = new Map<string, LockedQuote>();
+
+  async saveAll(quotes: LockedQuote[]): Promise<void> {
+    quotes.forEach((quote) => this.quotes.set(quote.id, { ...quote }));
+  }
+
+  async get(id: string): Promise<LockedQuote | undefined> {
+    const quote = this.quotes.get(id);
+    return quote && { ...quote };
+  }
+
+  async deleteExpired(before: string): Promise<void> {
+    this.quotes.forEach((quote, id) => {
+      if (quote.expiresAt < before) {
+        this.quotes.delete(id);
+      }
+    });
+  }
+}
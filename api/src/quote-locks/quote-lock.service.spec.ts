@@ -0,0 +1,142 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuotesAndRoutesService } from '../quotes-and-routes/quotes-and-routes.service';
+import { InMemoryQuoteLockStore } from './in-memory-quote-lock.store';
+import { QuoteLockService, QuoteToLock } from './quote-lock.service';
+
+const option: QuoteToLock = {
+  destinationChain: 'ARBITRUM_TESTNET',
+  tokenOut: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+  requestedAmount: '10',
+  sourceChain: 'BASE_TESTNET',
+  tokenIn: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  tokenSymbol: 'USDC',
+  depositAmount: '10002500',
+  fee: '2500',
+};
+
+describe('QuoteLockService', () => {
+  const now = Date.parse('2025-12-05T14:00:00.000Z');
+  let store: InMemoryQuoteLockStore;
+  let getMultiSourceQuotes: jest.Mock;
+  let service: QuoteLockService;
+
+  function createService(config: Record<string, any> = {}) {
+    return new QuoteLockService(
+      store,
+      { getMultiSourceQuotes } as unknown as QuotesAndRoutesService,
+      new ConfigService({
+        QUOTE_LOCK_SECRET: 'test-secret',
+        QUOTE_LOCK_TTL_MS: 300000,
+        ...config,
+      }),
+    );
+  }
+
+  function upstreamFee(totalFee: string) {
+    getMultiSourceQuotes.mockResolvedValue({
+      quotes: [
+        {
+          sourceChain: 'BASE_TESTNET',
+          totalFee,
+          paymentOptions: [
+            {
+              token: 'USDC',
+              tokenAddress: option.tokenIn.toLowerCase(),
+              depositAmount: '10002600',
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  beforeEach(() => {
+    store = new InMemoryQuoteLockStore();
+    getMultiSourceQuotes = jest.fn();
+    service = createService();
+  });
+
+  it('redeems a quote ID for the option it was issued for', async () => {
+    const [ticket] = await service.issue([option], now);
+
+    expect(ticket.expiresAt).toBe('2025-12-05T14:05:00.000Z');
+    await expect(service.redeem(ticket.quoteId, {}, now)).resolves.toEqual(
+      expect.objectContaining(option),
+    );
+    expect(getMultiSourceQuotes).not.toHaveBeenCalled();
+  });
+
+  it('rejects tampered and made-up quote IDs', async () => {
+    const [ticket] = await service.issue([option], now);
+    const [id, expiry, signature] = ticket.quoteId.split('.');
+
+    for (const quoteId of [
+      `${id}.${Number(expiry) + 3600}.${signature}`,
+      `${id.replace(/^./, (c) => (c === 'a' ? 'b' : 'a'))}.${expiry}.${signature}`,
+      'not-a-quote',
+    ]) {
+      await expect(service.redeem(quoteId, {}, now)).rejects.toThrow(
+        BadRequestException,
+      );
+    }
+
+    // Signed with another secret
+    const [foreign] = await createService({
+      QUOTE_LOCK_SECRET: 'other-secret',
+    }).issue([option], now);
+    await expect(service.redeem(foreign.quoteId, {}, now)).rejects.toThrow(
+      'Invalid quote ID',
+    );
+  });
+
+  it('rejects expired quotes', async () => {
+    const [ticket] = await service.issue([option], now);
+
+    await expect(
+      service.redeem(ticket.quoteId, {}, now + 300000),
+    ).rejects.toThrow(GoneException);
+  });
+
+  it('accepts a re-quoted fee within the tolerance', async () => {
+    const [ticket] = await service.issue([option], now);
+    upstreamFee('2510');
+
+    await expect(
+      service.redeem(ticket.quoteId, { feeToleranceBps: 50 }, now),
+    ).resolves.toMatchObject({ fee: '2500' });
+    // Re-quoted past the quote cache, which still holds the locked price
+    expect(getMultiSourceQuotes).toHaveBeenCalledWith(
+      {
+        destinationChain: 'ARBITRUM_TESTNET',
+        amount: '10',
+        tokenOut: option.tokenOut,
+        recipient: undefined,
+      },
+      { fresh: true },
+    );
+  });
+
+  it('refuses when the fee moved past the tolerance', async () => {
+    service = createService({ QUOTE_FEE_TOLERANCE_BPS: '50' });
+    const [ticket] = await service.issue([option], now);
+    upstreamFee('2600');
+
+    await expect(service.redeem(ticket.quoteId, {}, now)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('refuses when the source is no longer offered', async () => {
+    const [ticket] = await service.issue([option], now);
+    getMultiSourceQuotes.mockResolvedValue({ quotes: [] });
+
+    await expect(
+      service.redeem(ticket.quoteId, { feeToleranceBps: 100 }, now),
+    ).rejects.toThrow('no longer offered');
+  });
+});
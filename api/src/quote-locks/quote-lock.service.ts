@@ -0,0 +1,224 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { QuotesAndRoutesService } from '../quotes-and-routes/quotes-and-routes.service';
+import { isWithinBps } from '../utils/amounts';
+import {
+  LockedQuote,
+  QUOTE_LOCK_STORE,
+  QuoteLockStore,
+} from './quote-lock.store';
+
+export type QuoteToLock = Omit<LockedQuote, 'id' | 'issuedAt' | 'expiresAt'>;
+
+/**
+ * What a client gets back for each locked option
+ */
+export interface QuoteTicket {
+  quoteId: string;
+  expiresAt: string;
+}
+
+/**
+ * QUOTE LOCK SERVICE
+ *
+ * Purpose: Make sure a transfer is created from a quote we actually issued
+ *
+ * What you'll learn:
+ * - How to hand out tamper-proof, expiring quote IDs
+ * - How to create the transfer from the stored quote, not from client input
+ * - How to re-quote and refuse when the fee moved too much
+ *
+ * A quote ID looks like `<uuid>.<expiry>.<signature>`: the signature is an
+ * HMAC of the uuid and expiry (Unix seconds) with QUOTE_LOCK_SECRET, so a
+ * changed or made-up ID is rejected before the store is even asked.
+ */
+@Injectable()
+export class QuoteLockService {
+  private readonly logger = new Logger(QuoteLockService.name);
+  private readonly secret: string;
+  private readonly ttlMs: number;
+  private readonly feeToleranceBps?: number;
+
+  /**
+   * Whether transfers must be created from a quote ID (QUOTE_LOCK_REQUIRED)
+   */
+  readonly required: boolean;
+
+  constructor(
+    @Inject(QUOTE_LOCK_STORE)
+    private readonly store: QuoteLockStore,
+    private readonly quotesService: QuotesAndRoutesService,
+    private configService: ConfigService,
+  ) {
+    this.secret = this.configService.get<string>('QUOTE_LOCK_SECRET');
+    if (!this.secret) {
+      this.secret = randomBytes(32).toString('hex');
+      this.logger.warn(
+        'QUOTE_LOCK_SECRET is not set: using a random secret, so quote IDs stop working after a restart.',
+      );
+    }
+    this.ttlMs = Number(this.configService.get('QUOTE_LOCK_TTL_MS') ?? 300000);
+
+    this.required =
+      String(
+        this.configService.get('QUOTE_LOCK_REQUIRED') ?? 'false',
+      ).toLowerCase() === 'true';
+
+    const tolerance = this.configService.get('QUOTE_FEE_TOLERANCE_BPS');
+    this.feeToleranceBps =
+      tolerance === undefined || tolerance === ''
+        ? undefined
+        : Number(tolerance);
+  }
+
+  /**
+   * Example 1: Lock Quoted Options
+   *
+   * Store every option shown to the user and give each one a quote ID
+   * that is valid for QUOTE_LOCK_TTL_MS.
+   */
+  async issue(
+    quotes: QuoteToLock[],
+    now: number = Date.now(),
+  ): Promise<QuoteTicket[]> {
+    // Expiry is signed in whole seconds, so round it down to match
+    const expiresAtSeconds = Math.floor((now + this.ttlMs) / 1000);
+    const expiresAt = new Date(expiresAtSeconds * 1000).toISOString();
+
+    const locked: LockedQuote[] = quotes.map((quote) => ({
+      ...quote,
+      id: randomUUID(),
+      issuedAt: new Date(now).toISOString(),
+      expiresAt,
+    }));
+
+    await this.store.deleteExpired(new Date(now).toISOString());
+    await this.store.saveAll(locked);
+
+    return locked.map((quote) => ({
+      quoteId: this.sign(quote.id, expiresAtSeconds),
+      expiresAt,
+    }));
+  }
+
+  /**
+   * Example 2: Redeem a Quote ID
+   *
+   * Returns the stored quote the ID was issued for. Rejects IDs that were
+   * tampered with (400), unknown (400) or expired (410).
+   *
+   * With a fee tolerance (QUOTE_FEE_TOLERANCE_BPS, or feeToleranceBps per
+   * request) the route is quoted again, and the transfer is refused (409)
+   * when the fee rose by more than that many basis points.
+   */
+  async redeem(
+    quoteId: string,
+    options: { feeToleranceBps?: number } = {},
+    now: number = Date.now(),
+  ): Promise<LockedQuote> {
+    const [id, expiry, signature] = quoteId.split('.');
+    const expiresAtSeconds = Number(expiry);
+
+    if (
+      !id ||
+      !signature ||
+      !Number.isInteger(expiresAtSeconds) ||
+      !this.verify(id, expiresAtSeconds, signature)
+    ) {
+      throw new BadRequestException('Invalid quote ID');
+    }
+    if (expiresAtSeconds * 1000 <= now) {
+      throw new GoneException(
+        'This quote has expired. Request new options from POST /app/options.',
+      );
+    }
+
+    const quote = await this.store.get(id);
+    if (!quote) {
+      throw new BadRequestException('Unknown quote ID');
+    }
+
+    const toleranceBps = options.feeToleranceBps ?? this.feeToleranceBps;
+    if (toleranceBps !== undefined) {
+      await this.checkFee(quote, toleranceBps);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Example 3: Re-quote Before Committing
+   *
+   * Fees move with gas prices and bridge liquidity. Quoting again right
+   * before the intent is created catches a quote that got much worse while
+   * the user was deciding. The quote cache is skipped: it would answer with
+   * the very price that was locked.
+   */
+  private async checkFee(quote: LockedQuote, toleranceBps: number) {
+    const current = await this.quotesService.getMultiSourceQuotes(
+      {
+        destinationChain: quote.destinationChain,
+        amount: quote.requestedAmount,
+        tokenOut: quote.tokenOut,
+        recipient: quote.recipient,
+      },
+      { fresh: true },
+    );
+
+    const match = current.quotes.find(
+      (candidate) =>
+        candidate.sourceChain === quote.sourceChain &&
+        candidate.paymentOptions.some(
+          (option) =>
+            option.tokenAddress.toLowerCase() === quote.tokenIn.toLowerCase(),
+        ),
+    );
+    if (!match) {
+      throw new ConflictException(
+        `${quote.sourceChain} → ${quote.destinationChain} is no longer offered. Request new options.`,
+      );
+    }
+
+    if (!isWithinBps(match.totalFee, quote.fee, toleranceBps)) {
+      this.logger.warn(
+        `❌ Fee for quote ${quote.id} moved from ${quote.fee} to ${match.totalFee} (tolerance ${toleranceBps} bps)`,
+      );
+      throw new ConflictException({
+        message: `The fee moved from ${quote.fee} to ${match.totalFee}, more than the ${toleranceBps} bps tolerance. Request new options.`,
+        lockedFee: quote.fee,
+        currentFee: match.totalFee,
+        toleranceBps,
+      });
+    }
+  }
+
+  private sign(id: string, expiresAtSeconds: number): string {
+    return `${id}.${expiresAtSeconds}.${this.signature(id, expiresAtSeconds)}`;
+  }
+
+  private verify(
+    id: string,
+    expiresAtSeconds: number,
+    signature: string,
+  ): boolean {
+    const expected = Buffer.from(this.signature(id, expiresAtSeconds));
+    const received = Buffer.from(signature);
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  private signature(id: string, expiresAtSeconds: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${id}.${expiresAtSeconds}`)
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Injection token for the configured QuoteLockStore
+ */
+export const QUOTE_LOCK_STORE = Symbol('QUOTE_LOCK_STORE');
+
+/**
+ * A transfer option exactly as it was quoted to the user, so the transfer
+ * can be created from it instead of from whatever the client sends back
+ */
+export interface LockedQuote {
+  id: string;
+  // What was asked for (POST /app/options)
+  destinationChain: string;
+  tokenOut: string;
+  requestedAmount: string;
+  recipient?: string;
+  // The option that was offered
+  sourceChain: string;
+  tokenIn: string;
+  tokenSymbol: string;
+  depositAmount: string;
+  fee: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Where issued quotes are kept until they expire.
+ *
+ * Implementations:
+ * - SqliteQuoteLockStore: persisted in the shared DATABASE_PATH file
+ * - InMemoryQuoteLockStore: lost on restart, handy for tests
+ */
+export interface QuoteLockStore {
+  saveAll(quotes: LockedQuote[]): Promise<void>;
+
+  get(id: string): Promise<LockedQuote | undefined>;
+
+  /**
+   * Forget quotes that expired before this time
+   */
+  deleteExpired(before: string): Promise<void>;
+}
@@ -0,0 +1,48 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { QuotesAndRoutesModule } from '../quotes-and-routes/quotes-and-routes.module';
+import { InMemoryQuoteLockStore } from './in-memory-quote-lock.store';
+import { QuoteLockService } from './quote-lock.service';
+import { QUOTE_LOCK_STORE, QuoteLockStore } from './quote-lock.store';
+import { SqliteQuoteLockStore } from './sqlite-quote-lock.store';
+
+/**
+ * Provides QuoteLockService and the QuoteLockStore picked by
+ * QUOTE_LOCK_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ */
+@Module({
+  imports: [ConfigModule, DatabaseModule, QuotesAndRoutesModule],
+  providers: [
+    QuoteLockService,
+    {
+      provide: QUOTE_LOCK_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): QuoteLockStore => {
+        const kind = configService.get<string>('QUOTE_LOCK_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(QuoteLocksModule.name).warn(
+              'Issued quotes are kept in memory and will be lost on restart.',
+            );
+            return new InMemoryQuoteLockStore();
+          case 'sqlite':
+            return new SqliteQuoteLockStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown QUOTE_LOCK_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [QuoteLockService, QUOTE_LOCK_STORE],
+})
+export class QuoteLocksModule {}
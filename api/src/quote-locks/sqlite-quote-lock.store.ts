@@ -0,0 +1,103 @@
+import type { Database } from 'better-sqlite3';
+import { LockedQuote, QuoteLockStore } from './quote-lock.store';
+
+interface LockedQuoteRow {
+  id: string;
+  destination_chain: string;
+  token_out: string;
+  requested_amount: string;
+  recipient: string | null;
+  source_chain: string;
+  token_in: string;
+  token_symbol: string;
+  deposit_amount: string;
+  fee: string;
+  issued_at: string;
+  expires_at: string;
+}
+
+/**
+ * Keeps issued quotes in a SQLite table
+ */
+export class SqliteQuoteLockStore implements QuoteLockStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS locked_quotes (
+        id TEXT PRIMARY KEY,
+        destination_chain TEXT NOT NULL,
+        token_out TEXT NOT NULL,
+        requested_amount TEXT NOT NULL,
+        recipient TEXT,
+        source_chain TEXT NOT NULL,
+        token_in TEXT NOT NULL,
+        token_symbol TEXT NOT NULL,
+        deposit_amount TEXT NOT NULL,
+        fee TEXT NOT NULL,
+        issued_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS locked_quotes_expires_at
+        ON locked_quotes (expires_at);
+    `);
+  }
+
+  async saveAll(quotes: LockedQuote[]): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT OR REPLACE INTO locked_quotes
+        (id, destination_chain, token_out, requested_amount, recipient,
+         source_chain, token_in, token_symbol, deposit_amount, fee,
+         issued_at, expires_at)
+       VALUES
+        (@id, @destination_chain, @token_out, @requested_amount, @recipient,
+         @source_chain, @token_in, @token_symbol, @deposit_amount, @fee,
+         @issued_at, @expires_at)`,
+    );
+
+    this.db.transaction((rows: LockedQuote[]) => {
+      rows.forEach((quote) =>
+        insert.run({
+          id: quote.id,
+          destination_chain: quote.destinationChain,
+          token_out: quote.tokenOut,
+          requested_amount: quote.requestedAmount,
+          recipient: quote.recipient ?? null,
+          source_chain: quote.sourceChain,
+          token_in: quote.tokenIn,
+          token_symbol: quote.tokenSymbol,
+          deposit_amount: quote.depositAmount,
+          fee: quote.fee,
+          issued_at: quote.issuedAt,
+          expires_at: quote.expiresAt,
+        }),
+      );
+    })(quotes);
+  }
+
+  async get(id: string): Promise<LockedQuote | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM locked_quotes WHERE id = ?')
+      .get(id) as LockedQuoteRow | undefined;
+    if (!row) return undefined;
+
+    return {
+      id: row.id,
+      destinationChain: row.destination_chain,
+      tokenOut: row.token_out,
+      requestedAmount: row.requested_amount,
+      recipient: row.recipient ?? undefined,
+      sourceChain: row.source_chain,
+      tokenIn: row.token_in,
+      tokenSymbol: row.token_symbol,
+      depositAmount: row.deposit_amount,
+      fee: row.fee,
+      issuedAt: row.issued_at,
+      expiresAt: row.expires_at,
+    };
+  }
+
+  async deleteExpired(before: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM locked_quotes WHERE expires_at < ?')
+      .run(before);
+  }
+}
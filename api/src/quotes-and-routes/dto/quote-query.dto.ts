@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { BRIDGES, Bridge } from '../../chainrails/models/quote.model';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import { IsBaseUnitAmount } from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+
+const BRIDGE_LIST = new RegExp(
+  `^(${BRIDGES.join('|')})(,(${BRIDGES.join('|')}))*$`,
+);
+
+/**
+ * Query params shared by every single-route quote endpoint.
+ */
+export class RouteQuoteQueryDto {
+  @ApiProperty({
+    description: 'Input token address on the source chain',
+    example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  })
+  @IsChainAddress('sourceChain')
+  tokenIn: string;
+
+  @ApiProperty({
+    description: 'Output token address on the destination chain',
+    example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+  })
+  @IsChainAddress('destinationChain')
+  tokenOut: string;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'BASE_TESTNET' })
+  @IsSupportedChain()
+  sourceChain: SupportedChain;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_TESTNET' })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Amount in smallest token units (1000000 = 1 USDC)',
+    example: '1000000',
+  })
+  @IsBaseUnitAmount()
+  amount: string;
+
+  @ApiPropertyOptional({
+    description: 'Denomination of the amount',
+    example: 'USDC',
+  })
+  @IsOptional()
+  @IsString()
+  amountSymbol?: string;
+
+  @ApiPropertyOptional({ description: 'Recipient on the destination chain' })
+  @IsOptional()
+  @IsChainAddress('destinationChain')
+  recipient?: string;
+}
+
+export class SingleQuoteQueryDto extends RouteQuoteQueryDto {
+  @ApiProperty({ enum: BRIDGES, example: 'CCTP' })
+  @IsIn(BRIDGES)
+  bridge: Bridge;
+}
+
+export class CompareQuotesQueryDto extends RouteQuoteQueryDto {
+  @ApiPropertyOptional({
+    description: 'Comma-separated bridges to exclude',
+    example: 'GATEWAY,CCTP',
+  })
+  @IsOptional()
+  @Matches(BRIDGE_LIST, {
+    message: `excludeBridges must be a comma-separated list of ${BRIDGES.join(', ')}`,
+  })
+  excludeBridges?: string;
+}
+
+export class SupportedBridgesQueryDto {
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'BASE_TESTNET' })
+  @IsSupportedChain()
+  sourceChain: SupportedChain;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_TESTNET' })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+}
+
+export class MultiSourceQuoteQueryDto {
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_TESTNET' })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Amount in smallest token units (1000000 = 1 USDC)',
+    example: '1000000',
+  })
+  @IsBaseUnitAmount()
+  amount: string;
+
+  @ApiProperty({
+    description: 'Output token address on the destination chain',
+    example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+  })
+  @IsChainAddress('destinationChain')
+  tokenOut: string;
+
+  @ApiPropertyOptional({ description: 'Recipient on the destination chain' })
+  @IsOptional()
+  @IsChainAddress('destinationChain')
+  recipient?: string;
+}
@@ -1,5 +1,13 @@
 import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
 import { QuotesAndRoutesService } from './quotes-and-routes.service';
+import {
+  CompareQuotesQueryDto,
+  MultiSourceQuoteQueryDto,
+  RouteQuoteQueryDto,
+  SingleQuoteQueryDto,
+  SupportedBridgesQueryDto,
+} from './dto/quote-query.dto';
 
 /**
  * QUOTES AND ROUTES CONTROLLER
@@ -7,6 +15,7 @@ import { QuotesAndRoutesService } from './quotes-and-routes.service';
  * HTTP endpoints to explore Chainrails quotes and routing.
  * These are sample endpoints utilizing Chainrails APIs.
  */
+@ApiTags('quotes-and-routes')
 @Controller('quotes-and-routes')
 export class QuotesAndRoutesController {
   constructor(
@@ -30,26 +39,8 @@ export class QuotesAndRoutesController {
    * - recipient: Recipient address
    */
   @Get('single')
-  async getSingleQuote(
-    @Query('tokenIn') tokenIn: string,
-    @Query('tokenOut') tokenOut: string,
-    @Query('sourceChain') sourceChain: string,
-    @Query('destinationChain') destinationChain: string,
-    @Query('amount') amount: string,
-    @Query('bridge') bridge: string,
-    @Query('amountSymbol') amountSymbol?: string,
-    @Query('recipient') recipient?: string,
-  ) {
-    return this.quotesAndRoutesService.getSingleQuote({
-      tokenIn,
-      tokenOut,
-      sourceChain,
-      destinationChain,
-      amount,
-      amountSymbol,
-      bridge,
-      recipient,
-    });
+  async getSingleQuote(@Query() query: SingleQuoteQueryDto) {
+    return this.quotesAndRoutesService.getSingleQuote(query);
   }
 
   /**
@@ -61,25 +52,10 @@ export class QuotesAndRoutesController {
    * - excludeBridges: Comma-separated bridges to exclude (e.g., GATEWAY,CCTP)
    */
   @Get('multiple')
-  async getMultipleQuotes(
-    @Query('tokenIn') tokenIn: string,
-    @Query('tokenOut') tokenOut: string,
-    @Query('sourceChain') sourceChain: string,
-    @Query('destinationChain') destinationChain: string,
-    @Query('amount') amount: string,
-    @Query('amountSymbol') amountSymbol?: string,
-    @Query('recipient') recipient?: string,
-    @Query('excludeBridges') excludeBridges?: string,
-  ) {
+  async getMultipleQuotes(@Query() query: CompareQuotesQueryDto) {
     return this.quotesAndRoutesService.getMultipleQuotes({
-      tokenIn,
-      tokenOut,
-      sourceChain,
-      destinationChain,
-      amount,
-      amountSymbol,
-      recipient,
-      excludeBridges: excludeBridges?.split(','),
+      ...query,
+      excludeBridges: query.excludeBridges?.split(','),
     });
   }
 
@@ -88,25 +64,10 @@ export class QuotesAndRoutesController {
    * Get the best (cheapest) quote automatically
    */
   @Get('best')
-  async getBestQuote(
-    @Query('tokenIn') tokenIn: string,
-    @Query('tokenOut') tokenOut: string,
-    @Query('sourceChain') sourceChain: string,
-    @Query('destinationChain') destinationChain: string,
-    @Query('amount') amount: string,
-    @Query('amountSymbol') amountSymbol?: string,
-    @Query('recipient') recipient?: string,
-    @Query('excludeBridges') excludeBridges?: string,
-  ) {
+  async getBestQuote(@Query() query: CompareQuotesQueryDto) {
     return this.quotesAndRoutesService.getBestQuote({
-      tokenIn,
-      tokenOut,
-      sourceChain,
-      destinationChain,
-      amount,
-      amountSymbol,
-      recipient,
-      excludeBridges: excludeBridges?.split(','),
+      ...query,
+      excludeBridges: query.excludeBridges?.split(','),
     });
   }
 
@@ -115,24 +76,8 @@ export class QuotesAndRoutesController {
    * Get optimal route with full routing information
    */
   @Get('optimal-route')
-  async findOptimalRoute(
-    @Query('tokenIn') tokenIn: string,
-    @Query('tokenOut') tokenOut: string,
-    @Query('sourceChain') sourceChain: string,
-    @Query('destinationChain') destinationChain: string,
-    @Query('amount') amount: string,
-    @Query('amountSymbol') amountSymbol?: string,
-    @Query('recipient') recipient?: string,
-  ) {
-    return this.quotesAndRoutesService.findOptimalRoute({
-      tokenIn,
-      tokenOut,
-      sourceChain,
-      destinationChain,
-      amount,
-      amountSymbol,
-      recipient,
-    });
+  async findOptimalRoute(@Query() query: RouteQuoteQueryDto) {
+    return this.quotesAndRoutesService.findOptimalRoute(query);
   }
 
   /**
@@ -140,14 +85,8 @@ export class QuotesAndRoutesController {
    * Check which bridges support a specific route
    */
   @Get('supported-bridges')
-  async getSupportedBridges(
-    @Query('sourceChain') sourceChain: string,
-    @Query('destinationChain') destinationChain: string,
-  ) {
-    return this.quotesAndRoutesService.getSupportedBridges({
-      sourceChain,
-      destinationChain,
-    });
+  async getSupportedBridges(@Query() query: SupportedBridgesQueryDto) {
+    return this.quotesAndRoutesService.getSupportedBridges(query);
   }
 
   /**
@@ -156,17 +95,7 @@ export class QuotesAndRoutesController {
    * (Find the cheapest source chain to transfer from)
    */
   @Get('multi-source')
-  async getMultiSourceQuotes(
-    @Query('destinationChain') destinationChain: string,
-    @Query('amount') amount: string,
-    @Query('tokenOut') tokenOut: string,
-    @Query('recipient') recipient?: string,
-  ) {
-    return this.quotesAndRoutesService.getMultiSourceQuotes({
-      destinationChain,
-      amount,
-      tokenOut,
-      recipient,
-    });
+  async getMultiSourceQuotes(@Query() query: MultiSourceQuoteQueryDto) {
+    return this.quotesAndRoutesService.getMultiSourceQuotes(query);
   }
 }
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { CacheModule } from '../cache/cache.module';
+import { ChainrailsModule } from '../chainrails/chainrails.module';
 import { QuotesAndRoutesService } from './quotes-and-routes.service';
 import { QuotesAndRoutesController } from './quotes-and-routes.controller';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, ChainrailsModule, CacheModule],
   controllers: [QuotesAndRoutesController],
   providers: [QuotesAndRoutesService],
   exports: [QuotesAndRoutesService],
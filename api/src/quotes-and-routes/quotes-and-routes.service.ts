@@ -1,5 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { CacheRegistry } from '../cache/cache.registry';
+import { TtlCache, cacheKey } from '../cache/ttl-cache';
+import {
+  ChainrailsClient,
+  ChainrailsQuery,
+} from '../chainrails/chainrails.client';
+import { Schema } from '../chainrails/models/schema';
+import {
+  MultiSourceQuoteResult,
+  multiSourceQuoteResultSchema,
+} from '../chainrails/models/quote.model';
 
 /**
  * QUOTES AND ROUTES SERVICE
@@ -16,22 +27,25 @@ import { ConfigService } from '@nestjs/config';
  * - Quote: Fee estimate for a transfer
  * - Route: Path from source → destination chain
  * - Bridge: Protocol that handles the cross-chain transfer (CCTP, Across, etc.)
+ *
+ * Quotes are cached for QUOTES_CACHE_TTL_MS (default 15 seconds), keyed on
+ * the endpoint and the normalized params, and identical requests in flight
+ * at the same time share one upstream call (see CacheModule).
  */
 @Injectable()
 export class QuotesAndRoutesService {
   private readonly logger = new Logger(QuotesAndRoutesService.name);
-  private readonly apiBaseUrl: string;
-  private readonly apiKey: string;
 
-  constructor(private configService: ConfigService) {
-    this.apiBaseUrl =
-      this.configService.get<string>('CHAINRAILS_API_URL') ||
-      'https://api.chainrails.io/api/v1';
-    this.apiKey = this.configService.get<string>('CHAINRAILS_API_KEY');
+  private readonly quotesCache: TtlCache<any>;
 
-    if (!this.apiKey) {
-      throw new Error('CHAINRAILS_API_KEY is required');
-    }
+  constructor(
+    private readonly chainrails: ChainrailsClient,
+    private configService: ConfigService,
+    caches: CacheRegistry,
+  ) {
+    this.quotesCache = caches.get('quotes', {
+      ttlMs: Number(this.configService.get('QUOTES_CACHE_TTL_MS') ?? 15000),
+    });
   }
 
   /**
@@ -56,34 +70,17 @@ export class QuotesAndRoutesService {
     );
 
     try {
-      const queryParams = new URLSearchParams({
+      const quote = await this.getCached<any>('/quotes/single', {
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
         sourceChain: params.sourceChain,
         destinationChain: params.destinationChain,
         amount: params.amount,
-        ...(params.amountSymbol && { amountSymbol: params.amountSymbol }),
+        amountSymbol: params.amountSymbol,
         bridge: params.bridge,
-        ...(params.recipient && { recipient: params.recipient }),
+        recipient: params.recipient,
       });
 
-      const response = await fetch(
-        `${this.apiBaseUrl}/quotes/single?${queryParams}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const quote = await response.json();
-
       this.logger.log(`✅ Quote received from ${params.bridge}`);
 
       return quote;
@@ -121,36 +118,17 @@ export class QuotesAndRoutesService {
     );
 
     try {
-      const queryParams = new URLSearchParams({
+      const quotes = await this.getCached<any>('/quotes/multiple', {
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
         sourceChain: params.sourceChain,
         destinationChain: params.destinationChain,
         amount: params.amount,
-        ...(params.amountSymbol && { amountSymbol: params.amountSymbol }),
-        ...(params.recipient && { recipient: params.recipient }),
-        ...(params.excludeBridges && {
-          excludeBridges: params.excludeBridges.join(','),
-        }),
+        amountSymbol: params.amountSymbol,
+        recipient: params.recipient,
+        excludeBridges: params.excludeBridges?.slice().sort().join(','),
       });
 
-      const response = await fetch(
-        `${this.apiBaseUrl}/quotes/multiple?${queryParams}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const quotes = await response.json();
-
       this.logger.log(`✅ Received ${quotes.length} quotes`);
 
       return quotes;
@@ -182,36 +160,17 @@ export class QuotesAndRoutesService {
     );
 
     try {
-      const queryParams = new URLSearchParams({
+      const bestQuote = await this.getCached<any>('/quotes/best', {
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
         sourceChain: params.sourceChain,
         destinationChain: params.destinationChain,
         amount: params.amount,
-        ...(params.amountSymbol && { amountSymbol: params.amountSymbol }),
-        ...(params.recipient && { recipient: params.recipient }),
-        ...(params.excludeBridges && {
-          excludeBridges: params.excludeBridges.join(','),
-        }),
+        amountSymbol: params.amountSymbol,
+        recipient: params.recipient,
+        excludeBridges: params.excludeBridges?.slice().sort().join(','),
       });
 
-      const response = await fetch(
-        `${this.apiBaseUrl}/quotes/best?${queryParams}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const bestQuote = await response.json();
-
       return bestQuote;
     } catch (error) {
       this.logger.error('❌ Failed to get best quote:', error.message);
@@ -245,33 +204,16 @@ export class QuotesAndRoutesService {
     );
 
     try {
-      const queryParams = new URLSearchParams({
+      const route = await this.getCached<any>('/router/optimal-route', {
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
         sourceChain: params.sourceChain,
         destinationChain: params.destinationChain,
         amount: params.amount,
-        ...(params.amountSymbol && { amountSymbol: params.amountSymbol }),
-        ...(params.recipient && { recipient: params.recipient }),
+        amountSymbol: params.amountSymbol,
+        recipient: params.recipient,
       });
 
-      const response = await fetch(
-        `${this.apiBaseUrl}/router/optimal-route?${queryParams}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const route = await response.json();
-
       this.logger.log(`✅ Optimal route found!`);
       this.logger.log(`   Bridge: ${route.bridgeToUse}`);
       this.logger.log(`   Bridge Address: ${route.bridgeAddress}`);
@@ -298,28 +240,14 @@ export class QuotesAndRoutesService {
     );
 
     try {
-      const queryParams = new URLSearchParams({
-        sourceChain: params.sourceChain,
-        destinationChain: params.destinationChain,
-      });
-
-      const response = await fetch(
-        `${this.apiBaseUrl}/router/supported-bridges/route?${queryParams}`,
+      const result = await this.getCached<any>(
+        '/router/supported-bridges/route',
         {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
+          sourceChain: params.sourceChain,
+          destinationChain: params.destinationChain,
         },
       );
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const result = await response.json();
-
       this.logger.log(
         `✅ Found ${result.routeInfo.bridgeCount} supported bridges`,
       );
@@ -356,43 +284,35 @@ export class QuotesAndRoutesService {
    * - Sometimes transferring from a different chain is cheaper due to lower fees
    * - Same-chain transfers are included as they have no bridging fees
    * - Helps users make informed decisions about which wallet to use
+   *
+   * Pass `fresh: true` to skip the quote cache, e.g. to re-check a price
+   * right before committing to it (see QuoteLockService).
    */
-  async getMultiSourceQuotes(params: {
-    destinationChain: string;
-    amount: string;
-    tokenOut: string;
-    recipient?: string;
-  }) {
+  async getMultiSourceQuotes(
+    params: {
+      destinationChain: string;
+      amount: string;
+      tokenOut: string;
+      recipient?: string;
+    },
+    options: { fresh?: boolean } = {},
+  ): Promise<MultiSourceQuoteResult> {
     this.logger.log(
       `Getting quotes from ALL possible source chains to ${params.destinationChain}`,
     );
 
     try {
-      // Build query parameters
-      const queryParams = new URLSearchParams({
-        destinationChain: params.destinationChain,
-        amount: params.amount,
-        tokenOut: params.tokenOut,
-        ...(params.recipient && { recipient: params.recipient }),
-      });
-
-      const response = await fetch(
-        `${this.apiBaseUrl}/quotes/multi-source?${queryParams}`,
+      const result = await this.getCached(
+        '/quotes/multi-source',
         {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
+          destinationChain: params.destinationChain,
+          amount: params.amount,
+          tokenOut: params.tokenOut,
+          recipient: params.recipient,
         },
+        { schema: multiSourceQuoteResultSchema, fresh: options.fresh },
       );
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const result = await response.json();
-
       this.logger.log(`✅ Received quotes from ${result.quotes.length} source chains`);
 
       return result;
@@ -401,4 +321,20 @@ export class QuotesAndRoutesService {
       throw error;
     }
   }
+
+  /**
+   * GET through the quote cache, or straight from Chainrails when `fresh`
+   */
+  private getCached<T>(
+    path: string,
+    query: ChainrailsQuery,
+    { fresh, ...options }: { schema?: Schema<T>; fresh?: boolean } = {},
+  ): Promise<T> {
+    if (fresh) {
+      return this.chainrails.get<T>(path, query, options);
+    }
+    return this.quotesCache.getOrLoad(cacheKey({ path, ...query }), () =>
+      this.chainrails.get<T>(path, query, options),
+    );
+  }
 }
@@ -0,0 +1,51 @@
+import { TERMINAL_INTENT_STATUSES } from '../chainrails/models/intent.model';
+import { TrackedIntent, TrackedIntentStore } from './tracked-intent.store';
+
+/**
+ * Keeps tracked intents in a Map. Nothing survives a restart - use it for
+ * tests and local experiments only.
+ */
+export class InMemoryTrackedIntentStore implements TrackedIntentStore {
+  private readonly intents = new Map<number, TrackedIntent>();
+
+  async track(intent: TrackedIntent): Promise<void> {
+    this.intents.set(intent.intentId, { ...intent });
+  }
+
+  async get(intentId: number): Promise<TrackedIntent | undefined> {
+    const intent = this.intents.get(intentId);
+    return intent && { ...intent };
+  }
+
+  async getByAddress(
+    intentAddress: string,
+  ): Promise<TrackedIntent | undefined> {
+    const address = intentAddress.toLowerCase();
+    const intent = [...this.intents.values()].find(
+      (candidate) => candidate.intentAddress.toLowerCase() === address,
+    );
+    return intent && { ...intent };
+  }
+
+  async update(
+    intentId: number,
+    changes: Partial<Omit<TrackedIntent, 'intentId'>>,
+  ): Promise<void> {
+    const intent = this.intents.get(intentId);
+    if (intent) {
+      this.intents.set(intentId, { ...intent, ...changes, intentId });
+    }
+  }
+
+  async findDue(now: string, limit: number): Promise<TrackedIntent[]> {
+    return [...this.intents.values()]
+      .filter(
+        (intent) =>
+          !TERMINAL_INTENT_STATUSES.includes(intent.status) &&
+          intent.nextCheckAt <= now,
+      )
+      .sort((a, b) => a.nextCheckAt.localeCompare(b.nextCheckAt))
+      .slice(0, limit)
+      .map((intent) => ({ ...intent }));
+  }
+}
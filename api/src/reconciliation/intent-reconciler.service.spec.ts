@@ -0,0 +1,197 @@
+import { ConfigService } from '@nestjs/config';
+import { Intent } from '../chainrails/models/intent.model';
+import { IntentsService } from '../intents/intents.service';
+import { InMemoryWebhookEventStore } from '../webhooks/in-memory-webhook-event.store';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { InMemoryTrackedIntentStore } from './in-memory-tracked-intent.store';
+import { IntentReconcilerService } from './intent-reconciler.service';
+
+function intent(id: number, changes: Partial<Intent> = {}): Intent {
+  return {
+    id,
+    intent_address: `0x${String(id).padStart(40, '0')}`,
+    intent_status: 'PENDING',
+    expires_at: '2030-01-01T00:00:00.000Z',
+    ...changes,
+  };
+}
+
+describe('IntentReconcilerService', () => {
+  const start = new Date('2025-12-05T14:00:00.000Z');
+  let upstream: Map<number, Intent | Error>;
+  let trackedIntents: InMemoryTrackedIntentStore;
+  let webhookEvents: InMemoryWebhookEventStore;
+  let published: WebhookEvent[];
+  let reconciler: IntentReconcilerService;
+  let getIntentStatus: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: start });
+    upstream = new Map();
+    trackedIntents = new InMemoryTrackedIntentStore();
+    webhookEvents = new InMemoryWebhookEventStore();
+    published = [];
+
+    const bus = new WebhookEventBus();
+    bus.events$.subscribe((event) => published.push(event));
+
+    // Stub upstream: answers from the map, or fails with the stored error
+    getIntentStatus = jest.fn(async (id: number) => {
+      const answer = upstream.get(id);
+      if (answer instanceof Error) throw answer;
+      return answer;
+    });
+
+    reconciler = new IntentReconcilerService(
+      trackedIntents,
+      webhookEvents,
+      bus,
+      { getIntentStatus } as unknown as IntentsService,
+      new ConfigService({
+        RECONCILER_INTERVAL_MS: 60000,
+        RECONCILER_BATCH_SIZE: 2,
+        RECONCILER_BACKOFF_BASE_MS: 30000,
+        RECONCILER_BACKOFF_MAX_MS: 100000,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    reconciler.stop();
+    jest.useRealTimers();
+  });
+
+  it('records a synthetic event when a status moved without a webhook', async () => {
+    await reconciler.track(intent(1), start);
+    upstream.set(
+      1,
+      intent(1, { intent_status: 'COMPLETED', tx_hash: '0xabc' }),
+    );
+
+    reconciler.start();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    const events = await webhookEvents.findByIntentId(1);
+    expect(events).toEqual([
+      expect.objectContaining({
+        id: 'reconciler:1:COMPLETED',
+        type: 'intent.completed',
+        createdAt: '2025-12-05T14:01:00.000Z',
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          previous_status: 'PENDING',
+          tx_hash: '0xabc',
+          synthetic: true,
+        }),
+      }),
+    ]);
+    expect(published.map((event) => event.id)).toEqual([
+      'reconciler:1:COMPLETED',
+    ]);
+    expect((await trackedIntents.get(1)).status).toBe('COMPLETED');
+
+    // Terminal intents are not checked again
+    await jest.advanceTimersByTimeAsync(5 * 60000);
+    expect(getIntentStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves unchanged intents alone and checks them again next run', async () => {
+    await reconciler.track(intent(1), start);
+    upstream.set(1, intent(1));
+
+    reconciler.start();
+    await jest.advanceTimersByTimeAsync(2 * 60000);
+
+    expect(getIntentStatus).toHaveBeenCalledTimes(2);
+    expect(await webhookEvents.findByIntentId(1)).toEqual([]);
+  });
+
+  it('marks intents still pending past expires_at as expired', async () => {
+    await reconciler.track(
+      intent(1, { expires_at: '2025-12-05T14:00:30.000Z' }),
+      start,
+    );
+    upstream.set(1, intent(1, { expires_at: '2025-12-05T14:00:30.000Z' }));
+
+    const result = await reconciler.reconcileOnce(
+      new Date('2025-12-05T14:01:00.000Z'),
+    );
+
+    expect(result).toEqual({ checked: 1, changed: 0, expired: 1, failed: 0 });
+    expect((await trackedIntents.get(1)).status).toBe('EXPIRED');
+    expect((await webhookEvents.findByIntentId(1))[0].type).toBe(
+      'intent.expired',
+    );
+  });
+
+  it("doesn't move an intent back when the API lags behind a webhook", async () => {
+    await reconciler.track(
+      intent(1, { expires_at: '2025-12-05T14:00:30.000Z' }),
+      start,
+    );
+    await reconciler.updateFromWebhook(
+      { intentId: 1 } as WebhookEvent,
+      'FUNDED',
+    );
+    // Still PENDING upstream, and past expires_at
+    upstream.set(1, intent(1, { expires_at: '2025-12-05T14:00:30.000Z' }));
+
+    const result = await reconciler.reconcileOnce(
+      new Date('2025-12-05T14:01:00.000Z'),
+    );
+
+    expect(result).toEqual({ checked: 1, changed: 0, expired: 0, failed: 0 });
+    expect((await trackedIntents.get(1)).status).toBe('FUNDED');
+    expect(await webhookEvents.findByIntentId(1)).toEqual([]);
+    expect(published).toEqual([]);
+  });
+
+  it('backs off exponentially on failures, up to the cap', async () => {
+    await reconciler.track(intent(1), start);
+    upstream.set(1, new Error('upstream down'));
+
+    const delays: number[] = [];
+    let now = new Date('2025-12-05T14:01:00.000Z');
+    for (let run = 0; run < 4; run++) {
+      await reconciler.reconcileOnce(now);
+      const tracked = await trackedIntents.get(1);
+      delays.push(Date.parse(tracked.nextCheckAt) - now.getTime());
+      now = new Date(tracked.nextCheckAt);
+    }
+
+    expect(delays).toEqual([30000, 60000, 100000, 100000]);
+
+    // Not due yet: no upstream call
+    getIntentStatus.mockClear();
+    await reconciler.reconcileOnce(new Date(now.getTime() - 1));
+    expect(getIntentStatus).not.toHaveBeenCalled();
+
+    // Recovers and resets the failure count
+    upstream.set(1, intent(1));
+    await reconciler.reconcileOnce(now);
+    expect((await trackedIntents.get(1)).failures).toBe(0);
+  });
+
+  it('checks at most a batch of intents per run, most overdue first', async () => {
+    for (const id of [1, 2, 3]) {
+      await reconciler.track(intent(id), new Date(start.getTime() + id));
+      upstream.set(id, intent(id));
+    }
+
+    await reconciler.reconcileOnce(new Date('2025-12-05T14:05:00.000Z'));
+
+    expect(getIntentStatus.mock.calls.map(([id]) => id)).toEqual([1, 2]);
+  });
+
+  it('follows webhooks forward but never back', async () => {
+    await reconciler.track(intent(1, { intent_status: 'INITIATED' }), start);
+    const webhook = { intentId: 1 } as WebhookEvent;
+
+    await reconciler.updateFromWebhook(webhook, 'FUNDED');
+    expect((await trackedIntents.get(1)).status).toBe('INITIATED');
+
+    await reconciler.updateFromWebhook(webhook, 'COMPLETED');
+    expect((await trackedIntents.get(1)).status).toBe('COMPLETED');
+  });
+});
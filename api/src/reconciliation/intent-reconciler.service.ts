@@ -0,0 +1,288 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Intent, IntentStatus } from '../chainrails/models/intent.model';
+import { IntentsService } from '../intents/intents.service';
+import { canTransition } from '../lifecycle/intent-state-machine';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import {
+  WEBHOOK_EVENT_STORE,
+  WebhookEventStore,
+} from '../webhooks/webhook-event.store';
+import {
+  TRACKED_INTENT_STORE,
+  TrackedIntent,
+  TrackedIntentStore,
+} from './tracked-intent.store';
+
+export interface ReconcilerOptions {
+  enabled: boolean;
+  intervalMs: number;
+  batchSize: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+/**
+ * Summary of one reconciliation run
+ */
+export interface ReconcileResult {
+  checked: number;
+  changed: number;
+  expired: number;
+  failed: number;
+}
+
+/**
+ * INTENT RECONCILER SERVICE
+ *
+ * Purpose: Catch up on intents whose webhooks never arrived
+ *
+ * Every RECONCILER_INTERVAL_MS it takes up to RECONCILER_BATCH_SIZE tracked
+ * intents that are still PENDING/FUNDED/INITIATED and re-fetches them from
+ * Chainrails. When the status moved, it records a synthetic status-change
+ * event (type `intent.<status>`, `data.synthetic: true`) in the webhook event
+ * store, so status timelines and open status streams pick it up exactly like
+ * a real webhook. Intents still PENDING past their `expires_at` are marked
+ * EXPIRED.
+ *
+ * An intent whose check fails is retried with exponential backoff
+ * (RECONCILER_BACKOFF_BASE_MS doubling up to RECONCILER_BACKOFF_MAX_MS), so
+ * one broken intent or an upstream outage doesn't eat every run.
+ */
+@Injectable()
+export class IntentReconcilerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(IntentReconcilerService.name);
+  private readonly options: ReconcilerOptions;
+  private timer?: NodeJS.Timeout;
+  private stopped = true;
+
+  constructor(
+    @Inject(TRACKED_INTENT_STORE)
+    private readonly trackedIntents: TrackedIntentStore,
+    @Inject(WEBHOOK_EVENT_STORE)
+    private readonly webhookEvents: WebhookEventStore,
+    private readonly webhookBus: WebhookEventBus,
+    private readonly intentsService: IntentsService,
+    private configService: ConfigService,
+  ) {
+    this.options = {
+      enabled:
+        String(
+          this.configService.get('RECONCILER_ENABLED') ?? 'true',
+        ).toLowerCase() !== 'false',
+      intervalMs: Number(
+        this.configService.get('RECONCILER_INTERVAL_MS') ?? 60000,
+      ),
+      batchSize: Number(this.configService.get('RECONCILER_BATCH_SIZE') ?? 20),
+      backoffBaseMs: Number(
+        this.configService.get('RECONCILER_BACKOFF_BASE_MS') ?? 30000,
+      ),
+      backoffMaxMs: Number(
+        this.configService.get('RECONCILER_BACKOFF_MAX_MS') ?? 900000,
+      ),
+    };
+  }
+
+  onApplicationBootstrap() {
+    if (this.options.enabled) {
+      this.start();
+    }
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  /**
+   * Start running reconciliation every intervalMs
+   */
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.logger.log(
+      `✅ Reconciling tracked intents every ${this.options.intervalMs}ms`,
+    );
+    this.schedule();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Start tracking an intent until it reaches a terminal status
+   */
+  async track(intent: Intent, now: Date = new Date()) {
+    await this.trackedIntents.track({
+      intentId: intent.id,
+      intentAddress: intent.intent_address,
+      status: intent.intent_status,
+      expiresAt: intent.expires_at,
+      trackedAt: now.toISOString(),
+      nextCheckAt: new Date(
+        now.getTime() + this.options.intervalMs,
+      ).toISOString(),
+      failures: 0,
+    });
+  }
+
+  /**
+   * Keep the tracked status in sync with a webhook that just arrived,
+   * so the next run doesn't report the same change again
+   */
+  async updateFromWebhook(event: WebhookEvent, status: IntentStatus) {
+    const tracked =
+      event.intentId !== undefined
+        ? await this.trackedIntents.get(event.intentId)
+        : event.intentAddress &&
+          (await this.trackedIntents.getByAddress(event.intentAddress));
+
+    // A late webhook for an earlier stage must not move the status back
+    if (tracked && canTransition(tracked.status, status)) {
+      await this.trackedIntents.update(tracked.intentId, { status });
+    }
+  }
+
+  /**
+   * Run one reconciliation pass over the intents that are due
+   */
+  async reconcileOnce(now: Date = new Date()): Promise<ReconcileResult> {
+    const result: ReconcileResult = {
+      checked: 0,
+      changed: 0,
+      expired: 0,
+      failed: 0,
+    };
+    const due = await this.trackedIntents.findDue(
+      now.toISOString(),
+      this.options.batchSize,
+    );
+
+    for (const tracked of due) {
+      result.checked++;
+      try {
+        const outcome = await this.reconcile(tracked, now);
+        if (outcome === 'changed') result.changed++;
+        if (outcome === 'expired') result.expired++;
+      } catch (error) {
+        result.failed++;
+        const failures = tracked.failures + 1;
+        const delay = Math.min(
+          this.options.backoffBaseMs * 2 ** (failures - 1),
+          this.options.backoffMaxMs,
+        );
+        this.logger.warn(
+          `❌ Reconciling intent ${tracked.intentId} failed (${failures} in a row), retrying in ${delay}ms: ${error.message}`,
+        );
+        await this.trackedIntents.update(tracked.intentId, {
+          lastCheckedAt: now.toISOString(),
+          nextCheckAt: new Date(now.getTime() + delay).toISOString(),
+          failures,
+        });
+      }
+    }
+
+    if (result.changed || result.expired) {
+      this.logger.log(
+        `✅ Reconciled ${result.checked} intents: ${result.changed} changed, ${result.expired} expired`,
+      );
+    }
+    return result;
+  }
+
+  private async reconcile(
+    tracked: TrackedIntent,
+    now: Date,
+  ): Promise<'changed' | 'expired' | 'unchanged'> {
+    const intent = await this.intentsService.getIntentStatus(tracked.intentId);
+
+    let status: IntentStatus = intent.intent_status;
+    const expiresAt = intent.expires_at ?? tracked.expiresAt;
+    const expired =
+      status === 'PENDING' &&
+      !!expiresAt &&
+      Date.parse(expiresAt) <= now.getTime();
+    if (expired) {
+      status = 'EXPIRED';
+    }
+
+    // The API can lag behind a webhook we already followed (still PENDING
+    // after intent.funded): only record moves the lifecycle allows
+    const changed =
+      status !== tracked.status && canTransition(tracked.status, status);
+    if (changed) {
+      await this.recordStatusChange(tracked, intent, status, now);
+    }
+
+    await this.trackedIntents.update(tracked.intentId, {
+      status: changed ? status : tracked.status,
+      expiresAt,
+      lastCheckedAt: now.toISOString(),
+      nextCheckAt: new Date(
+        now.getTime() + this.options.intervalMs,
+      ).toISOString(),
+      failures: 0,
+    });
+
+    if (!changed) return 'unchanged';
+    return expired ? 'expired' : 'changed';
+  }
+
+  private async recordStatusChange(
+    tracked: TrackedIntent,
+    intent: Intent,
+    status: IntentStatus,
+    now: Date,
+  ) {
+    const event: WebhookEvent = {
+      // Deterministic, so a repeated run can't record the same change twice
+      id: `reconciler:${tracked.intentId}:${status}`,
+      type: `intent.${status.toLowerCase()}`,
+      intentAddress: tracked.intentAddress,
+      intentId: tracked.intentId,
+      createdAt: now.toISOString(),
+      receivedAt: now.toISOString(),
+      data: {
+        intent_id: tracked.intentId,
+        intent_address: tracked.intentAddress,
+        status,
+        previous_status: tracked.status,
+        tx_hash: intent.tx_hash,
+        synthetic: true,
+        source: 'reconciler',
+      },
+    };
+
+    await this.webhookEvents.save(event);
+    this.webhookBus.publish(event);
+    this.logger.log(
+      `Intent ${tracked.intentId}: ${tracked.status} → ${status} (no webhook received)`,
+    );
+  }
+
+  private schedule() {
+    if (this.stopped) return;
+    // Chained timeouts rather than setInterval, so runs never overlap
+    this.timer = setTimeout(async () => {
+      try {
+        await this.reconcileOnce();
+      } catch (error) {
+        this.logger.error(`❌ Reconciliation run failed: ${error.message}`);
+      }
+      this.schedule();
+    }, this.options.intervalMs);
+    // Don't keep the process alive (e.g. the CLI) just for reconciliation
+    this.timer.unref?.();
+  }
+}
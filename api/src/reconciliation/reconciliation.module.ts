@@ -0,0 +1,53 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { IntentsModule } from '../intents/intents.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { InMemoryTrackedIntentStore } from './in-memory-tracked-intent.store';
+import { IntentReconcilerService } from './intent-reconciler.service';
+import { SqliteTrackedIntentStore } from './sqlite-tracked-intent.store';
+import {
+  TRACKED_INTENT_STORE,
+  TrackedIntentStore,
+} from './tracked-intent.store';
+
+/**
+ * Provides IntentReconcilerService and the TrackedIntentStore picked by
+ * TRACKED_INTENT_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ */
+@Module({
+  imports: [ConfigModule, DatabaseModule, IntentsModule, WebhooksModule],
+  providers: [
+    IntentReconcilerService,
+    {
+      provide: TRACKED_INTENT_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): TrackedIntentStore => {
+        const kind =
+          configService.get<string>('TRACKED_INTENT_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(ReconciliationModule.name).warn(
+              'Tracked intents are kept in memory and will be lost on restart.',
+            );
+            return new InMemoryTrackedIntentStore();
+          case 'sqlite':
+            return new SqliteTrackedIntentStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown TRACKED_INTENT_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [IntentReconcilerService, TRACKED_INTENT_STORE],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,138 @@
+import type { Database } from 'better-sqlite3';
+import {
+  IntentStatus,
+  TERMINAL_INTENT_STATUSES,
+} from '../chainrails/models/intent.model';
+import { TrackedIntent, TrackedIntentStore } from './tracked-intent.store';
+
+interface TrackedIntentRow {
+  intent_id: number;
+  intent_address: string;
+  status: IntentStatus;
+  expires_at: string | null;
+  tracked_at: string;
+  last_checked_at: string | null;
+  next_check_at: string;
+  failures: number;
+}
+
+const COLUMNS: Record<keyof Omit<TrackedIntent, 'intentId'>, string> = {
+  intentAddress: 'intent_address',
+  status: 'status',
+  expiresAt: 'expires_at',
+  trackedAt: 'tracked_at',
+  lastCheckedAt: 'last_checked_at',
+  nextCheckAt: 'next_check_at',
+  failures: 'failures',
+};
+
+/**
+ * Keeps tracked intents in a SQLite table
+ */
+export class SqliteTrackedIntentStore implements TrackedIntentStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tracked_intents (
+        intent_id INTEGER PRIMARY KEY,
+        intent_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        expires_at TEXT,
+        tracked_at TEXT NOT NULL,
+        last_checked_at TEXT,
+        next_check_at TEXT NOT NULL,
+        failures INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS tracked_intents_next_check_at
+        ON tracked_intents (status, next_check_at);
+      CREATE INDEX IF NOT EXISTS tracked_intents_intent_address
+        ON tracked_intents (lower(intent_address));
+    `);
+  }
+
+  async track(intent: TrackedIntent): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO tracked_intents
+          (intent_id, intent_address, status, expires_at, tracked_at,
+           last_checked_at, next_check_at, failures)
+         VALUES
+          (@intent_id, @intent_address, @status, @expires_at, @tracked_at,
+           @last_checked_at, @next_check_at, @failures)`,
+      )
+      .run({
+        intent_id: intent.intentId,
+        intent_address: intent.intentAddress,
+        status: intent.status,
+        expires_at: intent.expiresAt ?? null,
+        tracked_at: intent.trackedAt,
+        last_checked_at: intent.lastCheckedAt ?? null,
+        next_check_at: intent.nextCheckAt,
+        failures: intent.failures,
+      });
+  }
+
+  async get(intentId: number): Promise<TrackedIntent | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM tracked_intents WHERE intent_id = ?')
+      .get(intentId) as TrackedIntentRow | undefined;
+    return row && toTrackedIntent(row);
+  }
+
+  async getByAddress(
+    intentAddress: string,
+  ): Promise<TrackedIntent | undefined> {
+    const row = this.db
+      .prepare(
+        'SELECT * FROM tracked_intents WHERE lower(intent_address) = ? LIMIT 1',
+      )
+      .get(intentAddress.toLowerCase()) as TrackedIntentRow | undefined;
+    return row && toTrackedIntent(row);
+  }
+
+  async update(
+    intentId: number,
+    changes: Partial<Omit<TrackedIntent, 'intentId'>>,
+  ): Promise<void> {
+    const keys = Object.keys(changes).filter((key) => key in COLUMNS) as Array<
+      keyof typeof COLUMNS
+    >;
+    if (!keys.length) return;
+
+    const assignments = keys.map((key) => `${COLUMNS[key]} = @${key}`);
+    const params: Record<string, unknown> = { intentId };
+    keys.forEach((key) => (params[key] = changes[key] ?? null));
+
+    this.db
+      .prepare(
+        `UPDATE tracked_intents SET ${assignments.join(', ')}
+         WHERE intent_id = @intentId`,
+      )
+      .run(params);
+  }
+
+  async findDue(now: string, limit: number): Promise<TrackedIntent[]> {
+    const terminal = TERMINAL_INTENT_STATUSES.map(() => '?').join(', ');
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM tracked_intents
+         WHERE status NOT IN (${terminal}) AND next_check_at <= ?
+         ORDER BY next_check_at
+         LIMIT ?`,
+      )
+      .all(...TERMINAL_INTENT_STATUSES, now, limit) as TrackedIntentRow[];
+    return rows.map(toTrackedIntent);
+  }
+}
+
+function toTrackedIntent(row: TrackedIntentRow): TrackedIntent {
+  return {
+    intentId: row.intent_id,
+    intentAddress: row.intent_address,
+    status: row.status,
+    expiresAt: row.expires_at ?? undefined,
+    trackedAt: row.tracked_at,
+    lastCheckedAt: row.last_checked_at ?? undefined,
+    nextCheckAt: row.next_check_at,
+    failures: row.failures,
+  };
+}
@@ -0,0 +1,52 @@
+import { IntentStatus } from '../chainrails/models/intent.model';
+
+/**
+ * Injection token for the configured TrackedIntentStore
+ */
+export const TRACKED_INTENT_STORE = Symbol('TRACKED_INTENT_STORE');
+
+/**
+ * An intent this app created and keeps an eye on until it finishes
+ */
+export interface TrackedIntent {
+  intentId: number;
+  intentAddress: string;
+  // Last status we know of, from a webhook or the reconciler
+  status: IntentStatus;
+  expiresAt?: string;
+  trackedAt: string;
+  lastCheckedAt?: string;
+  // When the reconciler should look at it again
+  nextCheckAt: string;
+  // Consecutive failed checks, drives the backoff
+  failures: number;
+}
+
+/**
+ * Where tracked intents are kept.
+ *
+ * Implementations:
+ * - SqliteTrackedIntentStore: persisted in the shared DATABASE_PATH file
+ * - InMemoryTrackedIntentStore: lost on restart, handy for tests
+ */
+export interface TrackedIntentStore {
+  /**
+   * Start tracking an intent. Tracking an id again replaces the record.
+   */
+  track(intent: TrackedIntent): Promise<void>;
+
+  get(intentId: number): Promise<TrackedIntent | undefined>;
+
+  getByAddress(intentAddress: string): Promise<TrackedIntent | undefined>;
+
+  update(
+    intentId: number,
+    changes: Partial<Omit<TrackedIntent, 'intentId'>>,
+  ): Promise<void>;
+
+  /**
+   * Intents in a non-terminal status whose nextCheckAt has passed,
+   * the longest overdue first.
+   */
+  findDue(now: string, limit: number): Promise<TrackedIntent[]>;
+}
@@ -0,0 +1,162 @@
+/**
+ * Five-field cron expressions, evaluated in UTC:
+ *
+ *   ┌──────── minute (0-59)
+ *   │ ┌────── hour (0-23)
+ *   │ │ ┌──── day of month (1-31)
+ *   │ │ │ ┌── month (1-12 or JAN-DEC)
+ *   │ │ │ │ ┌ day of week (0-7 or SUN-SAT, 0 and 7 are Sunday)
+ *   0 9 * * MON     every Monday at 09:00 UTC
+ *
+ * Each field takes `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`). As in Vixie cron, when both day fields are
+ * restricted a day matching either one runs.
+ */
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = 'JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC'.split(
+  ' ',
+);
+const DAY_NAMES = 'SUN MON TUE WED THU FRI SAT'.split(' ');
+
+// How far ahead to look before deciding an expression never fires (Feb 30)
+const SEARCH_YEARS = 5;
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(
+      `"${expression}" should have 5 fields (minute hour day month weekday)`,
+    );
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, 'day of week', DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: [...parseField(minute, 0, 59, 'minute')].sort((a, b) => a - b),
+    hours: [...parseField(hour, 0, 23, 'hour')].sort((a, b) => a - b),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, 'day of month'),
+    months: parseField(month, 1, 12, 'month', MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+/**
+ * The first time after `after` (to the minute) the expression fires
+ */
+export function nextCronTime(cron: string | CronSchedule, after: Date): Date {
+  const schedule = typeof cron === 'string' ? parseCron(cron) : cron;
+  const start = new Date(
+    Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS,
+  );
+  const startDay = Date.UTC(
+    start.getUTCFullYear(),
+    start.getUTCMonth(),
+    start.getUTCDate(),
+  );
+
+  for (let day = 0; day < SEARCH_YEARS * 366; day++) {
+    const date = new Date(startDay + day * DAY_MS);
+    if (!matchesDay(schedule, date)) continue;
+
+    const firstDay = day === 0;
+    for (const hour of schedule.hours) {
+      if (firstDay && hour < start.getUTCHours()) continue;
+      const sameHour = firstDay && hour === start.getUTCHours();
+      const minute = schedule.minutes.find(
+        (m) => !sameHour || m >= start.getUTCMinutes(),
+      );
+      if (minute !== undefined) {
+        return new Date(date.getTime() + (hour * 60 + minute) * MINUTE_MS);
+      }
+    }
+  }
+
+  throw new CronError(`The cron expression never fires`);
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  label: string,
+  names: string[] = [],
+  firstNameValue = 0,
+): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string) => {
+    const named = names.indexOf(token.toUpperCase());
+    const value = named >= 0 ? named + firstNameValue : Number(token);
+    if (!/^\w+$/.test(token) || !Number.isInteger(value)) {
+      throw new CronError(`Invalid ${label} "${token}"`);
+    }
+    if (value < min || value > max) {
+      throw new CronError(`${label} ${value} is outside ${min}-${max}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`Invalid step "${stepText}" in ${label}`);
+    }
+
+    let from = min;
+    let to = max;
+    if (range !== '*') {
+      const [first, last] = range.split('-');
+      from = toNumber(first);
+      // "5/15" means from 5 to the end, every 15
+      to = last !== undefined ? toNumber(last) : stepText ? max : from;
+    }
+    if (from > to) {
+      throw new CronError(`Invalid range "${range}" in ${label}`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+
+  return values;
+}
@@ -0,0 +1,200 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import { IsBaseUnitAmount } from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+import { SCHEDULE_TRIGGER_TYPES, ScheduleTrigger } from '../schedule.model';
+
+const ForTrigger = (type: (typeof SCHEDULE_TRIGGER_TYPES)[number]) =>
+  ValidateIf((dto: ScheduleTriggerDto) => dto.type === type);
+
+export class ScheduleTriggerDto {
+  @ApiProperty({ enum: SCHEDULE_TRIGGER_TYPES, example: 'cron' })
+  @IsIn(SCHEDULE_TRIGGER_TYPES)
+  type: (typeof SCHEDULE_TRIGGER_TYPES)[number];
+
+  @ApiPropertyOptional({
+    description: 'once: when to run (ISO 8601)',
+    example: '2026-01-01T09:00:00Z',
+  })
+  @ForTrigger('once')
+  @IsISO8601()
+  at?: string;
+
+  @ApiPropertyOptional({
+    description: 'interval: milliseconds between runs',
+    example: 86400000,
+  })
+  @ForTrigger('interval')
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  everyMs?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'interval: first run (ISO 8601). Defaults to one interval from now',
+  })
+  @IsOptional()
+  @IsISO8601()
+  startAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'cron: five-field expression, evaluated in UTC',
+    example: '0 9 * * MON',
+  })
+  @ForTrigger('cron')
+  @IsString()
+  @IsNotEmpty()
+  expression?: string;
+}
+
+/**
+ * Keep only the fields the trigger type uses
+ */
+export function toScheduleTrigger(dto: ScheduleTriggerDto): ScheduleTrigger {
+  switch (dto.type) {
+    case 'once':
+      return { type: 'once', at: new Date(dto.at).toISOString() };
+    case 'interval':
+      return {
+        type: 'interval',
+        everyMs: dto.everyMs,
+        ...(dto.startAt && { startAt: new Date(dto.startAt).toISOString() }),
+      };
+    case 'cron':
+      return { type: 'cron', expression: dto.expression.trim() };
+  }
+}
+
+/**
+ * The transfer created on every run, as for POST /app/transfer
+ */
+export class ScheduledTransferDto {
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'BASE_TESTNET' })
+  @IsSupportedChain()
+  sourceChain: SupportedChain;
+
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'ARBITRUM_TESTNET' })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Amount in smallest units (1000000 = 1 USDC)',
+    example: '1000000',
+  })
+  @IsBaseUnitAmount()
+  amount: string;
+
+  @ApiProperty({ description: 'Denomination of the amount', example: 'USDC' })
+  @IsString()
+  @IsNotEmpty()
+  amountSymbol: string;
+
+  @ApiProperty({
+    description: 'Token address on the source chain',
+    example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  })
+  @IsChainAddress('sourceChain')
+  tokenIn: string;
+
+  @ApiProperty({ description: 'Recipient on the destination chain' })
+  @IsChainAddress('destinationChain')
+  recipient: string;
+
+  @ApiPropertyOptional({ description: 'Sender address on the source chain' })
+  @IsOptional()
+  @IsChainAddress('sourceChain')
+  sender?: string;
+
+  @ApiPropertyOptional({ description: 'Refund address on the source chain' })
+  @IsOptional()
+  @IsChainAddress('sourceChain')
+  refundAddress?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Custom metadata object. scheduleId and scheduledFor are added on every run',
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class CreateScheduleDto {
+  @ApiPropertyOptional({ example: 'Weekly payroll' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ type: ScheduleTriggerDto })
+  @ValidateNested()
+  @Type(() => ScheduleTriggerDto)
+  trigger: ScheduleTriggerDto;
+
+  @ApiProperty({ type: ScheduledTransferDto })
+  @ValidateNested()
+  @Type(() => ScheduledTransferDto)
+  transfer: ScheduledTransferDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Skip a run while the previous run's intent is still pending or in flight",
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  skipIfUnfinished?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Stop after this many created transfers',
+    example: 12,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxRuns?: number;
+
+  @ApiPropertyOptional({ description: "Don't run after this time (ISO 8601)" })
+  @IsOptional()
+  @IsISO8601()
+  endAt?: string;
+}
+
+export class UpdateScheduleDto extends PartialType(CreateScheduleDto) {}
+
+export class ScheduleIdParamsDto {
+  @ApiProperty({ description: 'Schedule ID' })
+  @IsUUID()
+  id: string;
+}
+
+export class ScheduleRunsQueryDto {
+  @ApiPropertyOptional({ description: 'Most runs to return', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  limit?: number;
+}
@@ -0,0 +1,58 @@
+import { ScheduleRun, TransferSchedule } from './schedule.model';
+import { ScheduleStore } from './schedule.store';
+
+/**
+ * Keeps schedules and runs in Maps. Nothing survives a restart - use it
+ * for tests and local experiments only.
+ */
+export class InMemoryScheduleStore implements ScheduleStore {
+  private readonly schedules = new Map<string, TransferSchedule>();
+  private readonly runs = new Map<string, ScheduleRun>();
+
+  async save(schedule: TransferSchedule): Promise<void> {
+    this.schedules.set(schedule.id, structuredClone(schedule));
+  }
+
+  async get(id: string): Promise<TransferSchedule | undefined> {
+    const schedule = this.schedules.get(id);
+    return schedule && structuredClone(schedule);
+  }
+
+  async list(): Promise<TransferSchedule[]> {
+    return [...this.schedules.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((schedule) => structuredClone(schedule));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    for (const [runId, run] of this.runs) {
+      if (run.scheduleId === id) this.runs.delete(runId);
+    }
+    return this.schedules.delete(id);
+  }
+
+  async findDue(now: string, limit: number): Promise<TransferSchedule[]> {
+    return [...this.schedules.values()]
+      .filter(
+        (schedule) =>
+          schedule.status === 'active' &&
+          schedule.nextRunAt !== undefined &&
+          schedule.nextRunAt <= now,
+      )
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))
+      .slice(0, limit)
+      .map((schedule) => structuredClone(schedule));
+  }
+
+  async saveRun(run: ScheduleRun): Promise<void> {
+    this.runs.set(run.id, structuredClone(run));
+  }
+
+  async listRuns(scheduleId: string, limit: number): Promise<ScheduleRun[]> {
+    return [...this.runs.values()]
+      .filter((run) => run.scheduleId === scheduleId)
+      .sort((a, b) => b.scheduledFor.localeCompare(a.scheduledFor))
+      .slice(0, limit)
+      .map((run) => structuredClone(run));
+  }
+}
@@ -0,0 +1,104 @@
+import { IntentStatus } from '../chainrails/models/intent.model';
+import { nextCronTime } from './cron';
+
+/**
+ * When a schedule runs:
+ * - once: at a single point in time
+ * - interval: every `everyMs`, from `startAt` (or creation)
+ * - cron: on a five-field cron expression, in UTC (see cron.ts)
+ */
+export type ScheduleTrigger =
+  | { type: 'once'; at: string }
+  | { type: 'interval'; everyMs: number; startAt?: string }
+  | { type: 'cron'; expression: string };
+
+export const SCHEDULE_TRIGGER_TYPES = ['once', 'interval', 'cron'] as const;
+
+/**
+ * The transfer every run creates, as for POST /app/transfer without a quote
+ */
+export interface ScheduledTransfer {
+  sourceChain: string;
+  destinationChain: string;
+  /** In the token's smallest units */
+  amount: string;
+  amountSymbol: string;
+  tokenIn: string;
+  recipient: string;
+  sender?: string;
+  refundAddress?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * - active: runs at nextRunAt
+ * - paused: doesn't run until resumed
+ * - completed: no runs left (once, maxRuns or endAt reached)
+ */
+export type ScheduleStatus = 'active' | 'paused' | 'completed';
+
+export interface TransferSchedule {
+  id: string;
+  name?: string;
+  status: ScheduleStatus;
+  trigger: ScheduleTrigger;
+  transfer: ScheduledTransfer;
+  /** Skip a run while the intent of the previous run isn't finished */
+  skipIfUnfinished: boolean;
+  /** Stop after this many runs (skipped runs don't count) */
+  maxRuns?: number;
+  /** Don't run after this time */
+  endAt?: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  runCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * - created: the run created its intent(s)
+ * - skipped: the previous run's intent wasn't finished yet
+ * - failed: creating the transfer failed (see error)
+ */
+export type ScheduleRunStatus = 'created' | 'skipped' | 'failed';
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  /** The time this run was due */
+  scheduledFor: string;
+  startedAt: string;
+  status: ScheduleRunStatus;
+  /** Intents this run created */
+  intentIds: number[];
+  /** Latest known status of those intents */
+  intentStatus?: IntentStatus;
+  /** Why the run was skipped or failed */
+  reason?: string;
+}
+
+/**
+ * The first time the trigger fires after `after`, or undefined when it
+ * never will again
+ */
+export function nextOccurrence(
+  trigger: ScheduleTrigger,
+  after: Date,
+  createdAt: Date = after,
+): Date | undefined {
+  switch (trigger.type) {
+    case 'once': {
+      const at = new Date(trigger.at);
+      return at > after ? at : undefined;
+    }
+    case 'interval': {
+      const start = new Date(trigger.startAt ?? createdAt).getTime();
+      if (start > after.getTime()) return new Date(start);
+      const elapsed = Math.floor((after.getTime() - start) / trigger.everyMs);
+      return new Date(start + (elapsed + 1) * trigger.everyMs);
+    }
+    case 'cron':
+      return nextCronTime(trigger.expression, after);
+  }
+}
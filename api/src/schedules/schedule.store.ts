@@ -0,0 +1,31 @@
+import { ScheduleRun, TransferSchedule } from './schedule.model';
+
+/**
+ * Injection token for the configured ScheduleStore
+ */
+export const SCHEDULE_STORE = Symbol('SCHEDULE_STORE');
+
+/**
+ * Where schedule definitions and their run history are kept.
+ *
+ * Implementations:
+ * - SqliteScheduleStore: persisted in the shared DATABASE_PATH file
+ * - InMemoryScheduleStore: lost on restart, handy for tests
+ */
+export interface ScheduleStore {
+  save(schedule: TransferSchedule): Promise<void>;
+  get(id: string): Promise<TransferSchedule | undefined>;
+  /** Newest first */
+  list(): Promise<TransferSchedule[]>;
+  /** Deletes the schedule and its runs */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Active schedules whose nextRunAt is at or before `now`, soonest first
+   */
+  findDue(now: string, limit: number): Promise<TransferSchedule[]>;
+
+  saveRun(run: ScheduleRun): Promise<void>;
+  /** Newest first */
+  listRuns(scheduleId: string, limit: number): Promise<ScheduleRun[]>;
+}
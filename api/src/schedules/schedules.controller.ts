@@ -0,0 +1,105 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { SchedulesService } from './schedules.service';
+import {
+  CreateScheduleDto,
+  ScheduleIdParamsDto,
+  ScheduleRunsQueryDto,
+  UpdateScheduleDto,
+  toScheduleTrigger,
+} from './dto/schedule.dto';
+
+/**
+ * SCHEDULES CONTROLLER
+ *
+ * HTTP endpoints for scheduled and recurring transfers.
+ *
+ * Endpoints:
+ * - POST /app/schedules - Create a schedule
+ * - GET /app/schedules - List schedules
+ * - GET /app/schedules/:id - One schedule
+ * - PATCH /app/schedules/:id - Change a schedule
+ * - DELETE /app/schedules/:id - Delete a schedule and its run history
+ * - POST /app/schedules/:id/pause - Stop running until resumed
+ * - POST /app/schedules/:id/resume - Run again, from the next trigger time
+ * - GET /app/schedules/:id/runs - Run history, with the intent each run created
+ */
+@ApiTags('app')
+@Controller('app/schedules')
+export class SchedulesController {
+  constructor(private readonly schedules: SchedulesService) {}
+
+  /**
+   * POST /app/schedules
+   *
+   * Body params:
+   * - trigger: { type: 'once', at } | { type: 'interval', everyMs, startAt? }
+   *   | { type: 'cron', expression }
+   * - transfer: The same details as POST /app/transfer (no quoteId)
+   * - name, skipIfUnfinished (default true), maxRuns, endAt: (Optional)
+   */
+  @Post()
+  async create(@Body() body: CreateScheduleDto) {
+    return this.schedules.create({
+      ...body,
+      trigger: toScheduleTrigger(body.trigger),
+    });
+  }
+
+  @Get()
+  async list() {
+    return this.schedules.list();
+  }
+
+  @Get(':id')
+  async get(@Param() params: ScheduleIdParamsDto) {
+    return this.schedules.get(params.id);
+  }
+
+  @Patch(':id')
+  async update(
+    @Param() params: ScheduleIdParamsDto,
+    @Body() body: UpdateScheduleDto,
+  ) {
+    return this.schedules.update(params.id, {
+      ...body,
+      trigger: body.trigger && toScheduleTrigger(body.trigger),
+    });
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param() params: ScheduleIdParamsDto) {
+    await this.schedules.remove(params.id);
+  }
+
+  @Post(':id/pause')
+  @HttpCode(200)
+  async pause(@Param() params: ScheduleIdParamsDto) {
+    return this.schedules.pause(params.id);
+  }
+
+  @Post(':id/resume')
+  @HttpCode(200)
+  async resume(@Param() params: ScheduleIdParamsDto) {
+    return this.schedules.resume(params.id);
+  }
+
+  @Get(':id/runs')
+  async runs(
+    @Param() params: ScheduleIdParamsDto,
+    @Query() query: ScheduleRunsQueryDto,
+  ) {
+    return this.schedules.runs(params.id, query.limit);
+  }
+}
@@ -0,0 +1,57 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { AppModule } from '../app/app.module';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { IntentsModule } from '../intents/intents.module';
+import { QuoteLocksModule } from '../quote-locks/quote-locks.module';
+import { InMemoryScheduleStore } from './in-memory-schedule.store';
+import { SCHEDULE_STORE, ScheduleStore } from './schedule.store';
+import { SchedulesController } from './schedules.controller';
+import { SchedulesService } from './schedules.service';
+import { SqliteScheduleStore } from './sqlite-schedule.store';
+
+/**
+ * Provides SchedulesService and the ScheduleStore picked by SCHEDULE_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    AppModule,
+    IntentsModule,
+    QuoteLocksModule,
+  ],
+  controllers: [SchedulesController],
+  providers: [
+    SchedulesService,
+    {
+      provide: SCHEDULE_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): ScheduleStore => {
+        const kind = configService.get<string>('SCHEDULE_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(SchedulesModule.name).warn(
+              'Transfer schedules are kept in memory and will be lost on restart.',
+            );
+            return new InMemoryScheduleStore();
+          case 'sqlite':
+            return new SqliteScheduleStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown SCHEDULE_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [SchedulesService, SCHEDULE_STORE],
+})
+export class SchedulesModule {}
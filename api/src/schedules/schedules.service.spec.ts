@@ -0,0 +1,237 @@
+import { ConfigService } from '@nestjs/config';
+import { AppService } from '../app/app.service';
+import { IntentsService } from '../intents/intents.service';
+import { QuoteLockService } from '../quote-locks/quote-lock.service';
+import { CronError, nextCronTime, parseCron } from './cron';
+import { InMemoryScheduleStore } from './in-memory-schedule.store';
+import { SchedulesService } from './schedules.service';
+
+const transfer = {
+  sourceChain: 'BASE_TESTNET',
+  destinationChain: 'ARBITRUM_TESTNET',
+  amount: '1000000',
+  amountSymbol: 'USDC',
+  tokenIn: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  recipient: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+};
+
+describe('cron', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('finds the next matching minute in UTC', () => {
+    // Friday 2025-12-05
+    const friday = at('2025-12-05T14:00:00.000Z');
+
+    expect(nextCronTime('*/15 * * * *', friday).toISOString()).toBe(
+      '2025-12-05T14:15:00.000Z',
+    );
+    expect(nextCronTime('0 9 * * MON', friday).toISOString()).toBe(
+      '2025-12-08T09:00:00.000Z',
+    );
+    expect(nextCronTime('30 8 1 JAN *', friday).toISOString()).toBe(
+      '2026-01-01T08:30:00.000Z',
+    );
+    expect(nextCronTime('@daily', friday).toISOString()).toBe(
+      '2025-12-06T00:00:00.000Z',
+    );
+    // Either day field matches when both are restricted: the 6th or a Sunday
+    expect(nextCronTime('0 0 6 * 0', friday).toISOString()).toBe(
+      '2025-12-06T00:00:00.000Z',
+    );
+    expect(nextCronTime('0 0 * * 7', friday).toISOString()).toBe(
+      '2025-12-07T00:00:00.000Z',
+    );
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(CronError);
+    expect(() => parseCron('60 * * * *')).toThrow('minute 60 is outside 0-59');
+    expect(() => parseCron('*/0 * * * *')).toThrow(CronError);
+    expect(() => parseCron('0 0 * FOO *')).toThrow(CronError);
+    expect(() => nextCronTime('0 0 30 FEB *', new Date())).toThrow(
+      'never fires',
+    );
+  });
+});
+
+describe('SchedulesService', () => {
+  const now = new Date('2025-12-05T14:00:00.000Z');
+  const later = (ms: number) => new Date(now.getTime() + ms);
+  const HOUR = 3_600_000;
+
+  let store: InMemoryScheduleStore;
+  let createTransfer: jest.Mock;
+  let getIntentStatus: jest.Mock;
+  let quoteLocks: { required: boolean };
+  let service: SchedulesService;
+
+  function intent(id: number, status = 'PENDING') {
+    return { id, intent_address: `0x${id}`, intent_status: status };
+  }
+
+  beforeEach(() => {
+    store = new InMemoryScheduleStore();
+    createTransfer = jest.fn(async () => ({ intent: intent(1) }));
+    getIntentStatus = jest.fn();
+    quoteLocks = { required: false };
+    service = new SchedulesService(
+      store,
+      { createTransfer } as unknown as AppService,
+      { getIntentStatus } as unknown as IntentsService,
+      quoteLocks as QuoteLockService,
+      new ConfigService({ SCHEDULER_ENABLED: 'false' }),
+    );
+  });
+
+  it('creates a transfer per run and records the intent it created', async () => {
+    const schedule = await service.create(
+      { trigger: { type: 'interval', everyMs: HOUR }, transfer },
+      now,
+    );
+    expect(schedule.nextRunAt).toBe('2025-12-05T15:00:00.000Z');
+
+    // Not due yet
+    await expect(service.runDue(later(HOUR - 1))).resolves.toMatchObject({
+      due: 0,
+    });
+
+    await expect(service.runDue(later(HOUR))).resolves.toEqual({
+      due: 1,
+      created: 1,
+      skipped: 0,
+      failed: 0,
+    });
+    expect(createTransfer).toHaveBeenCalledWith({
+      ...transfer,
+      metadata: {
+        scheduleId: schedule.id,
+        scheduledFor: '2025-12-05T15:00:00.000Z',
+      },
+      idempotencyKey: `schedule:${schedule.id}:2025-12-05T15:00:00.000Z`,
+    });
+    expect(await service.runs(schedule.id)).toEqual([
+      expect.objectContaining({
+        status: 'created',
+        scheduledFor: '2025-12-05T15:00:00.000Z',
+        intentIds: [1],
+        intentStatus: 'PENDING',
+      }),
+    ]);
+    expect(await service.get(schedule.id)).toMatchObject({
+      runCount: 1,
+      lastRunAt: '2025-12-05T15:00:00.000Z',
+      nextRunAt: '2025-12-05T16:00:00.000Z',
+    });
+  });
+
+  it("skips a run while the previous run's intent is unfinished", async () => {
+    const schedule = await service.create(
+      { trigger: { type: 'interval', everyMs: HOUR }, transfer },
+      now,
+    );
+    await service.runDue(later(HOUR));
+
+    getIntentStatus.mockResolvedValueOnce(intent(1, 'FUNDED'));
+    await expect(service.runDue(later(2 * HOUR))).resolves.toMatchObject({
+      skipped: 1,
+    });
+
+    getIntentStatus.mockResolvedValueOnce(intent(1, 'COMPLETED'));
+    await expect(service.runDue(later(3 * HOUR))).resolves.toMatchObject({
+      created: 1,
+    });
+
+    const runs = await service.runs(schedule.id);
+    expect(runs.map((run) => run.status)).toEqual([
+      'created',
+      'skipped',
+      'created',
+    ]);
+    expect(runs[1].reason).toBe(
+      'Intent 1 from the run at 2025-12-05T15:00:00.000Z is still FUNDED',
+    );
+    expect(createTransfer).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs missed occurrences once, and completes after maxRuns', async () => {
+    const schedule = await service.create(
+      {
+        trigger: { type: 'cron', expression: '0 * * * *' },
+        transfer,
+        skipIfUnfinished: false,
+        maxRuns: 2,
+      },
+      now,
+    );
+
+    // Down for five hours: one run, then back on the hourly grid
+    await service.runDue(later(5 * HOUR + 60_000));
+    expect(await service.get(schedule.id)).toMatchObject({
+      status: 'active',
+      nextRunAt: '2025-12-05T20:00:00.000Z',
+    });
+
+    createTransfer.mockRejectedValueOnce(new Error('Chainrails is down'));
+    await service.runDue(later(6 * HOUR));
+    await service.runDue(later(7 * HOUR));
+
+    expect(await service.get(schedule.id)).toMatchObject({
+      status: 'completed',
+      runCount: 2,
+      nextRunAt: undefined,
+    });
+    expect((await service.runs(schedule.id)).map((run) => run.status)).toEqual([
+      'created',
+      'failed',
+      'created',
+    ]);
+  });
+
+  it("doesn't run paused schedules, and resumes from now", async () => {
+    const schedule = await service.create(
+      { trigger: { type: 'interval', everyMs: HOUR }, transfer },
+      now,
+    );
+
+    await service.pause(schedule.id, now);
+    await expect(service.runDue(later(3 * HOUR))).resolves.toMatchObject({
+      due: 0,
+    });
+
+    const resumed = await service.resume(schedule.id, later(3 * HOUR + 1));
+    expect(resumed).toMatchObject({
+      status: 'active',
+      nextRunAt: '2025-12-05T18:00:00.000Z',
+    });
+    expect(createTransfer).not.toHaveBeenCalled();
+  });
+
+  it('rejects schedules that could never run', async () => {
+    await expect(
+      service.create(
+        { trigger: { type: 'once', at: now.toISOString() }, transfer },
+        now,
+      ),
+    ).rejects.toThrow('trigger.at must be in the future');
+    await expect(
+      service.create(
+        { trigger: { type: 'cron', expression: '0 0 30 FEB *' }, transfer },
+        now,
+      ),
+    ).rejects.toThrow('never fires');
+    await expect(
+      service.create(
+        { trigger: { type: 'interval', everyMs: 1000 }, transfer },
+        now,
+      ),
+    ).rejects.toThrow('at least 60000');
+
+    quoteLocks.required = true;
+    await expect(
+      service.create(
+        { trigger: { type: 'interval', everyMs: HOUR }, transfer },
+        now,
+      ),
+    ).rejects.toThrow('QUOTE_LOCK_REQUIRED');
+  });
+});
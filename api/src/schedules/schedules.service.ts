@@ -0,0 +1,466 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { AppService } from '../app/app.service';
+import { IntentsService } from '../intents/intents.service';
+import { isTerminalStatus } from '../lifecycle/intent-state-machine';
+import { QuoteLockService } from '../quote-locks/quote-lock.service';
+import { CronError, nextCronTime } from './cron';
+import {
+  ScheduleRun,
+  ScheduleTrigger,
+  ScheduledTransfer,
+  TransferSchedule,
+  nextOccurrence,
+} from './schedule.model';
+import { SCHEDULE_STORE, ScheduleStore } from './schedule.store';
+
+export interface SchedulerOptions {
+  enabled: boolean;
+  tickMs: number;
+  batchSize: number;
+  minIntervalMs: number;
+}
+
+export interface ScheduleRequest {
+  name?: string;
+  trigger: ScheduleTrigger;
+  transfer: ScheduledTransfer;
+  skipIfUnfinished?: boolean;
+  maxRuns?: number;
+  endAt?: string;
+}
+
+/**
+ * Summary of one scheduler tick
+ */
+export interface SchedulerTickResult {
+  due: number;
+  created: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * SCHEDULES SERVICE
+ *
+ * Purpose: Create the same transfer once later, or again and again
+ *
+ * A schedule stores the details of a transfer (as for POST /app/transfer)
+ * and a trigger: a single time, a fixed interval, or a cron expression.
+ * Every SCHEDULER_TICK_MS the scheduler creates the transfer for each
+ * schedule that is due, through AppService.createTransfer, and records a
+ * run linked to the intent it created.
+ *
+ * What you'll learn:
+ * - How to run recurring work from a Nest service without a job queue
+ * - How to make each run safe to repeat (an Idempotency-Key per run)
+ * - How to hold back a run while the previous payment is still in flight
+ */
+@Injectable()
+export class SchedulesService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SchedulesService.name);
+  private readonly options: SchedulerOptions;
+  private timer?: NodeJS.Timeout;
+  private stopped = true;
+
+  constructor(
+    @Inject(SCHEDULE_STORE)
+    private readonly store: ScheduleStore,
+    private readonly appService: AppService,
+    private readonly intentsService: IntentsService,
+    private readonly quoteLocks: QuoteLockService,
+    private configService: ConfigService,
+  ) {
+    this.options = {
+      enabled:
+        String(
+          this.configService.get('SCHEDULER_ENABLED') ?? 'true',
+        ).toLowerCase() !== 'false',
+      tickMs: Number(this.configService.get('SCHEDULER_TICK_MS') ?? 15000),
+      batchSize: Number(this.configService.get('SCHEDULER_BATCH_SIZE') ?? 20),
+      minIntervalMs: Number(
+        this.configService.get('SCHEDULE_MIN_INTERVAL_MS') ?? 60000,
+      ),
+    };
+  }
+
+  onApplicationBootstrap() {
+    if (this.options.enabled) {
+      this.start();
+    }
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  /**
+   * Start looking for due schedules every tickMs
+   */
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.logger.log(
+      `✅ Running scheduled transfers, checking every ${this.options.tickMs}ms`,
+    );
+    this.scheduleTick();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Example 1: Create a Schedule
+   *
+   * The first run is the first time the trigger fires after now.
+   * Scheduled transfers have no quote to lock, so they can't be used
+   * while QUOTE_LOCK_REQUIRED is on.
+   */
+  async create(
+    request: ScheduleRequest,
+    now = new Date(),
+  ): Promise<TransferSchedule> {
+    if (this.quoteLocks.required) {
+      throw new BadRequestException(
+        'Scheduled transfers are created without a quote, so they are unavailable while QUOTE_LOCK_REQUIRED is on.',
+      );
+    }
+    this.checkTrigger(request.trigger, now);
+
+    const schedule: TransferSchedule = {
+      id: randomUUID(),
+      name: request.name,
+      status: 'active',
+      trigger: request.trigger,
+      transfer: request.transfer,
+      skipIfUnfinished: request.skipIfUnfinished ?? true,
+      maxRuns: request.maxRuns,
+      endAt: request.endAt,
+      runCount: 0,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    this.planNextRun(schedule, now);
+    if (schedule.status === 'completed') {
+      throw new BadRequestException(
+        'The schedule would never run: its first run is after endAt',
+      );
+    }
+
+    await this.store.save(schedule);
+    this.logger.log(
+      `✅ Created schedule ${schedule.id}, first run at ${schedule.nextRunAt}`,
+    );
+    return schedule;
+  }
+
+  async list(): Promise<TransferSchedule[]> {
+    return this.store.list();
+  }
+
+  async get(id: string): Promise<TransferSchedule> {
+    const schedule = await this.store.get(id);
+    if (!schedule) {
+      throw new NotFoundException(`Schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Example 2: Change a Schedule
+   *
+   * A new trigger (or endAt/maxRuns) plans the next run again from now.
+   * Completed schedules can't be changed: create a new one instead.
+   */
+  async update(
+    id: string,
+    changes: Partial<ScheduleRequest>,
+    now = new Date(),
+  ): Promise<TransferSchedule> {
+    const schedule = await this.get(id);
+    if (schedule.status === 'completed') {
+      throw new ConflictException(`Schedule ${id} is completed`);
+    }
+    if (changes.trigger) {
+      this.checkTrigger(changes.trigger, now);
+    }
+
+    const updated: TransferSchedule = {
+      ...schedule,
+      ...(changes.name !== undefined && { name: changes.name }),
+      ...(changes.trigger && { trigger: changes.trigger }),
+      ...(changes.transfer && {
+        transfer: { ...schedule.transfer, ...changes.transfer },
+      }),
+      ...(changes.skipIfUnfinished !== undefined && {
+        skipIfUnfinished: changes.skipIfUnfinished,
+      }),
+      ...(changes.maxRuns !== undefined && { maxRuns: changes.maxRuns }),
+      ...(changes.endAt !== undefined && { endAt: changes.endAt }),
+      updatedAt: now.toISOString(),
+    };
+    if (
+      updated.status === 'active' &&
+      (changes.trigger || changes.endAt || changes.maxRuns)
+    ) {
+      this.planNextRun(updated, now);
+    }
+
+    await this.store.save(updated);
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!(await this.store.delete(id))) {
+      throw new NotFoundException(`Schedule ${id} not found`);
+    }
+  }
+
+  /**
+   * Example 3: Pause and Resume
+   *
+   * A paused schedule keeps its definition and history but doesn't run.
+   * Runs missed while paused are not made up: resuming plans the next run
+   * from now.
+   */
+  async pause(id: string, now = new Date()): Promise<TransferSchedule> {
+    const schedule = await this.get(id);
+    if (schedule.status === 'completed') {
+      throw new ConflictException(`Schedule ${id} is completed`);
+    }
+    schedule.status = 'paused';
+    schedule.nextRunAt = undefined;
+    schedule.updatedAt = now.toISOString();
+    await this.store.save(schedule);
+    return schedule;
+  }
+
+  async resume(id: string, now = new Date()): Promise<TransferSchedule> {
+    const schedule = await this.get(id);
+    if (schedule.status === 'completed') {
+      throw new ConflictException(`Schedule ${id} is completed`);
+    }
+    if (schedule.status === 'paused') {
+      schedule.status = 'active';
+      this.planNextRun(schedule, now);
+      schedule.updatedAt = now.toISOString();
+      await this.store.save(schedule);
+    }
+    return schedule;
+  }
+
+  /**
+   * Runs of a schedule, newest first
+   */
+  async runs(id: string, limit = 50): Promise<ScheduleRun[]> {
+    await this.get(id);
+    return this.store.listRuns(id, limit);
+  }
+
+  /**
+   * Example 4: Run the Schedules that are Due
+   *
+   * Called on every tick; call it yourself to run due schedules now.
+   * Each schedule runs at most once per call, even when several runs were
+   * missed (e.g. while the API was down).
+   */
+  async runDue(now = new Date()): Promise<SchedulerTickResult> {
+    const result: SchedulerTickResult = {
+      due: 0,
+      created: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    const due = await this.store.findDue(
+      now.toISOString(),
+      this.options.batchSize,
+    );
+
+    for (const schedule of due) {
+      result.due++;
+      const run = await this.runSchedule(schedule, now);
+      result[run.status]++;
+    }
+
+    if (result.due) {
+      this.logger.log(
+        `✅ Ran ${result.due} schedules: ${result.created} created, ${result.skipped} skipped, ${result.failed} failed`,
+      );
+    }
+    return result;
+  }
+
+  private async runSchedule(
+    schedule: TransferSchedule,
+    now: Date,
+  ): Promise<ScheduleRun> {
+    const run: ScheduleRun = {
+      id: randomUUID(),
+      scheduleId: schedule.id,
+      scheduledFor: schedule.nextRunAt,
+      startedAt: now.toISOString(),
+      status: 'created',
+      intentIds: [],
+    };
+
+    const unfinished = schedule.skipIfUnfinished
+      ? await this.findUnfinishedRun(schedule.id, now)
+      : undefined;
+
+    if (unfinished) {
+      run.status = 'skipped';
+      run.reason = unfinished;
+    } else {
+      try {
+        const { intent } = await this.appService.createTransfer({
+          ...schedule.transfer,
+          metadata: {
+            ...schedule.transfer.metadata,
+            scheduleId: schedule.id,
+            scheduledFor: run.scheduledFor,
+          },
+          // A retried or repeated tick can't create the same run twice
+          idempotencyKey: `schedule:${schedule.id}:${run.scheduledFor}`,
+        });
+        run.intentIds = [intent.id];
+        run.intentStatus = intent.intent_status;
+        schedule.runCount++;
+      } catch (error) {
+        run.status = 'failed';
+        run.reason = error.message;
+        this.logger.warn(
+          `❌ Scheduled transfer ${schedule.id} failed: ${error.message}`,
+        );
+      }
+    }
+
+    await this.store.saveRun(run);
+
+    schedule.lastRunAt = run.scheduledFor;
+    const from = new Date(
+      Math.max(now.getTime(), Date.parse(run.scheduledFor)),
+    );
+    this.planNextRun(schedule, from);
+    schedule.updatedAt = now.toISOString();
+    await this.store.save(schedule);
+
+    return run;
+  }
+
+  /**
+   * Why the previous run isn't finished, if it isn't: one of its intents
+   * is still PENDING, FUNDED or INITIATED
+   */
+  private async findUnfinishedRun(
+    scheduleId: string,
+    now: Date,
+  ): Promise<string | undefined> {
+    const [previous] = (await this.store.listRuns(scheduleId, 20)).filter(
+      (run) => run.status === 'created',
+    );
+    if (!previous || isTerminalStatus(previous.intentStatus)) {
+      return undefined;
+    }
+
+    for (const intentId of previous.intentIds) {
+      try {
+        const intent = await this.intentsService.getIntentStatus(intentId);
+        previous.intentStatus = intent.intent_status;
+        const expired =
+          intent.intent_status === 'PENDING' &&
+          !!intent.expires_at &&
+          Date.parse(intent.expires_at) <= now.getTime();
+        if (!expired && !isTerminalStatus(intent.intent_status)) {
+          await this.store.saveRun(previous);
+          return `Intent ${intentId} from the run at ${previous.scheduledFor} is still ${intent.intent_status}`;
+        }
+      } catch (error) {
+        return `Couldn't check intent ${intentId} from the run at ${previous.scheduledFor}: ${error.message}`;
+      }
+    }
+
+    await this.store.saveRun(previous);
+    return undefined;
+  }
+
+  /**
+   * Set nextRunAt to the first time the trigger fires after `after`, or
+   * mark the schedule completed when it has no runs left
+   */
+  private planNextRun(schedule: TransferSchedule, after: Date) {
+    const next = nextOccurrence(
+      schedule.trigger,
+      after,
+      new Date(schedule.createdAt),
+    );
+    const done =
+      !next ||
+      (schedule.maxRuns !== undefined &&
+        schedule.runCount >= schedule.maxRuns) ||
+      (schedule.endAt !== undefined && next > new Date(schedule.endAt));
+
+    if (done) {
+      schedule.status = 'completed';
+      schedule.nextRunAt = undefined;
+    } else {
+      schedule.nextRunAt = next.toISOString();
+    }
+  }
+
+  private checkTrigger(trigger: ScheduleTrigger, now: Date) {
+    switch (trigger.type) {
+      case 'once':
+        if (Date.parse(trigger.at) <= now.getTime()) {
+          throw new BadRequestException('trigger.at must be in the future');
+        }
+        return;
+      case 'interval':
+        if (trigger.everyMs < this.options.minIntervalMs) {
+          throw new BadRequestException(
+            `trigger.everyMs must be at least ${this.options.minIntervalMs}`,
+          );
+        }
+        return;
+      case 'cron':
+        try {
+          nextCronTime(trigger.expression, now);
+        } catch (error) {
+          if (error instanceof CronError) {
+            throw new BadRequestException(error.message);
+          }
+          throw error;
+        }
+        return;
+    }
+  }
+
+  private scheduleTick() {
+    if (this.stopped) return;
+    // Chained timeouts rather than setInterval, so ticks never overlap
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runDue();
+      } catch (error) {
+        this.logger.error(`❌ Scheduler tick failed: ${error.message}`);
+      }
+      this.scheduleTick();
+    }, this.options.tickMs);
+    // Don't keep the process alive (e.g. the CLI) just for schedules
+    this.timer.unref?.();
+  }
+}
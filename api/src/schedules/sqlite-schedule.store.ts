@@ -0,0 +1,108 @@
+import type { Database } from 'better-sqlite3';
+import { ScheduleRun, TransferSchedule } from './schedule.model';
+import { ScheduleStore } from './schedule.store';
+
+/**
+ * Keeps schedules and their runs in SQLite, each as JSON, with the columns
+ * the scheduler queries on alongside
+ */
+export class SqliteScheduleStore implements ScheduleStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS transfer_schedules (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        next_run_at TEXT,
+        schedule TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS transfer_schedules_due
+        ON transfer_schedules (status, next_run_at);
+      CREATE TABLE IF NOT EXISTS schedule_runs (
+        id TEXT PRIMARY KEY,
+        schedule_id TEXT NOT NULL,
+        scheduled_for TEXT NOT NULL,
+        run TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS schedule_runs_schedule
+        ON schedule_runs (schedule_id, scheduled_for);
+    `);
+  }
+
+  async save(schedule: TransferSchedule): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO transfer_schedules
+          (id, status, next_run_at, schedule, created_at)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        schedule.id,
+        schedule.status,
+        schedule.nextRunAt ?? null,
+        JSON.stringify(schedule),
+        schedule.createdAt,
+      );
+  }
+
+  async get(id: string): Promise<TransferSchedule | undefined> {
+    const row = this.db
+      .prepare('SELECT schedule FROM transfer_schedules WHERE id = ?')
+      .get(id) as { schedule: string } | undefined;
+    return row && JSON.parse(row.schedule);
+  }
+
+  async list(): Promise<TransferSchedule[]> {
+    const rows = this.db
+      .prepare(
+        'SELECT schedule FROM transfer_schedules ORDER BY created_at DESC',
+      )
+      .all() as { schedule: string }[];
+    return rows.map((row) => JSON.parse(row.schedule));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM schedule_runs WHERE schedule_id = ?')
+        .run(id);
+      return (
+        this.db.prepare('DELETE FROM transfer_schedules WHERE id = ?').run(id)
+          .changes > 0
+      );
+    })();
+  }
+
+  async findDue(now: string, limit: number): Promise<TransferSchedule[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT schedule FROM transfer_schedules
+         WHERE status = 'active' AND next_run_at <= ?
+         ORDER BY next_run_at
+         LIMIT ?`,
+      )
+      .all(now, limit) as { schedule: string }[];
+    return rows.map((row) => JSON.parse(row.schedule));
+  }
+
+  async saveRun(run: ScheduleRun): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO schedule_runs (id, schedule_id, scheduled_for, run)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(run.id, run.scheduleId, run.scheduledFor, JSON.stringify(run));
+  }
+
+  async listRuns(scheduleId: string, limit: number): Promise<ScheduleRun[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT run FROM schedule_runs
+         WHERE schedule_id = ?
+         ORDER BY scheduled_for DESC
+         LIMIT ?`,
+      )
+      .all(scheduleId, limit) as { run: string }[];
+    return rows.map((row) => JSON.parse(row.run));
+  }
+}
@@ -0,0 +1,272 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { INTENT_STATUSES } from '../../chainrails/models/intent.model';
+import {
+  IsBaseUnitAmount,
+  IsDecimalAmount,
+} from '../../common/validation/amount.validator';
+
+// Chains and tokens are checked against the simulator's fixtures by the
+// services, so these DTOs only check that the parameters are there.
+
+const STATUS_FILTERS = [
+  ...INTENT_STATUSES,
+  ...INTENT_STATUSES.map((status) => status.toLowerCase()),
+];
+
+export class ChainsQueryDto {
+  @ApiPropertyOptional({ enum: ['mainnet', 'testnet'] })
+  @IsOptional()
+  @IsIn(['mainnet', 'testnet'])
+  network?: 'mainnet' | 'testnet';
+}
+
+export class ChainNameParamsDto {
+  @ApiProperty({ example: 'BASE_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  chainName: string;
+}
+
+export class BridgeQuoteQueryDto {
+  @ApiProperty({ example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' })
+  @IsString()
+  @IsNotEmpty()
+  tokenIn: string;
+
+  @ApiProperty({ example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d' })
+  @IsString()
+  @IsNotEmpty()
+  tokenOut: string;
+
+  @ApiProperty({ example: 'BASE_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  sourceChain: string;
+
+  @ApiProperty({ example: 'ARBITRUM_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  destinationChain: string;
+
+  @ApiProperty({ description: 'Smallest token units', example: '1000000' })
+  @IsBaseUnitAmount()
+  amount: string;
+
+  @ApiPropertyOptional({ example: 'GATEWAY,CCTP' })
+  @IsOptional()
+  @IsString()
+  excludeBridges?: string;
+}
+
+export class SingleQuoteQueryDto extends BridgeQuoteQueryDto {
+  @ApiProperty({ example: 'CCTP' })
+  @IsString()
+  @IsNotEmpty()
+  bridge: string;
+}
+
+export class SupportedBridgesQueryDto {
+  @ApiProperty({ example: 'BASE_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  sourceChain: string;
+
+  @ApiProperty({ example: 'ARBITRUM_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  destinationChain: string;
+}
+
+export class MultiSourceQueryDto {
+  @ApiProperty({ example: 'ARBITRUM_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  destinationChain: string;
+
+  @ApiProperty({ description: 'Human-readable amount', example: '1' })
+  @IsDecimalAmount()
+  amount: string;
+
+  @ApiProperty({ example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d' })
+  @IsString()
+  @IsNotEmpty()
+  tokenOut: string;
+}
+
+/**
+ * The body of POST /intents, in Chainrails' own (partly snake_case) format
+ */
+export class CreateSimulatedIntentDto {
+  @ApiPropertyOptional({
+    example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  })
+  @IsOptional()
+  @IsString()
+  sender?: string;
+
+  @ApiProperty({ description: 'Smallest token units', example: '1000000' })
+  @IsBaseUnitAmount()
+  amount: string;
+
+  @ApiPropertyOptional({ example: 'USDC' })
+  @IsOptional()
+  @IsString()
+  amountSymbol?: string;
+
+  @ApiProperty({ example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' })
+  @IsString()
+  @IsNotEmpty()
+  tokenIn: string;
+
+  @ApiProperty({ example: 'BASE_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  source_chain: string;
+
+  @ApiProperty({ example: 'ARBITRUM_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  destination_chain: string;
+
+  @ApiProperty({ example: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54' })
+  @IsString()
+  @IsNotEmpty()
+  recipient: string;
+
+  @ApiPropertyOptional({
+    example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e',
+  })
+  @IsOptional()
+  @IsString()
+  refund_address?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Custom metadata. simulate: "complete" (default), "refund" or "manual" picks how the intent ends',
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class SimulatedIntentIdParamsDto {
+  @ApiProperty({ example: 1 })
+  @Type(() => Number)
+  @IsInt({ message: 'id must be a whole number' })
+  @Min(1)
+  id: number;
+}
+
+export class SimulatedUserParamsDto {
+  @ApiProperty({ example: '0xb79541be080a59fdce6c0b43219ba56c725ec65e' })
+  @IsString()
+  @IsNotEmpty()
+  address: string;
+}
+
+export class SimulatedIntentsQueryDto {
+  @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ minimum: 0, default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @ApiPropertyOptional({ enum: STATUS_FILTERS })
+  @IsOptional()
+  @IsIn(STATUS_FILTERS)
+  status?: string;
+}
+
+export class CreateSimulatedSessionDto {
+  @ApiProperty({ example: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54' })
+  @IsString()
+  @IsNotEmpty()
+  recipient: string;
+
+  @ApiProperty({ example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d' })
+  @IsString()
+  @IsNotEmpty()
+  tokenOut: string;
+
+  @ApiProperty({ example: 'ARBITRUM_TESTNET' })
+  @IsString()
+  @IsNotEmpty()
+  destinationChain: string;
+
+  @ApiProperty({ description: 'Human-readable amount', example: '9.89' })
+  @IsDecimalAmount()
+  amount: string;
+}
+
+export class AdvanceClockDto {
+  @ApiProperty({
+    description: 'Milliseconds to move the clock forward',
+    example: 15000,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  ms: number;
+}
+
+export class SimulatedFaultDto {
+  @ApiPropertyOptional({ example: 'GET' })
+  @IsOptional()
+  @IsIn(['GET', 'POST', 'get', 'post'])
+  method?: string;
+
+  @ApiProperty({
+    description: 'Path prefix below /api/v1',
+    example: '/intents/',
+  })
+  @Matches(/^\//, { message: 'path must start with /' })
+  path: string;
+
+  @ApiProperty({ minimum: 400, maximum: 599, example: 503 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(400)
+  @Max(599)
+  status: number;
+
+  @ApiPropertyOptional({ example: 'UPSTREAM_UNAVAILABLE' })
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  message?: string;
+
+  @ApiPropertyOptional({
+    description: 'Requests that fail before it clears. Default: all',
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  times?: number;
+}
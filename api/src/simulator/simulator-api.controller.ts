@@ -0,0 +1,135 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { IDEMPOTENCY_KEY_HEADER } from '../idempotency/idempotency.interceptor';
+import {
+  BridgeQuoteQueryDto,
+  ChainNameParamsDto,
+  ChainsQueryDto,
+  CreateSimulatedIntentDto,
+  CreateSimulatedSessionDto,
+  MultiSourceQueryDto,
+  SimulatedIntentIdParamsDto,
+  SimulatedIntentsQueryDto,
+  SimulatedUserParamsDto,
+  SingleQuoteQueryDto,
+  SupportedBridgesQueryDto,
+} from './dto/simulator.dto';
+import { SimulatorAuthGuard } from './simulator-auth.guard';
+import { SimulatorIntentsService } from './simulator-intents.service';
+import { SimulatorQuotesService } from './simulator-quotes.service';
+
+/**
+ * SIMULATOR API CONTROLLER
+ *
+ * The Chainrails endpoints the rest of this repo calls, under the same paths
+ * (the simulator serves them below /api/v1, like api.chainrails.io):
+ * - GET /chains, GET /chains/:chainName/tokens
+ * - GET /quotes/single, /quotes/multiple, /quotes/best, /quotes/multi-source
+ * - GET /router/optimal-route, /router/supported-bridges/route,
+ *   /router/supported-bridges/all, /router/supported-routes/bridge/:bridge
+ * - POST /intents, GET /intents/:id, /intents/user/:address, /intents
+ * - POST /modal/sessions
+ *
+ * Every request needs an `Authorization: Bearer <key>` header.
+ */
+@ApiTags('simulator')
+@UseGuards(SimulatorAuthGuard)
+@Controller()
+export class SimulatorApiController {
+  constructor(
+    private readonly quotes: SimulatorQuotesService,
+    private readonly intents: SimulatorIntentsService,
+  ) {}
+
+  @Get('chains')
+  getChains(@Query() query: ChainsQueryDto) {
+    return this.quotes.getChains(query.network);
+  }
+
+  @Get('chains/:chainName/tokens')
+  getTokens(@Param() params: ChainNameParamsDto) {
+    return this.quotes.getTokens(params.chainName);
+  }
+
+  @Get('quotes/single')
+  getSingleQuote(@Query() query: SingleQuoteQueryDto) {
+    return this.quotes.getSingleQuote(query);
+  }
+
+  @Get('quotes/multiple')
+  getMultipleQuotes(@Query() query: BridgeQuoteQueryDto) {
+    return this.quotes.getBridgeQuotes(query);
+  }
+
+  @Get('quotes/best')
+  getBestQuote(@Query() query: BridgeQuoteQueryDto) {
+    return this.quotes.getBestQuote(query);
+  }
+
+  @Get('quotes/multi-source')
+  getMultiSourceQuotes(@Query() query: MultiSourceQueryDto) {
+    return this.quotes.getMultiSourceQuotes(query);
+  }
+
+  @Get('router/optimal-route')
+  getOptimalRoute(@Query() query: BridgeQuoteQueryDto) {
+    return this.quotes.getOptimalRoute(query);
+  }
+
+  @Get('router/supported-bridges/route')
+  getSupportedBridges(@Query() query: SupportedBridgesQueryDto) {
+    return this.quotes.getSupportedBridges(
+      query.sourceChain,
+      query.destinationChain,
+    );
+  }
+
+  @Get('router/supported-bridges/all')
+  getAllBridges() {
+    return this.quotes.getAllBridges();
+  }
+
+  @Get('router/supported-routes/bridge/:bridge')
+  getBridgeRoutes(@Param('bridge') bridge: string) {
+    return this.quotes.getBridgeRoutes(bridge);
+  }
+
+  @Post('intents')
+  createIntent(
+    @Body() body: CreateSimulatedIntentDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
+  ) {
+    return this.intents.create(body, idempotencyKey);
+  }
+
+  @Get('intents/user/:address')
+  getUserIntents(@Param() params: SimulatedUserParamsDto) {
+    return this.intents.listForUser(params.address);
+  }
+
+  @Get('intents/:id')
+  getIntent(@Param() params: SimulatedIntentIdParamsDto) {
+    return this.intents.get(params.id);
+  }
+
+  @Get('intents')
+  getIntents(@Query() query: SimulatedIntentsQueryDto) {
+    return this.intents.list(query);
+  }
+
+  @Post('modal/sessions')
+  @HttpCode(200)
+  createSession(@Body() body: CreateSimulatedSessionDto) {
+    return this.intents.createSession(body);
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Checks the `Authorization: Bearer <key>` header like Chainrails does, so a
+ * client that forgets its key fails here too.
+ *
+ * Any key is accepted unless SIMULATOR_API_KEY is set, in which case the key
+ * must match it.
+ */
+@Injectable()
+export class SimulatorAuthGuard implements CanActivate {
+  private readonly apiKey: string;
+
+  constructor(configService: ConfigService) {
+    this.apiKey = configService.get<string>('SIMULATOR_API_KEY') ?? '';
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const [scheme, key] = String(request.headers.authorization ?? '').split(
+      ' ',
+    );
+
+    if (scheme !== 'Bearer' || !key) {
+      throw new UnauthorizedException('Missing API key');
+    }
+    if (this.apiKey && key !== this.apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export type SimulatorClockMode = 'real' | 'manual';
+
+/**
+ * The simulator's sense of time.
+ *
+ * - real (default): wall-clock time, sped up by SIMULATOR_CLOCK_SPEED
+ *   (10 = an intent that takes 50s completes in 5s)
+ * - manual: time stands still until advance() is called, e.g. from
+ *   POST /_simulator/clock/advance. Tests use this to step intents through
+ *   their lifecycle without waiting.
+ *
+ * In both modes advance() jumps ahead, so expiries can be reached on demand.
+ */
+@Injectable()
+export class SimulatorClock {
+  readonly mode: SimulatorClockMode;
+  readonly speed: number;
+  private readonly startedAt = Date.now();
+  private manualNow: number;
+  private offsetMs = 0;
+
+  constructor(configService: ConfigService) {
+    const mode = configService.get<string>('SIMULATOR_CLOCK') || 'real';
+    if (mode !== 'real' && mode !== 'manual') {
+      throw new Error(
+        `Unknown SIMULATOR_CLOCK "${mode}". Use "real" or "manual".`,
+      );
+    }
+    this.mode = mode;
+    this.speed = Number(configService.get('SIMULATOR_CLOCK_SPEED') ?? 1);
+    this.manualNow = this.startedAt;
+  }
+
+  now(): Date {
+    if (this.mode === 'manual') {
+      return new Date(this.manualNow);
+    }
+    const elapsed = (Date.now() - this.startedAt) * this.speed;
+    return new Date(this.startedAt + elapsed + this.offsetMs);
+  }
+
+  advance(ms: number): Date {
+    if (this.mode === 'manual') {
+      this.manualNow += ms;
+    } else {
+      this.offsetMs += ms;
+    }
+    return this.now();
+  }
+}
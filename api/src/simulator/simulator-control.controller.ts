@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import {
+  AdvanceClockDto,
+  SimulatedFaultDto,
+  SimulatedIntentIdParamsDto,
+} from './dto/simulator.dto';
+import { SimulatorClock } from './simulator-clock';
+import { SimulatorFaultsService } from './simulator-faults.service';
+import { SimulatorIntentsService } from './simulator-intents.service';
+import { SimulatorWebhooksService } from './simulator-webhooks.service';
+
+/**
+ * SIMULATOR CONTROL CONTROLLER
+ *
+ * Endpoints that only the simulator has, to drive it from tests and scripts.
+ * No API key needed.
+ *
+ * Try these:
+ * - GET  /_simulator/clock - Current simulator time
+ * - POST /_simulator/clock/advance { "ms": 15000 } - Jump ahead
+ * - POST /_simulator/intents/:id/fund - Fund a PENDING intent now
+ * - POST /_simulator/intents/:id/advance - Next status now
+ * - GET  /_simulator/webhooks - Recent webhook deliveries
+ * - POST /_simulator/faults { "path": "/intents/", "status": 503 } - Make requests fail
+ * - DELETE /_simulator/faults - Stop failing
+ * - POST /_simulator/reset - Forget all intents, deliveries and faults
+ */
+@ApiTags('simulator')
+@Controller('_simulator')
+export class SimulatorControlController {
+  constructor(
+    private readonly clock: SimulatorClock,
+    private readonly intents: SimulatorIntentsService,
+    private readonly webhooks: SimulatorWebhooksService,
+    private readonly faults: SimulatorFaultsService,
+  ) {}
+
+  @Get('clock')
+  getClock() {
+    return this.describeClock();
+  }
+
+  /**
+   * Status changes that fall due are applied (and their webhooks sent)
+   * before this returns
+   */
+  @Post('clock/advance')
+  @HttpCode(200)
+  async advanceClock(@Body() body: AdvanceClockDto) {
+    this.clock.advance(body.ms);
+    this.intents.tick();
+    await this.webhooks.flush();
+    return this.describeClock();
+  }
+
+  @Post('intents/:id/fund')
+  @HttpCode(200)
+  async fund(@Param() params: SimulatedIntentIdParamsDto) {
+    const intent = this.intents.fund(params.id);
+    await this.webhooks.flush();
+    return intent;
+  }
+
+  @Post('intents/:id/advance')
+  @HttpCode(200)
+  async advance(@Param() params: SimulatedIntentIdParamsDto) {
+    const intent = this.intents.advance(params.id);
+    await this.webhooks.flush();
+    return intent;
+  }
+
+  @Get('webhooks')
+  getWebhooks() {
+    return this.webhooks.list();
+  }
+
+  @Get('faults')
+  getFaults() {
+    return this.faults.list();
+  }
+
+  @Post('faults')
+  addFault(@Body() body: SimulatedFaultDto) {
+    return this.faults.add(body);
+  }
+
+  @Delete('faults')
+  @HttpCode(204)
+  clearFaults() {
+    this.faults.clear();
+  }
+
+  @Post('reset')
+  @HttpCode(200)
+  reset() {
+    this.intents.reset();
+    this.webhooks.reset();
+    this.faults.clear();
+    return { reset: true };
+  }
+
+  private describeClock() {
+    return {
+      mode: this.clock.mode,
+      speed: this.clock.speed,
+      now: this.clock.now().toISOString(),
+    };
+  }
+}
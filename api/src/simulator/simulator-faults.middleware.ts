@@ -0,0 +1,29 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { SimulatorFaultsService } from './simulator-faults.service';
+
+const API_PREFIX = '/api/v1';
+
+/**
+ * Answers requests that match a SimulatedFault with its error, in the same
+ * body format as the simulator's other errors
+ */
+@Injectable()
+export class SimulatorFaultsMiddleware implements NestMiddleware {
+  constructor(private readonly faults: SimulatorFaultsService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const path = req.originalUrl.split('?')[0];
+    const fault = this.faults.take(
+      req.method,
+      path.startsWith(API_PREFIX) ? path.slice(API_PREFIX.length) : path,
+    );
+    if (!fault) return next();
+
+    res.status(fault.status).json({
+      statusCode: fault.status,
+      message: fault.message ?? `Simulated ${fault.status} error`,
+      code: fault.code ?? 'SIMULATED_FAULT',
+    });
+  }
+}
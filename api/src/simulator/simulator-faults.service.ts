@@ -0,0 +1,80 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+/**
+ * An error the simulator answers with instead of the real response
+ */
+export interface SimulatedFault {
+  /** Only this method, or any when left out */
+  method?: string;
+  /** Requests whose path (below /api/v1) starts with this, e.g. /intents */
+  path: string;
+  status: number;
+  /** Error code in the response body */
+  code?: string;
+  message?: string;
+  /** How many requests fail before the fault clears itself (default: all) */
+  times?: number;
+}
+
+/**
+ * SIMULATOR FAULTS SERVICE
+ *
+ * Purpose: Make chosen Chainrails endpoints fail on demand, to see how an
+ * integration copes with rejected requests (4xx) and outages (5xx)
+ *
+ * Faults are added through POST /_simulator/faults and checked by
+ * SimulatorFaultsMiddleware before any endpoint runs. The newest matching
+ * fault wins.
+ *
+ * Example: the next 2 intent lookups fail with 503, then recover
+ * { "method": "GET", "path": "/intents/", "status": 503, "times": 2 }
+ */
+@Injectable()
+export class SimulatorFaultsService {
+  private readonly logger = new Logger(SimulatorFaultsService.name);
+  private faults: SimulatedFault[] = [];
+
+  add(fault: SimulatedFault) {
+    this.faults.push({ ...fault, method: fault.method?.toUpperCase() });
+    this.logger.log(
+      `Requests to ${fault.method?.toUpperCase() ?? 'any'} ${fault.path} now fail with ${fault.status}${fault.times ? ` (${fault.times}x)` : ''}`,
+    );
+    return this.list();
+  }
+
+  list(): SimulatedFault[] {
+    return this.faults.map((fault) => ({ ...fault }));
+  }
+
+  clear() {
+    this.faults = [];
+  }
+
+  /**
+   * The fault a request runs into, if any. Counts it against the fault's
+   * `times`.
+   */
+  take(method: string, path: string): SimulatedFault | undefined {
+    let index = this.faults.length - 1;
+    while (
+      index >= 0 &&
+      !matches(this.faults[index], method.toUpperCase(), path)
+    ) {
+      index--;
+    }
+    if (index === -1) return undefined;
+
+    const fault = this.faults[index];
+    if (fault.times !== undefined) {
+      fault.times--;
+      if (fault.times <= 0) this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+}
+
+function matches(fault: SimulatedFault, method: string, path: string) {
+  return (
+    (!fault.method || fault.method === method) && path.startsWith(fault.path)
+  );
+}
@@ -0,0 +1,257 @@
+import { ConfigService } from '@nestjs/config';
+import { multiSourceQuoteResultSchema } from '../chainrails/models/quote.model';
+import { WebhookSignatureService } from '../webhooks/webhook-signature.service';
+import { SimulatorClock } from './simulator-clock';
+import { SimulatorIntentsService } from './simulator-intents.service';
+import { SimulatorQuotesService } from './simulator-quotes.service';
+import { SimulatorWebhooksService } from './simulator-webhooks.service';
+
+const BASE_USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const ARBITRUM_USDC = '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d';
+const SENDER = '0xb79541be080a59fdce6c0b43219ba56c725ec65e';
+const RECIPIENT = '0xda3ecb2e5362295e2b802669dd47127a61d9ce54';
+
+const request = {
+  sender: SENDER,
+  amount: '1000000',
+  amountSymbol: 'USDC',
+  tokenIn: BASE_USDC,
+  source_chain: 'BASE_TESTNET',
+  destination_chain: 'ARBITRUM_TESTNET',
+  recipient: RECIPIENT,
+  refund_address: SENDER,
+  metadata: { orderId: 'ORDER-1042' },
+};
+
+describe('SimulatorIntentsService', () => {
+  const config = new ConfigService({
+    SIMULATOR_CLOCK: 'manual',
+    SIMULATOR_WEBHOOK_URL: 'http://localhost:3000/app/webhook',
+    SIMULATOR_WEBHOOK_SECRET: 'whsec_sim',
+    SIMULATOR_WEBHOOK_MAX_ATTEMPTS: '1',
+  });
+  let fetchMock: jest.SpyInstance;
+  let clock: SimulatorClock;
+  let quotes: SimulatorQuotesService;
+  let webhooks: SimulatorWebhooksService;
+  let service: SimulatorIntentsService;
+
+  /** Headers, raw body and parsed payload of every webhook sent so far */
+  function sentWebhooks() {
+    return fetchMock.mock.calls.map(([, init]) => ({
+      headers: init.headers,
+      body: init.body,
+      payload: JSON.parse(init.body),
+    }));
+  }
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => new Response(null, { status: 200 }));
+    clock = new SimulatorClock(config);
+    quotes = new SimulatorQuotesService(clock);
+    webhooks = new SimulatorWebhooksService(config);
+    service = new SimulatorIntentsService(clock, quotes, webhooks, config);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    webhooks.onModuleDestroy();
+    fetchMock.mockRestore();
+  });
+
+  it('creates PENDING intents priced with the cheapest bridge', () => {
+    const intent = service.create(request);
+
+    expect(intent).toMatchObject({
+      id: 1,
+      intent_status: 'PENDING',
+      source_chain: 'BASE_TESTNET',
+      destination_chain: 'ARBITRUM_TESTNET',
+      tokenOut: ARBITRUM_USDC,
+      initialAmount: '1000000',
+      // ACROSS: 5 bps + 0.05 USDC
+      fees_in_asset_token: '50500',
+      total_amount_in_asset_token: '1050500',
+      asset_token_symbol: 'USDC',
+      asset_token_decimals: 6,
+      tx_hash: null,
+      metadata: { orderId: 'ORDER-1042', bridge: 'ACROSS' },
+    });
+    expect(intent.intent_address).toMatch(/^0x[0-9a-f]{40}$/);
+  });
+
+  it('moves intents to COMPLETED on the clock, with a signed webhook per step', async () => {
+    const { id } = service.create(request);
+
+    clock.advance(15000);
+    expect(service.get(id).intent_status).toBe('FUNDED');
+    clock.advance(5000);
+    expect(service.get(id)).toMatchObject({
+      intent_status: 'INITIATED',
+      tx_hash: expect.stringMatching(/^0x[0-9a-f]{64}$/),
+    });
+    clock.advance(30000);
+    expect(service.get(id).intent_status).toBe('COMPLETED');
+    await webhooks.flush();
+
+    const sent = sentWebhooks();
+    expect(sent.map(({ payload }) => payload.type)).toEqual([
+      'intent.funded',
+      'intent.initiated',
+      'intent.completed',
+    ]);
+    expect(sent[2].payload).toMatchObject({
+      id: expect.stringMatching(`^evt_sim_[0-9a-f]{8}_${id}_completed$`),
+      data: {
+        intent_id: id,
+        status: 'COMPLETED',
+        previous_status: 'INITIATED',
+        metadata: { orderId: 'ORDER-1042' },
+      },
+    });
+
+    // What the API's webhook endpoint checks
+    const verifier = new WebhookSignatureService(
+      new ConfigService({ CHAINRAILS_WEBHOOK_SECRET: 'whsec_sim' }),
+    );
+    for (const { headers, body } of sent) {
+      expect(() =>
+        verifier.verify(
+          Buffer.from(body),
+          headers['X-Chainrails-Signature'],
+          headers['X-Chainrails-Timestamp'],
+        ),
+      ).not.toThrow();
+    }
+  });
+
+  it('gives intents and webhooks of a new run their own addresses and event ids', async () => {
+    const first = service.create({
+      ...request,
+      metadata: { simulate: 'manual' },
+    });
+    service.fund(first.id);
+    service.reset();
+    webhooks.reset();
+    const second = service.create({
+      ...request,
+      metadata: { simulate: 'manual' },
+    });
+    service.fund(second.id);
+    await webhooks.flush();
+
+    expect(second.id).toBe(first.id);
+    expect(second.intent_address).not.toBe(first.intent_address);
+    const [before, after] = sentWebhooks().map(({ payload }) => payload.id);
+    expect(after).not.toBe(before);
+  });
+
+  it('catches up step by step after a clock jump, and can end in a refund', async () => {
+    const { id } = service.create({
+      ...request,
+      metadata: { simulate: 'refund' },
+    });
+
+    clock.advance(60 * 60 * 1000);
+    expect(service.get(id).intent_status).toBe('REFUNDED');
+    await webhooks.flush();
+    expect(sentWebhooks().map(({ payload }) => payload.type)).toEqual([
+      'intent.funded',
+      'intent.initiated',
+      'intent.refunded',
+    ]);
+  });
+
+  it('leaves manual intents PENDING until funded, or until they expire', () => {
+    const funded = service.create({
+      ...request,
+      metadata: { simulate: 'manual' },
+    });
+    const unfunded = service.create({
+      ...request,
+      metadata: { simulate: 'manual' },
+    });
+
+    clock.advance(60000);
+    expect(service.get(funded.id).intent_status).toBe('PENDING');
+    expect(service.fund(funded.id).intent_status).toBe('FUNDED');
+    expect(service.advance(funded.id).intent_status).toBe('INITIATED');
+
+    clock.advance(30 * 60 * 1000);
+    expect(service.get(unfunded.id).intent_status).toBe('EXPIRED');
+    expect(() => service.fund(unfunded.id)).toThrow('not PENDING');
+    expect(service.list({ status: 'expired' })).toMatchObject({
+      total: '1',
+      intents: [{ id: unfunded.id }],
+    });
+  });
+
+  it('returns the same intent for a repeated Idempotency-Key', () => {
+    const first = service.create(request, 'key-1');
+
+    expect(service.create(request, 'key-1').id).toBe(first.id);
+    expect(() =>
+      service.create({ ...request, amount: '2000000' }, 'key-1'),
+    ).toThrow('different request body');
+    expect(service.listForUser(SENDER)).toHaveLength(1);
+  });
+
+  it('refuses routes no bridge serves', () => {
+    expect(() =>
+      service.create({ ...request, destination_chain: 'ARBITRUM_MAINNET' }),
+    ).toThrow('No route from BASE_TESTNET to ARBITRUM_MAINNET');
+    expect(() =>
+      service.create({
+        ...request,
+        destination_chain: 'BASE_TESTNET',
+        amountSymbol: 'USDT',
+      }),
+    ).toThrow("amountSymbol USDT doesn't match");
+  });
+});
+
+describe('SimulatorQuotesService', () => {
+  const quotes = new SimulatorQuotesService(
+    new SimulatorClock(new ConfigService({ SIMULATOR_CLOCK: 'manual' })),
+  );
+
+  it('answers multi-source quotes in the shape the API validates', () => {
+    const result = quotes.getMultiSourceQuotes({
+      destinationChain: 'ARBITRUM_TESTNET',
+      amount: '1',
+      tokenOut: ARBITRUM_USDC,
+    });
+
+    expect(() => multiSourceQuoteResultSchema(result, 'Result')).not.toThrow();
+    expect(result.quotes[0]).toMatchObject({
+      sourceChain: 'ARBITRUM_TESTNET',
+      totalFee: '0',
+    });
+    expect(result.quotes.map((quote) => quote.sourceChain)).not.toContain(
+      'BASE_MAINNET',
+    );
+  });
+
+  it('only offers bridges that carry the token', () => {
+    expect(
+      quotes.getSupportedBridges('STARKNET_TESTNET', 'BASE_TESTNET'),
+    ).toMatchObject({
+      supportedBridges: ['RHINOFI'],
+      routeInfo: { bridgeCount: 1 },
+    });
+    expect(
+      quotes
+        .getBridgeQuotes({
+          tokenIn: BASE_USDC,
+          tokenOut: ARBITRUM_USDC,
+          sourceChain: 'BASE_TESTNET',
+          destinationChain: 'ARBITRUM_TESTNET',
+          amount: '1000000',
+          excludeBridges: 'ACROSS',
+        })
+        .map((quote) => quote.bridge),
+    ).toEqual(['GATEWAY', 'CCTP', 'RHINOFI']);
+  });
+});
@@ -0,0 +1,447 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import {
+  Intent,
+  IntentList,
+  IntentStatus,
+} from '../chainrails/models/intent.model';
+import { ModalSession } from '../chainrails/models/session.model';
+import { SimulatorClock } from './simulator-clock';
+import { SimulatorQuotesService } from './simulator-quotes.service';
+import { SimulatorWebhooksService } from './simulator-webhooks.service';
+
+/**
+ * How a simulated intent ends, picked with `metadata.simulate` on creation:
+ * - complete (default): funded, initiated, then completed
+ * - refund: funded and initiated, then refunded
+ * - manual: stays PENDING until POST /_simulator/intents/:id/fund (or expires)
+ */
+export type SimulatedScenario = 'complete' | 'refund' | 'manual';
+
+const SCENARIOS: SimulatedScenario[] = ['complete', 'refund', 'manual'];
+
+const SESSION_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * The body of POST /intents, as the API module sends it
+ */
+export interface SimulatedIntentRequest {
+  sender?: string;
+  amount: string;
+  amountSymbol?: string;
+  tokenIn: string;
+  source_chain: string;
+  destination_chain: string;
+  recipient: string;
+  refund_address?: string;
+  metadata?: Record<string, any>;
+}
+
+interface SimulatedIntentRecord {
+  intent: Intent;
+  scenario: SimulatedScenario;
+  /** Simulator time of the last status change */
+  changedAt: number;
+}
+
+interface IdempotentCreation {
+  fingerprint: string;
+  intentId: number;
+}
+
+/**
+ * SIMULATOR INTENTS SERVICE
+ *
+ * Purpose: Create and track intents like Chainrails would, moving them
+ * through PENDING → FUNDED → INITIATED → COMPLETED on the simulator clock
+ * and sending a signed webhook for every status change
+ *
+ * Nobody funds a simulated intent: it counts as funded once
+ * SIMULATOR_FUND_AFTER_MS have passed, unless its scenario says otherwise.
+ *
+ * What you'll learn:
+ * - What Chainrails returns for an intent at each step of its lifecycle
+ * - When each intent.* webhook is sent
+ *
+ * Configuration (simulator milliseconds, see SimulatorClock):
+ * - SIMULATOR_FUND_AFTER_MS (15000): PENDING → FUNDED
+ * - SIMULATOR_INITIATE_AFTER_MS (5000): FUNDED → INITIATED
+ * - SIMULATOR_COMPLETE_AFTER_MS (30000): INITIATED → COMPLETED or REFUNDED
+ * - SIMULATOR_INTENT_TTL_MS (1800000): unfunded intents expire after this
+ * - SIMULATOR_TICK_MS (1000): how often the real-time clock checks for
+ *   changes (reads always catch up first)
+ */
+@Injectable()
+export class SimulatorIntentsService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SimulatorIntentsService.name);
+  private readonly fundAfterMs: number;
+  private readonly initiateAfterMs: number;
+  private readonly completeAfterMs: number;
+  private readonly ttlMs: number;
+  private readonly tickMs: number;
+  private readonly records = new Map<number, SimulatedIntentRecord>();
+  private readonly idempotentCreations = new Map<string, IdempotentCreation>();
+  private nextId = 1;
+  // Ids start over on every run: deposit addresses are seeded with the run
+  // too, so they never collide with intents the API tracked before
+  private runId = randomBytes(4).toString('hex');
+  private sessionCount = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly clock: SimulatorClock,
+    private readonly quotes: SimulatorQuotesService,
+    private readonly webhooks: SimulatorWebhooksService,
+    configService: ConfigService,
+  ) {
+    this.fundAfterMs = Number(
+      configService.get('SIMULATOR_FUND_AFTER_MS') ?? 15000,
+    );
+    this.initiateAfterMs = Number(
+      configService.get('SIMULATOR_INITIATE_AFTER_MS') ?? 5000,
+    );
+    this.completeAfterMs = Number(
+      configService.get('SIMULATOR_COMPLETE_AFTER_MS') ?? 30000,
+    );
+    this.ttlMs = Number(
+      configService.get('SIMULATOR_INTENT_TTL_MS') ?? 30 * 60 * 1000,
+    );
+    this.tickMs = Number(configService.get('SIMULATOR_TICK_MS') ?? 1000);
+  }
+
+  onApplicationBootstrap() {
+    // With a manual clock nothing happens until someone advances it
+    if (this.clock.mode === 'real' && this.tickMs > 0) {
+      this.start();
+    }
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  start() {
+    if (this.timer) return;
+    const loop = () => {
+      this.tick();
+      this.timer = setTimeout(loop, this.tickMs);
+      this.timer.unref?.();
+    };
+    this.timer = setTimeout(loop, this.tickMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Example 1: POST /intents
+   *
+   * The fee is the cheapest route's, and the sender deposits amount + fee to
+   * intent_address. A repeated Idempotency-Key returns the first intent; the
+   * same key with a different body is a 409, as with Chainrails.
+   */
+  create(body: SimulatedIntentRequest, idempotencyKey?: string): Intent {
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify(body))
+      .digest('hex');
+    if (idempotencyKey) {
+      const previous = this.idempotentCreations.get(idempotencyKey);
+      if (previous && previous.fingerprint !== fingerprint) {
+        throw new ConflictException(
+          'Idempotency-Key was already used with a different request body',
+        );
+      }
+      if (previous) return this.get(previous.intentId);
+    }
+
+    const scenario = (body.metadata?.simulate ??
+      'complete') as SimulatedScenario;
+    if (!SCENARIOS.includes(scenario)) {
+      throw new BadRequestException(
+        `metadata.simulate must be one of ${SCENARIOS.join(', ')}`,
+      );
+    }
+
+    const route = this.quotes.resolveRoute({
+      tokenIn: body.tokenIn,
+      sourceChain: body.source_chain,
+      destinationChain: body.destination_chain,
+    });
+    if (body.amountSymbol && body.amountSymbol !== route.tokenIn.symbol) {
+      throw new BadRequestException(
+        `amountSymbol ${body.amountSymbol} doesn't match tokenIn (${route.tokenIn.symbol})`,
+      );
+    }
+    const amount = BigInt(body.amount);
+    const [cost] = this.quotes.routeCosts(route, amount);
+    if (!cost) {
+      throw new BadRequestException(
+        `No route from ${body.source_chain} to ${body.destination_chain} for ${route.tokenIn.symbol}`,
+      );
+    }
+
+    const now = this.clock.now();
+    const id = this.nextId++;
+    const intent: Intent = {
+      id,
+      intent_address: intentAddress(this.runId, id, route.source.family),
+      intent_status: 'PENDING',
+      sender: body.sender,
+      recipient: body.recipient,
+      refund_address: body.refund_address ?? body.sender,
+      source_chain: route.source.name,
+      destination_chain: route.destination.name,
+      tokenIn: route.tokenIn.address,
+      tokenOut: route.tokenOut.address,
+      initialAmount: amount.toString(),
+      total_amount_in_asset_token: (amount + cost.fee).toString(),
+      fees_in_asset_token: cost.fee.toString(),
+      asset_token_symbol: route.tokenIn.symbol,
+      asset_token_decimals: route.tokenIn.decimals,
+      tx_hash: null,
+      expires_at: new Date(now.getTime() + this.ttlMs).toISOString(),
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      metadata: {
+        ...body.metadata,
+        ...(cost.bridge && { bridge: cost.bridge.name }),
+      },
+    };
+
+    this.records.set(id, { intent, scenario, changedAt: now.getTime() });
+    if (idempotencyKey) {
+      this.idempotentCreations.set(idempotencyKey, {
+        fingerprint,
+        intentId: id,
+      });
+    }
+    this.logger.log(
+      `✅ Created intent #${id} (${intent.source_chain} → ${intent.destination_chain}, ${scenario})`,
+    );
+    return { ...intent };
+  }
+
+  /**
+   * Example 2: GET /intents/:id
+   */
+  get(id: number): Intent {
+    this.tick();
+    const record = this.records.get(id);
+    if (!record) {
+      throw new NotFoundException(`Intent ${id} not found`);
+    }
+    return { ...record.intent };
+  }
+
+  /**
+   * Example 3: GET /intents/user/:address - newest first
+   */
+  listForUser(address: string): Intent[] {
+    this.tick();
+    const wanted = address.toLowerCase();
+    return this.all().filter(
+      (intent) =>
+        intent.sender?.toLowerCase() === wanted ||
+        intent.recipient?.toLowerCase() === wanted,
+    );
+  }
+
+  /**
+   * Example 4: GET /intents?limit&offset&status - newest first
+   */
+  list(params: {
+    limit?: number;
+    offset?: number;
+    status?: string;
+  }): IntentList {
+    this.tick();
+    const limit = params.limit ?? 50;
+    const offset = params.offset ?? 0;
+    const status = params.status?.toUpperCase();
+    const intents = this.all().filter(
+      (intent) => !status || intent.intent_status === status,
+    );
+    return {
+      intents: intents.slice(offset, offset + limit),
+      total: String(intents.length),
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Example 5: POST /modal/sessions - a payment modal session for one amount
+   * to one recipient. The simulator doesn't serve the modal itself, so the
+   * token is only good for checking what the API does with it.
+   */
+  createSession(params: {
+    recipient: string;
+    tokenOut: string;
+    destinationChain: string;
+    amount: string;
+  }): ModalSession {
+    // Reuses the quote checks: 400 for unknown chains, tokens or amounts
+    this.quotes.getMultiSourceQuotes(params);
+
+    const now = this.clock.now();
+    const sessionId = `sess_sim_${++this.sessionCount}`;
+    return {
+      sessionId,
+      sessionToken: `st_sim_${digest(`session:${this.sessionCount}`, 32)}`,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+    };
+  }
+
+  /**
+   * Fund a PENDING intent now, whatever its scenario
+   */
+  fund(id: number): Intent {
+    this.tick();
+    const record = this.require(id);
+    if (record.intent.intent_status !== 'PENDING') {
+      throw new ConflictException(
+        `Intent ${id} is ${record.intent.intent_status}, not PENDING`,
+      );
+    }
+    this.transition(record, 'FUNDED', this.clock.now().getTime());
+    return this.get(id);
+  }
+
+  /**
+   * Move an intent one step along its scenario now
+   */
+  advance(id: number): Intent {
+    this.tick();
+    const record = this.require(id);
+    const next = this.nextStatus(record);
+    if (!next) {
+      throw new ConflictException(
+        `Intent ${id} is already ${record.intent.intent_status}`,
+      );
+    }
+    this.transition(record, next, this.clock.now().getTime());
+    return this.get(id);
+  }
+
+  /**
+   * Forget every intent, idempotency key and session
+   */
+  reset() {
+    this.records.clear();
+    this.idempotentCreations.clear();
+    this.nextId = 1;
+    this.runId = randomBytes(4).toString('hex');
+    this.sessionCount = 0;
+  }
+
+  /**
+   * Apply every status change that is due by now, in order. An intent
+   * several steps behind (after a clock jump) catches up one step at a time,
+   * with one webhook per step.
+   */
+  tick(now = this.clock.now()) {
+    const nowMs = now.getTime();
+    for (const record of this.records.values()) {
+      for (;;) {
+        const due = this.nextChange(record);
+        if (!due || due.at > nowMs) break;
+        this.transition(record, due.status, due.at);
+      }
+    }
+  }
+
+  private nextChange(
+    record: SimulatedIntentRecord,
+  ): { status: IntentStatus; at: number } | null {
+    const { intent, scenario, changedAt } = record;
+    switch (intent.intent_status) {
+      case 'PENDING': {
+        const expiresAt = Date.parse(intent.expires_at);
+        const fundedAt = changedAt + this.fundAfterMs;
+        if (scenario === 'manual' || fundedAt >= expiresAt) {
+          return { status: 'EXPIRED', at: expiresAt };
+        }
+        return { status: 'FUNDED', at: fundedAt };
+      }
+      case 'FUNDED':
+        return { status: 'INITIATED', at: changedAt + this.initiateAfterMs };
+      case 'INITIATED':
+        return {
+          status: scenario === 'refund' ? 'REFUNDED' : 'COMPLETED',
+          at: changedAt + this.completeAfterMs,
+        };
+      default:
+        return null;
+    }
+  }
+
+  private nextStatus(record: SimulatedIntentRecord): IntentStatus | null {
+    if (record.intent.intent_status === 'PENDING') return 'FUNDED';
+    return this.nextChange(record)?.status ?? null;
+  }
+
+  private transition(
+    record: SimulatedIntentRecord,
+    status: IntentStatus,
+    at: number,
+  ) {
+    const previous = record.intent.intent_status;
+    const intent: Intent = {
+      ...record.intent,
+      intent_status: status,
+      updated_at: new Date(at).toISOString(),
+    };
+    if (status === 'INITIATED') {
+      intent.tx_hash = `0x${digest(`tx:${intent.id}`, 64)}`;
+    }
+    record.intent = intent;
+    record.changedAt = at;
+
+    this.logger.log(`Intent #${intent.id}: ${previous} → ${status}`);
+    this.webhooks.emit({ ...intent }, previous, new Date(at));
+  }
+
+  private require(id: number): SimulatedIntentRecord {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new NotFoundException(`Intent ${id} not found`);
+    }
+    return record;
+  }
+
+  private all(): Intent[] {
+    return [...this.records.values()]
+      .map((record) => ({ ...record.intent }))
+      .reverse();
+  }
+}
+
+function digest(input: string, length: number): string {
+  return createHash('sha256').update(input).digest('hex').slice(0, length);
+}
+
+/**
+ * A deposit address that looks like one on the source chain, different for
+ * the same id in another run
+ */
+function intentAddress(
+  runId: string,
+  id: number,
+  family: 'evm' | 'starknet',
+): string {
+  return `0x${digest(`intent:${runId}:${id}`, family === 'starknet' ? 64 : 40)}`;
+}
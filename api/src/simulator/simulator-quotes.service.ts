@@ -0,0 +1,429 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Token } from '../chainrails/models/chain.model';
+import { Bridge } from '../chainrails/models/quote.model';
+import { applyBps, formatUnits, parseUnits } from '../utils/amounts';
+import { SimulatorClock } from './simulator-clock';
+import {
+  SIMULATED_BRIDGES,
+  SIMULATED_CHAINS,
+  SWAP_FEE_BPS,
+  SimulatedBridge,
+  SimulatedChain,
+  SimulatedNetwork,
+  bridgesFor,
+  findChain,
+  findToken,
+} from './simulator.fixtures';
+
+// Chainrails keeps quotes for about 5 minutes
+const QUOTE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * A transfer between two tokens, resolved against the fixtures
+ */
+export interface SimulatedRoute {
+  source: SimulatedChain;
+  destination: SimulatedChain;
+  tokenIn: Token;
+  tokenOut: Token;
+}
+
+/**
+ * What one way of making a transfer costs, in tokenIn's smallest units
+ */
+export interface RouteCost {
+  bridge?: SimulatedBridge;
+  fee: bigint;
+}
+
+/**
+ * SIMULATOR QUOTES SERVICE
+ *
+ * Purpose: Answer /chains, /quotes/* and /router/* like Chainrails would,
+ * from fixture data and a simple fee model
+ *
+ * Fees are deterministic so tests can assert on them:
+ * - same chain, same token: free
+ * - through a bridge: feeBps of the amount (rounded up) plus a flat fee
+ * - paying with another token than the one delivered: SWAP_FEE_BPS on top
+ *
+ * What you'll learn:
+ * - Which query parameters each Chainrails endpoint takes, and in which units
+ * - The shape of every response the API module relies on
+ */
+@Injectable()
+export class SimulatorQuotesService {
+  constructor(private readonly clock: SimulatorClock) {}
+
+  /**
+   * Example 1: GET /chains?network=testnet
+   */
+  getChains(network?: SimulatedNetwork): string[] {
+    return SIMULATED_CHAINS.filter(
+      (chain) => !network || chain.network === network,
+    ).map((chain) => chain.name);
+  }
+
+  /**
+   * Example 2: GET /chains/:chainName/tokens
+   */
+  getTokens(chainName: string): Token[] {
+    const chain = findChain(chainName);
+    if (!chain) {
+      throw new NotFoundException(`Chain ${chainName} is not supported`);
+    }
+    return chain.tokens.map((token) => ({ ...token }));
+  }
+
+  /**
+   * Example 3: GET /quotes/multiple - one quote per bridge, cheapest first.
+   * amount is what should arrive, in tokenIn's smallest units.
+   */
+  getBridgeQuotes(params: {
+    tokenIn: string;
+    tokenOut: string;
+    sourceChain: string;
+    destinationChain: string;
+    amount: string;
+    excludeBridges?: string;
+  }) {
+    const route = this.resolveRoute(params);
+    const excluded = (params.excludeBridges ?? '')
+      .split(',')
+      .map((bridge) => bridge.trim().toUpperCase());
+    const amount = BigInt(params.amount);
+
+    return this.routeCosts(route, amount)
+      .filter((cost) => !cost.bridge || !excluded.includes(cost.bridge.name))
+      .map((cost) => this.toBridgeQuote(route, amount, cost));
+  }
+
+  /**
+   * Example 4: GET /quotes/single - the quote of one bridge
+   */
+  getSingleQuote(params: {
+    tokenIn: string;
+    tokenOut: string;
+    sourceChain: string;
+    destinationChain: string;
+    amount: string;
+    bridge: string;
+  }) {
+    const quote = this.getBridgeQuotes(params).find(
+      (candidate) => candidate.bridge === params.bridge.toUpperCase(),
+    );
+    if (!quote) {
+      throw new BadRequestException(
+        `${params.bridge} does not support ${params.sourceChain} → ${params.destinationChain}`,
+      );
+    }
+    return quote;
+  }
+
+  /**
+   * Example 5: GET /quotes/best - the cheapest bridge
+   */
+  getBestQuote(
+    params: Parameters<SimulatorQuotesService['getBridgeQuotes']>[0],
+  ) {
+    const [best] = this.getBridgeQuotes(params);
+    if (!best) {
+      throw new BadRequestException(
+        `No bridge supports ${params.sourceChain} → ${params.destinationChain}`,
+      );
+    }
+    return best;
+  }
+
+  /**
+   * Example 6: GET /router/optimal-route - the best quote plus what a
+   * contract needs to send through its bridge
+   */
+  getOptimalRoute(
+    params: Parameters<SimulatorQuotesService['getBridgeQuotes']>[0],
+  ) {
+    const best = this.getBestQuote(params);
+    const bridge = SIMULATED_BRIDGES.find(
+      (candidate) => candidate.name === best.bridge,
+    );
+    return {
+      ...best,
+      bridgeToUse: best.bridge,
+      bridgeAddress: bridge?.address ?? null,
+      bridgeExtraData: '0x',
+    };
+  }
+
+  /**
+   * Example 7: GET /router/supported-bridges/route
+   */
+  getSupportedBridges(sourceChain: string, destinationChain: string) {
+    const source = this.requireChain(sourceChain, 'sourceChain');
+    const destination = this.requireChain(destinationChain, 'destinationChain');
+    const supportedBridges = bridgesFor(source, destination).map(
+      (bridge) => bridge.name,
+    );
+    return {
+      supportedBridges,
+      routeInfo: {
+        sourceChain,
+        destinationChain,
+        bridgeCount: supportedBridges.length,
+      },
+    };
+  }
+
+  /**
+   * GET /router/supported-bridges/all
+   */
+  getAllBridges() {
+    return {
+      bridges: SIMULATED_BRIDGES.map((bridge) => ({
+        name: bridge.name,
+        estimatedTimeSeconds: bridge.estimatedTimeSeconds,
+      })),
+    };
+  }
+
+  /**
+   * GET /router/supported-routes/bridge/:bridge
+   */
+  getBridgeRoutes(bridgeName: string) {
+    const bridge = SIMULATED_BRIDGES.find(
+      (candidate) => candidate.name === bridgeName.toUpperCase(),
+    );
+    if (!bridge) {
+      throw new NotFoundException(`Bridge ${bridgeName} is not supported`);
+    }
+    const routes = [];
+    for (const source of SIMULATED_CHAINS) {
+      for (const destination of SIMULATED_CHAINS) {
+        if (bridgesFor(source, destination).includes(bridge)) {
+          routes.push({
+            sourceChain: source.name,
+            destinationChain: destination.name,
+          });
+        }
+      }
+    }
+    return { bridge: bridge.name, routes };
+  }
+
+  /**
+   * Example 8: GET /quotes/multi-source - every way to deliver `amount`
+   * (human-readable, e.g. "1" for 1 USDC) of tokenOut on destinationChain.
+   *
+   * One quote per source chain on the same network, same chain first, each
+   * listing the tokens it can be paid with.
+   */
+  getMultiSourceQuotes(params: {
+    destinationChain: string;
+    amount: string;
+    tokenOut: string;
+  }) {
+    const destination = this.requireChain(
+      params.destinationChain,
+      'destinationChain',
+    );
+    const tokenOut = this.requireToken(
+      destination,
+      params.tokenOut,
+      'tokenOut',
+    );
+    const amountOut = this.parseHumanAmount(params.amount, tokenOut.decimals);
+
+    const quotes = [];
+    for (const source of SIMULATED_CHAINS) {
+      const options = source.tokens
+        .map((tokenIn) => {
+          const route = { source, destination, tokenIn, tokenOut };
+          const amountIn = convert(amountOut, tokenOut, tokenIn);
+          const [cheapest] = this.routeCosts(route, amountIn);
+          return cheapest && { tokenIn, amountIn, cost: cheapest };
+        })
+        .filter(Boolean);
+      if (!options.length) continue;
+
+      // The quote's fee is its cheapest option, in tokenOut's units
+      const best = options.reduce((a, b) =>
+        convert(b.cost.fee, b.tokenIn, tokenOut) <
+        convert(a.cost.fee, a.tokenIn, tokenOut)
+          ? b
+          : a,
+      );
+      const totalFee = convert(best.cost.fee, best.tokenIn, tokenOut);
+
+      quotes.push({
+        sourceChain: source.name,
+        destinationChain: destination.name,
+        totalFee: totalFee.toString(),
+        totalFeeFormatted: formatUnits(totalFee, tokenOut.decimals),
+        ...(best.cost.bridge && { bridge: best.cost.bridge.name }),
+        paymentOptions: options.map(({ tokenIn, amountIn, cost }) => ({
+          token: tokenIn.symbol,
+          tokenAddress: tokenIn.address,
+          depositAmount: (amountIn + cost.fee).toString(),
+          depositAmountFormatted: formatUnits(
+            amountIn + cost.fee,
+            tokenIn.decimals,
+          ),
+          fee: cost.fee.toString(),
+          feeFormatted: formatUnits(cost.fee, tokenIn.decimals),
+          slippage: tokenIn.symbol === tokenOut.symbol ? 0 : 0.5,
+        })),
+        // The shape the @chainrails/sdk examples (sdk/demo.ts) read
+        bestQuote: {
+          totalFee: totalFee.toString(),
+          totalFeeFormatted: formatUnits(totalFee, tokenOut.decimals),
+          amount: (best.amountIn + best.cost.fee).toString(),
+          route: {
+            bridgeToUse: best.cost.bridge?.name ?? null,
+            tokenIn: best.tokenIn.address,
+          },
+        },
+      });
+    }
+
+    quotes.sort((a, b) => {
+      const sameChain =
+        Number(b.sourceChain === destination.name) -
+        Number(a.sourceChain === destination.name);
+      return sameChain || Number(BigInt(a.totalFee) - BigInt(b.totalFee));
+    });
+    const cheapestOption = quotes.reduce(
+      (cheapest, quote) =>
+        !cheapest || BigInt(quote.totalFee) < BigInt(cheapest.totalFee)
+          ? quote
+          : cheapest,
+      undefined,
+    );
+
+    return {
+      destinationChain: destination.name,
+      quotes,
+      ...(cheapestOption && { cheapestOption }),
+    };
+  }
+
+  /**
+   * The chains and tokens of a transfer, or a 400 naming what is unknown
+   */
+  resolveRoute(params: {
+    tokenIn: string;
+    tokenOut?: string;
+    sourceChain: string;
+    destinationChain: string;
+  }): SimulatedRoute {
+    const source = this.requireChain(params.sourceChain, 'sourceChain');
+    const destination = this.requireChain(
+      params.destinationChain,
+      'destinationChain',
+    );
+    const tokenIn = this.requireToken(source, params.tokenIn, 'tokenIn');
+    const tokenOut = params.tokenOut
+      ? this.requireToken(destination, params.tokenOut, 'tokenOut')
+      : (destination.tokens.find((token) => token.symbol === tokenIn.symbol) ??
+        destination.tokens[0]);
+    return { source, destination, tokenIn, tokenOut };
+  }
+
+  /**
+   * Every way to deliver `amount` (tokenIn's smallest units) along a route,
+   * cheapest first. Empty when nothing connects the two chains.
+   */
+  routeCosts(route: SimulatedRoute, amount: bigint): RouteCost[] {
+    const swapFee =
+      route.tokenIn.symbol === route.tokenOut.symbol
+        ? 0n
+        : applyBps(amount, SWAP_FEE_BPS, 'up') - amount;
+
+    if (route.source.name === route.destination.name) {
+      return [{ fee: swapFee }];
+    }
+
+    return bridgesFor(route.source, route.destination, route.tokenIn.symbol)
+      .map((bridge) => ({
+        bridge,
+        fee:
+          applyBps(amount, bridge.feeBps, 'up') -
+          amount +
+          parseUnits(bridge.fixedFee, route.tokenIn.decimals) +
+          swapFee,
+      }))
+      .sort((a, b) => Number(a.fee - b.fee));
+  }
+
+  private toBridgeQuote(
+    route: SimulatedRoute,
+    amount: bigint,
+    cost: RouteCost,
+  ) {
+    const decimals = route.tokenIn.decimals;
+    return {
+      bridge: (cost.bridge?.name ?? null) as Bridge | null,
+      sourceChain: route.source.name,
+      destinationChain: route.destination.name,
+      tokenIn: route.tokenIn.address,
+      tokenOut: route.tokenOut.address,
+      amount: amount.toString(),
+      totalFees: cost.fee.toString(),
+      totalFeesFormatted: formatUnits(cost.fee, decimals),
+      depositAmount: (amount + cost.fee).toString(),
+      depositAmountFormatted: formatUnits(amount + cost.fee, decimals),
+      estimatedTime: cost.bridge?.estimatedTimeSeconds ?? 15,
+      expiresAt: new Date(
+        this.clock.now().getTime() + QUOTE_TTL_MS,
+      ).toISOString(),
+    };
+  }
+
+  private requireChain(name: string, field: string): SimulatedChain {
+    const chain = findChain(name);
+    if (!chain) {
+      throw new BadRequestException(`${field} ${name} is not supported`);
+    }
+    return chain;
+  }
+
+  private requireToken(
+    chain: SimulatedChain,
+    address: string,
+    field: string,
+  ): Token {
+    const token = findToken(chain.name, address ?? '');
+    if (!token) {
+      throw new BadRequestException(
+        `${field} ${address} is not supported on ${chain.name}`,
+      );
+    }
+    return token;
+  }
+
+  private parseHumanAmount(amount: string, decimals: number): bigint {
+    try {
+      const units = parseUnits(amount, decimals);
+      if (units > 0n) return units;
+    } catch {
+      // reported below
+    }
+    throw new BadRequestException(
+      `amount must be a positive number with at most ${decimals} decimals`,
+    );
+  }
+}
+
+/**
+ * Re-express an amount of one token in another's decimals (the simulator
+ * prices every fixture token at 1 USD)
+ */
+function convert(value: bigint, from: Token, to: Token): bigint {
+  if (from.decimals === to.decimals) return value;
+  return parseUnits(
+    formatUnits(value, from.decimals, { maxFractionDigits: to.decimals }),
+    to.decimals,
+  );
+}
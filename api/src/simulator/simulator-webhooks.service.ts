@@ -0,0 +1,237 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { Intent, IntentStatus } from '../chainrails/models/intent.model';
+import { signPayload } from '../webhooks/webhook-signature.service';
+
+/**
+ * A webhook the simulator sent (or is still trying to send)
+ */
+export interface SimulatedWebhookDelivery {
+  eventId: string;
+  type: string;
+  intentId: number;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  lastAttemptAt?: string;
+}
+
+/**
+ * The body of a simulated webhook, shaped like the ones Chainrails sends
+ */
+interface SimulatedWebhookPayload {
+  id: string;
+  type: string;
+  created_at: string;
+  data: {
+    intent_id: number;
+    intent_address: string;
+    status: IntentStatus;
+    previous_status: IntentStatus;
+    tx_hash: string | null;
+    sender?: string;
+    recipient?: string;
+    source_chain?: string;
+    destination_chain?: string;
+    total_amount_in_asset_token?: string;
+    asset_token_symbol?: string;
+    metadata: Record<string, any>;
+  };
+}
+
+// How many deliveries GET /_simulator/webhooks remembers
+const DELIVERY_LOG_SIZE = 200;
+
+/**
+ * SIMULATOR WEBHOOKS SERVICE
+ *
+ * Purpose: Send the webhooks Chainrails would send when an intent changes
+ * status, signed the way WebhookSignatureService verifies them
+ *
+ * Each delivery is a POST of `{ id, type, created_at, data }` with the
+ * X-Chainrails-Signature, -Timestamp, -Event-Type and -Event-ID headers.
+ * Deliveries go out one at a time in the order the changes happened, and
+ * failed ones are retried with exponential backoff, like the real thing.
+ *
+ * Configuration:
+ * - SIMULATOR_WEBHOOK_URL: where to send them (default: the API's
+ *   http://localhost:3000/app/webhook). Empty: don't send webhooks
+ * - SIMULATOR_WEBHOOK_SECRET: signing secret, defaults to the first
+ *   CHAINRAILS_WEBHOOK_SECRET. Unset: deliveries go out unsigned
+ * - SIMULATOR_WEBHOOK_MAX_ATTEMPTS (5), SIMULATOR_WEBHOOK_RETRY_BASE_MS (1000)
+ */
+@Injectable()
+export class SimulatorWebhooksService implements OnModuleDestroy {
+  private readonly logger = new Logger(SimulatorWebhooksService.name);
+  private readonly url: string;
+  private readonly secret: string;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly deliveries: SimulatedWebhookDelivery[] = [];
+  // Part of every event id: the API remembers event ids it has seen, and
+  // would drop a new run's webhooks for intents numbered like an old run's
+  private runId = randomBytes(4).toString('hex');
+  private readonly retryTimers = new Set<NodeJS.Timeout>();
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(configService: ConfigService) {
+    this.url =
+      configService.get<string>('SIMULATOR_WEBHOOK_URL') ??
+      'http://localhost:3000/app/webhook';
+    this.secret = (
+      configService.get<string>('SIMULATOR_WEBHOOK_SECRET') ||
+      configService.get<string>('CHAINRAILS_WEBHOOK_SECRET') ||
+      ''
+    )
+      .split(',')[0]
+      .trim();
+    this.maxAttempts = Number(
+      configService.get('SIMULATOR_WEBHOOK_MAX_ATTEMPTS') ?? 5,
+    );
+    this.retryBaseMs = Number(
+      configService.get('SIMULATOR_WEBHOOK_RETRY_BASE_MS') ?? 1000,
+    );
+
+    if (!this.url) {
+      this.logger.warn(
+        'SIMULATOR_WEBHOOK_URL is empty: no webhooks will be sent.',
+      );
+    } else if (!this.secret) {
+      this.logger.warn(
+        'No SIMULATOR_WEBHOOK_SECRET or CHAINRAILS_WEBHOOK_SECRET: webhooks are sent unsigned.',
+      );
+    }
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Queue the webhook for an intent that just moved from `previousStatus`
+   * to its current status at `at`
+   */
+  emit(intent: Intent, previousStatus: IntentStatus, at: Date) {
+    const status = intent.intent_status;
+    const payload: SimulatedWebhookPayload = {
+      id: `evt_sim_${this.runId}_${intent.id}_${status.toLowerCase()}`,
+      type: `intent.${status.toLowerCase()}`,
+      created_at: at.toISOString(),
+      data: {
+        intent_id: intent.id,
+        intent_address: intent.intent_address,
+        status,
+        previous_status: previousStatus,
+        tx_hash: intent.tx_hash ?? null,
+        sender: intent.sender,
+        recipient: intent.recipient,
+        source_chain: intent.source_chain,
+        destination_chain: intent.destination_chain,
+        total_amount_in_asset_token: intent.total_amount_in_asset_token,
+        asset_token_symbol: intent.asset_token_symbol,
+        metadata: intent.metadata ?? {},
+      },
+    };
+
+    if (!this.url) return;
+
+    const delivery: SimulatedWebhookDelivery = {
+      eventId: payload.id,
+      type: payload.type,
+      intentId: intent.id,
+      status: 'pending',
+      attempts: 0,
+    };
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > DELIVERY_LOG_SIZE) this.deliveries.shift();
+
+    this.queue = this.queue.then(() => this.deliver(payload, delivery));
+  }
+
+  /**
+   * Resolves once every queued delivery has had its first attempt
+   */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Most recent deliveries first
+   */
+  list(): SimulatedWebhookDelivery[] {
+    return this.deliveries.map((delivery) => ({ ...delivery })).reverse();
+  }
+
+  reset() {
+    this.deliveries.length = 0;
+    this.runId = randomBytes(4).toString('hex');
+  }
+
+  private async deliver(
+    payload: SimulatedWebhookPayload,
+    delivery: SimulatedWebhookDelivery,
+  ) {
+    if (this.stopped) return;
+
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+    const rawBody = JSON.stringify(payload);
+    // Real time, not the simulator clock: the receiver checks it against its own
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Chainrails-Event-Type': payload.type,
+          'X-Chainrails-Event-ID': payload.id,
+          'X-Chainrails-Timestamp': String(timestamp),
+          ...(this.secret && {
+            'X-Chainrails-Signature': signPayload(
+              this.secret,
+              timestamp,
+              rawBody,
+            ),
+          }),
+        },
+        body: rawBody,
+        signal: AbortSignal.timeout(10000),
+      });
+      delivery.responseStatus = response.status;
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      delivery.status = 'delivered';
+      delivery.error = undefined;
+      this.logger.log(
+        `✅ Sent ${payload.type} for intent ${delivery.intentId}`,
+      );
+    } catch (error) {
+      delivery.error = error.message;
+      if (delivery.attempts >= this.maxAttempts) {
+        delivery.status = 'failed';
+        this.logger.warn(
+          `❌ Giving up on ${payload.type} for intent ${delivery.intentId} after ${delivery.attempts} attempts: ${error.message}`,
+        );
+        return;
+      }
+
+      const delay = this.retryBaseMs * 2 ** (delivery.attempts - 1);
+      this.logger.warn(
+        `❌ ${payload.type} for intent ${delivery.intentId} failed (attempt ${delivery.attempts}/${this.maxAttempts}), retrying in ${delay}ms: ${error.message}`,
+      );
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        void this.deliver(payload, delivery);
+      }, delay);
+      timer.unref?.();
+      this.retryTimers.add(timer);
+    }
+  }
+}
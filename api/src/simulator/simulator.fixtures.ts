@@ -0,0 +1,216 @@
+import { Bridge } from '../chainrails/models/quote.model';
+import { Token } from '../chainrails/models/chain.model';
+
+/**
+ * Fixture data served by the simulator: a realistic subset of what the
+ * Chainrails API knows about, with the real token addresses so requests
+ * copied from the READMEs work unchanged.
+ */
+
+export type SimulatedNetwork = 'mainnet' | 'testnet';
+
+export interface SimulatedChain {
+  name: string;
+  network: SimulatedNetwork;
+  family: 'evm' | 'starknet';
+  tokens: Token[];
+}
+
+const usdc = (address: string): Token => ({
+  address,
+  symbol: 'USDC',
+  decimals: 6,
+  name: 'USD Coin',
+});
+
+const usdt = (address: string): Token => ({
+  address,
+  symbol: 'USDT',
+  decimals: 6,
+  name: 'Tether USD',
+});
+
+export const SIMULATED_CHAINS: SimulatedChain[] = [
+  {
+    name: 'ARBITRUM_MAINNET',
+    network: 'mainnet',
+    family: 'evm',
+    tokens: [
+      usdc('0xaf88d065e77c8cC2239327C5EDb3A432268e5831'),
+      usdt('0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9'),
+    ],
+  },
+  {
+    name: 'BASE_MAINNET',
+    network: 'mainnet',
+    family: 'evm',
+    tokens: [usdc('0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913')],
+  },
+  {
+    name: 'ETHEREUM_MAINNET',
+    network: 'mainnet',
+    family: 'evm',
+    tokens: [
+      usdc('0xA0b86991c6218b36c1d19D4a2E9Eb0cE3606eB48'),
+      usdt('0xdAC17F958D2ee523a2206206994597C13D831ec7'),
+    ],
+  },
+  {
+    name: 'OPTIMISM_MAINNET',
+    network: 'mainnet',
+    family: 'evm',
+    tokens: [usdc('0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85')],
+  },
+  {
+    name: 'AVALANCHE_MAINNET',
+    network: 'mainnet',
+    family: 'evm',
+    tokens: [usdc('0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E')],
+  },
+  {
+    name: 'STARKNET_MAINNET',
+    network: 'mainnet',
+    family: 'starknet',
+    tokens: [
+      usdc(
+        '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8',
+      ),
+    ],
+  },
+  {
+    name: 'ARBITRUM_TESTNET',
+    network: 'testnet',
+    family: 'evm',
+    tokens: [usdc('0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d')],
+  },
+  {
+    name: 'BASE_TESTNET',
+    network: 'testnet',
+    family: 'evm',
+    tokens: [usdc('0x036CbD53842c5426634e7929541eC2318f3dCF7e')],
+  },
+  {
+    name: 'ETHEREUM_TESTNET',
+    network: 'testnet',
+    family: 'evm',
+    tokens: [usdc('0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238')],
+  },
+  {
+    name: 'OPTIMISM_TESTNET',
+    network: 'testnet',
+    family: 'evm',
+    tokens: [usdc('0x5fd84259d66Cd46123540766Be93DFE6D43130D7')],
+  },
+  {
+    name: 'AVALANCHE_TESTNET',
+    network: 'testnet',
+    family: 'evm',
+    tokens: [usdc('0x5425890298aed601595a70AB815c96711a31Bc65')],
+  },
+  {
+    name: 'STARKNET_TESTNET',
+    network: 'testnet',
+    family: 'starknet',
+    tokens: [
+      usdc(
+        '0x053b40a647cedfca6ca84f542a0fe36736031905a9639a7f19a3c1e66bfd5080',
+      ),
+    ],
+  },
+];
+
+export interface SimulatedBridge {
+  name: Bridge;
+  /** Percentage fee, in basis points of the amount */
+  feeBps: number;
+  /** Flat fee, in whole units of the token ("0.1" = 0.1 USDC) */
+  fixedFee: string;
+  estimatedTimeSeconds: number;
+  address: string;
+  /** Only these token symbols, or any when left out */
+  symbols?: string[];
+  /** Routes touching Starknet */
+  starknet: boolean;
+}
+
+export const SIMULATED_BRIDGES: SimulatedBridge[] = [
+  {
+    name: 'CCTP',
+    feeBps: 1,
+    fixedFee: '0.15',
+    estimatedTimeSeconds: 900,
+    address: '0x28b5a0e9C621a5BadaA536219b3a228C8168cf5d',
+    symbols: ['USDC'],
+    starknet: false,
+  },
+  {
+    name: 'ACROSS',
+    feeBps: 5,
+    fixedFee: '0.05',
+    estimatedTimeSeconds: 60,
+    address: '0x5c7BCd6E7De5423a257D81B442095A1a6ced35C5',
+    starknet: false,
+  },
+  {
+    name: 'GATEWAY',
+    feeBps: 3,
+    fixedFee: '0.1',
+    estimatedTimeSeconds: 30,
+    address: '0x0022222ABE238Cc2C7Bb1f21003F0a260052475B',
+    symbols: ['USDC'],
+    starknet: false,
+  },
+  {
+    name: 'RHINOFI',
+    feeBps: 8,
+    fixedFee: '0.2',
+    estimatedTimeSeconds: 300,
+    address: '0x5e023c31E1d3dCd08a1B3e8c96f6EF8Aa8FcaCd1',
+    starknet: true,
+  },
+];
+
+/** Extra cost of paying with another token than the one delivered */
+export const SWAP_FEE_BPS = 4;
+
+export function findChain(name: string): SimulatedChain | undefined {
+  return SIMULATED_CHAINS.find((chain) => chain.name === name);
+}
+
+export function findToken(
+  chainName: string,
+  address: string,
+): Token | undefined {
+  return findChain(chainName)?.tokens.find(
+    (token) => token.address.toLowerCase() === address.toLowerCase(),
+  );
+}
+
+export function findTokenBySymbol(
+  chainName: string,
+  symbol: string,
+): Token | undefined {
+  return findChain(chainName)?.tokens.find((token) => token.symbol === symbol);
+}
+
+/**
+ * Bridges that can carry `symbol` (any token when left out) from one chain
+ * to the other. None for a same-chain transfer, and none between mainnet and
+ * testnet.
+ */
+export function bridgesFor(
+  source: SimulatedChain,
+  destination: SimulatedChain,
+  symbol?: string,
+): SimulatedBridge[] {
+  if (source.name === destination.name) return [];
+  if (source.network !== destination.network) return [];
+
+  const touchesStarknet =
+    source.family === 'starknet' || destination.family === 'starknet';
+  return SIMULATED_BRIDGES.filter(
+    (bridge) =>
+      (!touchesStarknet || bridge.starknet) &&
+      (!symbol || !bridge.symbols || bridge.symbols.includes(symbol)),
+  );
+}
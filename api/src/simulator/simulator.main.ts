@@ -0,0 +1,23 @@
+import { Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { SimulatorModule } from './simulator.module';
+import { configureSimulator } from './simulator.setup';
+
+/**
+ * Starts the Chainrails API simulator: npm run simulator
+ *
+ * Then point the API, the CLI or sdk/demo.ts at it:
+ * CHAINRAILS_API_URL=http://localhost:4010/api/v1
+ */
+async function bootstrap() {
+  const app = await NestFactory.create(SimulatorModule);
+  configureSimulator(app);
+  app.enableShutdownHooks();
+
+  const port = Number(process.env.SIMULATOR_PORT ?? 4010);
+  await app.listen(port);
+  new Logger('Simulator').log(
+    `✅ Chainrails API simulator on http://localhost:${port}/api/v1`,
+  );
+}
+bootstrap();
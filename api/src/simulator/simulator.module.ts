@@ -0,0 +1,47 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SimulatorApiController } from './simulator-api.controller';
+import { SimulatorAuthGuard } from './simulator-auth.guard';
+import { SimulatorClock } from './simulator-clock';
+import { SimulatorControlController } from './simulator-control.controller';
+import { SimulatorFaultsMiddleware } from './simulator-faults.middleware';
+import { SimulatorFaultsService } from './simulator-faults.service';
+import { SimulatorIntentsService } from './simulator-intents.service';
+import { SimulatorQuotesService } from './simulator-quotes.service';
+import { SimulatorWebhooksService } from './simulator-webhooks.service';
+
+/**
+ * The local Chainrails API simulator (see README.md).
+ *
+ * A root module of its own: it runs as a separate server (npm run simulator)
+ * and shares nothing with AppModule but the .env file.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+  ],
+  controllers: [SimulatorApiController, SimulatorControlController],
+  providers: [
+    SimulatorClock,
+    SimulatorQuotesService,
+    SimulatorIntentsService,
+    SimulatorWebhooksService,
+    SimulatorFaultsService,
+    SimulatorAuthGuard,
+  ],
+  exports: [
+    SimulatorClock,
+    SimulatorIntentsService,
+    SimulatorWebhooksService,
+    SimulatorFaultsService,
+  ],
+})
+export class SimulatorModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // Injected faults apply to the Chainrails endpoints, not /_simulator
+    consumer.apply(SimulatorFaultsMiddleware).forRoutes(SimulatorApiController);
+  }
+}
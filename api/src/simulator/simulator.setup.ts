@@ -0,0 +1,19 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+
+/**
+ * Shared simulator setup used by simulator.main.ts and the tests.
+ *
+ * Chainrails serves its API below /api/v1, so CHAINRAILS_API_URL only has to
+ * swap the host: http://localhost:4010/api/v1. The /_simulator control
+ * endpoints stay outside the prefix.
+ */
+export function configureSimulator(app: INestApplication): INestApplication {
+  app.setGlobalPrefix('api/v1', { exclude: ['_simulator/(.*)'] });
+  app.useGlobalPipes(
+    new ValidationPipe({
+      transform: true,
+      whitelist: true,
+    }),
+  );
+  return app;
+}
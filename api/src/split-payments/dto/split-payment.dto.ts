@@ -0,0 +1,168 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDefined,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  SUPPORTED_CHAINS,
+  SupportedChain,
+} from '../../chainrails/models/chain.model';
+import { SenderAddressesDto } from '../../app/dto/transfer-options.dto';
+import { IsChainAddress } from '../../common/validation/address.validator';
+import {
+  IsBaseUnitAmount,
+  IsDecimalAmount,
+} from '../../common/validation/amount.validator';
+import { IsSupportedChain } from '../../common/validation/chain.validator';
+
+/**
+ * A balance the client already knows, so it doesn't have to be read
+ */
+export class KnownBalanceDto {
+  @ApiProperty({ enum: SUPPORTED_CHAINS, example: 'BASE_TESTNET' })
+  @IsSupportedChain()
+  sourceChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Token address on the source chain',
+    example: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  })
+  @IsChainAddress('sourceChain')
+  tokenAddress: string;
+
+  @ApiProperty({
+    description: 'Balance in the token smallest units',
+    example: '6000000',
+  })
+  @IsBaseUnitAmount()
+  balance: string;
+}
+
+export class SplitPlanDto {
+  @ApiProperty({
+    enum: SUPPORTED_CHAINS,
+    description: 'Where tokens are going',
+    example: 'ARBITRUM_TESTNET',
+  })
+  @IsSupportedChain()
+  destinationChain: SupportedChain;
+
+  @ApiProperty({
+    description: 'Total to deliver, human-readable ("10" for 10 USDC)',
+    example: '10',
+  })
+  @IsDecimalAmount()
+  amount: string;
+
+  @ApiProperty({
+    description: 'Token address on the destination chain',
+    example: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+  })
+  @IsChainAddress('destinationChain')
+  tokenOut: string;
+
+  @ApiProperty({ description: 'Recipient on the destination chain' })
+  @IsChainAddress('destinationChain')
+  recipient: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Where failed legs are refunded. Defaults to each leg's sender",
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  refundAddress?: string;
+
+  @ApiPropertyOptional({
+    type: SenderAddressesDto,
+    description:
+      'Sender wallets per chain family. Balances are read from them, and each leg is sent from them',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SenderAddressesDto)
+  senders?: SenderAddressesDto;
+
+  @ApiPropertyOptional({
+    type: [KnownBalanceDto],
+    description:
+      'Balances to plan with instead of reading them from the senders wallets',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => KnownBalanceDto)
+  balances?: KnownBalanceDto[];
+
+  @ApiPropertyOptional({
+    description: 'Most intents to split into (SPLIT_MAX_LEGS by default)',
+    example: 3,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(8)
+  maxLegs?: number;
+}
+
+export class BatchTransferDto {
+  @ApiPropertyOptional({
+    description: 'A plan from POST /app/transfer/plan',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  planId?: string;
+
+  @ApiPropertyOptional({
+    type: SplitPlanDto,
+    description: 'Plan and create in one go, when no planId is given',
+  })
+  @ValidateIf((dto: BatchTransferDto) => !dto.planId)
+  @IsDefined({ message: 'Send either planId or plan' })
+  @ValidateNested()
+  @Type(() => SplitPlanDto)
+  plan?: SplitPlanDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Re-quote each leg and refuse it if its fee rose by more than this many basis points',
+    example: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  feeToleranceBps?: number;
+}
+
+export class RetryBatchDto {
+  @ApiPropertyOptional({ example: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  feeToleranceBps?: number;
+}
+
+export class SplitPlanIdParamsDto {
+  @ApiProperty({ description: 'Split plan ID' })
+  @IsUUID()
+  id: string;
+}
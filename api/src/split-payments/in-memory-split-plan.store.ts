@@ -0,0 +1,55 @@
+import { SplitPlan } from './split-plan.model';
+import { isExecuting, SplitPlanStore } from './split-plan.store';
+
+/**
+ * Keeps split plans in a Map. Nothing survives a restart - use it for
+ * tests and local experiments only.
+ */
+export class InMemorySplitPlanStore implements SplitPlanStore {
+  private readonly plans = new Map<string, SplitPlan>();
+
+  async save(plan: SplitPlan): Promise<void> {
+    this.plans.set(plan.id, structuredClone(plan));
+  }
+
+  async get(id: string): Promise<SplitPlan | undefined> {
+    const plan = this.plans.get(id);
+    return plan && structuredClone(plan);
+  }
+
+  async claimExecution(
+    id: string,
+    now: string,
+    staleBefore: string,
+  ): Promise<SplitPlan | undefined> {
+    const plan = this.plans.get(id);
+    if (!plan || isExecuting(plan, staleBefore)) return undefined;
+
+    plan.status = 'executing';
+    plan.executingSince = now;
+    plan.updatedAt = now;
+    return structuredClone(plan);
+  }
+
+  async update(
+    id: string,
+    change: (plan: SplitPlan) => boolean | void,
+  ): Promise<SplitPlan | undefined> {
+    const stored = this.plans.get(id);
+    if (!stored) return undefined;
+
+    const plan = structuredClone(stored);
+    if (change(plan) === false) return structuredClone(stored);
+    this.plans.set(id, structuredClone(plan));
+    return plan;
+  }
+
+  async findByIntentId(intentId: number): Promise<SplitPlan | undefined> {
+    for (const plan of this.plans.values()) {
+      if (plan.legs.some((leg) => leg.intentId === intentId)) {
+        return structuredClone(plan);
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,77 @@
+import { Body, Controller, Get, HttpCode, Param, Post } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Idempotent } from '../idempotency/idempotency.interceptor';
+import { SplitPaymentsService } from './split-payments.service';
+import {
+  BatchTransferDto,
+  RetryBatchDto,
+  SplitPlanDto,
+  SplitPlanIdParamsDto,
+} from './dto/split-payment.dto';
+
+/**
+ * SPLIT PAYMENTS CONTROLLER
+ *
+ * HTTP endpoints for paying one transfer from several source chains.
+ *
+ * Endpoints:
+ * - POST /app/transfer/plan - Plan a split payment (nothing is created)
+ * - POST /app/transfer/batch - Create every leg of a plan
+ * - GET /app/transfer/batch/:id - Status of the plan and each leg
+ * - POST /app/transfer/batch/:id/retry - Create the legs that failed again
+ */
+@ApiTags('app')
+@Controller('app/transfer')
+export class SplitPaymentsController {
+  constructor(private readonly splitPayments: SplitPaymentsService) {}
+
+  /**
+   * POST /app/transfer/plan
+   *
+   * Body params:
+   * - destinationChain, amount (human-readable), tokenOut, recipient
+   * - senders and/or balances: Where the funds are
+   * - refundAddress: (Optional) Where failed legs are refunded
+   * - maxLegs: (Optional) Most intents to split into
+   */
+  @Post('plan')
+  async plan(@Body() body: SplitPlanDto) {
+    return this.splitPayments.plan(body);
+  }
+
+  /**
+   * POST /app/transfer/batch
+   *
+   * Body params:
+   * - planId: A plan from POST /app/transfer/plan, or
+   * - plan: The same body as POST /app/transfer/plan, to plan and create at once
+   * - feeToleranceBps: (Optional) Refuse legs whose fee rose by more than this
+   *
+   * Legs that fail are reported with their error; the others are still created.
+   *
+   * Headers:
+   * - Idempotency-Key: (Optional) Retries with the same key get the same result back
+   */
+  @Post('batch')
+  @Idempotent()
+  async createBatch(@Body() body: BatchTransferDto) {
+    const planId = body.planId ?? (await this.splitPayments.plan(body.plan)).id;
+    return this.splitPayments.execute(planId, {
+      feeToleranceBps: body.feeToleranceBps,
+    });
+  }
+
+  @Get('batch/:id')
+  async getBatch(@Param() params: SplitPlanIdParamsDto) {
+    return this.splitPayments.get(params.id);
+  }
+
+  @Post('batch/:id/retry')
+  @HttpCode(200)
+  async retryBatch(
+    @Param() params: SplitPlanIdParamsDto,
+    @Body() body: RetryBatchDto,
+  ) {
+    return this.splitPayments.execute(params.id, body);
+  }
+}
@@ -0,0 +1,68 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { AppModule } from '../app/app.module';
+import { BalancesModule } from '../balances/balances.module';
+import { ChainsModule } from '../chains/chains.module';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { IntentsModule } from '../intents/intents.module';
+import { QuoteLocksModule } from '../quote-locks/quote-locks.module';
+import { QuotesAndRoutesModule } from '../quotes-and-routes/quotes-and-routes.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { InMemorySplitPlanStore } from './in-memory-split-plan.store';
+import { SplitPaymentsController } from './split-payments.controller';
+import { SplitPaymentsService } from './split-payments.service';
+import { SPLIT_PLAN_STORE, SplitPlanStore } from './split-plan.store';
+import { SqliteSplitPlanStore } from './sqlite-split-plan.store';
+
+/**
+ * Provides SplitPaymentsService and the SplitPlanStore picked by
+ * SPLIT_PLAN_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    AppModule,
+    BalancesModule,
+    ChainsModule,
+    IdempotencyModule,
+    IntentsModule,
+    QuoteLocksModule,
+    QuotesAndRoutesModule,
+    WebhooksModule,
+  ],
+  controllers: [SplitPaymentsController],
+  providers: [
+    SplitPaymentsService,
+    {
+      provide: SPLIT_PLAN_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): SplitPlanStore => {
+        const kind = configService.get<string>('SPLIT_PLAN_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(SplitPaymentsModule.name).warn(
+              'Split payment plans are kept in memory and will be lost on restart.',
+            );
+            return new InMemorySplitPlanStore();
+          case 'sqlite':
+            return new SqliteSplitPlanStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown SPLIT_PLAN_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [SplitPaymentsService, SPLIT_PLAN_STORE],
+})
+export class SplitPaymentsModule {}
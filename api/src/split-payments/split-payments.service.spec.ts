@@ -0,0 +1,331 @@
+import { ConfigService } from '@nestjs/config';
+import { Subject } from 'rxjs';
+import { AppService } from '../app/app.service';
+import { BalancesService } from '../balances/balances.service';
+import { ChainsService } from '../chains/chains.service';
+import { IntentsService } from '../intents/intents.service';
+import { InMemoryQuoteLockStore } from '../quote-locks/in-memory-quote-lock.store';
+import { QuoteLockService } from '../quote-locks/quote-lock.service';
+import { QuotesAndRoutesService } from '../quotes-and-routes/quotes-and-routes.service';
+import { parseUnits } from '../utils/amounts';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { InMemorySplitPlanStore } from './in-memory-split-plan.store';
+import { SplitPaymentsService } from './split-payments.service';
+import { SplitCandidate, planSplit } from './split-planner';
+
+const USDC = {
+  BASE_TESTNET: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  AVALANCHE_TESTNET: '0x5425890298aed601595a70AB815c96711a31Bc65',
+  ETHEREUM_TESTNET: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+};
+
+// Flat fee per source, in USDC smallest units
+const FEES = {
+  BASE_TESTNET: 1000n,
+  AVALANCHE_TESTNET: 2000n,
+  ETHEREUM_TESTNET: 5000n,
+};
+
+const request = {
+  destinationChain: 'ARBITRUM_TESTNET',
+  amount: '10',
+  tokenOut: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+  recipient: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+  senders: { evm: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54' },
+  balances: [
+    {
+      sourceChain: 'BASE_TESTNET',
+      tokenAddress: USDC.BASE_TESTNET,
+      balance: '6000000',
+    },
+    {
+      sourceChain: 'AVALANCHE_TESTNET',
+      tokenAddress: USDC.AVALANCHE_TESTNET,
+      balance: '5000000',
+    },
+    {
+      sourceChain: 'ETHEREUM_TESTNET',
+      tokenAddress: USDC.ETHEREUM_TESTNET,
+      balance: '20000000',
+    },
+  ],
+};
+
+function candidate(
+  sourceChain: keyof typeof FEES,
+  balance: bigint,
+): SplitCandidate {
+  return {
+    sourceChain,
+    tokenIn: USDC[sourceChain],
+    tokenSymbol: 'USDC',
+    fee: FEES[sourceChain],
+    fullDeposit: 10_000_000n + FEES[sourceChain],
+    balance,
+  };
+}
+
+describe('planSplit', () => {
+  it('picks the sources that cover the amount at the lowest total fee', () => {
+    const legs = planSplit(
+      [
+        candidate('ETHEREUM_TESTNET', 20_000_000n),
+        candidate('BASE_TESTNET', 6_000_000n),
+        candidate('AVALANCHE_TESTNET', 5_000_000n),
+      ],
+      10_000_000n,
+      4,
+    );
+
+    // Base + Avalanche (3000 in fees) beat Ethereum alone (5000)
+    expect(legs.map((leg) => [leg.candidate.sourceChain, leg.amount])).toEqual([
+      ['BASE_TESTNET', 5_999_000n],
+      ['AVALANCHE_TESTNET', 4_001_000n],
+    ]);
+  });
+
+  it('gives up when the balances, or the leg limit, fall short', () => {
+    const candidates = [
+      candidate('BASE_TESTNET', 6_000_000n),
+      candidate('AVALANCHE_TESTNET', 3_000_000n),
+    ];
+
+    expect(planSplit(candidates, 10_000_000n, 4)).toBeUndefined();
+    candidates[1].balance = 5_000_000n;
+    expect(planSplit(candidates, 10_000_000n, 1)).toBeUndefined();
+    expect(planSplit(candidates, 10_000_000n, 2)).toHaveLength(2);
+  });
+});
+
+describe('SplitPaymentsService', () => {
+  const now = new Date('2025-12-05T14:00:00.000Z');
+  let store: InMemorySplitPlanStore;
+  let createTransfer: jest.Mock;
+  let getIntentStatus: jest.Mock;
+  let events$: Subject<WebhookEvent>;
+  let service: SplitPaymentsService;
+
+  // Every source quotes a flat fee on top of the amount
+  const getMultiSourceQuotes = jest.fn(async ({ amount }) => ({
+    quotes: Object.entries(FEES).map(([sourceChain, fee]) => ({
+      sourceChain,
+      totalFee: fee.toString(),
+      paymentOptions: [
+        {
+          token: 'USDC',
+          tokenAddress: USDC[sourceChain],
+          depositAmount: (parseUnits(amount, 6) + fee).toString(),
+        },
+      ],
+    })),
+  }));
+
+  function intent(id: number, status = 'PENDING') {
+    return {
+      id,
+      intent_address: `0x${String(id).padStart(40, '0')}`,
+      intent_status: status,
+      refund_address: request.senders.evm,
+      total_amount_in_asset_token: '4003000',
+    };
+  }
+
+  beforeEach(() => {
+    const quotesService = {
+      getMultiSourceQuotes,
+    } as unknown as QuotesAndRoutesService;
+    const config = new ConfigService({ QUOTE_LOCK_SECRET: 'test-secret' });
+
+    store = new InMemorySplitPlanStore();
+    createTransfer = jest.fn();
+    getIntentStatus = jest.fn();
+    events$ = new Subject();
+    service = new SplitPaymentsService(
+      store,
+      quotesService,
+      { getTokenDecimals: async () => 6 } as unknown as ChainsService,
+      {} as BalancesService,
+      new QuoteLockService(new InMemoryQuoteLockStore(), quotesService, config),
+      { createTransfer } as unknown as AppService,
+      { getIntentStatus } as unknown as IntentsService,
+      { events$ } as unknown as WebhookEventBus,
+      config,
+    );
+    service.onApplicationBootstrap();
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it('plans legs from real per-leg quotes and locks each one', async () => {
+    const plan = await service.plan(request, now);
+
+    expect(plan).toMatchObject({
+      amount: '10000000',
+      totalFee: '3000',
+      status: 'planned',
+    });
+    expect(plan.legs).toEqual([
+      expect.objectContaining({
+        sourceChain: 'BASE_TESTNET',
+        amount: '5999000',
+        depositAmount: '6000000',
+        sender: request.senders.evm,
+        quoteExpiresAt: '2025-12-05T14:05:00.000Z',
+      }),
+      expect.objectContaining({
+        sourceChain: 'AVALANCHE_TESTNET',
+        amount: '4001000',
+        depositAmount: '4003000',
+      }),
+    ]);
+    await expect(store.get(plan.id)).resolves.toEqual(plan);
+  });
+
+  it('keeps creating legs when one fails, and retries only the failed one', async () => {
+    const plan = await service.plan(request, now);
+    createTransfer
+      .mockResolvedValueOnce({ intent: intent(1) })
+      .mockRejectedValueOnce(new Error('Chainrails is down'));
+
+    const partial = await service.execute(plan.id, {}, now);
+
+    expect(partial.status).toBe('partially_created');
+    expect(partial.legs.map((leg) => [leg.status, leg.error])).toEqual([
+      ['PENDING', undefined],
+      ['failed', 'Chainrails is down'],
+    ]);
+    expect(createTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        quoteId: plan.legs[0].quoteId,
+        metadata: { splitPlanId: plan.id, splitLeg: 1 },
+        idempotencyKey: `split:${plan.id}:1`,
+      }),
+    );
+
+    createTransfer.mockResolvedValueOnce({ intent: intent(2) });
+    const retried = await service.execute(plan.id, {}, now);
+
+    expect(createTransfer).toHaveBeenCalledTimes(3);
+    // The retry can't create a second intent if the first request got through
+    expect(createTransfer).toHaveBeenLastCalledWith(
+      expect.objectContaining({ idempotencyKey: `split:${plan.id}:2` }),
+    );
+    expect(retried.status).toBe('awaiting_funding');
+    expect(retried.legs.map((leg) => leg.intentId)).toEqual([1, 2]);
+  });
+
+  it('creates the legs once when executed concurrently', async () => {
+    const plan = await service.plan(request, now);
+    createTransfer
+      .mockResolvedValueOnce({ intent: intent(1) })
+      .mockResolvedValueOnce({ intent: intent(2) });
+
+    const results = await Promise.allSettled([
+      service.execute(plan.id, {}, now),
+      service.execute(plan.id, {}, now),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(
+      results.find((result) => result.status === 'rejected'),
+    ).toMatchObject({
+      reason: { message: expect.stringContaining('already being executed') },
+    });
+    expect(createTransfer).toHaveBeenCalledTimes(2);
+    const saved = await store.get(plan.id);
+    expect(saved.status).toBe('awaiting_funding');
+    expect(saved).not.toHaveProperty('executingSince');
+  });
+
+  it('takes over a plan whose execution was abandoned', async () => {
+    const plan = await service.plan(request, now);
+    await store.claimExecution(plan.id, now.toISOString(), now.toISOString());
+    createTransfer.mockResolvedValue({ intent: intent(1) });
+
+    await expect(service.execute(plan.id, {}, now)).rejects.toThrow(
+      'already being executed',
+    );
+
+    const later = new Date(now.getTime() + 10 * 60 * 1000 + 1);
+    await expect(service.execute(plan.id, {}, later)).resolves.toMatchObject({
+      status: 'awaiting_funding',
+    });
+  });
+
+  it('keeps leg updates from webhooks that arrive while other legs are created or read', async () => {
+    const plan = await service.plan(request, now);
+    const funded = (intentId: number) => ({
+      id: `evt_${intentId}_funded`,
+      type: 'intent.funded',
+      intentId,
+      createdAt: now.toISOString(),
+      receivedAt: now.toISOString(),
+      data: {},
+    });
+    createTransfer
+      .mockResolvedValueOnce({ intent: intent(1) })
+      .mockImplementationOnce(async () => {
+        await service.updateFromWebhook(funded(1));
+        return { intent: intent(2) };
+      });
+
+    await service.execute(plan.id, {}, now);
+    expect((await store.get(plan.id)).legs.map((leg) => leg.status)).toEqual([
+      'FUNDED',
+      'PENDING',
+    ]);
+
+    // The API still says PENDING for leg 2 when the webhook lands
+    getIntentStatus.mockImplementation(async (id: number) => {
+      if (id === 2) await service.updateFromWebhook(funded(2));
+      return intent(id);
+    });
+    const view = await service.get(plan.id);
+
+    expect(view.legs.map((leg) => leg.status)).toEqual(['FUNDED', 'FUNDED']);
+    expect(view.status).toBe('in_progress');
+  });
+
+  it('follows legs through webhooks and reports refunds per leg', async () => {
+    const plan = await service.plan(request, now);
+    createTransfer
+      .mockResolvedValueOnce({ intent: intent(1) })
+      .mockResolvedValueOnce({ intent: intent(2) });
+    await service.execute(plan.id, {}, now);
+
+    const event = (intentId: number, type: string, data = {}) => ({
+      id: `evt_${intentId}_${type}`,
+      type,
+      intentId,
+      createdAt: now.toISOString(),
+      receivedAt: now.toISOString(),
+      data,
+    });
+    await service.updateFromWebhook(event(1, 'intent.funded'));
+    await service.updateFromWebhook(event(1, 'intent.completed'));
+    await service.updateFromWebhook(event(2, 'intent.funded'));
+    getIntentStatus.mockResolvedValue({
+      ...intent(2, 'REFUNDED'),
+      tx_hash: '0xrefund',
+    });
+
+    const view = await service.get(plan.id);
+
+    expect(getIntentStatus).toHaveBeenCalledWith(2);
+    expect(view).toMatchObject({
+      status: 'partially_completed',
+      delivered: '5999000',
+      outstanding: '4001000',
+    });
+    expect(view.legs[0].refund).toBeUndefined();
+    expect(view.legs[1].refund).toEqual({
+      refundAddress: request.senders.evm,
+      amount: '4003000',
+      txHash: '0xrefund',
+    });
+  });
+});
@@ -0,0 +1,603 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Subscription } from 'rxjs';
+import { AppService } from '../app/app.service';
+import { BalancesService, SenderAddresses } from '../balances/balances.service';
+import { ChainsService } from '../chains/chains.service';
+import { getChainFamily } from '../chainrails/models/chain.model';
+import { Intent, IntentStatus } from '../chainrails/models/intent.model';
+import { IntentsService } from '../intents/intents.service';
+import { toObservation } from '../lifecycle/intent-lifecycle.service';
+import {
+  canTransition,
+  isTerminalStatus,
+} from '../lifecycle/intent-state-machine';
+import { QuoteLockService } from '../quote-locks/quote-lock.service';
+import { QuotesAndRoutesService } from '../quotes-and-routes/quotes-and-routes.service';
+import {
+  addAmounts,
+  formatUnits,
+  parseUnits,
+  subAmounts,
+  toBaseUnits,
+} from '../utils/amounts';
+import { WebhookEventBus } from '../webhooks/webhook-event.bus';
+import { WebhookEvent } from '../webhooks/webhook-event.model';
+import { SplitLeg, SplitPlan, derivePlanStatus } from './split-plan.model';
+import { SPLIT_PLAN_STORE, SplitPlanStore } from './split-plan.store';
+import { SplitCandidate, planSplit } from './split-planner';
+
+// A plan left `executing` this long (its request crashed) can be executed
+// again. The legs' idempotency keys keep that from creating duplicates.
+const EXECUTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface SplitPlanRequest {
+  destinationChain: string;
+  /** Human-readable, like POST /app/options ("10" for 10 USDC) */
+  amount: string;
+  tokenOut: string;
+  recipient: string;
+  refundAddress?: string;
+  /** Wallets to read balances from, and to send each leg from */
+  senders?: SenderAddresses;
+  /** Balances you already know, in smallest units. Skips the RPC lookup */
+  balances?: { sourceChain: string; tokenAddress: string; balance: string }[];
+  maxLegs?: number;
+}
+
+/**
+ * A plan with its progress summed up
+ */
+export interface SplitPlanView extends SplitPlan {
+  /** Delivered by completed legs, destination smallest units */
+  delivered: string;
+  /** Still to be delivered */
+  outstanding: string;
+}
+
+/**
+ * SPLIT PAYMENTS SERVICE
+ *
+ * Purpose: Pay one transfer from several wallets at once
+ *
+ * When funds are spread out (6 USDC on Base, 5 on Arbitrum), no single
+ * option from POST /app/options covers a 10 USDC transfer. A split plan
+ * delivers it with one intent ("leg") per source.
+ *
+ * What you'll learn:
+ * - How to combine quotes with wallet balances into a multi-intent plan
+ * - How to create several intents as one payment, and retry the ones that failed
+ * - How to track the payment as a whole, including refunds per leg
+ */
+@Injectable()
+export class SplitPaymentsService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SplitPaymentsService.name);
+  private readonly maxLegs: number;
+  private subscription?: Subscription;
+
+  constructor(
+    @Inject(SPLIT_PLAN_STORE)
+    private readonly store: SplitPlanStore,
+    private readonly quotesService: QuotesAndRoutesService,
+    private readonly chainsService: ChainsService,
+    private readonly balances: BalancesService,
+    private readonly quoteLocks: QuoteLockService,
+    private readonly appService: AppService,
+    private readonly intentsService: IntentsService,
+    private readonly webhookBus: WebhookEventBus,
+    configService: ConfigService,
+  ) {
+    this.maxLegs = Number(configService.get('SPLIT_MAX_LEGS') ?? 4);
+  }
+
+  onApplicationBootstrap() {
+    this.subscription = this.webhookBus.events$.subscribe((event) => {
+      this.updateFromWebhook(event).catch((error) =>
+        this.logger.error(
+          `❌ Updating split plan from event ${event.id} failed: ${error.message}`,
+        ),
+      );
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Example 1: Plan a Split Payment
+   *
+   * Flow:
+   * 1. Quote the full amount from every source
+   * 2. Find out how much the sender holds at each source
+   * 3. Pick the sources that cover the amount at the lowest total fee
+   *    (see planSplit)
+   * 4. Quote each leg for its own amount, and lock the quotes
+   */
+  async plan(request: SplitPlanRequest, now = new Date()): Promise<SplitPlan> {
+    const decimals = await this.chainsService.getTokenDecimals(
+      request.destinationChain,
+      request.tokenOut,
+    );
+    if (decimals === undefined) {
+      throw new BadRequestException(
+        `Unknown decimals for ${request.tokenOut} on ${request.destinationChain}`,
+      );
+    }
+    const target = parseUnits(request.amount, decimals);
+
+    const quotes = await this.quotesService.getMultiSourceQuotes({
+      destinationChain: request.destinationChain,
+      amount: request.amount,
+      tokenOut: request.tokenOut,
+      recipient: request.recipient,
+    });
+    const sources = quotes.quotes.flatMap((quote) =>
+      quote.paymentOptions.map((option) => ({
+        sourceChain: quote.sourceChain,
+        tokenIn: option.tokenAddress,
+        tokenSymbol: option.token,
+        fee: toBaseUnits(quote.totalFee || '0'),
+        fullDeposit: toBaseUnits(option.depositAmount),
+      })),
+    );
+
+    const balances = await this.knownBalances(request, sources);
+    const candidates: SplitCandidate[] = sources
+      .map((source, i) => ({ ...source, balance: balances[i] }))
+      .filter((candidate) => candidate.balance !== undefined);
+
+    const planned = planSplit(
+      candidates,
+      target,
+      request.maxLegs ?? this.maxLegs,
+    );
+    if (!planned) {
+      throw new UnprocessableEntityException(
+        `Known balances can't cover ${request.amount} across ${candidates.length} source(s) in at most ${request.maxLegs ?? this.maxLegs} legs`,
+      );
+    }
+
+    // The plan assumed fees and deposits scale linearly: get real quotes
+    const legs = await Promise.all(
+      planned.map(async ({ candidate, amount }, i) => {
+        const quoted = await this.quoteLeg(
+          request,
+          candidate,
+          amount,
+          decimals,
+        );
+        if (subAmounts(quoted.depositAmount, candidate.balance) > 0n) {
+          throw new ConflictException(
+            `Quotes moved while planning: ${candidate.sourceChain} now needs ${quoted.depositAmount}, more than the balance of ${candidate.balance}. Try again.`,
+          );
+        }
+        return {
+          index: i + 1,
+          sourceChain: candidate.sourceChain,
+          tokenIn: candidate.tokenIn,
+          tokenSymbol: candidate.tokenSymbol,
+          amount: amount.toString(),
+          depositAmount: quoted.depositAmount,
+          fee: quoted.fee,
+          balance: candidate.balance.toString(),
+          sender: senderFor(request.senders, candidate.sourceChain),
+          status: 'planned' as const,
+        };
+      }),
+    );
+
+    const tickets = await this.quoteLocks.issue(
+      legs.map((leg) => this.toLockedQuote(request, leg, decimals)),
+      now.getTime(),
+    );
+
+    const plan: SplitPlan = {
+      id: randomUUID(),
+      destinationChain: request.destinationChain,
+      tokenOut: request.tokenOut,
+      recipient: request.recipient,
+      refundAddress: request.refundAddress,
+      amount: target.toString(),
+      totalFee: addAmounts(...legs.map((leg) => leg.fee)).toString(),
+      status: 'planned',
+      legs: legs.map((leg, i) => ({
+        ...leg,
+        quoteId: tickets[i].quoteId,
+        quoteExpiresAt: tickets[i].expiresAt,
+      })),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await this.store.save(plan);
+
+    this.logger.log(
+      `✅ Planned ${plan.id}: ${request.amount} in ${legs.length} leg(s) from ${legs.map((leg) => leg.sourceChain).join(', ')}`,
+    );
+    return plan;
+  }
+
+  /**
+   * Example 2: Create the Legs
+   *
+   * Creates an intent for every leg that doesn't have one yet, through
+   * AppService.createTransfer (so each leg is held to its locked quote).
+   *
+   * Legs are independent: one failing doesn't stop the others. Failed legs
+   * keep their error, and calling this again retries just those (with a
+   * fresh quote if theirs expired).
+   *
+   * The plan is claimed first (status `executing`), so a concurrent call or
+   * a client retrying after a timeout gets a 409 instead of creating the
+   * legs a second time. Each leg is sent with the Idempotency-Key
+   * `split:<planId>:<leg>`, so retrying a leg whose request did reach
+   * Chainrails returns its intent rather than creating another.
+   */
+  async execute(
+    planId: string,
+    options: { feeToleranceBps?: number } = {},
+    now = new Date(),
+  ): Promise<SplitPlanView> {
+    await this.getPlan(planId);
+    const plan = await this.store.claimExecution(
+      planId,
+      now.toISOString(),
+      new Date(now.getTime() - EXECUTION_TIMEOUT_MS).toISOString(),
+    );
+    if (!plan) {
+      throw new ConflictException(`Plan ${planId} is already being executed`);
+    }
+
+    const pending = plan.legs.filter(
+      (leg) => leg.status === 'planned' || leg.status === 'failed',
+    );
+    if (!pending.length) {
+      await this.release(planId, now);
+      throw new ConflictException(`All legs of plan ${planId} were created`);
+    }
+
+    for (const leg of pending) {
+      try {
+        if (Date.parse(leg.quoteExpiresAt) <= now.getTime()) {
+          await this.refreshQuote(plan, leg, now);
+        }
+
+        const transfer = await this.appService.createTransfer({
+          quoteId: leg.quoteId,
+          feeToleranceBps: options.feeToleranceBps,
+          recipient: plan.recipient,
+          sender: leg.sender,
+          refundAddress: plan.refundAddress ?? leg.sender,
+          metadata: { splitPlanId: plan.id, splitLeg: leg.index },
+          idempotencyKey: `split:${plan.id}:${leg.index}`,
+        });
+        applyIntent(leg, transfer.intent);
+        delete leg.error;
+      } catch (error) {
+        this.logger.error(
+          `❌ Leg ${leg.index} of plan ${plan.id} (${leg.sourceChain}) failed: ${error.message}`,
+        );
+        leg.status = 'failed';
+        leg.error = error.message;
+      }
+
+      // Saved leg by leg: webhooks for the legs created so far update the
+      // stored plan meanwhile, and saving this copy whole would undo that
+      await this.update(
+        plan.id,
+        (stored) => {
+          stored.legs[stored.legs.findIndex((l) => l.index === leg.index)] =
+            leg;
+          stored.totalFee = addAmounts(
+            ...stored.legs.map((l) => l.fee),
+          ).toString();
+        },
+        now,
+      );
+    }
+
+    const saved = await this.release(plan.id, now);
+    this.logger.log(
+      `✅ Plan ${plan.id}: ${pending.length} leg(s) attempted, now ${saved.status}`,
+    );
+    return this.toView(saved);
+  }
+
+  /**
+   * Example 3: Track the Plan
+   *
+   * Refreshes every leg still in progress from the API, so the plan's
+   * status is right even if webhooks were missed.
+   */
+  async get(planId: string): Promise<SplitPlanView> {
+    const plan = await this.getPlan(planId);
+
+    await Promise.all(
+      plan.legs
+        .filter(
+          (leg) =>
+            leg.intentId !== undefined &&
+            !isTerminalStatus(leg.status as IntentStatus),
+        )
+        .map(async (leg) => {
+          try {
+            const intent = await this.intentsService.getIntentStatus(
+              leg.intentId,
+            );
+            await this.updateLeg(plan.id, leg.index, (stored) => {
+              // A webhook may have moved the leg on since it was read
+              if (
+                stored.status !== intent.intent_status &&
+                !canTransition(
+                  stored.status as IntentStatus,
+                  intent.intent_status,
+                )
+              ) {
+                return false;
+              }
+              applyIntent(stored, intent);
+            });
+          } catch (error) {
+            this.logger.warn(
+              `Could not refresh leg ${leg.index} of plan ${plan.id}: ${error.message}`,
+            );
+          }
+        }),
+    );
+
+    return this.toView(await this.getPlan(planId));
+  }
+
+  /**
+   * Follow leg intents from webhook events (and the reconciler's synthetic ones)
+   */
+  async updateFromWebhook(event: WebhookEvent) {
+    if (event.intentId === undefined) return;
+    const observation = toObservation(event);
+    if (!observation) return;
+
+    const plan = await this.store.findByIntentId(event.intentId);
+    const leg = plan?.legs.find((l) => l.intentId === event.intentId);
+    if (!leg) return;
+
+    await this.updateLeg(plan.id, leg.index, (stored, storedPlan) => {
+      if (!canTransition(stored.status as IntentStatus, observation.status)) {
+        return false;
+      }
+
+      stored.status = observation.status;
+      stored.txHash = event.data?.tx_hash ?? stored.txHash;
+      if (observation.status === 'REFUNDED') {
+        stored.refund = {
+          refundAddress: storedPlan.refundAddress ?? stored.sender,
+          amount: stored.depositAmount,
+          txHash: event.data?.refund_tx_hash ?? event.data?.tx_hash,
+        };
+      }
+    });
+  }
+
+  private async getPlan(planId: string): Promise<SplitPlan> {
+    const plan = await this.store.get(planId);
+    if (!plan) {
+      throw new NotFoundException(`Split plan ${planId} not found`);
+    }
+    return plan;
+  }
+
+  /**
+   * Change the stored plan, not a copy read before some await: execute(),
+   * get() and webhooks update the same plan concurrently
+   */
+  private async update(
+    planId: string,
+    change: (plan: SplitPlan) => boolean | void,
+    now = new Date(),
+  ): Promise<SplitPlan> {
+    const plan = await this.store.update(planId, (stored) => {
+      if (change(stored) === false) return false;
+      stored.status = stored.executingSince
+        ? 'executing'
+        : derivePlanStatus(stored.legs);
+      stored.updatedAt = now.toISOString();
+    });
+    if (!plan) {
+      throw new NotFoundException(`Split plan ${planId} not found`);
+    }
+    return plan;
+  }
+
+  private updateLeg(
+    planId: string,
+    index: number,
+    change: (leg: SplitLeg, plan: SplitPlan) => boolean | void,
+  ): Promise<SplitPlan> {
+    return this.update(planId, (plan) => {
+      const leg = plan.legs.find((l) => l.index === index);
+      return leg ? change(leg, plan) : false;
+    });
+  }
+
+  /**
+   * Let the next execute() in
+   */
+  private release(planId: string, now: Date): Promise<SplitPlan> {
+    return this.update(
+      planId,
+      (plan) => {
+        delete plan.executingSince;
+      },
+      now,
+    );
+  }
+
+  /**
+   * Balances per source, in the same order: from the request, else read
+   * from the senders' wallets. undefined where unknown
+   */
+  private async knownBalances(
+    request: SplitPlanRequest,
+    sources: { sourceChain: string; tokenIn: string; fullDeposit: bigint }[],
+  ): Promise<(bigint | undefined)[]> {
+    if (request.balances) {
+      const given = new Map(
+        request.balances.map((b) => [
+          `${b.sourceChain}:${b.tokenAddress}`.toLowerCase(),
+          toBaseUnits(b.balance),
+        ]),
+      );
+      return sources.map((source) =>
+        given.get(`${source.sourceChain}:${source.tokenIn}`.toLowerCase()),
+      );
+    }
+
+    if (!request.senders) {
+      throw new BadRequestException(
+        'Send either balances or senders to plan a split payment',
+      );
+    }
+    const checks = await this.balances.checkFunding(
+      sources.map((source) => ({
+        sourceChain: source.sourceChain,
+        tokenAddress: source.tokenIn,
+        depositAmount: source.fullDeposit.toString(),
+      })),
+      request.senders,
+    );
+    return checks.map((check) =>
+      check.balance === undefined ? undefined : BigInt(check.balance),
+    );
+  }
+
+  private async quoteLeg(
+    request: Pick<
+      SplitPlanRequest,
+      'destinationChain' | 'tokenOut' | 'recipient'
+    >,
+    source: { sourceChain: string; tokenIn: string },
+    amount: bigint,
+    decimals: number,
+  ): Promise<{ depositAmount: string; fee: string }> {
+    const quotes = await this.quotesService.getMultiSourceQuotes({
+      destinationChain: request.destinationChain,
+      amount: formatUnits(amount, decimals),
+      tokenOut: request.tokenOut,
+      recipient: request.recipient,
+    });
+
+    for (const quote of quotes.quotes) {
+      if (quote.sourceChain !== source.sourceChain) continue;
+      const option = quote.paymentOptions.find(
+        (candidate) =>
+          candidate.tokenAddress.toLowerCase() === source.tokenIn.toLowerCase(),
+      );
+      if (option) {
+        return {
+          depositAmount: option.depositAmount,
+          fee: toBaseUnits(quote.totalFee || '0').toString(),
+        };
+      }
+    }
+    throw new ConflictException(
+      `${source.sourceChain} → ${request.destinationChain} is no longer offered`,
+    );
+  }
+
+  private async refreshQuote(plan: SplitPlan, leg: SplitLeg, now: Date) {
+    const decimals = await this.chainsService.getTokenDecimals(
+      plan.destinationChain,
+      plan.tokenOut,
+    );
+    const quoted = await this.quoteLeg(
+      plan,
+      leg,
+      toBaseUnits(leg.amount),
+      decimals,
+    );
+    const [ticket] = await this.quoteLocks.issue(
+      [this.toLockedQuote(plan, { ...leg, ...quoted }, decimals)],
+      now.getTime(),
+    );
+
+    leg.depositAmount = quoted.depositAmount;
+    leg.fee = quoted.fee;
+    leg.quoteId = ticket.quoteId;
+    leg.quoteExpiresAt = ticket.expiresAt;
+    plan.totalFee = addAmounts(...plan.legs.map((l) => l.fee)).toString();
+  }
+
+  private toLockedQuote(
+    plan: Pick<SplitPlanRequest, 'destinationChain' | 'tokenOut' | 'recipient'>,
+    leg: Pick<
+      SplitLeg,
+      | 'sourceChain'
+      | 'tokenIn'
+      | 'tokenSymbol'
+      | 'amount'
+      | 'depositAmount'
+      | 'fee'
+    >,
+    decimals: number,
+  ) {
+    return {
+      destinationChain: plan.destinationChain,
+      tokenOut: plan.tokenOut,
+      requestedAmount: formatUnits(leg.amount, decimals),
+      recipient: plan.recipient,
+      sourceChain: leg.sourceChain,
+      tokenIn: leg.tokenIn,
+      tokenSymbol: leg.tokenSymbol,
+      depositAmount: leg.depositAmount,
+      fee: leg.fee,
+    };
+  }
+
+  private toView(plan: SplitPlan): SplitPlanView {
+    const delivered = addAmounts(
+      ...plan.legs
+        .filter((leg) => leg.status === 'COMPLETED')
+        .map((leg) => leg.amount),
+    );
+    return {
+      ...plan,
+      delivered: delivered.toString(),
+      outstanding: subAmounts(plan.amount, delivered).toString(),
+    };
+  }
+}
+
+function senderFor(
+  senders: SenderAddresses | undefined,
+  chain: string,
+): string | undefined {
+  const family = getChainFamily(chain);
+  return family === 'other' ? undefined : senders?.[family];
+}
+
+function applyIntent(leg: SplitLeg, intent: Intent) {
+  leg.status = intent.intent_status;
+  leg.intentId = intent.id;
+  leg.intentAddress = intent.intent_address;
+  leg.expiresAt = intent.expires_at ?? leg.expiresAt;
+  leg.txHash = intent.tx_hash ?? leg.txHash;
+  if (intent.intent_status === 'REFUNDED') {
+    leg.refund = {
+      refundAddress: intent.refund_address,
+      amount: intent.total_amount_in_asset_token ?? leg.depositAmount,
+      txHash: intent.tx_hash ?? undefined,
+    };
+  }
+}
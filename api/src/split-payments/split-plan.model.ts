@@ -0,0 +1,102 @@
+import {
+  IntentStatus,
+  TERMINAL_INTENT_STATUSES,
+} from '../chainrails/models/intent.model';
+
+/**
+ * A leg is `planned` until its intent is created, `failed` if creating it
+ * failed, and follows its intent's status after that
+ */
+export type LegStatus = 'planned' | 'failed' | IntentStatus;
+
+export const PLAN_STATUSES = [
+  'planned',
+  'executing',
+  'partially_created',
+  'awaiting_funding',
+  'in_progress',
+  'completed',
+  'partially_completed',
+  'failed',
+] as const;
+
+export type PlanStatus = (typeof PLAN_STATUSES)[number];
+
+/**
+ * One intent of a split payment: part of the amount, from one source
+ */
+export interface SplitLeg {
+  index: number;
+  sourceChain: string;
+  tokenIn: string;
+  tokenSymbol: string;
+  /** What this leg delivers, in the destination token's smallest units */
+  amount: string;
+  /** What the sender deposits, in the source token's smallest units */
+  depositAmount: string;
+  /** In the destination token's smallest units */
+  fee: string;
+  /** The sender's balance the leg was planned against */
+  balance: string;
+  sender?: string;
+  quoteId: string;
+  quoteExpiresAt: string;
+  status: LegStatus;
+  intentId?: number;
+  intentAddress?: string;
+  expiresAt?: string;
+  txHash?: string;
+  /** Why creating the intent failed */
+  error?: string;
+  /** Set once the leg's intent was refunded */
+  refund?: {
+    refundAddress?: string;
+    amount: string;
+    txHash?: string;
+  };
+}
+
+export interface SplitPlan {
+  id: string;
+  destinationChain: string;
+  tokenOut: string;
+  recipient: string;
+  refundAddress?: string;
+  /** Target, in the destination token's smallest units */
+  amount: string;
+  totalFee: string;
+  status: PlanStatus;
+  legs: SplitLeg[];
+  /** Set while a request is creating the legs (see SplitPlanStore.claimExecution) */
+  executingSince?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function isTerminal(status: LegStatus): boolean {
+  return TERMINAL_INTENT_STATUSES.includes(status as IntentStatus);
+}
+
+/**
+ * The plan's status, from its legs
+ */
+export function derivePlanStatus(legs: SplitLeg[]): PlanStatus {
+  const statuses = legs.map((leg) => leg.status);
+  const completed = statuses.filter((status) => status === 'COMPLETED');
+
+  if (statuses.every((status) => status === 'planned')) return 'planned';
+
+  if (statuses.every((status) => status === 'failed' || isTerminal(status))) {
+    if (completed.length === legs.length) return 'completed';
+    return completed.length ? 'partially_completed' : 'failed';
+  }
+
+  // Some legs still need creating: retry them
+  if (statuses.some((status) => status === 'failed' || status === 'planned')) {
+    return 'partially_created';
+  }
+  if (statuses.every((status) => status === 'PENDING')) {
+    return 'awaiting_funding';
+  }
+  return 'in_progress';
+}
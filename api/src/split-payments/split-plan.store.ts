@@ -0,0 +1,48 @@
+import { SplitPlan } from './split-plan.model';
+
+/**
+ * Injection token for the configured SplitPlanStore
+ */
+export const SPLIT_PLAN_STORE = Symbol('SPLIT_PLAN_STORE');
+
+/**
+ * Where split payment plans are kept
+ */
+export interface SplitPlanStore {
+  save(plan: SplitPlan): Promise<void>;
+  get(id: string): Promise<SplitPlan | undefined>;
+
+  /**
+   * Mark the plan as executing, unless another request already is (since
+   * after staleBefore). Check and update happen atomically, so of two
+   * concurrent calls only one gets the plan back.
+   */
+  claimExecution(
+    id: string,
+    now: string,
+    staleBefore: string,
+  ): Promise<SplitPlan | undefined>;
+
+  /**
+   * Read the plan, let `change` edit it and save it, atomically, so an
+   * update of one leg can't overwrite another leg saved in the meantime.
+   * `change` returns false to leave the plan as it is. Resolves to the plan
+   * as stored afterwards, undefined if there is no such plan.
+   */
+  update(
+    id: string,
+    change: (plan: SplitPlan) => boolean | void,
+  ): Promise<SplitPlan | undefined>;
+
+  /**
+   * The plan one of whose legs created this intent
+   */
+  findByIntentId(intentId: number): Promise<SplitPlan | undefined>;
+}
+
+/**
+ * Whether another request is still creating the plan's legs
+ */
+export function isExecuting(plan: SplitPlan, staleBefore: string): boolean {
+  return plan.executingSince !== undefined && plan.executingSince > staleBefore;
+}
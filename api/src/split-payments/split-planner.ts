@@ -0,0 +1,106 @@
+import { compareAmounts } from '../utils/amounts';
+
+/**
+ * A source the sender could pay from, as quoted for the full amount
+ */
+export interface SplitCandidate {
+  sourceChain: string;
+  tokenIn: string;
+  tokenSymbol: string;
+  /** Fee of one intent from this source, in destination smallest units */
+  fee: bigint;
+  /** Deposit quoted for the full target, in source smallest units */
+  fullDeposit: bigint;
+  /** What the sender holds, in source smallest units */
+  balance: bigint;
+}
+
+export interface PlannedLeg {
+  candidate: SplitCandidate;
+  /** Delivered by this leg, in destination smallest units */
+  amount: bigint;
+}
+
+/**
+ * How much a source can deliver with the sender's balance there.
+ *
+ * Deposits are assumed to grow linearly with the amount on top of a flat
+ * fee: deposit(x) = (x + fee) * fullDeposit / (target + fee). Each leg is
+ * re-quoted afterwards, so the plan ends up with real figures.
+ */
+export function legCapacity(candidate: SplitCandidate, target: bigint): bigint {
+  if (candidate.fullDeposit <= 0n) return 0n;
+  const capacity =
+    (candidate.balance * (target + candidate.fee)) / candidate.fullDeposit -
+    candidate.fee;
+  return capacity > 0n ? capacity : 0n;
+}
+
+/**
+ * Pick the sources that deliver `target` at the lowest total fee.
+ *
+ * Every leg is a separate intent paying its own fee, so fewer, cheaper legs
+ * win. Combinations of up to `maxLegs` sources are compared; ties go to
+ * fewer legs, then to more room to spare. Amounts are filled cheapest
+ * source first.
+ *
+ * Returns undefined when no combination covers the target.
+ */
+export function planSplit(
+  candidates: SplitCandidate[],
+  target: bigint,
+  maxLegs: number,
+): PlannedLeg[] | undefined {
+  const usable = candidates
+    .map((candidate) => ({
+      candidate,
+      capacity: legCapacity(candidate, target),
+    }))
+    .filter(({ capacity }) => capacity > 0n)
+    .sort(
+      (a, b) =>
+        compareAmounts(a.candidate.fee, b.candidate.fee) ||
+        compareAmounts(b.capacity, a.capacity),
+    );
+
+  let best: { picks: typeof usable; fee: bigint; slack: bigint } | undefined;
+
+  const visit = (start: number, picks: typeof usable) => {
+    if (picks.length) {
+      const capacity = picks.reduce((sum, pick) => sum + pick.capacity, 0n);
+      if (capacity >= target) {
+        const fee = picks.reduce((sum, pick) => sum + pick.candidate.fee, 0n);
+        const slack = capacity - target;
+        const better =
+          !best ||
+          fee < best.fee ||
+          (fee === best.fee && picks.length < best.picks.length) ||
+          (fee === best.fee &&
+            picks.length === best.picks.length &&
+            slack > best.slack);
+        if (better) best = { picks: [...picks], fee, slack };
+        // Adding sources only adds fees
+        return;
+      }
+    }
+    if (picks.length === maxLegs) return;
+
+    for (let i = start; i < usable.length; i++) {
+      picks.push(usable[i]);
+      visit(i + 1, picks);
+      picks.pop();
+    }
+  };
+  visit(0, []);
+
+  if (!best) return undefined;
+
+  let remaining = target;
+  return best.picks
+    .map(({ candidate, capacity }) => {
+      const amount = capacity < remaining ? capacity : remaining;
+      remaining -= amount;
+      return { candidate, amount };
+    })
+    .filter((leg) => leg.amount > 0n);
+}
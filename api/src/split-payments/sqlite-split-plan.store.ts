@@ -0,0 +1,111 @@
+import type { Database } from 'better-sqlite3';
+import { SplitPlan } from './split-plan.model';
+import { isExecuting, SplitPlanStore } from './split-plan.store';
+
+interface SplitPlanRow {
+  plan: string;
+}
+
+/**
+ * Keeps split plans in SQLite: each plan as JSON, plus a table mapping leg
+ * intents to their plan for webhook lookups
+ */
+export class SqliteSplitPlanStore implements SplitPlanStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS split_plans (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        plan TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS split_plan_legs (
+        intent_id INTEGER PRIMARY KEY,
+        plan_id TEXT NOT NULL REFERENCES split_plans (id)
+      );
+    `);
+  }
+
+  async save(plan: SplitPlan): Promise<void> {
+    this.db.transaction(() => this.write(plan))();
+  }
+
+  async get(id: string): Promise<SplitPlan | undefined> {
+    return this.read(id);
+  }
+
+  async claimExecution(
+    id: string,
+    now: string,
+    staleBefore: string,
+  ): Promise<SplitPlan | undefined> {
+    // One transaction, so two processes sharing the file can't both claim it
+    return this.db.transaction(() => {
+      const plan = this.read(id);
+      if (!plan || isExecuting(plan, staleBefore)) return undefined;
+
+      plan.status = 'executing';
+      plan.executingSince = now;
+      plan.updatedAt = now;
+      this.write(plan);
+      return plan;
+    })();
+  }
+
+  async update(
+    id: string,
+    change: (plan: SplitPlan) => boolean | void,
+  ): Promise<SplitPlan | undefined> {
+    return this.db.transaction(() => {
+      const plan = this.read(id);
+      if (!plan) return undefined;
+      if (change(plan) === false) return this.read(id);
+
+      this.write(plan);
+      return plan;
+    })();
+  }
+
+  async findByIntentId(intentId: number): Promise<SplitPlan | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT p.plan FROM split_plans p
+         JOIN split_plan_legs l ON l.plan_id = p.id
+         WHERE l.intent_id = ?`,
+      )
+      .get(intentId) as SplitPlanRow | undefined;
+    return row && JSON.parse(row.plan);
+  }
+
+  private read(id: string): SplitPlan | undefined {
+    const row = this.db
+      .prepare('SELECT plan FROM split_plans WHERE id = ?')
+      .get(id) as SplitPlanRow | undefined;
+    return row && JSON.parse(row.plan);
+  }
+
+  private write(plan: SplitPlan) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO split_plans
+          (id, status, plan, created_at, updated_at)
+         VALUES (@id, @status, @plan, @created_at, @updated_at)`,
+      )
+      .run({
+        id: plan.id,
+        status: plan.status,
+        plan: JSON.stringify(plan),
+        created_at: plan.createdAt,
+        updated_at: plan.updatedAt,
+      });
+
+    const upsertLeg = this.db.prepare(
+      `INSERT OR REPLACE INTO split_plan_legs (intent_id, plan_id)
+       VALUES (?, ?)`,
+    );
+    plan.legs
+      .filter((leg) => leg.intentId !== undefined)
+      .forEach((leg) => upsertLeg.run(leg.intentId, plan.id));
+  }
+}
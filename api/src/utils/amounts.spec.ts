@@ -0,0 +1,199 @@
+import {
+  AmountError,
+  addAmounts,
+  applyBps,
+  applySlippage,
+  compareAmounts,
+  formatAmount,
+  formatUnits,
+  isWithinBps,
+  minAmount,
+  parseUnits,
+  subAmounts,
+  toBaseUnits,
+  tokenDecimals,
+} from './amounts';
+
+describe('amounts', () => {
+  // 2^53 + 1: the first integer a float can't hold
+  const UNSAFE = '9007199254740993';
+
+  describe('parseUnits', () => {
+    it('scales decimals to base units', () => {
+      expect(parseUnits('1.5', 6)).toBe(1500000n);
+      expect(parseUnits('10', 6)).toBe(10000000n);
+      expect(parseUnits('.25', 2)).toBe(25n);
+      expect(parseUnits('7.', 0)).toBe(7n);
+      expect(parseUnits('0.000001', 6)).toBe(1n);
+      expect(parseUnits('-2.5', 6)).toBe(-2500000n);
+      expect(parseUnits(' 3 ', 6)).toBe(3000000n);
+    });
+
+    it('keeps 18-decimal values exact far beyond 2^53', () => {
+      expect(parseUnits('123456789.123456789123456789', 18)).toBe(
+        123456789123456789123456789n,
+      );
+      expect(parseUnits('1000000000000', 18)).toBe(10n ** 30n);
+    });
+
+    it('accepts numbers, including ones printed with an exponent', () => {
+      expect(parseUnits(0.1, 18)).toBe(100000000000000000n);
+      expect(parseUnits(1e-7, 18)).toBe(100000000000n);
+      expect(parseUnits(42, 6)).toBe(42000000n);
+    });
+
+    it('ignores trailing zeros but refuses to round away real digits', () => {
+      expect(parseUnits('1.500000000', 6)).toBe(1500000n);
+      expect(() => parseUnits('1.0000001', 6)).toThrow(AmountError);
+      expect(() => parseUnits('0.5', 0)).toThrow(/more than 0 decimal places/);
+    });
+
+    it('rejects anything that is not a plain decimal', () => {
+      for (const value of ['', '.', 'abc', '1.2.3', '1e18', '0x10', '1,000']) {
+        expect(() => parseUnits(value, 6)).toThrow(AmountError);
+      }
+      expect(() => parseUnits(NaN, 6)).toThrow(AmountError);
+      expect(() => parseUnits(Infinity, 6)).toThrow(AmountError);
+    });
+
+    it('rejects invalid decimals', () => {
+      expect(() => parseUnits('1', -1)).toThrow(/Invalid token decimals/);
+      expect(() => parseUnits('1', 1.5)).toThrow(/Invalid token decimals/);
+    });
+  });
+
+  describe('formatUnits', () => {
+    it('formats base units and drops trailing zeros', () => {
+      expect(formatUnits(1500000n, 6)).toBe('1.5');
+      expect(formatUnits('10000000', 6)).toBe('10');
+      expect(formatUnits(1, 6)).toBe('0.000001');
+      expect(formatUnits(0, 18)).toBe('0');
+      expect(formatUnits(42, 0)).toBe('42');
+    });
+
+    it('formats negatives', () => {
+      expect(formatUnits(-1500000n, 6)).toBe('-1.5');
+      expect(formatUnits(-1n, 6)).toBe('-0.000001');
+    });
+
+    it('keeps every digit of large 18-decimal values', () => {
+      expect(formatUnits(123456789123456789123456789n, 18)).toBe(
+        '123456789.123456789123456789',
+      );
+      expect(formatUnits(UNSAFE, 0)).toBe(UNSAFE);
+    });
+
+    it('cuts the fraction toward zero with maxFractionDigits', () => {
+      expect(formatUnits(1999999n, 6, { maxFractionDigits: 2 })).toBe('1.99');
+      expect(formatUnits(1000001n, 6, { maxFractionDigits: 2 })).toBe('1');
+      expect(formatUnits(-1n, 6, { maxFractionDigits: 2 })).toBe('0');
+    });
+
+    it('round-trips with parseUnits', () => {
+      for (const [value, decimals] of [
+        ['0.000000000000000001', 18],
+        ['340282366920938463463.374607431768211455', 18],
+        ['-12.34', 6],
+        ['1', 0],
+      ] as const) {
+        expect(formatUnits(parseUnits(value, decimals), decimals)).toBe(value);
+      }
+    });
+
+    it('adds the symbol with formatAmount', () => {
+      expect(formatAmount('10002500', 6, 'USDC')).toBe('10.0025 USDC');
+      expect(formatAmount('10002500', 6)).toBe('10.0025');
+    });
+  });
+
+  describe('toBaseUnits', () => {
+    it('accepts integer strings, safe numbers and bigints', () => {
+      expect(toBaseUnits(UNSAFE)).toBe(9007199254740993n);
+      expect(toBaseUnits('2500.00')).toBe(2500n);
+      expect(toBaseUnits('-7')).toBe(-7n);
+      expect(toBaseUnits(12)).toBe(12n);
+      expect(toBaseUnits(5n)).toBe(5n);
+    });
+
+    it('rejects fractions, unsafe numbers and junk', () => {
+      expect(() => toBaseUnits('2500.5')).toThrow(AmountError);
+      expect(() => toBaseUnits(1.5)).toThrow(AmountError);
+      expect(() => toBaseUnits(2 ** 53 + 2)).toThrow(/safe integer/);
+      expect(() => toBaseUnits('')).toThrow(AmountError);
+      expect(() => toBaseUnits('1e6')).toThrow(AmountError);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('adds and subtracts without losing precision', () => {
+      expect(addAmounts(UNSAFE, '1', 1n)).toBe(9007199254740995n);
+      expect(addAmounts()).toBe(0n);
+      expect(subAmounts('100', UNSAFE)).toBe(-9007199254740893n);
+    });
+
+    it('compares like a sort comparator', () => {
+      expect(compareAmounts(UNSAFE, '9007199254740992')).toBe(1);
+      expect(compareAmounts('9007199254740992', UNSAFE)).toBe(-1);
+      expect(compareAmounts('2500', 2500n)).toBe(0);
+      expect(['30', '4', UNSAFE, '-1'].sort(compareAmounts)).toEqual([
+        '-1',
+        '4',
+        '30',
+        UNSAFE,
+      ]);
+    });
+
+    it('finds the smallest amount', () => {
+      expect(minAmount('30', '4', UNSAFE)).toBe(4n);
+      expect(() => minAmount()).toThrow(AmountError);
+    });
+  });
+
+  describe('slippage', () => {
+    it('rounds bps bounds against the user of the result', () => {
+      expect(applyBps(1000n, 50, 'down')).toBe(995n);
+      expect(applyBps(1000n, 50, 'up')).toBe(1005n);
+      expect(applyBps(999n, 50, 'down')).toBe(994n); // 994.005
+      expect(applyBps(999n, 50, 'up')).toBe(1004n); // 1003.995
+      expect(applyBps(1000n, 0, 'up')).toBe(1000n);
+      expect(applyBps(1000n, 10000, 'down')).toBe(0n);
+    });
+
+    it('rounds negative amounts toward the same infinity', () => {
+      expect(applyBps(-999n, 50, 'down')).toBe(-995n); // -994.005
+      expect(applyBps(-999n, 50, 'up')).toBe(-1003n); // -1003.995
+    });
+
+    it('applies percentages with up to 6 decimals', () => {
+      expect(applySlippage(1000000n, 0.5, 'down')).toBe(995000n);
+      expect(applySlippage(1000000n, '0.5', 'up')).toBe(1005000n);
+      expect(applySlippage(1000000n, '0.000001', 'down')).toBe(999999n);
+      expect(applySlippage(10n ** 30n, 1, 'down')).toBe(99n * 10n ** 28n);
+      expect(applySlippage(100n, 150, 'up')).toBe(250n);
+    });
+
+    it('refuses negative slippage and more than 100% down', () => {
+      expect(() => applyBps(1000n, -1, 'up')).toThrow(/must not be negative/);
+      expect(() => applySlippage(1000n, '-0.5', 'up')).toThrow(AmountError);
+      expect(() => applyBps(1000n, 10001, 'down')).toThrow(/more than 100%/);
+      expect(() => applySlippage(1000n, '0.0000001', 'down')).toThrow(
+        /more than 6 decimal places/,
+      );
+    });
+
+    it('checks a fee against a tolerance', () => {
+      expect(isWithinBps('1005', '1000', 50)).toBe(true);
+      expect(isWithinBps('1006', '1000', 50)).toBe(false);
+      expect(isWithinBps('900', '1000', 0)).toBe(true);
+      expect(isWithinBps(`${UNSAFE}0`, `${UNSAFE}0`, 0)).toBe(true);
+      expect(isWithinBps(`${UNSAFE}1`, `${UNSAFE}0`, 0)).toBe(false);
+    });
+  });
+
+  it('knows the decimals of common tokens regardless of case', () => {
+    expect(tokenDecimals('USDC')).toBe(6);
+    expect(tokenDecimals('weth')).toBe(18);
+    expect(tokenDecimals('UNKNOWN')).toBeUndefined();
+    expect(tokenDecimals(undefined)).toBeUndefined();
+  });
+});
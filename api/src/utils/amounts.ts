@@ -0,0 +1,271 @@
+/**
+ * Exact token amount arithmetic.
+ *
+ * Token amounts are integers in the token's smallest unit (1 USDC =
+ * 1000000 units, 1 ETH = 10^18 wei). They don't fit in a float - 10^18 is
+ * already past Number.MAX_SAFE_INTEGER - and float math rounds silently
+ * (0.1 + 0.2 !== 0.3). So amounts are bigints here, and human-readable
+ * decimals only exist as strings at the edges (parseUnits / formatUnits).
+ */
+
+export class AmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmountError';
+  }
+}
+
+export type AmountLike = bigint | string | number;
+
+/**
+ * Decimals of well-known tokens, for when a response doesn't say.
+ * Prefer the decimals Chainrails reports (Token.decimals,
+ * intent.asset_token_decimals) when you have them.
+ */
+export const KNOWN_TOKEN_DECIMALS: Readonly<Record<string, number>> = {
+  USDC: 6,
+  USDT: 6,
+  EURC: 6,
+  DAI: 18,
+  ETH: 18,
+  WETH: 18,
+  STRK: 18,
+};
+
+const INTEGER = /^[-+]?\d+$/;
+const DECIMAL = /^([-+]?)(\d*)(?:\.(\d*))?$/;
+const BPS_PER_WHOLE = 10000n;
+const PERCENT_DECIMALS = 6;
+
+/**
+ * Decimals of a token by symbol (case-insensitive), or undefined if unknown
+ */
+export function tokenDecimals(symbol: string | undefined): number | undefined {
+  return symbol ? KNOWN_TOKEN_DECIMALS[symbol.toUpperCase()] : undefined;
+}
+
+/**
+ * A base-unit amount as a bigint.
+ *
+ * Accepts bigints, safe integers and integer strings. A decimal string is
+ * only accepted when its fraction is all zeros ("2500.0"), since anything
+ * else isn't a whole number of base units.
+ */
+export function toBaseUnits(value: AmountLike): bigint {
+  if (typeof value === 'bigint') return value;
+
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new AmountError(
+        `${value} is not a safe integer amount. Pass it as a string.`,
+      );
+    }
+    return BigInt(value);
+  }
+
+  const trimmed = String(value ?? '').trim();
+  if (INTEGER.test(trimmed)) return BigInt(trimmed);
+
+  const match = DECIMAL.exec(trimmed);
+  if (match && match[2] && /^0*$/.test(match[3] ?? '')) {
+    return BigInt(`${match[1]}${match[2]}`);
+  }
+  throw new AmountError(`"${value}" is not a whole number of base units`);
+}
+
+/**
+ * Convert a human-readable amount to base units: parseUnits("1.5", 6) = 1500000n
+ *
+ * Throws if the value has more fractional digits than the token has decimals,
+ * rather than silently rounding someone's money away.
+ */
+export function parseUnits(value: string | number, decimals: number): bigint {
+  assertDecimals(decimals);
+
+  const text =
+    typeof value === 'number'
+      ? numberToDecimalString(value)
+      : String(value ?? '').trim();
+  const match = DECIMAL.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new AmountError(`"${value}" is not a decimal amount`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const significantFraction = fraction.replace(/0+$/, '');
+  if (significantFraction.length > decimals) {
+    throw new AmountError(
+      `"${value}" has more than ${decimals} decimal places`,
+    );
+  }
+
+  const units = BigInt(
+    `${whole || '0'}${significantFraction.padEnd(decimals, '0')}`,
+  );
+  return sign === '-' ? -units : units;
+}
+
+/**
+ * Convert base units to a human-readable amount: formatUnits(1500000n, 6) = "1.5"
+ *
+ * Trailing zeros are dropped. With maxFractionDigits the fraction is cut
+ * (rounded toward zero) for display.
+ */
+export function formatUnits(
+  value: AmountLike,
+  decimals: number,
+  options: { maxFractionDigits?: number } = {},
+): string {
+  assertDecimals(decimals);
+
+  const units = toBaseUnits(value);
+  const negative = units < 0n;
+  const digits = (negative ? -units : units)
+    .toString()
+    .padStart(decimals + 1, '0');
+
+  const whole = digits.slice(0, digits.length - decimals);
+  let fraction = digits.slice(digits.length - decimals);
+  if (options.maxFractionDigits !== undefined) {
+    fraction = fraction.slice(0, options.maxFractionDigits);
+  }
+  fraction = fraction.replace(/0+$/, '');
+
+  const formatted = fraction ? `${whole}.${fraction}` : whole;
+  return negative && /[1-9]/.test(formatted) ? `-${formatted}` : formatted;
+}
+
+/**
+ * formatUnits plus the symbol: "10.0025 USDC"
+ */
+export function formatAmount(
+  value: AmountLike,
+  decimals: number,
+  symbol?: string,
+): string {
+  const formatted = formatUnits(value, decimals);
+  return symbol ? `${formatted} ${symbol}` : formatted;
+}
+
+export function addAmounts(...values: AmountLike[]): bigint {
+  return values.reduce<bigint>((sum, value) => sum + toBaseUnits(value), 0n);
+}
+
+export function subAmounts(a: AmountLike, b: AmountLike): bigint {
+  return toBaseUnits(a) - toBaseUnits(b);
+}
+
+/**
+ * -1, 0 or 1, like a sort comparator
+ */
+export function compareAmounts(a: AmountLike, b: AmountLike): -1 | 0 | 1 {
+  const left = toBaseUnits(a);
+  const right = toBaseUnits(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+export function minAmount(...values: AmountLike[]): bigint {
+  if (values.length === 0) throw new AmountError('No amounts to compare');
+  return values
+    .map(toBaseUnits)
+    .reduce((min, value) => (value < min ? value : min));
+}
+
+/**
+ * Move an amount by a number of basis points (1 bps = 0.01%).
+ *
+ * - 'down' gives the least you should accept, rounded down
+ * - 'up' gives the most you should pay, rounded up
+ *
+ * Rounding always goes against the user of the result, so a slippage
+ * bound is never looser than asked for.
+ */
+export function applyBps(
+  value: AmountLike,
+  bps: number | bigint,
+  direction: 'up' | 'down',
+): bigint {
+  const basisPoints = BigInt(bps);
+  if (basisPoints < 0n) {
+    throw new AmountError(`Basis points must not be negative, got ${bps}`);
+  }
+  return scale(
+    toBaseUnits(value),
+    direction === 'up'
+      ? BPS_PER_WHOLE + basisPoints
+      : BPS_PER_WHOLE - basisPoints,
+    BPS_PER_WHOLE,
+    direction,
+  );
+}
+
+/**
+ * Move an amount by a percentage, e.g. applySlippage(1000000n, 0.5, 'down')
+ * = 995000n. Percentages may have up to 6 decimal places.
+ */
+export function applySlippage(
+  value: AmountLike,
+  percent: number | string,
+  direction: 'up' | 'down',
+): bigint {
+  const scaledPercent = parseUnits(percent, PERCENT_DECIMALS);
+  if (scaledPercent < 0n) {
+    throw new AmountError(`Slippage must not be negative, got ${percent}`);
+  }
+
+  const whole = 100n * 10n ** BigInt(PERCENT_DECIMALS);
+  return scale(
+    toBaseUnits(value),
+    direction === 'up' ? whole + scaledPercent : whole - scaledPercent,
+    whole,
+    direction,
+  );
+}
+
+/**
+ * Whether `actual` is at most `bps` basis points above `reference`
+ */
+export function isWithinBps(
+  actual: AmountLike,
+  reference: AmountLike,
+  bps: number | bigint,
+): boolean {
+  return (
+    toBaseUnits(actual) * BPS_PER_WHOLE <=
+    toBaseUnits(reference) * (BPS_PER_WHOLE + BigInt(bps))
+  );
+}
+
+function scale(
+  value: bigint,
+  numerator: bigint,
+  denominator: bigint,
+  rounding: 'up' | 'down',
+): bigint {
+  if (numerator < 0n) {
+    throw new AmountError('Cannot move an amount down by more than 100%');
+  }
+  const product = value * numerator;
+  const quotient = product / denominator;
+  // bigint division truncates toward zero: nudge it the way we were asked
+  if (product % denominator === 0n) return quotient;
+  if (rounding === 'up' && product > 0n) return quotient + 1n;
+  if (rounding === 'down' && product < 0n) return quotient - 1n;
+  return quotient;
+}
+
+function assertDecimals(decimals: number) {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new AmountError(`Invalid token decimals: ${decimals}`);
+  }
+}
+
+// String(1e-7) is "1e-7", so small numbers are expanded without the exponent
+function numberToDecimalString(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new AmountError(`${value} is not a decimal amount`);
+  }
+  const text = String(value);
+  if (!/e/i.test(text)) return text;
+  return value.toFixed(20).replace(/\.?0+$/, '');
+}
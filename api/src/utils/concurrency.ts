@@ -0,0 +1,26 @@
+/**
+ * Bounded concurrency for fan-out calls to Chainrails.
+ *
+ * Promise.all over hundreds of items fires hundreds of requests at once
+ * and trips rate limits. mapWithConcurrency keeps at most `limit` of them
+ * in flight, and still returns results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,81 @@
+import {
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventQuery,
+} from './webhook-event.model';
+import { WebhookEventStore } from './webhook-event.store';
+
+/**
+ * Keeps webhook events in a Map. Nothing survives a restart and nothing is
+ * shared between processes - use it for tests and local experiments only.
+ */
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  private readonly events = new Map<string, WebhookEvent>();
+  // Insertion order is first-delivery order, so expired records come first
+  private readonly deliveries = new Map<string, WebhookDelivery>();
+
+  async save(event: WebhookEvent): Promise<void> {
+    this.events.set(event.id, { ...event });
+  }
+
+  async findByIntentAddress(intentAddress: string): Promise<WebhookEvent[]> {
+    return this.find({ intentAddress });
+  }
+
+  async findByIntentId(intentId: number): Promise<WebhookEvent[]> {
+    return this.find({ intentId });
+  }
+
+  async find(query: WebhookEventQuery): Promise<WebhookEvent[]> {
+    const matches = [...this.events.values()]
+      .filter(
+        (event) =>
+          (query.intentAddress === undefined ||
+            sameAddress(event.intentAddress, query.intentAddress)) &&
+          (query.intentId === undefined || event.intentId === query.intentId) &&
+          (query.type === undefined || event.type === query.type) &&
+          (query.from === undefined || event.createdAt >= query.from) &&
+          (query.to === undefined || event.createdAt <= query.to),
+      )
+      .sort(
+        (a, b) =>
+          a.createdAt.localeCompare(b.createdAt) ||
+          a.receivedAt.localeCompare(b.receivedAt),
+      );
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  async recordDelivery(
+    eventId: string,
+    deliveredAt: string,
+    forgetBefore: string,
+  ): Promise<WebhookDelivery> {
+    for (const [id, delivery] of this.deliveries) {
+      if (delivery.firstDeliveredAt >= forgetBefore) break;
+      this.deliveries.delete(id);
+    }
+
+    const previous = this.deliveries.get(eventId);
+    const delivery: WebhookDelivery = previous
+      ? {
+          ...previous,
+          attempts: previous.attempts + 1,
+          lastDeliveredAt: deliveredAt,
+        }
+      : {
+          eventId,
+          attempts: 1,
+          firstDeliveredAt: deliveredAt,
+          lastDeliveredAt: deliveredAt,
+        };
+
+    this.deliveries.set(eventId, delivery);
+    return { ...delivery };
+  }
+}
+
+// Addresses are hex, so compare them case-insensitively (checksummed vs lowercase)
+function sameAddress(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,173 @@
+import type { Database } from 'better-sqlite3';
+import {
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventQuery,
+} from './webhook-event.model';
+import { WebhookEventStore } from './webhook-event.store';
+
+interface WebhookEventRow {
+  id: string;
+  type: string;
+  intent_address: string | null;
+  intent_id: number | null;
+  created_at: string;
+  received_at: string;
+  data: string;
+}
+
+interface WebhookDeliveryRow {
+  event_id: string;
+  attempts: number;
+  first_delivered_at: string;
+  last_delivered_at: string;
+}
+
+/**
+ * Keeps webhook events in a SQLite table.
+ *
+ * Intent addresses are matched case-insensitively so lookups don't depend on
+ * how the address was checksummed. The raw event data is kept as JSON.
+ */
+export class SqliteWebhookEventStore implements WebhookEventStore {
+  constructor(private readonly db: Database) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        intent_address TEXT,
+        intent_id INTEGER,
+        created_at TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS webhook_events_intent_address
+        ON webhook_events (lower(intent_address), created_at);
+      CREATE INDEX IF NOT EXISTS webhook_events_intent_id
+        ON webhook_events (intent_id, created_at);
+      CREATE INDEX IF NOT EXISTS webhook_events_type
+        ON webhook_events (type, created_at);
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        event_id TEXT PRIMARY KEY,
+        attempts INTEGER NOT NULL,
+        first_delivered_at TEXT NOT NULL,
+        last_delivered_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_first_delivered_at
+        ON webhook_deliveries (first_delivered_at);
+    `);
+  }
+
+  async save(event: WebhookEvent): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO webhook_events
+          (id, type, intent_address, intent_id, created_at, received_at, data)
+         VALUES
+          (@id, @type, @intent_address, @intent_id, @created_at, @received_at, @data)`,
+      )
+      .run({
+        id: event.id,
+        type: event.type,
+        intent_address: event.intentAddress ?? null,
+        intent_id: event.intentId ?? null,
+        created_at: event.createdAt,
+        received_at: event.receivedAt,
+        data: JSON.stringify(event.data ?? {}),
+      });
+  }
+
+  async findByIntentAddress(intentAddress: string): Promise<WebhookEvent[]> {
+    return this.find({ intentAddress });
+  }
+
+  async findByIntentId(intentId: number): Promise<WebhookEvent[]> {
+    return this.find({ intentId });
+  }
+
+  async find(query: WebhookEventQuery): Promise<WebhookEvent[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.intentAddress !== undefined) {
+      conditions.push('lower(intent_address) = @intentAddress');
+      params.intentAddress = query.intentAddress.toLowerCase();
+    }
+    if (query.intentId !== undefined) {
+      conditions.push('intent_id = @intentId');
+      params.intentId = query.intentId;
+    }
+    if (query.type !== undefined) {
+      conditions.push('type = @type');
+      params.type = query.type;
+    }
+    if (query.from !== undefined) {
+      conditions.push('created_at >= @from');
+      params.from = query.from;
+    }
+    if (query.to !== undefined) {
+      conditions.push('created_at <= @to');
+      params.to = query.to;
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit ? `LIMIT ${Math.floor(query.limit)}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM webhook_events ${where}
+         ORDER BY created_at, received_at ${limit}`,
+      )
+      .all(params) as WebhookEventRow[];
+
+    return rows.map(toEvent);
+  }
+
+  async recordDelivery(
+    eventId: string,
+    deliveredAt: string,
+    forgetBefore: string,
+  ): Promise<WebhookDelivery> {
+    // One transaction, so concurrent processes sharing the file can't both
+    // see attempts = 1 for the same event
+    const record = this.db.transaction(() => {
+      this.db
+        .prepare(
+          'DELETE FROM webhook_deliveries WHERE first_delivered_at < @forgetBefore',
+        )
+        .run({ forgetBefore });
+
+      return this.db
+        .prepare(
+          `INSERT INTO webhook_deliveries
+            (event_id, attempts, first_delivered_at, last_delivered_at)
+           VALUES (@eventId, 1, @deliveredAt, @deliveredAt)
+           ON CONFLICT (event_id) DO UPDATE SET
+             attempts = attempts + 1,
+             last_delivered_at = excluded.last_delivered_at
+           RETURNING *`,
+        )
+        .get({ eventId, deliveredAt }) as WebhookDeliveryRow;
+    });
+
+    const row = record.immediate();
+    return {
+      eventId: row.event_id,
+      attempts: row.attempts,
+      firstDeliveredAt: row.first_delivered_at,
+      lastDeliveredAt: row.last_delivered_at,
+    };
+  }
+}
+
+function toEvent(row: WebhookEventRow): WebhookEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    intentAddress: row.intent_address ?? undefined,
+    intentId: row.intent_id ?? undefined,
+    createdAt: row.created_at,
+    receivedAt: row.received_at,
+    data: JSON.parse(row.data),
+  };
+}
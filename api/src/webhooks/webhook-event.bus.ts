@@ -0,0 +1,25 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { WebhookEvent } from './webhook-event.model';
+
+/**
+ * In-process feed of newly received webhook events.
+ *
+ * The event store is where events are kept; the bus only tells whoever is
+ * listening right now (e.g. open status streams) that one just arrived.
+ * It is not shared between processes.
+ */
+@Injectable()
+export class WebhookEventBus implements OnModuleDestroy {
+  private readonly subject = new Subject<WebhookEvent>();
+
+  readonly events$: Observable<WebhookEvent> = this.subject.asObservable();
+
+  publish(event: WebhookEvent) {
+    this.subject.next(event);
+  }
+
+  onModuleDestroy() {
+    this.subject.complete();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * A Chainrails webhook event as it is kept by this app.
+ *
+ * Chainrails sends { id, type, created_at, data }. The intent address and id
+ * are lifted out of `data` so events can be looked up by either one: later
+ * events for an intent don't always repeat both.
+ */
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  intentAddress?: string;
+  intentId?: number;
+  createdAt: string;
+  receivedAt: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Filters for WebhookEventStore.find(). All given filters must match.
+ * `from` and `to` bound `createdAt` (inclusive), as ISO-8601 strings.
+ */
+export interface WebhookEventQuery {
+  intentAddress?: string;
+  intentId?: number;
+  type?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * How often one webhook event has been delivered to us.
+ * Chainrails retries deliveries that weren't acknowledged, so the same event
+ * id can arrive several times.
+ */
+export interface WebhookDelivery {
+  eventId: string;
+  attempts: number;
+  firstDeliveredAt: string;
+  lastDeliveredAt: string;
+}
+
+/**
+ * Build a WebhookEvent from a raw webhook payload
+ */
+export function toWebhookEvent(
+  payload: any,
+  receivedAt: Date = new Date(),
+): WebhookEvent {
+  const data = payload?.data ?? {};
+  const intentId = Number(data.intent_id ?? data.id);
+
+  return {
+    id: String(payload.id),
+    type: String(payload.type),
+    intentAddress: data.intent_address || undefined,
+    intentId: Number.isInteger(intentId) ? intentId : undefined,
+    createdAt: payload.created_at
+      ? new Date(payload.created_at).toISOString()
+      : receivedAt.toISOString(),
+    receivedAt: receivedAt.toISOString(),
+    data,
+  };
+}
@@ -0,0 +1,156 @@
+import * as Database from 'better-sqlite3';
+import { InMemoryWebhookEventStore } from './in-memory-webhook-event.store';
+import { SqliteWebhookEventStore } from './sqlite-webhook-event.store';
+import { toWebhookEvent } from './webhook-event.model';
+import { WebhookEventStore } from './webhook-event.store';
+
+const INTENT_ADDRESS = '0xAbC0000000000000000000000000000000000001';
+
+function event(id: string, type: string, createdAt: string, data: object) {
+  return toWebhookEvent(
+    { id, type, created_at: createdAt, data },
+    new Date('2025-12-05T15:00:00Z'),
+  );
+}
+
+const stores: Array<[string, () => WebhookEventStore]> = [
+  ['InMemoryWebhookEventStore', () => new InMemoryWebhookEventStore()],
+  [
+    'SqliteWebhookEventStore',
+    () => new SqliteWebhookEventStore(new Database(':memory:')),
+  ],
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  let store: WebhookEventStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    // Saved out of order on purpose: results must come back by createdAt
+    await store.save(
+      event('evt_3', 'intent.completed', '2025-12-05T14:40:00Z', {
+        intent_id: 1,
+        status: 'COMPLETED',
+      }),
+    );
+    await store.save(
+      event('evt_1', 'intent.funded', '2025-12-05T14:30:00Z', {
+        intent_id: 1,
+        intent_address: INTENT_ADDRESS,
+        status: 'FUNDED',
+      }),
+    );
+    await store.save(
+      event('evt_2', 'intent.initiated', '2025-12-05T14:35:00Z', {
+        intent_id: 1,
+        intent_address: INTENT_ADDRESS,
+        status: 'INITIATED',
+      }),
+    );
+    await store.save(
+      event('evt_4', 'intent.funded', '2025-12-05T14:45:00Z', {
+        intent_id: 2,
+        intent_address: '0x0000000000000000000000000000000000000002',
+      }),
+    );
+  });
+
+  it('finds events by intent address, ignoring address case', async () => {
+    const events = await store.findByIntentAddress(
+      INTENT_ADDRESS.toLowerCase(),
+    );
+    expect(events.map((e) => e.id)).toEqual(['evt_1', 'evt_2']);
+    expect(events[0]).toEqual({
+      id: 'evt_1',
+      type: 'intent.funded',
+      intentAddress: INTENT_ADDRESS,
+      intentId: 1,
+      createdAt: '2025-12-05T14:30:00.000Z',
+      receivedAt: '2025-12-05T15:00:00.000Z',
+      data: { intent_id: 1, intent_address: INTENT_ADDRESS, status: 'FUNDED' },
+    });
+  });
+
+  it('finds events by intent id, including ones without an address', async () => {
+    const events = await store.findByIntentId(1);
+    expect(events.map((e) => e.id)).toEqual(['evt_1', 'evt_2', 'evt_3']);
+  });
+
+  it('filters by type and time range', async () => {
+    expect(
+      (await store.find({ type: 'intent.funded' })).map((e) => e.id),
+    ).toEqual(['evt_1', 'evt_4']);
+    expect(
+      (
+        await store.find({
+          from: '2025-12-05T14:35:00.000Z',
+          to: '2025-12-05T14:40:00.000Z',
+        })
+      ).map((e) => e.id),
+    ).toEqual(['evt_2', 'evt_3']);
+    expect(
+      (await store.find({ intentId: 1, limit: 1 })).map((e) => e.id),
+    ).toEqual(['evt_1']);
+  });
+
+  it('replaces an event saved twice with the same id', async () => {
+    await store.save(
+      event('evt_1', 'intent.funded', '2025-12-05T14:30:00Z', {
+        intent_id: 1,
+        intent_address: INTENT_ADDRESS,
+        status: 'FUNDED',
+        tx_hash: '0xabc',
+      }),
+    );
+
+    const events = await store.findByIntentAddress(INTENT_ADDRESS);
+    expect(events).toHaveLength(2);
+    expect(events[0].data.tx_hash).toBe('0xabc');
+  });
+
+  it('counts deliveries per event id within the retention window', async () => {
+    const forgetBefore = '2025-12-05T00:00:00.000Z';
+
+    const first = await store.recordDelivery(
+      'evt_9',
+      '2025-12-05T14:30:00.000Z',
+      forgetBefore,
+    );
+    const retry = await store.recordDelivery(
+      'evt_9',
+      '2025-12-05T14:30:10.000Z',
+      forgetBefore,
+    );
+    const other = await store.recordDelivery(
+      'evt_10',
+      '2025-12-05T14:31:00.000Z',
+      forgetBefore,
+    );
+
+    expect(first.attempts).toBe(1);
+    expect(retry).toEqual({
+      eventId: 'evt_9',
+      attempts: 2,
+      firstDeliveredAt: '2025-12-05T14:30:00.000Z',
+      lastDeliveredAt: '2025-12-05T14:30:10.000Z',
+    });
+    expect(other.attempts).toBe(1);
+  });
+
+  it('forgets deliveries older than the retention window', async () => {
+    await store.recordDelivery(
+      'evt_9',
+      '2025-12-05T14:30:00.000Z',
+      '2025-12-05T00:00:00.000Z',
+    );
+
+    const later = await store.recordDelivery(
+      'evt_9',
+      '2025-12-09T14:30:00.000Z',
+      '2025-12-06T14:30:00.000Z',
+    );
+
+    expect(later.attempts).toBe(1);
+    expect(later.firstDeliveredAt).toBe('2025-12-09T14:30:00.000Z');
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventQuery,
+} from './webhook-event.model';
+
+/**
+ * Injection token for the configured WebhookEventStore
+ *
+ * Usage:
+ *   constructor(@Inject(WEBHOOK_EVENT_STORE) private events: WebhookEventStore) {}
+ */
+export const WEBHOOK_EVENT_STORE = Symbol('WEBHOOK_EVENT_STORE');
+
+/**
+ * Where received webhook events are kept.
+ *
+ * Implementations:
+ * - SqliteWebhookEventStore: persisted, shared by every process using the same file
+ * - InMemoryWebhookEventStore: lost on restart, handy for tests and quick demos
+ *
+ * Results are always ordered by createdAt, oldest first.
+ */
+export interface WebhookEventStore {
+  /**
+   * Save an event. Saving an id that is already stored replaces it.
+   */
+  save(event: WebhookEvent): Promise<void>;
+
+  findByIntentAddress(intentAddress: string): Promise<WebhookEvent[]>;
+
+  findByIntentId(intentId: number): Promise<WebhookEvent[]>;
+
+  find(query: WebhookEventQuery): Promise<WebhookEvent[]>;
+
+  /**
+   * Count one delivery of an event and return its delivery record.
+   *
+   * Records first delivered before `forgetBefore` are dropped, so an id seen
+   * again after the retention window starts a fresh record (attempts = 1).
+   */
+  recordDelivery(
+    eventId: string,
+    deliveredAt: string,
+    forgetBefore: string,
+  ): Promise<WebhookDelivery>;
+}
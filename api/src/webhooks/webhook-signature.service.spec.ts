@@ -0,0 +1,117 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  WebhookSignatureService,
+  signPayload,
+} from './webhook-signature.service';
+
+describe('WebhookSignatureService', () => {
+  const now = Date.parse('2025-12-05T14:35:00Z');
+  const timestamp = String(Math.floor(now / 1000));
+  // Key order and whitespace as sent - not what JSON.stringify would produce
+  const rawBody = Buffer.from(
+    '{"type": "intent.funded",  "id": "evt_1", "data": {"intent_id": 1}}',
+  );
+
+  function createService(config: Record<string, string> = {}) {
+    return new WebhookSignatureService(new ConfigService(config));
+  }
+
+  it('accepts a signature over the exact raw body', () => {
+    const service = createService({ CHAINRAILS_WEBHOOK_SECRET: 'whsec_1' });
+    const signature = signPayload('whsec_1', timestamp, rawBody);
+
+    expect(() =>
+      service.verify(rawBody, signature, timestamp, now),
+    ).not.toThrow();
+    expect(() =>
+      service.verify(
+        Buffer.from(JSON.stringify(JSON.parse(rawBody.toString()))),
+        signature,
+        timestamp,
+        now,
+      ),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('accepts any of several secrets during rotation', () => {
+    const service = createService({
+      CHAINRAILS_WEBHOOK_SECRET: 'whsec_new, whsec_old',
+    });
+
+    for (const secret of ['whsec_new', 'whsec_old']) {
+      expect(() =>
+        service.verify(
+          rawBody,
+          signPayload(secret, timestamp, rawBody),
+          timestamp,
+          now,
+        ),
+      ).not.toThrow();
+    }
+    expect(() =>
+      service.verify(
+        rawBody,
+        signPayload('whsec_retired', timestamp, rawBody),
+        timestamp,
+        now,
+      ),
+    ).toThrow('Invalid webhook signature');
+  });
+
+  it('rejects missing, malformed and stale signatures', () => {
+    const service = createService({ CHAINRAILS_WEBHOOK_SECRET: 'whsec_1' });
+    const signature = signPayload('whsec_1', timestamp, rawBody);
+
+    expect(() => service.verify(rawBody, undefined, timestamp, now)).toThrow(
+      'Missing webhook signature',
+    );
+    expect(() => service.verify(rawBody, 'sha256=abc', timestamp, now)).toThrow(
+      'Invalid webhook signature',
+    );
+    expect(() =>
+      service.verify(rawBody, signature, timestamp, now + 301_000),
+    ).toThrow('Webhook timestamp is too old or invalid');
+  });
+
+  /** A service configured while NODE_ENV (read from process.env) was `env` */
+  function createServiceIn(
+    env: string | undefined,
+    config: Record<string, string> = {},
+  ) {
+    const previous = process.env.NODE_ENV;
+    if (env === undefined) delete process.env.NODE_ENV;
+    else process.env.NODE_ENV = env;
+    try {
+      return createService(config);
+    } finally {
+      process.env.NODE_ENV = previous;
+    }
+  }
+
+  it('only skips verification without a secret outside strict mode', () => {
+    const verifyUnsigned = (service: WebhookSignatureService) => () =>
+      service.verify(rawBody, undefined, undefined, now);
+
+    expect(verifyUnsigned(createServiceIn('development'))).not.toThrow();
+    expect(
+      verifyUnsigned(
+        createServiceIn('staging', { CHAINRAILS_WEBHOOK_STRICT: 'false' }),
+      ),
+    ).not.toThrow();
+    expect(
+      verifyUnsigned(
+        createServiceIn('development', { CHAINRAILS_WEBHOOK_STRICT: 'true' }),
+      ),
+    ).toThrow('Webhook signing secret is not configured');
+  });
+
+  it.each([undefined, 'production', 'staging', 'test'])(
+    'is strict by default when NODE_ENV=%s',
+    (env) => {
+      expect(() =>
+        createServiceIn(env).verify(rawBody, undefined, undefined, now),
+      ).toThrow('Webhook signing secret is not configured');
+    },
+  );
+});
@@ -0,0 +1,132 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Reject deliveries signed more than 5 minutes ago (or ahead) to limit replays
+const TIMESTAMP_TOLERANCE_SECONDS = 300;
+
+/**
+ * WEBHOOK SIGNATURE SERVICE
+ *
+ * Purpose: Prove a webhook really came from Chainrails and wasn't modified
+ *
+ * Chainrails signs `${timestamp}.${rawBody}` with HMAC-SHA256 and sends
+ * `sha256=<hex>` in X-Chainrails-Signature. Verification must use the exact
+ * bytes that were received: re-serializing the parsed JSON changes key order
+ * and whitespace and breaks the signature.
+ *
+ * Configuration:
+ * - CHAINRAILS_WEBHOOK_SECRET: one secret, or several comma-separated while
+ *   rotating (a signature matching any of them is accepted)
+ * - CHAINRAILS_WEBHOOK_STRICT: reject every webhook when no secret is set.
+ *   Defaults to true unless NODE_ENV=development, so staging, test or a
+ *   forgotten NODE_ENV never accept unverified webhooks. Set it to false to
+ *   accept them without a secret (local development only!)
+ */
+@Injectable()
+export class WebhookSignatureService {
+  private readonly logger = new Logger(WebhookSignatureService.name);
+  private readonly secrets: string[];
+  private readonly strict: boolean;
+
+  constructor(private configService: ConfigService) {
+    this.secrets = (
+      this.configService.get<string>('CHAINRAILS_WEBHOOK_SECRET') || ''
+    )
+      .split(',')
+      .map((secret) => secret.trim())
+      .filter(Boolean);
+
+    const strict = this.configService.get<string>('CHAINRAILS_WEBHOOK_STRICT');
+    this.strict =
+      strict === undefined || strict === ''
+        ? this.configService.get<string>('NODE_ENV') !== 'development'
+        : String(strict).toLowerCase() === 'true';
+
+    if (!this.secrets.length && this.strict) {
+      this.logger.error(
+        '❌ CHAINRAILS_WEBHOOK_SECRET is not set and strict mode is on: all webhooks will be rejected.',
+      );
+    }
+  }
+
+  /**
+   * Throws UnauthorizedException unless the delivery is correctly signed.
+   *
+   * @param rawBody - the request body exactly as received
+   * @param signature - X-Chainrails-Signature header
+   * @param timestamp - X-Chainrails-Timestamp header (unix seconds)
+   */
+  verify(
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+    timestamp: string | undefined,
+    now: number = Date.now(),
+  ): void {
+    if (!this.secrets.length) {
+      if (this.strict) {
+        throw new UnauthorizedException(
+          'Webhook signing secret is not configured',
+        );
+      }
+      this.logger.warn(
+        'CHAINRAILS_WEBHOOK_SECRET not set. Skipping verification (OK for development, but not recommended).',
+      );
+      return;
+    }
+
+    if (!rawBody) {
+      throw new InternalServerErrorException(
+        'Raw request body is not available. Create the app with { rawBody: true }.',
+      );
+    }
+    if (!signature || !timestamp) {
+      throw new UnauthorizedException('Missing webhook signature');
+    }
+
+    // Check timestamp (prevent replay attacks)
+    const timestampSeconds = Number(timestamp);
+    if (
+      !Number.isInteger(timestampSeconds) ||
+      Math.abs(Math.floor(now / 1000) - timestampSeconds) >
+        TIMESTAMP_TOLERANCE_SECONDS
+    ) {
+      throw new UnauthorizedException(
+        'Webhook timestamp is too old or invalid',
+      );
+    }
+
+    const received = Buffer.from(signature);
+    const matches = this.secrets.some((secret) => {
+      const expected = Buffer.from(signPayload(secret, timestamp, rawBody));
+      // timingSafeEqual needs equal lengths; a length mismatch is a mismatch
+      return (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received)
+      );
+    });
+
+    if (!matches) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+}
+
+/**
+ * Compute the X-Chainrails-Signature value for a payload
+ */
+export function signPayload(
+  secret: string,
+  timestamp: string | number,
+  rawBody: Buffer | string,
+): string {
+  const hmac = createHmac('sha256', secret);
+  hmac.update(`${timestamp}.`);
+  hmac.update(rawBody);
+  return `sha256=${hmac.digest('hex')}`;
+}
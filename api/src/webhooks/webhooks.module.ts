@@ -0,0 +1,52 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { DatabaseService } from '../database/database.service';
+import { InMemoryWebhookEventStore } from './in-memory-webhook-event.store';
+import { SqliteWebhookEventStore } from './sqlite-webhook-event.store';
+import { WEBHOOK_EVENT_STORE, WebhookEventStore } from './webhook-event.store';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { WebhookEventBus } from './webhook-event.bus';
+
+/**
+ * Provides the WebhookEventStore picked by WEBHOOK_EVENT_STORE:
+ * - sqlite (default): persisted in the shared DATABASE_PATH file
+ * - memory: kept in process memory only
+ *
+ * plus WebhookSignatureService for verifying incoming deliveries and
+ * WebhookEventBus for reacting to them as they arrive.
+ */
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  providers: [
+    WebhookSignatureService,
+    WebhookEventBus,
+    {
+      provide: WEBHOOK_EVENT_STORE,
+      inject: [ConfigService, DatabaseService],
+      useFactory: (
+        configService: ConfigService,
+        database: DatabaseService,
+      ): WebhookEventStore => {
+        const kind =
+          configService.get<string>('WEBHOOK_EVENT_STORE') || 'sqlite';
+
+        switch (kind) {
+          case 'memory':
+            new Logger(WebhooksModule.name).warn(
+              'Webhook events are kept in memory and will be lost on restart.',
+            );
+            return new InMemoryWebhookEventStore();
+          case 'sqlite':
+            return new SqliteWebhookEventStore(database.connection);
+          default:
+            throw new Error(
+              `Unknown WEBHOOK_EVENT_STORE "${kind}". Use "sqlite" or "memory".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [WEBHOOK_EVENT_STORE, WebhookSignatureService, WebhookEventBus],
+})
+export class WebhooksModule {}
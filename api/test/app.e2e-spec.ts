@@ -1,24 +1,345 @@
-import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
 import * as request from 'supertest';
-import { AppModule } from '../src/app.module';
+import {
+  WEBHOOK_EVENT_STORE,
+  WebhookEventStore,
+} from '../src/webhooks/webhook-event.store';
+import { createTestApp, setEnv } from './test-app';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication;
+  let restoreEnv: () => void;
 
-  beforeEach(async () => {
-    const moduleFixture: TestingModule = await Test.createTestingModule({
-      imports: [AppModule],
-    }).compile();
+  // Nothing here reaches Chainrails, but the client needs a key to start.
+  // The webhook tests send unsigned deliveries (signatures are covered in
+  // transfer-flow.e2e-spec.ts).
+  beforeAll(() => {
+    restoreEnv = setEnv({
+      CHAINRAILS_API_KEY: 'cr_test_e2e',
+      CHAINRAILS_WEBHOOK_STRICT: 'false',
+    });
+  });
 
-    app = moduleFixture.createNestApplication();
+  afterAll(() => restoreEnv());
+
+  beforeEach(async () => {
+    app = await createTestApp();
     await app.init();
   });
 
+  afterEach(async () => {
+    await app.close();
+  });
+
   it('/ (GET)', () => {
     return request(app.getHttpServer())
       .get('/')
       .expect(200)
       .expect('Hello World!');
   });
+
+  it('rejects invalid input before calling Chainrails', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/intents')
+      .send({
+        amount: '-5',
+        amountSymbol: 'USDC',
+        tokenIn: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        sourceChain: 'NOT_A_CHAIN',
+        destinationChain: 'ARBITRUM_TESTNET',
+        recipient: '0x1234',
+      })
+      .expect(400);
+
+    expect(response.body.message).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('amount'),
+        expect.stringContaining('sourceChain'),
+        expect.stringContaining('recipient'),
+      ]),
+    );
+  });
+
+  it('validates path and query params', async () => {
+    await request(app.getHttpServer()).get('/intents/abc').expect(400);
+    await request(app.getHttpServer())
+      .get('/chains/environment/devnet')
+      .expect(400);
+    await request(app.getHttpServer())
+      .get('/quotes-and-routes/single')
+      .query({ tokenIn: '0x1', sourceChain: 'BASE', amount: '1' })
+      .expect(400);
+  });
+
+  it('refuses transfers from tampered quote IDs', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/app/transfer')
+      .send({
+        quoteId: 'f4a3c1de-0000-4000-8000-000000000000.9999999999.forged',
+        recipient: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+      })
+      .expect(400);
+
+    expect(response.body.message).toBe('Invalid quote ID');
+  });
+
+  it('lets failed requests be retried with the same Idempotency-Key', async () => {
+    const send = (key: string) =>
+      request(app.getHttpServer())
+        .post('/app/transfer')
+        .set('Idempotency-Key', key)
+        .send({
+          quoteId: 'f4a3c1de-0000-4000-8000-000000000000.9999999999.forged',
+          recipient: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+        });
+
+    // Errors aren't stored, so the retry runs (and fails) again
+    expect((await send('transfer-1').expect(400)).body.message).toBe(
+      'Invalid quote ID',
+    );
+    expect((await send('transfer-1').expect(400)).body.message).toBe(
+      'Invalid quote ID',
+    );
+    await send('x'.repeat(256)).expect(400);
+  });
+
+  it('needs a plan for batch transfers', async () => {
+    const server = app.getHttpServer();
+
+    const response = await request(server)
+      .post('/app/transfer/batch')
+      .send({ feeToleranceBps: 50 })
+      .expect(400);
+    expect(response.body.message).toContain('Send either planId or plan');
+
+    await request(server).get('/app/transfer/batch/not-a-uuid').expect(400);
+    await request(server)
+      .get('/app/transfer/batch/f4a3c1de-0000-4000-8000-000000000000')
+      .expect(404);
+  });
+
+  it('creates, pauses, resumes and deletes a transfer schedule', async () => {
+    const server = app.getHttpServer();
+    const body = {
+      name: 'Weekly payout',
+      trigger: { type: 'cron', expression: '0 9 * * MON' },
+      transfer: {
+        sourceChain: 'BASE_TESTNET',
+        destinationChain: 'ARBITRUM_TESTNET',
+        amount: '1000000',
+        amountSymbol: 'USDC',
+        tokenIn: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        recipient: '0xda3ecb2e5362295e2b802669dd47127a61d9ce54',
+      },
+    };
+
+    const invalid = await request(server)
+      .post('/app/schedules')
+      .send({ ...body, trigger: { type: 'cron', expression: '0 9 * *' } })
+      .expect(400);
+    expect(invalid.body.message).toContain('should have 5 fields');
+
+    const { body: schedule } = await request(server)
+      .post('/app/schedules')
+      .send(body)
+      .expect(201);
+    expect(schedule).toMatchObject({ status: 'active', runCount: 0 });
+    expect(new Date(schedule.nextRunAt).getUTCDay()).toBe(1);
+
+    const paused = await request(server)
+      .post(`/app/schedules/${schedule.id}/pause`)
+      .expect(200);
+    expect(paused.body.status).toBe('paused');
+    const resumed = await request(server)
+      .post(`/app/schedules/${schedule.id}/resume`)
+      .expect(200);
+    expect(resumed.body.nextRunAt).toBe(schedule.nextRunAt);
+
+    await request(server)
+      .get(`/app/schedules/${schedule.id}/runs`)
+      .expect(200)
+      .expect([]);
+    await request(server).delete(`/app/schedules/${schedule.id}`).expect(204);
+    await request(server).get(`/app/schedules/${schedule.id}`).expect(404);
+  });
+
+  it('validates invoices and their line items', async () => {
+    const server = app.getHttpServer();
+
+    const response = await request(server)
+      .post('/invoices')
+      .send({
+        destinationChain: 'BASE_TESTNET',
+        tokenOut: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        currency: 'USDC',
+        recipient: '0x...',
+        lineItems: [{ description: 'Sticker', quantity: 0, unitPrice: '-1' }],
+      })
+      .expect(400);
+    expect(response.body.message).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('recipient'),
+        expect.stringContaining('lineItems.0.quantity'),
+        expect.stringContaining('lineItems.0.unitPrice'),
+      ]),
+    );
+
+    await request(server)
+      .get('/invoices/f4a3c1de-0000-4000-8000-000000000000')
+      .expect(404);
+    await request(server)
+      .post('/invoices/f4a3c1de-0000-4000-8000-000000000000/payments')
+      .send({ intentId: 'abc' })
+      .expect(400);
+  });
+
+  it('reports invalid payout rows from a CSV upload', async () => {
+    const csv = [
+      'recipient,amount,destinationChain,reference',
+      '0x1234,10,ARBITRUM_TESTNET,A',
+      '0xda3ecb2e5362295e2b802669dd47127a61d9ce54,1.5,ARBITRUM_TESTNET,B',
+    ].join('\n');
+
+    const response = await request(app.getHttpServer())
+      .post('/intents/batch')
+      .field('sender', '0xb79541be080a59fdce6c0b43219ba56c725ec65e')
+      .field('sourceChain', 'BASE_TESTNET')
+      .field('tokenIn', '0x036CbD53842c5426634e7929541eC2318f3dCF7e')
+      .field('amountSymbol', 'USDC')
+      .attach('file', Buffer.from(csv), 'payouts.csv')
+      .expect(201);
+
+    expect(response.body).toMatchObject({
+      status: 'failed',
+      summary: { rows: 2, byRowStatus: { invalid: 2 } },
+    });
+    expect(response.body.rows[0].errors[0]).toContain('recipient');
+
+    await request(app.getHttpServer())
+      .get(`/intents/batch/${response.body.id}`)
+      .expect(200);
+  });
+
+  it('lists the option ranking strategies', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/app/options/strategies')
+      .expect(200);
+
+    expect(response.body.map((strategy) => strategy.name)).toEqual([
+      'cheapest',
+      'fastest',
+      'lowest-slippage',
+      'preferred-bridge',
+      'weighted',
+    ]);
+    expect(response.body[0].default).toBe(true);
+  });
+
+  it('acknowledges retried webhook deliveries as replays', async () => {
+    const payload = {
+      id: 'evt_retry_1',
+      type: 'intent.funded',
+      created_at: '2025-12-05T14:35:00Z',
+      data: { intent_id: 1, intent_address: '0x1234', status: 'FUNDED' },
+    };
+    const deliver = () =>
+      request(app.getHttpServer())
+        .post('/app/webhook')
+        .set('X-Chainrails-Timestamp', String(Math.floor(Date.now() / 1000)))
+        .send(payload)
+        .expect(200);
+
+    expect((await deliver()).body).toMatchObject({
+      received: true,
+      replayed: false,
+      deliveryAttempts: 1,
+    });
+    expect((await deliver()).body).toMatchObject({
+      received: true,
+      replayed: true,
+      deliveryAttempts: 2,
+    });
+
+    const events = await app
+      .get<WebhookEventStore>(WEBHOOK_EVENT_STORE)
+      .findByIntentId(1);
+    expect(events).toHaveLength(1);
+  });
+
+  it('flags webhooks that report an impossible status transition', async () => {
+    const send = (id: string, status: string, createdAt: string) =>
+      request(app.getHttpServer())
+        .post('/app/webhook')
+        .send({
+          id,
+          type: `intent.${status.toLowerCase()}`,
+          created_at: createdAt,
+          data: { intent_id: 7, status },
+        })
+        .expect(200);
+
+    await send('evt_7_funded', 'FUNDED', '2025-12-05T14:05:00Z');
+    const completed = await send(
+      'evt_7_completed',
+      'COMPLETED',
+      '2025-12-05T14:20:00Z',
+    );
+    const funded = await send('evt_7_late', 'FUNDED', '2025-12-05T14:25:00Z');
+
+    expect(completed.body.transition).toEqual({
+      from: 'FUNDED',
+      to: 'COMPLETED',
+      valid: true,
+    });
+    expect(funded.body.transition).toEqual({
+      from: 'COMPLETED',
+      to: 'FUNDED',
+      valid: false,
+    });
+  });
+
+  it('notifies subscribers about received webhooks', async () => {
+    const server = app.getHttpServer();
+
+    await request(server)
+      .post('/notifications/subscriptions')
+      .send({ channel: 'http', target: 'not-a-url', intentId: 9 })
+      .expect(400);
+
+    const subscription = await request(server)
+      .post('/notifications/subscriptions')
+      .send({ channel: 'sink', target: 'log', intentId: 9 })
+      .expect(201);
+    expect(subscription.body.secret).toEqual(expect.any(String));
+
+    await request(server)
+      .post('/app/webhook')
+      .send({
+        id: 'evt_9_funded',
+        type: 'intent.funded',
+        data: { intent_id: 9, status: 'FUNDED' },
+      })
+      .expect(200);
+
+    const deliveries = await request(server)
+      .get('/notifications/deliveries')
+      .query({ intentId: 9 })
+      .expect(200);
+    expect(deliveries.body).toEqual([
+      expect.objectContaining({
+        subscriptionId: subscription.body.id,
+        eventId: 'evt_9_funded',
+        status: 'delivered',
+      }),
+    ]);
+  });
+
+  it('serves the OpenAPI document', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/docs-json')
+      .expect(200);
+
+    expect(response.body.paths).toHaveProperty('/intents');
+    expect(response.body.paths).toHaveProperty('/quotes-and-routes/single');
+  });
 });
@@ -0,0 +1,279 @@
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import {
+  createSimulatorApp,
+  createTestApp,
+  freePort,
+  setEnv,
+} from './test-app';
+
+const BASE_USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const ARBITRUM_USDC = '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d';
+const SENDER = '0xb79541be080a59fdce6c0b43219ba56c725ec65e';
+const RECIPIENT = '0xda3ecb2e5362295e2b802669dd47127a61d9ce54';
+
+const route = {
+  tokenIn: BASE_USDC,
+  tokenOut: ARBITRUM_USDC,
+  sourceChain: 'BASE_TESTNET',
+  destinationChain: 'ARBITRUM_TESTNET',
+  amount: '1000000',
+};
+
+/**
+ * Contract tests for the controllers that wrap one Chainrails endpoint each.
+ * Every request goes through controller, service, ChainrailsClient and
+ * response validation to the simulator, so a broken path, query parameter
+ * or response mapping fails here.
+ */
+describe('Chainrails endpoints (e2e)', () => {
+  let app: INestApplication;
+  let simulator: INestApplication;
+  let restoreEnv: () => void;
+
+  beforeAll(async () => {
+    const simulatorPort = await freePort();
+    restoreEnv = setEnv({
+      CHAINRAILS_API_URL: `http://127.0.0.1:${simulatorPort}/api/v1`,
+      CHAINRAILS_API_KEY: 'cr_test_e2e',
+      CACHE_ENABLED: 'false',
+      RECONCILER_ENABLED: 'false',
+      SIMULATOR_API_KEY: 'cr_test_e2e',
+      SIMULATOR_CLOCK: 'manual',
+      SIMULATOR_WEBHOOK_URL: '',
+    });
+
+    simulator = await createSimulatorApp();
+    await simulator.listen(simulatorPort, '127.0.0.1');
+    app = await createTestApp();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await simulator?.close();
+    restoreEnv();
+  });
+
+  const api = () => request(app.getHttpServer());
+
+  describe('/chains', () => {
+    it('GET /chains lists every chain', async () => {
+      const { body } = await api().get('/chains').expect(200);
+
+      expect(body).toEqual(
+        expect.arrayContaining([
+          'BASE_MAINNET',
+          'BASE_TESTNET',
+          'ARBITRUM_TESTNET',
+          'STARKNET_TESTNET',
+        ]),
+      );
+    });
+
+    it('GET /chains/environment/:env only lists chains of that network', async () => {
+      const { body } = await api()
+        .get('/chains/environment/testnet')
+        .expect(200);
+
+      expect(body).toContain('BASE_TESTNET');
+      expect(body.every((chain) => chain.endsWith('_TESTNET'))).toBe(true);
+    });
+
+    it('GET /chains/selector groups chains by network', async () => {
+      const { body } = await api().get('/chains/selector').expect(200);
+
+      expect(body.mainnet).toContain('BASE_MAINNET');
+      expect(body.testnet).toContain('BASE_TESTNET');
+    });
+
+    it('GET /chains/:chainName/tokens lists the tokens of a chain', async () => {
+      const { body } = await api()
+        .get('/chains/BASE_TESTNET/tokens')
+        .expect(200);
+
+      expect(body).toContainEqual(
+        expect.objectContaining({
+          address: BASE_USDC,
+          symbol: 'USDC',
+          decimals: 6,
+        }),
+      );
+    });
+  });
+
+  describe('/quotes-and-routes', () => {
+    it('GET /single quotes one bridge', async () => {
+      const { body } = await api()
+        .get('/quotes-and-routes/single')
+        .query({ ...route, bridge: 'CCTP' })
+        .expect(200);
+
+      // CCTP: 1 bps + 0.15 USDC
+      expect(body).toMatchObject({ bridge: 'CCTP', totalFees: '150100' });
+    });
+
+    it('GET /multiple quotes every bridge of the route, cheapest first', async () => {
+      const { body } = await api()
+        .get('/quotes-and-routes/multiple')
+        .query({ ...route, excludeBridges: 'RHINOFI' })
+        .expect(200);
+
+      expect(body.map((quote) => [quote.bridge, quote.totalFees])).toEqual([
+        ['ACROSS', '50500'],
+        ['GATEWAY', '100300'],
+        ['CCTP', '150100'],
+      ]);
+    });
+
+    it('GET /best picks the cheapest bridge', async () => {
+      const { body } = await api()
+        .get('/quotes-and-routes/best')
+        .query(route)
+        .expect(200);
+
+      expect(body).toMatchObject({
+        bridge: 'ACROSS',
+        totalFees: '50500',
+      });
+    });
+
+    it('GET /optimal-route names the bridge to use', async () => {
+      const { body } = await api()
+        .get('/quotes-and-routes/optimal-route')
+        .query(route)
+        .expect(200);
+
+      expect(body.bridgeToUse).toBe('ACROSS');
+    });
+
+    it('GET /supported-bridges lists the bridges of a route', async () => {
+      const { body } = await api()
+        .get('/quotes-and-routes/supported-bridges')
+        .query({
+          sourceChain: 'STARKNET_TESTNET',
+          destinationChain: 'BASE_TESTNET',
+        })
+        .expect(200);
+
+      expect(body).toMatchObject({
+        supportedBridges: ['RHINOFI'],
+        routeInfo: { bridgeCount: 1 },
+      });
+    });
+
+    it('GET /multi-source quotes every chain that can pay', async () => {
+      const { body } = await api()
+        .get('/quotes-and-routes/multi-source')
+        .query({
+          destinationChain: 'ARBITRUM_TESTNET',
+          amount: '1',
+          tokenOut: ARBITRUM_USDC,
+        })
+        .expect(200);
+
+      expect(body.quotes[0]).toMatchObject({
+        sourceChain: 'ARBITRUM_TESTNET',
+        totalFee: '0',
+      });
+      expect(body.quotes.map((quote) => quote.sourceChain)).toEqual(
+        expect.arrayContaining(['BASE_TESTNET', 'STARKNET_TESTNET']),
+      );
+    });
+
+    it('passes the upstream rejection of an unsupported route through', async () => {
+      const response = await api()
+        .get('/quotes-and-routes/best')
+        .query({ ...route, destinationChain: 'ARBITRUM_MAINNET' })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        error: 'ChainrailsApiError',
+        upstreamStatus: 400,
+      });
+    });
+  });
+
+  describe('/intents', () => {
+    const intent = {
+      sender: SENDER,
+      amount: '1000000',
+      amountSymbol: 'USDC',
+      tokenIn: BASE_USDC,
+      sourceChain: 'BASE_TESTNET',
+      destinationChain: 'ARBITRUM_TESTNET',
+      recipient: RECIPIENT,
+      refundAddress: SENDER,
+      metadata: { orderId: 'ORDER-1042' },
+    };
+
+    it('POST /intents creates an intent', async () => {
+      const { body } = await api().post('/intents').send(intent).expect(201);
+
+      expect(body).toMatchObject({
+        id: expect.any(Number),
+        intent_status: 'PENDING',
+        intent_address: expect.stringMatching(/^0x[0-9a-f]{40}$/),
+        source_chain: 'BASE_TESTNET',
+        destination_chain: 'ARBITRUM_TESTNET',
+        initialAmount: '1000000',
+        fees_in_asset_token: '50500',
+        total_amount_in_asset_token: '1050500',
+        metadata: { orderId: 'ORDER-1042' },
+      });
+    });
+
+    it('POST /intents returns the same intent for a repeated Idempotency-Key', async () => {
+      const create = () =>
+        api()
+          .post('/intents')
+          .set('Idempotency-Key', 'contract-intent-1')
+          .send(intent)
+          .expect(201);
+
+      const first = await create();
+      const second = await create();
+
+      expect(second.body.id).toBe(first.body.id);
+    });
+
+    it('GET /intents/:id returns an intent', async () => {
+      const { body: created } = await api()
+        .post('/intents')
+        .send(intent)
+        .expect(201);
+
+      const { body } = await api().get(`/intents/${created.id}`).expect(200);
+      expect(body).toMatchObject({
+        id: created.id,
+        intent_address: created.intent_address,
+        intent_status: 'PENDING',
+      });
+
+      await api().get('/intents/999999').expect(404);
+    });
+
+    it('GET /intents/user/:address lists the intents of a sender', async () => {
+      const sender = '0x1111111111111111111111111111111111111111';
+      const { body: created } = await api()
+        .post('/intents')
+        .send({ ...intent, sender, refundAddress: sender })
+        .expect(201);
+
+      const { body } = await api().get(`/intents/user/${sender}`).expect(200);
+      expect(body.map((found) => found.id)).toEqual([created.id]);
+    });
+
+    it('GET /intents pages through intents by status', async () => {
+      await api().post('/intents').send(intent).expect(201);
+
+      const { body } = await api()
+        .get('/intents')
+        .query({ status: 'pending', limit: 1 })
+        .expect(200);
+      expect(body.intents).toHaveLength(1);
+      expect(body.intents[0].intent_status).toBe('PENDING');
+      expect(Number(body.total)).toBeGreaterThan(1);
+    });
+  });
+});
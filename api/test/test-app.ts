@@ -0,0 +1,99 @@
+import { INestApplication } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { AddressInfo, createServer } from 'net';
+import { AppModule } from '../src/app.module';
+import { configureApp } from '../src/app.setup';
+import { InMemoryWebhookEventStore } from '../src/webhooks/in-memory-webhook-event.store';
+import { WEBHOOK_EVENT_STORE } from '../src/webhooks/webhook-event.store';
+import { InMemoryTrackedIntentStore } from '../src/reconciliation/in-memory-tracked-intent.store';
+import { TRACKED_INTENT_STORE } from '../src/reconciliation/tracked-intent.store';
+import { InMemoryNotificationStore } from '../src/notifications/in-memory-notification.store';
+import { NOTIFICATION_STORE } from '../src/notifications/notification.store';
+import { InMemoryQuoteLockStore } from '../src/quote-locks/in-memory-quote-lock.store';
+import { QUOTE_LOCK_STORE } from '../src/quote-locks/quote-lock.store';
+import { InMemorySplitPlanStore } from '../src/split-payments/in-memory-split-plan.store';
+import { SPLIT_PLAN_STORE } from '../src/split-payments/split-plan.store';
+import { InMemoryIntentBatchStore } from '../src/intent-batches/in-memory-intent-batch.store';
+import { INTENT_BATCH_STORE } from '../src/intent-batches/intent-batch.store';
+import { InMemoryIdempotencyStore } from '../src/idempotency/in-memory-idempotency.store';
+import { IDEMPOTENCY_STORE } from '../src/idempotency/idempotency.store';
+import { InMemoryScheduleStore } from '../src/schedules/in-memory-schedule.store';
+import { SCHEDULE_STORE } from '../src/schedules/schedule.store';
+import { InMemoryInvoiceStore } from '../src/invoices/in-memory-invoice.store';
+import { INVOICE_STORE } from '../src/invoices/invoice.store';
+import { SimulatorModule } from '../src/simulator/simulator.module';
+import { configureSimulator } from '../src/simulator/simulator.setup';
+
+/**
+ * The API as `npm run start` builds it, with every store kept in memory so
+ * tests leave no SQLite files behind. Not initialized yet: call init() or
+ * listen().
+ */
+export async function createTestApp(): Promise<INestApplication> {
+  const moduleFixture = await Test.createTestingModule({
+    imports: [AppModule],
+  })
+    .overrideProvider(WEBHOOK_EVENT_STORE)
+    .useValue(new InMemoryWebhookEventStore())
+    .overrideProvider(TRACKED_INTENT_STORE)
+    .useValue(new InMemoryTrackedIntentStore())
+    .overrideProvider(NOTIFICATION_STORE)
+    .useValue(new InMemoryNotificationStore())
+    .overrideProvider(QUOTE_LOCK_STORE)
+    .useValue(new InMemoryQuoteLockStore())
+    .overrideProvider(SPLIT_PLAN_STORE)
+    .useValue(new InMemorySplitPlanStore())
+    .overrideProvider(INTENT_BATCH_STORE)
+    .useValue(new InMemoryIntentBatchStore())
+    .overrideProvider(IDEMPOTENCY_STORE)
+    .useValue(new InMemoryIdempotencyStore())
+    .overrideProvider(SCHEDULE_STORE)
+    .useValue(new InMemoryScheduleStore())
+    .overrideProvider(INVOICE_STORE)
+    .useValue(new InMemoryInvoiceStore())
+    .compile();
+
+  return configureApp(moduleFixture.createNestApplication({ rawBody: true }));
+}
+
+/**
+ * The Chainrails API simulator (src/simulator), configured from process.env
+ * like `npm run simulator`. Not listening yet.
+ */
+export async function createSimulatorApp(): Promise<INestApplication> {
+  return configureSimulator(
+    await NestFactory.create(SimulatorModule, { logger: false }),
+  );
+}
+
+/** A port nothing listens on right now */
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Sets environment variables and returns a function that puts the previous
+ * values back. Services read their config when created, so call this before
+ * building an app.
+ */
+export function setEnv(values: Record<string, string>): () => void {
+  const previous = Object.fromEntries(
+    Object.keys(values).map((key) => [key, process.env[key]]),
+  );
+  Object.assign(process.env, values);
+
+  return () => {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+}
@@ -0,0 +1,364 @@
+import { INestApplication } from '@nestjs/common';
+import { AddressInfo } from 'net';
+import * as request from 'supertest';
+import { signPayload } from '../src/webhooks/webhook-signature.service';
+import {
+  createSimulatorApp,
+  createTestApp,
+  freePort,
+  setEnv,
+} from './test-app';
+
+const BASE_USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const ARBITRUM_USDC = '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d';
+const SENDER = '0xb79541be080a59fdce6c0b43219ba56c725ec65e';
+const RECIPIENT = '0xda3ecb2e5362295e2b802669dd47127a61d9ce54';
+const WEBHOOK_SECRET = 'whsec_e2e';
+
+/**
+ * The complete transfer flow (/app/options → /app/transfer → /app/webhook →
+ * /app/status/:id) against the Chainrails API simulator instead of the real
+ * API. The simulator runs on a manual clock, so each test decides when an
+ * intent moves on, and sends its signed webhooks back to the API under test.
+ */
+describe('Transfer flow (e2e)', () => {
+  let app: INestApplication;
+  let simulator: INestApplication;
+  let restoreEnv: () => void;
+
+  beforeAll(async () => {
+    const simulatorPort = await freePort();
+    restoreEnv = setEnv({
+      CHAINRAILS_API_URL: `http://127.0.0.1:${simulatorPort}/api/v1`,
+      CHAINRAILS_API_KEY: 'cr_test_e2e',
+      CHAINRAILS_WEBHOOK_SECRET: WEBHOOK_SECRET,
+      CHAINRAILS_RETRY_BASE_DELAY_MS: '1',
+      CHAINRAILS_CIRCUIT_FAILURE_THRESHOLD: '100',
+      CACHE_ENABLED: 'false',
+      RECONCILER_ENABLED: 'false',
+      SIMULATOR_API_KEY: 'cr_test_e2e',
+      SIMULATOR_CLOCK: 'manual',
+      SIMULATOR_WEBHOOK_MAX_ATTEMPTS: '1',
+    });
+
+    app = await createTestApp();
+    await app.listen(0, '127.0.0.1');
+    const { port } = app.getHttpServer().address() as AddressInfo;
+
+    process.env.SIMULATOR_WEBHOOK_URL = `http://127.0.0.1:${port}/app/webhook`;
+    simulator = await createSimulatorApp();
+    await simulator.listen(simulatorPort, '127.0.0.1');
+  });
+
+  afterEach(async () => {
+    await request(simulator.getHttpServer())
+      .delete('/_simulator/faults')
+      .expect(204);
+  });
+
+  afterAll(async () => {
+    await simulator?.close();
+    await app?.close();
+    delete process.env.SIMULATOR_WEBHOOK_URL;
+    restoreEnv();
+  });
+
+  const api = () => request(app.getHttpServer());
+  const control = () => request(simulator.getHttpServer());
+
+  const getOptions = (body: Record<string, unknown> = {}) =>
+    api()
+      .post('/app/options')
+      .send({
+        destinationChain: 'ARBITRUM_TESTNET',
+        amount: '1',
+        tokenOut: ARBITRUM_USDC,
+        recipient: RECIPIENT,
+        ...body,
+      })
+      .expect(201);
+
+  const createTransfer = async () => {
+    const { body: options } = await getOptions();
+    const base = options.options.find(
+      (option) => option.sourceChain === 'BASE_TESTNET',
+    );
+    const { body } = await api()
+      .post('/app/transfer')
+      .send({
+        quoteId: base.quoteId,
+        recipient: RECIPIENT,
+        sender: SENDER,
+        refundAddress: SENDER,
+      })
+      .expect(201);
+    return body;
+  };
+
+  /** Sends a webhook to the API as Chainrails would */
+  const deliver = (
+    payload: object,
+    {
+      secret = WEBHOOK_SECRET,
+      timestamp = String(Math.floor(Date.now() / 1000)),
+    } = {},
+  ) => {
+    const rawBody = JSON.stringify(payload);
+    return api()
+      .post('/app/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Chainrails-Timestamp', timestamp)
+      .set(
+        'X-Chainrails-Signature',
+        signPayload(secret, timestamp, Buffer.from(rawBody)),
+      )
+      .send(rawBody);
+  };
+
+  describe('option ranking', () => {
+    it('recommends the cheapest option by default', async () => {
+      const { body } = await getOptions();
+
+      expect(body).toMatchObject({
+        strategy: 'cheapest',
+        recommendedOption: {
+          sourceChain: 'ARBITRUM_TESTNET',
+          type: 'same-chain',
+          fee: '0',
+          rank: 1,
+        },
+      });
+      expect(body.totalOptions).toBe(body.options.length);
+      expect(
+        body.options.find((option) => option.sourceChain === 'BASE_TESTNET'),
+      ).toMatchObject({
+        type: 'cross-chain',
+        bridge: 'ACROSS',
+        quoteId: expect.any(String),
+      });
+    });
+
+    it('ranks options of a preferred bridge above the others', async () => {
+      const rankOf = (body, sourceChain: string) =>
+        body.options.find((option) => option.sourceChain === sourceChain).rank;
+      const { body: cheapest } = await getOptions();
+      const { body } = await getOptions({
+        strategy: 'preferred-bridge',
+        preferredBridges: ['RHINOFI'],
+      });
+
+      // RHINOFI is the most expensive bridge, and the only one from Starknet
+      expect(rankOf(cheapest, 'STARKNET_TESTNET')).toBe(cheapest.totalOptions);
+      expect(body.strategy).toBe('preferred-bridge');
+      // A same-chain transfer needs no bridge at all, so it stays first
+      expect(rankOf(body, 'ARBITRUM_TESTNET')).toBe(1);
+      expect(rankOf(body, 'STARKNET_TESTNET')).toBe(2);
+      expect(rankOf(body, 'BASE_TESTNET')).toBeGreaterThan(2);
+    });
+
+    it('rejects unknown strategies', async () => {
+      await api()
+        .post('/app/options')
+        .send({
+          destinationChain: 'ARBITRUM_TESTNET',
+          amount: '1',
+          tokenOut: ARBITRUM_USDC,
+          strategy: 'luckiest',
+        })
+        .expect(400);
+    });
+  });
+
+  it('moves a transfer from options to COMPLETED through signed webhooks', async () => {
+    const transfer = await createTransfer();
+
+    expect(transfer).toMatchObject({
+      intent: {
+        intent_status: 'PENDING',
+        source_chain: 'BASE_TESTNET',
+        destination_chain: 'ARBITRUM_TESTNET',
+        metadata: { createdVia: 'complete-demo-app' },
+      },
+      fundingInstructions: { network: 'BASE_TESTNET' },
+      // ACROSS: 5 bps + 0.05 USDC
+      quote: { fee: '50500', depositAmount: '1050500' },
+    });
+    // The locked quote decides what the intent is created for
+    expect(transfer.intent.initialAmount).toBe(transfer.quote.depositAmount);
+    expect(transfer.fundingInstructions.amount).toBe(
+      transfer.intent.total_amount_in_asset_token,
+    );
+    const { intentId, intentAddress } = transfer.tracking;
+    expect(transfer.fundingInstructions.address).toBe(intentAddress);
+
+    const pending = await api().get(`/app/status/${intentId}`).expect(200);
+    expect(pending.body).toMatchObject({
+      intent: { intent_status: 'PENDING' },
+      webhookEvents: [],
+      isComplete: false,
+      isFailed: false,
+    });
+
+    // Funded after 15s, initiated 5s later, completed 30s after that
+    await control()
+      .post('/_simulator/clock/advance')
+      .send({ ms: 60000 })
+      .expect(200);
+
+    const completed = await api().get(`/app/status/${intentId}`).expect(200);
+    expect(completed.body).toMatchObject({
+      intent: { intent_status: 'COMPLETED' },
+      isComplete: true,
+      isFailed: false,
+    });
+    expect(
+      completed.body.webhookEvents.map((event) => event.type).sort(),
+    ).toEqual(['intent.completed', 'intent.funded', 'intent.initiated']);
+
+    const { body: deliveries } = await control()
+      .get('/_simulator/webhooks')
+      .expect(200);
+    expect(
+      deliveries
+        .filter((delivery) => delivery.intentId === intentId)
+        .map((delivery) => [delivery.status, delivery.responseStatus]),
+    ).toEqual([
+      ['delivered', 200],
+      ['delivered', 200],
+      ['delivered', 200],
+    ]);
+  });
+
+  describe('webhooks', () => {
+    const payload = (id: string, data: Record<string, unknown>) => ({
+      id,
+      type: 'intent.funded',
+      created_at: new Date().toISOString(),
+      data: { status: 'FUNDED', ...data },
+    });
+
+    it('rejects missing and invalid signatures', async () => {
+      const unsigned = await api()
+        .post('/app/webhook')
+        .send(payload('evt_unsigned', { intent_id: 1 }))
+        .expect(401);
+      expect(unsigned.body.message).toBe('Missing webhook signature');
+
+      const forged = await deliver(payload('evt_forged', { intent_id: 1 }), {
+        secret: 'whsec_someone_else',
+      }).expect(401);
+      expect(forged.body.message).toBe('Invalid webhook signature');
+    });
+
+    it('rejects deliveries with an expired timestamp', async () => {
+      const tenMinutesAgo = String(Math.floor(Date.now() / 1000) - 600);
+
+      const response = await deliver(payload('evt_stale', { intent_id: 1 }), {
+        timestamp: tenMinutesAgo,
+      }).expect(401);
+      expect(response.body.message).toBe(
+        'Webhook timestamp is too old or invalid',
+      );
+    });
+
+    it('acknowledges webhooks for unknown intent addresses without attaching them to a transfer', async () => {
+      const transfer = await createTransfer();
+
+      const response = await deliver(
+        payload('evt_unknown_address', {
+          intent_address: '0x000000000000000000000000000000000000dead',
+        }),
+      ).expect(200);
+      expect(response.body).toMatchObject({
+        received: true,
+        eventId: 'evt_unknown_address',
+        replayed: false,
+      });
+
+      const status = await api()
+        .get(`/app/status/${transfer.tracking.intentId}`)
+        .expect(200);
+      expect(status.body.webhookEvents).toEqual([]);
+      expect(status.body.intent.intent_status).toBe('PENDING');
+    });
+  });
+
+  describe('upstream errors', () => {
+    it('passes 4xx responses through with their status', async () => {
+      const missing = await api().get('/app/status/999999').expect(404);
+      expect(missing.body).toMatchObject({
+        error: 'ChainrailsApiError',
+        code: 'NOT_FOUND',
+        upstreamStatus: 404,
+        request: { method: 'GET', path: '/intents/999999' },
+      });
+
+      await control()
+        .post('/_simulator/faults')
+        .send({
+          method: 'POST',
+          path: '/intents',
+          status: 422,
+          code: 'INSUFFICIENT_LIQUIDITY',
+          message: 'Not enough liquidity on this route',
+        })
+        .expect(201);
+      const rejected = await api()
+        .post('/app/transfer')
+        .send({
+          sourceChain: 'BASE_TESTNET',
+          destinationChain: 'ARBITRUM_TESTNET',
+          amount: '1000000',
+          amountSymbol: 'USDC',
+          tokenIn: BASE_USDC,
+          recipient: RECIPIENT,
+          sender: SENDER,
+          refundAddress: SENDER,
+        })
+        .expect(422);
+      expect(rejected.body).toMatchObject({
+        code: 'INSUFFICIENT_LIQUIDITY',
+        upstreamStatus: 422,
+        request: { method: 'POST', path: '/intents' },
+      });
+      expect(rejected.body.message).toContain(
+        'Not enough liquidity on this route',
+      );
+    });
+
+    it('reports 5xx responses as 502 once retries run out', async () => {
+      const { tracking } = await createTransfer();
+      await control()
+        .post('/_simulator/faults')
+        .send({ method: 'GET', path: '/intents/', status: 503 })
+        .expect(201);
+
+      const response = await api()
+        .get(`/app/status/${tracking.intentId}`)
+        .expect(502);
+      expect(response.body).toMatchObject({
+        statusCode: 502,
+        error: 'ChainrailsApiError',
+        upstreamStatus: 503,
+      });
+    });
+
+    it('recovers from a short outage by retrying reads', async () => {
+      const { tracking } = await createTransfer();
+      await control()
+        .post('/_simulator/faults')
+        .send({ method: 'GET', path: '/intents/', status: 503, times: 2 })
+        .expect(201);
+
+      const response = await api()
+        .get(`/app/status/${tracking.intentId}`)
+        .expect(200);
+      expect(response.body.intent.id).toBe(tracking.intentId);
+
+      const { body: faults } = await control()
+        .get('/_simulator/faults')
+        .expect(200);
+      expect(faults).toEqual([]);
+    });
+  });
+});
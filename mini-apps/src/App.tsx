@@ -64,7 +64,9 @@ function App() {
       );
       const data: any = await response.json().catch(() => ({}));
       if (!response.ok) {
-        throw new Error(data?.error ?? `Request failed (${response.status})`);
+        throw new Error(
+          data?.error?.message ?? `Request failed (${response.status})`,
+        );
       }
       if (!data.sessionToken) {
         throw new Error(
@@ -25,9 +25,13 @@ export default function Home() {
       }),
     });
     const data = await response.json();
+    setLoading(false);
+    if (!response.ok) {
+      alert(data.error?.message ?? "Failed to create session");
+      return;
+    }
     cr.updateSession(data);
     cr.open();
-    setLoading(false);
   }
 
   return (
@@ -15,14 +15,39 @@ export default function Index() {
   });
 
   async function pay() {
+    // Any backend using packages/session, e.g. the Next.js demo's /api/create-session
+    const sessionUrl = process.env.EXPO_PUBLIC_SESSION_URL;
+    if (!sessionUrl) {
+      console.log("EXPO_PUBLIC_SESSION_URL is not set, see .env.example");
+      return;
+    }
+
     setLoading(true);
-    const res = await fetch(
-      `https://chainrails-sdk-server.vercel.app/test/create-session?amount=0&destinationChain=BASE&recipient=0xda3ecb2e5362295e2b802669dd47127a61d9ce54&token=USDC`,
-    );
-    const data = await res.json();
-    cr.updateSession(data);
-    cr.open();
-    setLoading(false);
+    try {
+      const res = await fetch(sessionUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          // 0: the payer enters the amount in the modal (the backend needs
+          // SESSION_ALLOW_OPEN_AMOUNT=true)
+          amount: "0",
+          destinationChain: "BASE",
+          recipient: "0xda3ecb2e5362295e2b802669dd47127a61d9ce54",
+          token: "USDC",
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        console.log("Session failed:", data.error?.code, data.error?.message);
+        return;
+      }
+      cr.updateSession(data);
+      cr.open();
+    } catch (error) {
+      console.log("Session request failed:", error);
+    } finally {
+      setLoading(false);
+    }
   }
 
   return (
@@ -1,12 +1,26 @@
-import { Chainrails, crapi } from "@chainrails/sdk";
+import { SessionError, sessionIssuerFromEnv } from "@chainrails-demo/session";
+import { sessionErrorHandler, sessionHandler } from "@chainrails-demo/session/express";
 import cors from "cors";
 import dotenv from "dotenv";
 import express from "express";
+import { createOrderRepository, orderTotal } from "./orders.ts";
+import { rateLimit } from "./rate-limit.ts";
 
 dotenv.config();
 const app = express();
 const port = process.env.PORT || 4000;
 
+if (!process.env.CHAINRAILS_API_KEY) {
+  throw new Error("CHAINRAILS_API_KEY is not set, copy .env.example to .env and fill it in");
+}
+const issuer = sessionIssuerFromEnv();
+const orders = await createOrderRepository();
+
+// Behind a proxy (Vercel, nginx...) req.ip is only the client's IP when this is set
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", process.env.TRUST_PROXY === "true" ? true : process.env.TRUST_PROXY);
+}
+
 app.use(cors({ origin: process.env.CHAINRAILS_DOMAIN_WHITELIST }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -17,25 +31,53 @@ app.listen(port, () => {
 
 app.get("/", (req, res) => res.send("Chainrails Session Server"));
 
-app.get("/session", async (req, res) => {
-  const api_key = process.env.CHAINRAILS_API_KEY;
-  const amount = "9.89";
-  const recipient = "0x...";
-  const destinationChain = "BASE";
-  const token = "USDC";
-
-  Chainrails.config({
-    api_key,
-  });
-
-  const session = await crapi.auth.getSessionToken({
-    amount: amount,
-    recipient: recipient,
-    destinationChain: destinationChain,
-    token: token,
-  });
-
-  res.send(session);
-});
+/**
+ * GET /session?orderId=ORDER-1042
+ *
+ * Creates a payment session for an order. Amount, recipient, chain and token
+ * all come from the order, never from the request.
+ */
+app.get(
+  "/session",
+  rateLimit({
+    limit: Number(process.env.SESSION_RATE_LIMIT ?? 10),
+    windowMs: Number(process.env.SESSION_RATE_WINDOW_MS ?? 60_000),
+  }),
+  sessionHandler(issuer, {
+    resolve: async (req) => {
+      const unexpected = Object.keys(req.query).filter((key) => key !== "orderId");
+      if (unexpected.length) {
+        throw new SessionError(
+          400,
+          "unexpected_parameter",
+          `Only orderId is accepted, the server works out ${unexpected.join(", ")} from the order`,
+        );
+      }
+
+      const { orderId } = req.query;
+      if (typeof orderId !== "string" || !orderId.trim()) {
+        throw new SessionError(400, "order_id_required", "Pass the order to pay as ?orderId=");
+      }
+
+      const order = await orders.findById(orderId);
+      if (!order) {
+        throw new SessionError(404, "order_not_found", `Order ${orderId} was not found`);
+      }
+      if (order.status !== "open") {
+        throw new SessionError(409, "order_not_payable", `Order ${orderId} is ${order.status}`);
+      }
+
+      return {
+        amount: orderTotal(order),
+        recipient: order.recipient,
+        destinationChain: order.destinationChain,
+        token: order.token,
+      };
+    },
+  }),
+);
+
+app.use((req, res, next) => next(new SessionError(404, "not_found", `No route for ${req.method} ${req.path}`)));
+app.use(sessionErrorHandler);
 
 export default app;
@@ -0,0 +1,114 @@
+import { readFile } from "node:fs/promises";
+
+export interface OrderItem {
+  description: string;
+  quantity: number;
+  /** Price of one unit in the order's token, as a decimal string ("4.5") */
+  unitPrice: string;
+}
+
+/**
+ * What the customer is buying and where the money goes. The session amount is
+ * computed from the items, so the browser never gets to choose it.
+ */
+export interface Order {
+  id: string;
+  status: "open" | "paid" | "cancelled";
+  recipient: string;
+  destinationChain: string;
+  token: string;
+  items: OrderItem[];
+}
+
+/**
+ * Where the session server loads orders from. Swap in your own (a database,
+ * your shop's API...) by implementing `findById`.
+ */
+export interface OrderRepository {
+  findById(id: string): Promise<Order | undefined>;
+}
+
+export class InMemoryOrderRepository implements OrderRepository {
+  private readonly orders = new Map<string, Order>();
+
+  constructor(orders: Order[] = []) {
+    for (const order of orders) this.save(order);
+  }
+
+  save(order: Order) {
+    this.orders.set(order.id, structuredClone(order));
+  }
+
+  async findById(id: string) {
+    const order = this.orders.get(id);
+    return order && structuredClone(order);
+  }
+}
+
+/**
+ * Orders from a JSON file holding an array of orders. The file is read on
+ * every lookup, so edits show up without restarting the server.
+ */
+export class JsonFileOrderRepository implements OrderRepository {
+  private readonly path: string | URL;
+
+  constructor(path: string | URL) {
+    this.path = path;
+  }
+
+  async findById(id: string) {
+    const orders: Order[] = JSON.parse(await readFile(this.path, "utf8"));
+    return orders.find((order) => order.id === id);
+  }
+}
+
+/**
+ * Picks the repository from ORDER_REPOSITORY: `json` (default, ORDERS_FILE or
+ * data/orders.json) or `memory` (seeded from the same file at startup).
+ */
+export async function createOrderRepository(): Promise<OrderRepository> {
+  const path = process.env.ORDERS_FILE || new URL("./data/orders.json", import.meta.url);
+  switch (process.env.ORDER_REPOSITORY || "json") {
+    case "json":
+      return new JsonFileOrderRepository(path);
+    case "memory":
+      return new InMemoryOrderRepository(JSON.parse(await readFile(path, "utf8")));
+    default:
+      throw new Error(`Unknown ORDER_REPOSITORY "${process.env.ORDER_REPOSITORY}", use json or memory`);
+  }
+}
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+/**
+ * The order total as a decimal string, e.g. "9.89". Computed with bigints so
+ * 3 × "0.1" is "0.3" and not 0.30000000000000004.
+ */
+export function orderTotal(order: Order): string {
+  if (!order.items?.length) {
+    throw new Error(`Order ${order.id} has no items`);
+  }
+  // Check every item before reading prices: orders come from a file anyone can edit
+  for (const item of order.items) {
+    if (
+      typeof item.unitPrice !== "string" ||
+      !DECIMAL.test(item.unitPrice) ||
+      !Number.isInteger(item.quantity) ||
+      item.quantity < 1
+    ) {
+      throw new Error(`Order ${order.id} has an invalid item: ${item.description}`);
+    }
+  }
+
+  const scale = Math.max(...order.items.map((item) => item.unitPrice.split(".")[1]?.length ?? 0));
+  let total = 0n;
+  for (const item of order.items) {
+    const [whole, fraction = ""] = item.unitPrice.split(".");
+    total += BigInt(whole + fraction.padEnd(scale, "0")) * BigInt(item.quantity);
+  }
+
+  const digits = total.toString().padStart(scale + 1, "0");
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
@@ -0,0 +1,46 @@
+import type { RequestHandler } from "express";
+import { SessionError } from "@chainrails-demo/session";
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Allows `limit` requests per client IP every `windowMs` (fixed windows).
+ * Counters live in memory, so each server instance counts on its own.
+ */
+export function rateLimit({ limit, windowMs }: { limit: number; windowMs: number }): RequestHandler {
+  const windows = new Map<string, Window>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip ?? req.socket.remoteAddress ?? "unknown";
+
+    // Forget finished windows so the map doesn't grow with every IP ever seen
+    if (windows.size > 10_000) {
+      for (const [ip, window] of windows) {
+        if (window.resetAt <= now) windows.delete(ip);
+      }
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+    res.setHeader("RateLimit-Limit", limit);
+    res.setHeader("RateLimit-Remaining", Math.max(0, limit - window.count));
+    res.setHeader("RateLimit-Reset", resetSeconds);
+
+    if (window.count > limit) {
+      res.setHeader("Retry-After", resetSeconds);
+      next(new SessionError(429, "rate_limited", `Too many session requests, try again in ${resetSeconds}s`));
+      return;
+    }
+    next();
+  };
+}
@@ -9,7 +9,7 @@ import NGFlagIcon from "./icons/NGFlag";
 export default function App() {
   const [loading, setLoading] = useState(false);
   const cr = usePaymentSession({
-    session_url: "http://localhost:4000/session",
+    session_url: "http://localhost:4000/session?orderId=ORDER-1042",
   });
 
   return (
@@ -0,0 +1,40 @@
+import type { ErrorRequestHandler, Request, RequestHandler } from "express";
+import { toErrorResponse } from "../errors";
+import { SessionIssuer } from "../issuer";
+
+export interface ExpressSessionOptions {
+  /**
+   * Builds the session request from the HTTP request. Defaults to the query
+   * string merged with the JSON body; pass your own to look the amount up
+   * server-side (from an order, a cart...) instead of trusting the client.
+   */
+  resolve?: (req: Request) => unknown | Promise<unknown>;
+}
+
+/**
+ * `app.get("/session", sessionHandler(issuer))` or `app.post(...)`: responds
+ * with the session, or with `{ "error": {...} }` and the matching status.
+ */
+export function sessionHandler(issuer: SessionIssuer, options: ExpressSessionOptions = {}): RequestHandler {
+  const resolve = options.resolve ?? ((req: Request) => ({ ...req.query, ...(req.body ?? {}) }));
+
+  return async (req, res) => {
+    try {
+      res.json(await issuer.issue(await resolve(req)));
+    } catch (error) {
+      const { status, body } = toErrorResponse(error);
+      if (status >= 500) console.error(error);
+      res.status(status).json(body);
+    }
+  };
+}
+
+/**
+ * Sends errors passed to `next()` (e.g. by a rate limiter or a 404 fallback)
+ * in the same shape as session errors. Register it last.
+ */
+export const sessionErrorHandler: ErrorRequestHandler = (error, _req, res, _next) => {
+  const { status, body } = toErrorResponse(error);
+  if (status >= 500) console.error(error);
+  res.status(status).json(body);
+};
@@ -0,0 +1,43 @@
+import { Body, Controller, DynamicModule, HttpCode, HttpException, Inject, Module, Post } from "@nestjs/common";
+import { toErrorResponse } from "../errors";
+import { createSessionIssuer, SessionIssuer, SessionIssuerOptions } from "../issuer";
+
+export const SESSION_ISSUER = Symbol("SESSION_ISSUER");
+
+export interface SessionModuleOptions extends SessionIssuerOptions {
+  /** Route of the POST endpoint, `create-session` by default */
+  path?: string;
+}
+
+/**
+ * POST /create-session (or `path`) with `{ amount, recipient, destinationChain, token }`.
+ *
+ * Inject SESSION_ISSUER to issue sessions from your own controllers instead.
+ */
+@Module({})
+export class SessionModule {
+  static register({ path = "create-session", ...options }: SessionModuleOptions): DynamicModule {
+    @Controller(path)
+    class SessionController {
+      constructor(@Inject(SESSION_ISSUER) private readonly issuer: SessionIssuer) {}
+
+      @Post()
+      @HttpCode(200)
+      async create(@Body() body: unknown) {
+        try {
+          return await this.issuer.issue(body);
+        } catch (error) {
+          const { status, body } = toErrorResponse(error);
+          throw new HttpException(body, status);
+        }
+      }
+    }
+
+    return {
+      module: SessionModule,
+      controllers: [SessionController],
+      providers: [{ provide: SESSION_ISSUER, useValue: createSessionIssuer(options) }],
+      exports: [SESSION_ISSUER],
+    };
+  }
+}
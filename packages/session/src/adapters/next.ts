@@ -0,0 +1,46 @@
+import { toErrorResponse } from "../errors";
+import { SessionIssuer } from "../issuer";
+
+export interface RouteSessionOptions {
+  /**
+   * Builds the session request from the HTTP request. Defaults to the JSON
+   * body for POST and the query string otherwise.
+   */
+  resolve?: (request: Request) => unknown | Promise<unknown>;
+}
+
+async function defaultResolve(request: Request): Promise<unknown> {
+  if (request.method === "GET" || request.method === "HEAD") {
+    return Object.fromEntries(new URL(request.url).searchParams);
+  }
+  try {
+    return await request.json();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * A Next.js route handler (or any Fetch API handler):
+ *
+ * ```ts
+ * // app/api/create-session/route.ts
+ * export const POST = createSessionRoute(sessionIssuerFromEnv());
+ * ```
+ */
+export function createSessionRoute(
+  issuer: SessionIssuer,
+  options: RouteSessionOptions = {},
+): (request: Request) => Promise<Response> {
+  const resolve = options.resolve ?? defaultResolve;
+
+  return async (request) => {
+    try {
+      return Response.json(await issuer.issue(await resolve(request)));
+    } catch (error) {
+      const { status, body } = toErrorResponse(error);
+      if (status >= 500) console.error(error);
+      return Response.json(body, { status });
+    }
+  };
+}
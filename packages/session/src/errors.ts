@@ -0,0 +1,67 @@
+/**
+ * One problem with a session request, e.g.
+ * `{ field: "amount", message: "amount must be a decimal string like \"9.89\"" }`
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * What every adapter sends back when a session can't be issued:
+ *
+ * ```json
+ * { "error": { "code": "invalid_request", "message": "...", "details": [...] } }
+ * ```
+ */
+export interface ErrorBody {
+  error: {
+    code: string;
+    message: string;
+    details?: FieldError[];
+  };
+}
+
+/**
+ * An error the client gets to see, with its HTTP status and a stable `code`.
+ *
+ * Backends can throw it from their own request handling too (an order lookup,
+ * a rate limit...) to get the same error shape as validation failures.
+ */
+export class SessionError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: FieldError[];
+
+  constructor(status: number, code: string, message: string, details?: FieldError[]) {
+    super(message);
+    this.name = "SessionError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * The status and body to send for any error. Anything that isn't a
+ * SessionError is reported as a bare 500, so SDK or server details never
+ * reach the browser.
+ */
+export function toErrorResponse(error: unknown): { status: number; body: ErrorBody } {
+  if (error instanceof SessionError) {
+    return {
+      status: error.status,
+      body: {
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.details?.length ? { details: error.details } : {}),
+        },
+      },
+    };
+  }
+  return {
+    status: 500,
+    body: { error: { code: "internal_error", message: "Something went wrong" } },
+  };
+}
@@ -0,0 +1,17 @@
+export { ErrorBody, FieldError, SessionError, toErrorResponse } from "./errors";
+export {
+  createSessionIssuer,
+  IssuedSession,
+  SessionIssuer,
+  SessionIssuerOptions,
+  sessionIssuerFromEnv,
+} from "./issuer";
+export {
+  Chain,
+  CHAINS,
+  SessionPolicy,
+  SessionRequest,
+  Token,
+  TOKENS,
+  validateSessionRequest,
+} from "./validation";
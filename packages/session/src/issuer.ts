@@ -0,0 +1,118 @@
+import { Chainrails, crapi } from "@chainrails/sdk";
+import { SessionError } from "./errors";
+import { Chain, CHAINS, DECIMAL, SessionPolicy, SessionRequest, Token, TOKENS, validateSessionRequest } from "./validation";
+
+/** What the payment modal needs, as returned by Chainrails */
+export interface IssuedSession {
+  sessionToken: string;
+  amount: string;
+  [key: string]: unknown;
+}
+
+export interface SessionIssuerOptions extends SessionPolicy {
+  apiKey: string;
+  env?: "production" | "staging";
+  /**
+   * Creates the session once the request is valid. Defaults to the SDK's
+   * `crapi.auth.getSessionToken`; replace it to call another service or in tests.
+   */
+  createSession?: (request: SessionRequest) => Promise<IssuedSession>;
+}
+
+export interface SessionIssuer {
+  readonly policy: SessionPolicy;
+  /** Validates `input` against the policy and creates the session */
+  issue(input: unknown): Promise<IssuedSession>;
+}
+
+/**
+ * The one place sessions are created. Adapters turn HTTP requests into
+ * `issue()` calls and SessionErrors into `{ "error": {...} }` responses.
+ *
+ * The SDK is configured once, on the first session, so importing a route that
+ * builds an issuer doesn't need the API key (e.g. during `next build`).
+ */
+export function createSessionIssuer(options: SessionIssuerOptions): SessionIssuer {
+  const { apiKey, env, createSession, ...policy } = options;
+  let configured = false;
+
+  const defaultCreateSession = async (request: SessionRequest): Promise<IssuedSession> => {
+    if (!configured) {
+      if (!apiKey) {
+        throw new Error("CHAINRAILS_API_KEY is not set");
+      }
+      Chainrails.config({ api_key: apiKey, ...(env ? { env } : {}) });
+      configured = true;
+    }
+    return crapi.auth.getSessionToken(request);
+  };
+
+  return {
+    policy,
+    async issue(input) {
+      const request = validateSessionRequest(input, policy);
+      let session: IssuedSession;
+      try {
+        session = await (createSession ?? defaultCreateSession)(request);
+      } catch (error) {
+        console.error("❌ Session creation failed:", error);
+        throw new SessionError(502, "session_failed", "Could not create a payment session, try again");
+      }
+      if (!session?.sessionToken) {
+        console.error("❌ Session creation returned no sessionToken:", session);
+        throw new SessionError(502, "session_failed", "Could not create a payment session, try again");
+      }
+      return session;
+    },
+  };
+}
+
+/**
+ * An issuer configured from environment variables:
+ *
+ * - `CHAINRAILS_API_KEY`, `CHAINRAILS_ENV` (production or staging)
+ * - `SESSION_ALLOWED_CHAINS`, `SESSION_ALLOWED_TOKENS`, `SESSION_ALLOWED_RECIPIENTS` (comma-separated)
+ * - `SESSION_MIN_AMOUNT`, `SESSION_MAX_AMOUNT`
+ * - `SESSION_ALLOW_OPEN_AMOUNT` (`true` to accept an amount of "0")
+ *
+ * `overrides` win over the environment.
+ */
+export function sessionIssuerFromEnv(
+  overrides: Partial<SessionIssuerOptions> = {},
+  env: Record<string, string | undefined> = process.env,
+): SessionIssuer {
+  const list = (name: string) =>
+    env[name]
+      ?.split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+  const allowedChains = list("SESSION_ALLOWED_CHAINS");
+  const unknownChains = allowedChains?.filter((chain) => !CHAINS.includes(chain as Chain));
+  if (unknownChains?.length) {
+    throw new Error(`SESSION_ALLOWED_CHAINS has unknown chains: ${unknownChains.join(", ")}`);
+  }
+  const allowedTokens = list("SESSION_ALLOWED_TOKENS");
+  const unknownTokens = allowedTokens?.filter((token) => !(token in TOKENS));
+  if (unknownTokens?.length) {
+    throw new Error(`SESSION_ALLOWED_TOKENS has unknown tokens: ${unknownTokens.join(", ")}`);
+  }
+  for (const name of ["SESSION_MIN_AMOUNT", "SESSION_MAX_AMOUNT"]) {
+    const value = env[name];
+    if (value && !DECIMAL.test(value)) {
+      throw new Error(`${name} must be a decimal amount like "100", not "${value}"`);
+    }
+  }
+
+  return createSessionIssuer({
+    apiKey: env.CHAINRAILS_API_KEY ?? "",
+    env: env.CHAINRAILS_ENV === "staging" ? "staging" : env.CHAINRAILS_ENV === "production" ? "production" : undefined,
+    allowedChains: allowedChains as Chain[] | undefined,
+    allowedTokens: allowedTokens as Token[] | undefined,
+    allowedRecipients: list("SESSION_ALLOWED_RECIPIENTS"),
+    minAmount: env.SESSION_MIN_AMOUNT || undefined,
+    maxAmount: env.SESSION_MAX_AMOUNT || undefined,
+    allowOpenAmount: env.SESSION_ALLOW_OPEN_AMOUNT === "true",
+    ...overrides,
+  });
+}
@@ -0,0 +1,144 @@
+import { SessionError } from "./errors";
+import { SessionPolicy, validateSessionRequest } from "./validation";
+
+const RECIPIENT = "0xda3ecb2e5362295e2b802669dd47127a61d9ce54";
+const STARKNET_RECIPIENT = "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+
+const valid = {
+  amount: "9.89",
+  recipient: RECIPIENT,
+  destinationChain: "BASE",
+  token: "USDC",
+};
+
+/** The field errors validating `input` throws */
+function errorsFor(input: unknown, policy?: SessionPolicy) {
+  try {
+    validateSessionRequest(input, policy);
+  } catch (error) {
+    expect(error).toBeInstanceOf(SessionError);
+    expect(error).toMatchObject({ status: 400, code: "invalid_request" });
+    return (error as SessionError).details ?? [];
+  }
+  throw new Error("Expected the request to be rejected");
+}
+
+describe("validateSessionRequest", () => {
+  it("returns the session request, without extra fields", () => {
+    expect(validateSessionRequest({ ...valid, orderId: "ORDER-1042" })).toEqual(valid);
+  });
+
+  it("lists every problem at once", () => {
+    expect(errorsFor(undefined).map((error) => error.field)).toEqual([
+      "destinationChain",
+      "token",
+      "recipient",
+      "amount",
+    ]);
+  });
+
+  describe("destinationChain", () => {
+    it.each([undefined, 8453, "BASE_MAINNET", "base"])("rejects %p", (destinationChain) => {
+      expect(errorsFor({ ...valid, destinationChain })).toEqual([
+        { field: "destinationChain", message: expect.stringContaining("must be one of") },
+      ]);
+    });
+
+    it("rejects chains the policy doesn't allow", () => {
+      const policy: SessionPolicy = { allowedChains: ["BASE_TESTNET"] };
+
+      expect(errorsFor(valid, policy)).toEqual([
+        { field: "destinationChain", message: "Sessions can't settle on BASE" },
+      ]);
+      expect(validateSessionRequest({ ...valid, destinationChain: "BASE_TESTNET" }, policy).destinationChain).toBe(
+        "BASE_TESTNET",
+      );
+    });
+  });
+
+  describe("token", () => {
+    it.each([undefined, "USDT", "usdc"])("rejects %p", (token) => {
+      expect(errorsFor({ ...valid, token })).toEqual([
+        { field: "token", message: "token must be one of USDC" },
+      ]);
+    });
+
+    it("rejects tokens the policy doesn't allow", () => {
+      expect(errorsFor(valid, { allowedTokens: [] })).toEqual([
+        { field: "token", message: "Sessions can't be priced in USDC" },
+      ]);
+    });
+  });
+
+  describe("recipient", () => {
+    it.each([undefined, "da3ecb2e5362295e2b802669dd47127a61d9ce54", `${RECIPIENT}00`, STARKNET_RECIPIENT])(
+      "rejects %p on EVM chains",
+      (recipient) => {
+        expect(errorsFor({ ...valid, recipient })).toEqual([
+          { field: "recipient", message: "recipient must be a 0x-prefixed 20-byte address" },
+        ]);
+      },
+    );
+
+    it("accepts Starknet addresses on Starknet chains only", () => {
+      const starknet = { ...valid, destinationChain: "STARKNET", recipient: STARKNET_RECIPIENT };
+
+      expect(validateSessionRequest(starknet).recipient).toBe(STARKNET_RECIPIENT);
+      expect(errorsFor({ ...starknet, recipient: "0x" })).toEqual([
+        { field: "recipient", message: "recipient must be a Starknet address" },
+      ]);
+    });
+
+    it("only allows the policy's recipients, ignoring case", () => {
+      const policy: SessionPolicy = { allowedRecipients: [RECIPIENT.toUpperCase().replace("0X", "0x")] };
+
+      expect(validateSessionRequest(valid, policy).recipient).toBe(RECIPIENT);
+      expect(errorsFor({ ...valid, recipient: "0x1111111111111111111111111111111111111111" }, policy)).toEqual([
+        { field: "recipient", message: "Sessions can't pay 0x1111111111111111111111111111111111111111" },
+      ]);
+    });
+  });
+
+  describe("amount", () => {
+    it.each([undefined, 9.89, "", "-1", "1e6", "9.", ".5", "9,89"])("rejects %p", (amount) => {
+      expect(errorsFor({ ...valid, amount })).toEqual([
+        { field: "amount", message: 'amount must be a decimal string like "9.89"' },
+      ]);
+    });
+
+    it("rejects more decimal places than the token has", () => {
+      expect(errorsFor({ ...valid, amount: "0.0000001" })).toEqual([
+        { field: "amount", message: "amount has more than 6 decimal places" },
+      ]);
+      expect(validateSessionRequest({ ...valid, amount: "0.000001" }).amount).toBe("0.000001");
+    });
+
+    it.each(["0", "0.000000"])("rejects %p", (amount) => {
+      expect(errorsFor({ ...valid, amount })).toEqual([
+        { field: "amount", message: "amount must be greater than 0" },
+      ]);
+    });
+
+    it('accepts "0" for the payer to choose when the policy allows open amounts', () => {
+      const policy: SessionPolicy = { allowOpenAmount: true, minAmount: "1" };
+
+      expect(validateSessionRequest({ ...valid, amount: "0" }, policy).amount).toBe("0");
+      expect(errorsFor({ ...valid, amount: "0.5" }, policy)).toEqual([
+        { field: "amount", message: "amount must be at least 1" },
+      ]);
+    });
+
+    it("keeps amounts within the policy's bounds, inclusive", () => {
+      const policy: SessionPolicy = { minAmount: "1", maxAmount: "1000" };
+
+      expect(errorsFor({ ...valid, amount: "0.999999" }, policy)).toEqual([
+        { field: "amount", message: "amount must be at least 1" },
+      ]);
+      expect(errorsFor({ ...valid, amount: "1000.01" }, policy)).toEqual([
+        { field: "amount", message: "amount must be at most 1000" },
+      ]);
+      expect(validateSessionRequest({ ...valid, amount: "1" }, policy).amount).toBe("1");
+      expect(validateSessionRequest({ ...valid, amount: "1000.000000" }, policy).amount).toBe("1000.000000");
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { FieldError, SessionError } from "./errors";
+
+/** Destination chains the payment modal can settle on */
+export const CHAINS = [
+  "ARBITRUM",
+  "ARBITRUM_TESTNET",
+  "AVALANCHE",
+  "AVALANCHE_TESTNET",
+  "BASE",
+  "BASE_TESTNET",
+  "BSC",
+  "ETHEREUM",
+  "ETHEREUM_TESTNET",
+  "HYPEREVM",
+  "LISK",
+  "MONAD",
+  "MONAD_TESTNET",
+  "OPTIMISM",
+  "OPTIMISM_TESTNET",
+  "POLYGON",
+  "STARKNET",
+  "STARKNET_TESTNET",
+] as const;
+
+export type Chain = (typeof CHAINS)[number];
+
+/** Tokens sessions can be priced in, with their decimals */
+export const TOKENS = {
+  USDC: { decimals: 6 },
+} as const;
+
+export type Token = keyof typeof TOKENS;
+
+/**
+ * What a session collects: `amount` of `token` to `recipient` on `destinationChain`
+ */
+export interface SessionRequest {
+  /** Human-readable, e.g. "9.89" for 9.89 USDC */
+  amount: string;
+  recipient: string;
+  destinationChain: Chain;
+  token: Token;
+}
+
+/**
+ * What a backend is willing to issue sessions for. Everything left out is
+ * allowed; narrow it down so a tampered request can't send money elsewhere.
+ */
+export interface SessionPolicy {
+  allowedChains?: Chain[];
+  allowedTokens?: Token[];
+  /** Only these recipients (compared case-insensitively) */
+  allowedRecipients?: string[];
+  /** Inclusive bounds, human-readable like `amount` */
+  minAmount?: string;
+  maxAmount?: string;
+  /**
+   * Accept an amount of "0": an open session, where the payer enters the
+   * amount in the modal. minAmount and maxAmount can't bound what they enter.
+   */
+  allowOpenAmount?: boolean;
+}
+
+/** A non-negative decimal string, like "9.89" */
+export const DECIMAL = /^\d+(\.\d+)?$/;
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const STARKNET_ADDRESS = /^0x[0-9a-fA-F]{1,64}$/;
+
+/**
+ * Checks a request body (or query) against the policy and returns the
+ * session request, or throws a 400 SessionError listing every problem.
+ */
+export function validateSessionRequest(input: unknown, policy: SessionPolicy = {}): SessionRequest {
+  const body = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const allowedChains = policy.allowedChains ?? CHAINS;
+  const allowedTokens = policy.allowedTokens ?? (Object.keys(TOKENS) as Token[]);
+
+  const { destinationChain, token, recipient, amount } = body;
+
+  if (typeof destinationChain !== "string" || !CHAINS.includes(destinationChain as Chain)) {
+    errors.push({ field: "destinationChain", message: `destinationChain must be one of ${CHAINS.join(", ")}` });
+  } else if (!allowedChains.includes(destinationChain as Chain)) {
+    errors.push({ field: "destinationChain", message: `Sessions can't settle on ${destinationChain}` });
+  }
+
+  if (typeof token !== "string" || !(token in TOKENS)) {
+    errors.push({ field: "token", message: `token must be one of ${Object.keys(TOKENS).join(", ")}` });
+  } else if (!allowedTokens.includes(token as Token)) {
+    errors.push({ field: "token", message: `Sessions can't be priced in ${token}` });
+  }
+
+  const addressFormat = String(destinationChain).startsWith("STARKNET") ? STARKNET_ADDRESS : EVM_ADDRESS;
+  if (typeof recipient !== "string" || !addressFormat.test(recipient)) {
+    errors.push({ field: "recipient", message: `recipient must be a ${addressFormat === EVM_ADDRESS ? "0x-prefixed 20-byte" : "Starknet"} address` });
+  } else if (
+    policy.allowedRecipients &&
+    !policy.allowedRecipients.some((allowed) => allowed.toLowerCase() === recipient.toLowerCase())
+  ) {
+    errors.push({ field: "recipient", message: `Sessions can't pay ${recipient}` });
+  }
+
+  const decimals = TOKENS[token as Token]?.decimals ?? 6;
+  if (typeof amount !== "string" || !DECIMAL.test(amount)) {
+    errors.push({ field: "amount", message: 'amount must be a decimal string like "9.89"' });
+  } else if ((amount.split(".")[1]?.length ?? 0) > decimals) {
+    errors.push({ field: "amount", message: `amount has more than ${decimals} decimal places` });
+  } else {
+    const value = toUnits(amount, decimals);
+    if (value === 0n) {
+      if (!policy.allowOpenAmount) {
+        errors.push({ field: "amount", message: "amount must be greater than 0" });
+      }
+    } else if (policy.minAmount && value < toUnits(policy.minAmount, decimals)) {
+      errors.push({ field: "amount", message: `amount must be at least ${policy.minAmount}` });
+    } else if (policy.maxAmount && value > toUnits(policy.maxAmount, decimals)) {
+      errors.push({ field: "amount", message: `amount must be at most ${policy.maxAmount}` });
+    }
+  }
+
+  if (errors.length) {
+    throw new SessionError(400, "invalid_request", "The session request is invalid", errors);
+  }
+  return {
+    amount: amount as string,
+    recipient: recipient as string,
+    destinationChain: destinationChain as Chain,
+    token: token as Token,
+  };
+}
+
+/** "9.89" with 6 decimals → 9890000n */
+function toUnits(value: string, decimals: number): bigint {
+  const [whole, fraction = ""] = value.split(".");
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, "0"));
+}
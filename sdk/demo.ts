@@ -1,12 +1,13 @@
 import "dotenv/config";
 import express, { Request, Response } from "express";
-import { createHmac } from "crypto";
+import { createHmac, timingSafeEqual } from "crypto";
 import { crapi, Chainrails } from "@chainrails/sdk";
+import { createWebhookEventStore, toWebhookEvent } from "./webhook-store.js";
 
 declare const process: any;
 
-// In-memory webhook events storage (intent_address -> events[])
-const webhookEvents = new Map<string, any[]>();
+// Webhook events storage (SQLite by default, see webhook-store.ts)
+const webhookEvents = createWebhookEventStore();
 
 async function start() {
   // Configure SDK
@@ -15,8 +16,28 @@ async function start() {
     env: (process.env.CHAINRAILS_ENV as any) || "production",
   });
 
+  // The SDK only knows the hosted APIs. CHAINRAILS_API_URL points it somewhere
+  // else, e.g. the local simulator (see api/src/simulator): http://localhost:4010/api/v1
+  // There's no option for it, so this replaces the SDK's internal
+  // Chainrails.getBaseUrl, and stops if an SDK upgrade removed it
+  if (process.env.CHAINRAILS_API_URL) {
+    if (typeof (Chainrails as any).getBaseUrl !== "function") {
+      throw new Error(
+        "CHAINRAILS_API_URL is set, but this @chainrails/sdk has no Chainrails.getBaseUrl to override. Unset it, or install an SDK version that has it"
+      );
+    }
+    (Chainrails as any).getBaseUrl = () => process.env.CHAINRAILS_API_URL;
+  }
+
   const app = express();
-  app.use(express.json());
+  // Keep the raw bytes: webhook signatures are computed over the body exactly as sent
+  app.use(
+    express.json({
+      verify: (req: any, _res, buf) => {
+        req.rawBody = buf;
+      },
+    })
+  );
 
   // POST /app/options — multi-source transfer options
   app.post("/app/options", async (req: Request, res: Response) => {
@@ -74,11 +95,6 @@ async function start() {
         metadata: { ...(metadata || {}), createdVia: "sdk-demo-express" },
       } as any);
 
-      // initialize webhook storage for this intent
-      if (intent?.intent_address) {
-        webhookEvents.set(intent.intent_address, []);
-      }
-
       return res.json({
         intent,
         fundingInstructions: {
@@ -103,7 +119,7 @@ async function start() {
     const id = parseInt(req.params.id, 10);
     try {
       const intent = await crapi.intents.getById(String(id));
-      const events = webhookEvents.get(intent.intent_address) || [];
+      const events = await webhookEvents.find({ intentAddress: intent.intent_address });
 
       const stages: Record<string, string> = {
         PENDING: "Waiting for funding",
@@ -133,46 +149,58 @@ async function start() {
   app.post("/app/webhook", async (req: Request, res: Response) => {
     const payload = req.body;
     const signature = req.headers["x-chainrails-signature"] as string | undefined;
-    const timestampHeader = req.headers["x-chainrails-timestamp"] as string | undefined;
-    const timestamp = timestampHeader ? parseInt(timestampHeader, 10) : Math.floor(Date.now() / 1000);
+    const timestamp = req.headers["x-chainrails-timestamp"] as string | undefined;
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+
+    // Verify signature. Several comma-separated secrets may be active while rotating.
+    const secrets = (process.env.CHAINRAILS_WEBHOOK_SECRET || "")
+      .split(",")
+      .map((s: string) => s.trim())
+      .filter(Boolean);
+    const strict = process.env.CHAINRAILS_WEBHOOK_STRICT
+      ? process.env.CHAINRAILS_WEBHOOK_STRICT === "true"
+      : process.env.NODE_ENV !== "development";
+
+    if (secrets.length) {
+      if (!signature || !timestamp || !rawBody) {
+        return res.status(401).json({ error: "Missing signature" });
+      }
 
-    // Verify signature
-    const webhookSecret = process.env.CHAINRAILS_WEBHOOK_SECRET;
-    if (webhookSecret) {
       const now = Math.floor(Date.now() / 1000);
-      if (Math.abs(now - timestamp) > 300) {
-        return res.status(400).json({ error: "Invalid timestamp" });
+      if (!/^\d+$/.test(timestamp) || Math.abs(now - Number(timestamp)) > 300) {
+        return res.status(401).json({ error: "Invalid timestamp" });
       }
 
-      const body = JSON.stringify(payload);
-      const message = `${timestamp}.${body}`;
-      const hmac = createHmac("sha256", webhookSecret);
-      hmac.update(message);
-      const computed = `sha256=${hmac.digest("hex")}`;
+      const received = Buffer.from(signature);
+      const valid = secrets.some((secret: string) => {
+        const hmac = createHmac("sha256", secret);
+        hmac.update(`${timestamp}.`);
+        hmac.update(rawBody);
+        const expected = Buffer.from(`sha256=${hmac.digest("hex")}`);
+        return expected.length === received.length && timingSafeEqual(expected, received);
+      });
 
-      if (computed !== signature) {
+      if (!valid) {
         console.warn("Invalid webhook signature");
         return res.status(401).json({ error: "Invalid signature" });
       }
+    } else if (strict) {
+      console.warn("CHAINRAILS_WEBHOOK_SECRET not set and strict mode is on — rejecting webhook");
+      return res.status(401).json({ error: "Webhook signing secret is not configured" });
     } else {
       console.warn("CHAINRAILS_WEBHOOK_SECRET not set — skipping verification (dev only)");
     }
 
     // store event
-    const intentAddress = payload?.data?.intent_address;
-    if (intentAddress) {
-      const arr = webhookEvents.get(intentAddress) || [];
-      arr.push({
-        id: payload.id,
-        type: payload.type,
-        created_at: payload.created_at,
-        data: payload.data,
-        receivedAt: new Date().toISOString(),
-      });
-      webhookEvents.set(intentAddress, arr);
+    const event = toWebhookEvent(payload);
+    try {
+      await webhookEvents.save(event);
+    } catch (err) {
+      console.warn("storing webhook event failed", (err as any)?.message ?? err);
+      return res.status(500).json({ error: "Failed to store webhook event" });
     }
 
-    return res.json({ received: true, eventId: payload.id, eventType: payload.type, intentAddress });
+    return res.json({ received: true, eventId: event.id, eventType: event.type, intentAddress: event.intentAddress });
   });
 
   const port = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
@@ -0,0 +1,160 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+// A received webhook event, with the intent address/id lifted out of `data`
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  intentAddress?: string;
+  intentId?: number;
+  createdAt: string;
+  receivedAt: string;
+  data: Record<string, any>;
+}
+
+// All given filters must match; `from`/`to` bound createdAt (ISO-8601, inclusive)
+export interface WebhookEventQuery {
+  intentAddress?: string;
+  intentId?: number;
+  type?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface WebhookEventStore {
+  save(event: WebhookEvent): Promise<void>;
+  find(query: WebhookEventQuery): Promise<WebhookEvent[]>;
+}
+
+export function toWebhookEvent(payload: any, receivedAt = new Date()): WebhookEvent {
+  const data = payload?.data ?? {};
+  const intentId = Number(data.intent_id ?? data.id);
+  return {
+    id: String(payload.id),
+    type: String(payload.type),
+    intentAddress: data.intent_address || undefined,
+    intentId: Number.isInteger(intentId) ? intentId : undefined,
+    createdAt: payload.created_at ? new Date(payload.created_at).toISOString() : receivedAt.toISOString(),
+    receivedAt: receivedAt.toISOString(),
+    data,
+  };
+}
+
+// Lost on restart, not shared between processes — fine for a quick try-out
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  private events = new Map<string, WebhookEvent>();
+
+  async save(event: WebhookEvent) {
+    this.events.set(event.id, event);
+  }
+
+  async find(query: WebhookEventQuery) {
+    return [...this.events.values()]
+      .filter(
+        (e) =>
+          (query.intentAddress === undefined ||
+            e.intentAddress?.toLowerCase() === query.intentAddress.toLowerCase()) &&
+          (query.intentId === undefined || e.intentId === query.intentId) &&
+          (query.type === undefined || e.type === query.type) &&
+          (query.from === undefined || e.createdAt >= query.from) &&
+          (query.to === undefined || e.createdAt <= query.to)
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
+
+// Persisted in a SQLite file (same table layout as the Nest API in ../api)
+export class SqliteWebhookEventStore implements WebhookEventStore {
+  constructor(private db: Database.Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        intent_address TEXT,
+        intent_id INTEGER,
+        created_at TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS webhook_events_intent_address ON webhook_events (lower(intent_address), created_at);
+      CREATE INDEX IF NOT EXISTS webhook_events_intent_id ON webhook_events (intent_id, created_at);
+    `);
+  }
+
+  async save(event: WebhookEvent) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO webhook_events (id, type, intent_address, intent_id, created_at, received_at, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.id,
+        event.type,
+        event.intentAddress ?? null,
+        event.intentId ?? null,
+        event.createdAt,
+        event.receivedAt,
+        JSON.stringify(event.data ?? {})
+      );
+  }
+
+  async find(query: WebhookEventQuery) {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (query.intentAddress !== undefined) {
+      conditions.push("lower(intent_address) = ?");
+      params.push(query.intentAddress.toLowerCase());
+    }
+    if (query.intentId !== undefined) {
+      conditions.push("intent_id = ?");
+      params.push(query.intentId);
+    }
+    if (query.type !== undefined) {
+      conditions.push("type = ?");
+      params.push(query.type);
+    }
+    if (query.from !== undefined) {
+      conditions.push("created_at >= ?");
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push("created_at <= ?");
+      params.push(query.to);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM webhook_events ${where} ORDER BY created_at, received_at`)
+      .all(...params) as any[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      type: row.type,
+      intentAddress: row.intent_address ?? undefined,
+      intentId: row.intent_id ?? undefined,
+      createdAt: row.created_at,
+      receivedAt: row.received_at,
+      data: JSON.parse(row.data),
+    }));
+  }
+}
+
+// WEBHOOK_EVENT_STORE=sqlite (default) | memory; DATABASE_PATH picks the SQLite file
+export function createWebhookEventStore(): WebhookEventStore {
+  const kind = process.env.WEBHOOK_EVENT_STORE || "sqlite";
+  if (kind === "memory") {
+    return new InMemoryWebhookEventStore();
+  }
+  if (kind !== "sqlite") {
+    throw new Error(`Unknown WEBHOOK_EVENT_STORE "${kind}". Use "sqlite" or "memory".`);
+  }
+
+  const path = process.env.DATABASE_PATH || "data/sdk-demo.sqlite";
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  return new SqliteWebhookEventStore(db);
+}